@@ -8,10 +8,15 @@ import TaskList from './components/TaskList';
 import TaskSummary from './components/TaskSummary';
 import WorkspaceSelector from './components/WorkspaceSelector';
 import UserMenu from './components/UserMenu';
+import NotificationBell from './components/NotificationBell';
 import UniversalFilter from './components/UniversalFilter';
+import TaskSearch from './components/TaskSearch';
+import TrashModal from './components/TrashModal';
+import TimesheetModal from './components/TimesheetModal';
+import { apiService } from './services/api';
 
-import { Download, ArrowUpDown, CheckCircle } from 'lucide-react';
-import { TaskFilters, ViewMode, Task } from './types';
+import { Download, ArrowUpDown, CheckCircle, Trash2, Timer } from 'lucide-react';
+import { TaskFilters, ViewMode, Task, SearchResult, AppNotification, EstimateUnit, WorkflowStatus } from './types';
 
 const API_BASE = process.env.REACT_APP_API_URL || 'http://localhost:3001/api';
 
@@ -27,8 +32,13 @@ function MainApp() {
   // Derive viewMode from filters.view - single source of truth
   const viewMode = filters.view || 'planner';
   const [currentTasks, setCurrentTasks] = useState<Task[]>([]);
-  const [workspaces, setWorkspaces] = useState<Array<{ id: number; name: string; access_level?: 'owner' | 'edit' | 'view'; other_users_count?: number }>>([]);
-  const taskListRef = useRef<{ sortTasks: () => void; getTasks: () => Task[] }>(null);
+  const [currentTaskTotal, setCurrentTaskTotal] = useState(0);
+  const [currentStatuses, setCurrentStatuses] = useState<WorkflowStatus[]>([]);
+  const [workspaces, setWorkspaces] = useState<Array<{ id: number; name: string; access_level?: 'owner' | 'edit' | 'view'; other_users_count?: number; estimate_unit?: EstimateUnit }>>([]);
+  const [focusTaskId, setFocusTaskId] = useState<number | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showTimesheet, setShowTimesheet] = useState(false);
+  const taskListRef = useRef<{ sortTasks: () => void; getTasks: () => Task[]; reloadTasks: () => void }>(null);
   const { user } = useAuth();
 
 
@@ -167,6 +177,46 @@ function MainApp() {
     setFilters(prev => ({ ...prev, workspace_id: workspaceId }));
   };
 
+  // Jump to a search result, switching workspace first if needed
+  const handleSearchSelect = (result: SearchResult) => {
+    if (result.workspace_id !== selectedWorkspaceId) {
+      handleWorkspaceChange(result.workspace_id);
+    }
+    setFocusTaskId(result.id);
+  };
+
+  // Open what a notification is about: its task, or the workspace whose access changed
+  const handleNotificationSelect = async (notification: AppNotification) => {
+    if (notification.type === 'workspace_access' || notification.type === 'workspace_ownership') {
+      await refreshWorkspaces();
+      if (notification.workspace_id && notification.data.change !== 'removed') {
+        handleWorkspaceChange(notification.workspace_id);
+      }
+      return;
+    }
+    if (notification.task_id && notification.workspace_id) {
+      if (notification.workspace_id !== selectedWorkspaceId) {
+        handleWorkspaceChange(notification.workspace_id);
+      }
+      setFocusTaskId(notification.task_id);
+    }
+  };
+
+  // Move or copy a task dropped onto another workspace in the selector
+  const handleTaskDrop = async (taskId: number, workspaceId: number, copy: boolean) => {
+    try {
+      if (copy) {
+        await apiService.copyTask(taskId, workspaceId);
+      } else {
+        await apiService.moveTask(taskId, workspaceId);
+        taskListRef.current?.reloadTasks();
+      }
+    } catch (error) {
+      console.error(`Error ${copy ? 'copying' : 'moving'} task:`, error);
+      window.alert(error instanceof Error ? error.message : `Failed to ${copy ? 'copy' : 'move'} task`);
+    }
+  };
+
   const refreshWorkspaces = async () => {
 
     try {
@@ -227,15 +277,18 @@ function MainApp() {
         <div className="mb-6">
           {/* Mobile Layout: Stack vertically */}
           <div className="sm:hidden">
-            {/* Top row: App name and user menu */}
+            {/* Top row: App name, notifications and user menu */}
             <div className="flex items-center justify-between mb-3">
               <h1 className="text-2xl font-bold text-gray-900">Tasket77</h1>
-              <UserMenu 
-                selectedWorkspaceId={selectedWorkspaceId}
-                workspaces={workspaces}
-                onWorkspaceChange={handleWorkspaceChange}
-                refreshWorkspaces={refreshWorkspaces}
-              />
+              <div className="flex items-center space-x-2">
+                <NotificationBell onSelect={handleNotificationSelect} />
+                <UserMenu 
+                  selectedWorkspaceId={selectedWorkspaceId}
+                  workspaces={workspaces}
+                  onWorkspaceChange={handleWorkspaceChange}
+                  refreshWorkspaces={refreshWorkspaces}
+                />
+              </div>
             </div>
             {/* Second row: Workspace selector */}
             <div className="mb-3">
@@ -244,8 +297,13 @@ function MainApp() {
                 onWorkspaceChange={handleWorkspaceChange}
                 workspaces={workspaces}
                 refreshWorkspaces={refreshWorkspaces}
+                onTaskDrop={handleTaskDrop}
               />
             </div>
+            {/* Third row: Search */}
+            <div className="mb-3">
+              <TaskSearch onSelect={handleSearchSelect} />
+            </div>
           </div>
 
           {/* Desktop Layout: Original horizontal layout */}
@@ -257,12 +315,15 @@ function MainApp() {
               </div>
               <div className="flex flex-col items-end space-y-2">
                 <div className="flex items-center space-x-4">
+                  <TaskSearch onSelect={handleSearchSelect} />
                   <WorkspaceSelector 
                     selectedWorkspaceId={selectedWorkspaceId}
                     onWorkspaceChange={handleWorkspaceChange}
                     workspaces={workspaces}
                     refreshWorkspaces={refreshWorkspaces}
+                    onTaskDrop={handleTaskDrop}
                   />
+                  <NotificationBell onSelect={handleNotificationSelect} />
                   <UserMenu 
                     selectedWorkspaceId={selectedWorkspaceId}
                     workspaces={workspaces}
@@ -271,7 +332,7 @@ function MainApp() {
                   />
                 </div>
                 {/* Task Summary - hidden on mobile */}
-                <TaskSummary tasks={currentTasks} />
+                <TaskSummary tasks={currentTasks} total={currentTaskTotal} statuses={currentStatuses} />
               </div>
             </div>
           </div>
@@ -348,6 +409,22 @@ function MainApp() {
                 >
                   <Download className="w-4 h-4" />
                 </button>
+                <button
+                  onClick={() => setShowTimesheet(true)}
+                  disabled={!selectedWorkspaceId}
+                  className="flex items-center justify-center w-10 h-10 text-gray-600 hover:text-gray-900 hover:bg-white rounded-md transition-colors disabled:opacity-50"
+                  title="Timesheet"
+                >
+                  <Timer className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setShowTrash(true)}
+                  disabled={!selectedWorkspaceId}
+                  className="flex items-center justify-center w-10 h-10 text-gray-600 hover:text-gray-900 hover:bg-white rounded-md transition-colors disabled:opacity-50"
+                  title="Trash"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
               </div>
             </div>
           </div>
@@ -418,6 +495,22 @@ function MainApp() {
                   >
                     <Download className="w-4 h-4" />
                   </button>
+                  <button
+                    onClick={() => setShowTimesheet(true)}
+                    disabled={!selectedWorkspaceId}
+                    className="flex items-center justify-center w-10 h-10 text-gray-600 hover:text-gray-900 hover:bg-white rounded-md transition-colors disabled:opacity-50"
+                    title="Timesheet"
+                  >
+                    <Timer className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setShowTrash(true)}
+                    disabled={!selectedWorkspaceId}
+                    className="flex items-center justify-center w-10 h-10 text-gray-600 hover:text-gray-900 hover:bg-white rounded-md transition-colors disabled:opacity-50"
+                    title="Trash"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
                 </div>
               </div>
             </div>
@@ -435,6 +528,10 @@ function MainApp() {
               onFiltersChange={handleFiltersChange}
               onSort={handleSort}
               onTasksChange={setCurrentTasks}
+              onTaskTotalChange={setCurrentTaskTotal}
+              onStatusesChange={setCurrentStatuses}
+              focusTaskId={focusTaskId}
+              onFocusTaskHandled={() => setFocusTaskId(null)}
             />
           </div>
         ) : selectedWorkspaceId ? (
@@ -446,6 +543,22 @@ function MainApp() {
             <p className="text-gray-500">No workspace selected. Please create or select a workspace to get started.</p>
           </div>
         )}
+        {showTrash && selectedWorkspaceId && (
+          <TrashModal
+            workspaceId={selectedWorkspaceId}
+            workspaceName={workspaces.find(w => w.id === selectedWorkspaceId)?.name}
+            canEdit={['owner', 'edit'].includes(workspaces.find(w => w.id === selectedWorkspaceId)?.access_level || '')}
+            onClose={() => setShowTrash(false)}
+            onTasksRestored={() => taskListRef.current?.reloadTasks()}
+          />
+        )}
+        {showTimesheet && selectedWorkspaceId && (
+          <TimesheetModal
+            workspaceId={selectedWorkspaceId}
+            workspaceName={workspaces.find(w => w.id === selectedWorkspaceId)?.name}
+            onClose={() => setShowTimesheet(false)}
+          />
+        )}
         {/* Instructions */}
         <div className="mt-6 p-3 md:p-4 bg-blue-50 rounded-lg">
           <h3 className="font-medium text-blue-900 mb-2 text-sm md:text-base">Quick Tips:</h3>
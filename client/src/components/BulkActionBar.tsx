@@ -0,0 +1,127 @@
+import React from 'react';
+import { Task, Category, BulkTaskChanges, WorkflowStatus } from '../types';
+import { X, Trash2, Calendar } from 'lucide-react';
+import DatePicker from './DatePicker';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  categories: Category[];
+  statuses: WorkflowStatus[];
+  workspaceUsers: Array<{ user_id: number; name: string; email: string }>;
+  onApply: (changes: BulkTaskChanges) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const selectClassName = "px-2 py-1 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ selectedCount, categories, statuses, workspaceUsers, onApply, onDelete, onClear }) => {
+  // Each control applies its change right away and then resets to its placeholder
+  return (
+    <div className="sticky top-0 z-20 flex flex-wrap items-center gap-2 px-3 py-2 bg-blue-50 border-b border-blue-200">
+      <span className="text-sm font-medium text-blue-900 mr-1">
+        {selectedCount} selected
+      </span>
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && onApply({ status: e.target.value })}
+        className={selectClassName}
+        title="Set status"
+      >
+        <option value="">Status...</option>
+        {statuses.map(status => (
+          <option key={status.key} value={status.key}>{status.name}</option>
+        ))}
+      </select>
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && onApply({ priority: e.target.value as Task['priority'] })}
+        className={selectClassName}
+        title="Set priority"
+      >
+        <option value="">Priority...</option>
+        <option value="urgent">Urgent</option>
+        <option value="high">High</option>
+        <option value="normal">Normal</option>
+        <option value="low">Low</option>
+      </select>
+
+      <select
+        value=""
+        onChange={(e) => {
+          if (!e.target.value) return;
+          onApply({ category_id: e.target.value === 'none' ? null : parseInt(e.target.value, 10) });
+        }}
+        className={selectClassName}
+        title="Set category"
+      >
+        <option value="">Category...</option>
+        <option value="none">No category</option>
+        {categories.filter(category => !category.hidden).map(category => (
+          <option key={category.id} value={category.id}>{category.name}</option>
+        ))}
+      </select>
+
+      {workspaceUsers.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => {
+            const [mode, userId] = e.target.value.split(':');
+            if (!userId) return;
+            onApply(mode === 'add'
+              ? { add_assignee_ids: [parseInt(userId, 10)] }
+              : { remove_assignee_ids: [parseInt(userId, 10)] });
+          }}
+          className={selectClassName}
+          title="Assign or unassign"
+        >
+          <option value="">Assignee...</option>
+          <optgroup label="Assign">
+            {workspaceUsers.map(user => (
+              <option key={`add-${user.user_id}`} value={`add:${user.user_id}`}>{user.name}</option>
+            ))}
+          </optgroup>
+          <optgroup label="Unassign">
+            {workspaceUsers.map(user => (
+              <option key={`remove-${user.user_id}`} value={`remove:${user.user_id}`}>{user.name}</option>
+            ))}
+          </optgroup>
+        </select>
+      )}
+
+      <DatePicker
+        value={undefined}
+        onChange={(date: string | null) => onApply({ due_date: date })}
+        showClearButton={false}
+      >
+        <div className="flex items-center gap-1 px-2 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded cursor-pointer hover:bg-gray-50" title="Set due date">
+          <Calendar className="w-4 h-4" />
+          <span>Due date</span>
+        </div>
+      </DatePicker>
+
+      <button
+        type="button"
+        onClick={onDelete}
+        className="flex items-center gap-1 px-2 py-1 text-sm text-red-600 bg-white border border-red-200 rounded hover:bg-red-50"
+        title="Move selected tasks to the trash"
+      >
+        <Trash2 className="w-4 h-4" />
+        <span>Trash</span>
+      </button>
+
+      <button
+        type="button"
+        onClick={onClear}
+        className="ml-auto p-1 text-gray-500 hover:text-gray-700"
+        title="Clear selection (Esc)"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default BulkActionBar;
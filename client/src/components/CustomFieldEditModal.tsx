@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import { CustomField, CustomFieldType } from '../types';
+import { apiService } from '../services/api';
+import { X, Plus, Edit3, Trash2, Columns } from 'lucide-react';
+
+interface CustomFieldEditModalProps {
+  fields: CustomField[];
+  workspaceId: number;
+  onClose: () => void;
+  onFieldsUpdate: (updatedFields: CustomField[]) => void;
+}
+
+const FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+  multi_select: 'Multi-select',
+  url: 'URL',
+  checkbox: 'Checkbox'
+};
+
+const hasOptions = (fieldType: CustomFieldType) => fieldType === 'select' || fieldType === 'multi_select';
+
+// Options are edited as a comma-separated list
+const parseOptions = (text: string) => text.split(',').map(option => option.trim()).filter(Boolean);
+
+const CustomFieldEditModal: React.FC<CustomFieldEditModalProps> = ({ fields, workspaceId, onClose, onFieldsUpdate }) => {
+  const [newFieldName, setNewFieldName] = useState('');
+  const [newFieldType, setNewFieldType] = useState<CustomFieldType>('text');
+  const [newFieldOptions, setNewFieldOptions] = useState('');
+  const [editingFieldId, setEditingFieldId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [editingOptions, setEditingOptions] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyFieldId, setBusyFieldId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    if (!newFieldName.trim()) return;
+    if (hasOptions(newFieldType) && parseOptions(newFieldOptions).length === 0) {
+      setError('Add at least one option, separated by commas');
+      return;
+    }
+
+    setError(null);
+    try {
+      setIsCreating(true);
+      const created = await apiService.createCustomField(workspaceId, {
+        name: newFieldName.trim(),
+        field_type: newFieldType,
+        options: hasOptions(newFieldType) ? parseOptions(newFieldOptions) : undefined
+      });
+      onFieldsUpdate([...fields, created]);
+      setNewFieldName('');
+      setNewFieldOptions('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create field');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleEditClick = (field: CustomField) => {
+    setEditingFieldId(field.id);
+    setEditingName(field.name);
+    setEditingOptions(field.options.join(', '));
+  };
+
+  const handleSave = async (field: CustomField) => {
+    if (!editingName.trim()) return;
+    const options = hasOptions(field.field_type) ? parseOptions(editingOptions) : undefined;
+    const removedOptions = options ? field.options.filter(option => !options.includes(option)) : [];
+    if (removedOptions.length > 0 && !window.confirm(`Remove ${removedOptions.join(', ')}? Tasks using ${removedOptions.length === 1 ? 'it' : 'them'} will lose the value.`)) {
+      return;
+    }
+
+    setError(null);
+    setBusyFieldId(field.id);
+    try {
+      const updated = await apiService.updateCustomField(field.id, { name: editingName.trim(), options });
+      onFieldsUpdate(fields.map(f => (f.id === field.id ? updated : f)));
+      setEditingFieldId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update field');
+    } finally {
+      setBusyFieldId(null);
+    }
+  };
+
+  const handleToggleColumn = async (field: CustomField) => {
+    // Optimistic update - update local state immediately
+    onFieldsUpdate(fields.map(f => (f.id === field.id ? { ...f, show_in_list: !f.show_in_list } : f)));
+    setBusyFieldId(field.id);
+    try {
+      await apiService.updateCustomField(field.id, { show_in_list: !field.show_in_list });
+    } catch (err) {
+      console.error('Error toggling custom field column:', err);
+      // Revert on error
+      onFieldsUpdate(fields);
+    } finally {
+      setBusyFieldId(null);
+    }
+  };
+
+  const handleDelete = async (field: CustomField) => {
+    if (!window.confirm(`Are you sure you want to delete the field "${field.name}"? Its values will be removed from all tasks.`)) {
+      return;
+    }
+
+    setBusyFieldId(field.id);
+    try {
+      await apiService.deleteCustomField(field.id);
+      onFieldsUpdate(fields.filter(f => f.id !== field.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete field');
+    } finally {
+      setBusyFieldId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 modal-overlay">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Custom Fields</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 max-h-96 overflow-y-auto">
+          {/* Create new field section */}
+          <div className="mb-4 p-3 bg-gray-50 rounded-lg space-y-2">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                placeholder="Enter new field name..."
+                value={newFieldName}
+                onChange={(e) => setNewFieldName(e.target.value)}
+                onKeyPress={(e) => {
+                  if (e.key === 'Enter' && newFieldName.trim()) {
+                    handleCreate();
+                  }
+                }}
+                maxLength={40}
+                className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <select
+                value={newFieldType}
+                onChange={(e) => setNewFieldType(e.target.value as CustomFieldType)}
+                className="px-2 py-2 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                {(Object.keys(FIELD_TYPE_LABELS) as CustomFieldType[]).map(fieldType => (
+                  <option key={fieldType} value={fieldType}>{FIELD_TYPE_LABELS[fieldType]}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleCreate}
+                disabled={!newFieldName.trim() || isCreating}
+                className="px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add</span>
+              </button>
+            </div>
+            {hasOptions(newFieldType) && (
+              <input
+                type="text"
+                placeholder="Options, separated by commas"
+                value={newFieldOptions}
+                onChange={(e) => setNewFieldOptions(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            )}
+          </div>
+
+          {error && (
+            <p className="mb-3 text-sm text-red-600">{error}</p>
+          )}
+
+          {/* Fields list */}
+          {fields.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">
+              No custom fields yet
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {fields.map((field) => (
+                <div key={field.id} className="flex items-start justify-between p-3 rounded-lg border bg-white border-gray-300">
+                  {/* Field name and options */}
+                  <div className="flex-1 min-w-0 mr-2">
+                    {editingFieldId === field.id ? (
+                      <div className="space-y-2">
+                        <input
+                          type="text"
+                          value={editingName}
+                          onChange={(e) => setEditingName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleSave(field);
+                            else if (e.key === 'Escape') setEditingFieldId(null);
+                          }}
+                          maxLength={40}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          autoFocus
+                        />
+                        {hasOptions(field.field_type) && (
+                          <input
+                            type="text"
+                            value={editingOptions}
+                            onChange={(e) => setEditingOptions(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleSave(field);
+                              else if (e.key === 'Escape') setEditingFieldId(null);
+                            }}
+                            placeholder="Options, separated by commas"
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          />
+                        )}
+                        <div className="flex justify-end space-x-2">
+                          <button onClick={() => setEditingFieldId(null)} className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800">Cancel</button>
+                          <button
+                            onClick={() => handleSave(field)}
+                            disabled={busyFieldId === field.id}
+                            className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="text-sm font-medium text-gray-900">{field.name}</div>
+                        <div className="text-xs text-gray-400 mt-1 truncate">
+                          {FIELD_TYPE_LABELS[field.field_type]}
+                          {hasOptions(field.field_type) && ` · ${field.options.join(', ')}`}
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  {/* Actions */}
+                  {editingFieldId !== field.id && (
+                    <div className="flex items-center space-x-1">
+                      <button
+                        onClick={() => handleEditClick(field)}
+                        className="p-1 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                        title="Edit field"
+                      >
+                        <Edit3 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleToggleColumn(field)}
+                        disabled={busyFieldId === field.id}
+                        className={`p-1 rounded transition-colors disabled:opacity-50 ${field.show_in_list ? 'text-blue-600 bg-blue-50' : 'text-gray-600 hover:bg-gray-100'}`}
+                        title={field.show_in_list ? 'Hide column in task list' : 'Show as column in task list'}
+                      >
+                        <Columns className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(field)}
+                        disabled={busyFieldId === field.id}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors disabled:opacity-50"
+                        title="Delete field"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end p-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomFieldEditModal;
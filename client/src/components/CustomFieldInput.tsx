@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { CustomField, CustomFieldValue } from '../types';
+import { ExternalLink } from 'lucide-react';
+
+// Short text for a custom field value, as shown in task list columns
+export const formatCustomFieldValue = (field: CustomField, value: CustomFieldValue | undefined) => {
+  if (value === undefined || value === null || value === '') return '';
+  if (field.field_type === 'checkbox') return value === true ? '✓' : '';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  value?: CustomFieldValue;
+  onSave: (value: CustomFieldValue | null) => void;
+}
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm";
+
+// Editor for one custom field of a task. Typed values are saved on blur or Enter, choices right away.
+const CustomFieldInput: React.FC<CustomFieldInputProps> = ({ field, value, onSave }) => {
+  const [draft, setDraft] = useState(value !== undefined && !Array.isArray(value) ? String(value) : '');
+
+  useEffect(() => {
+    setDraft(value !== undefined && !Array.isArray(value) ? String(value) : '');
+  }, [value]);
+
+  const saveDraft = () => {
+    const trimmed = draft.trim();
+    const current = value !== undefined && !Array.isArray(value) ? String(value) : '';
+    if (trimmed === current) return;
+    if (trimmed === '') {
+      onSave(null);
+    } else if (field.field_type === 'number') {
+      const number = Number(trimmed);
+      if (!Number.isFinite(number)) {
+        setDraft(current);
+        return;
+      }
+      onSave(number);
+    } else {
+      onSave(trimmed);
+    }
+  };
+
+  // The inputs live inside the task form; Enter saves the field instead of submitting the form
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      e.currentTarget.blur();
+    }
+  };
+
+  switch (field.field_type) {
+    case 'checkbox':
+      return (
+        <label className="flex items-center gap-2 text-sm text-gray-700 min-h-[40px]">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onSave(e.target.checked ? true : null)}
+            className="w-4 h-4"
+          />
+          {value === true ? 'Yes' : 'No'}
+        </label>
+      );
+    case 'select':
+      return (
+        <select
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onSave(e.target.value || null)}
+          className={`${inputClassName} bg-white`}
+        >
+          <option value="">None</option>
+          {field.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-1 min-h-[40px] items-center">
+          {field.options.map(option => {
+            const isSelected = selected.includes(option);
+            return (
+              <button
+                key={option}
+                type="button"
+                onClick={() => {
+                  const next = isSelected ? selected.filter(o => o !== option) : [...selected, option];
+                  onSave(next.length > 0 ? next : null);
+                }}
+                className={`px-2 py-0.5 text-xs rounded border transition-colors ${
+                  isSelected ? 'bg-blue-100 border-blue-300 text-blue-700' : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+    case 'date':
+      return (
+        <input
+          type="date"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            onSave(e.target.value || null);
+          }}
+          className={inputClassName}
+        />
+      );
+    case 'url':
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            type="url"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={saveDraft}
+            onKeyDown={handleKeyDown}
+            placeholder="https://"
+            className={inputClassName}
+          />
+          {typeof value === 'string' && value && (
+            <a
+              href={value}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="p-1 text-gray-400 hover:text-blue-600 flex-shrink-0"
+              title="Open link"
+            >
+              <ExternalLink className="w-4 h-4" />
+            </a>
+          )}
+        </div>
+      );
+    default:
+      return (
+        <input
+          type={field.field_type === 'number' ? 'number' : 'text'}
+          step={field.field_type === 'number' ? 'any' : undefined}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={saveDraft}
+          onKeyDown={handleKeyDown}
+          className={inputClassName}
+        />
+      );
+  }
+};
+
+export default CustomFieldInput;
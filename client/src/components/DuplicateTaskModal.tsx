@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Task, DuplicateTaskOptions } from '../types';
+import { apiService } from '../services/api';
+import { X } from 'lucide-react';
+
+interface DuplicateTaskModalProps {
+  task: Task;
+  onClose: () => void;
+  onDuplicated: (copy: Task, copiedIds: number[]) => void;
+}
+
+// Whether a task has anything beyond its own fields that a duplicate could bring along
+export const hasDuplicateOptions = (task: Task) => !!(task.child_count || task.attachment_count || task.comment_count);
+
+const DuplicateTaskModal: React.FC<DuplicateTaskModalProps> = ({ task, onClose, onDuplicated }) => {
+  const [options, setOptions] = useState<DuplicateTaskOptions>({
+    include_subtasks: !!task.child_count,
+    include_attachments: false,
+    include_comments: false
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const result = await apiService.duplicateTask(task.id, options);
+      onDuplicated(result.task, result.task_ids);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to duplicate task');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderOption = (key: keyof DuplicateTaskOptions, label: string, count?: number) => {
+    if (!count) return null;
+    return (
+      <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!options[key]}
+          onChange={(e) => setOptions(prev => ({ ...prev, [key]: e.target.checked }))}
+        />
+        <span>{label} ({count})</span>
+      </label>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 modal-overlay">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 truncate">Duplicate "{task.title}"</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-3">
+          <p className="text-xs text-gray-500">
+            The copy keeps the description, category, tags, priority, due date and assignees, and starts
+            over in the first status. Also copy:
+          </p>
+          <div className="space-y-2">
+            {renderOption('include_subtasks', 'Subtasks', task.child_count)}
+            {renderOption('include_attachments', 'Attachments', task.attachment_count)}
+            {renderOption('include_comments', 'Comments', task.comment_count)}
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end space-x-2 p-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Duplicate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateTaskModal;
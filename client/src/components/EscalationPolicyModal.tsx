@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { EscalationPolicy } from '../types';
+import { apiService } from '../services/api';
+import { X, Plus, Trash2 } from 'lucide-react';
+
+interface EscalationPolicyModalProps {
+  workspaceId: number;
+  onClose: () => void;
+  onPolicyUpdate: (changedTaskIds: number[]) => void;
+}
+
+const inputClassName = "px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+// Edits how a workspace escalates priorities as due dates come closer, and its holiday calendar
+const EscalationPolicyModal: React.FC<EscalationPolicyModalProps> = ({ workspaceId, onClose, onPolicyUpdate }) => {
+  const [policy, setPolicy] = useState<EscalationPolicy | null>(null);
+  const [newHolidayDate, setNewHolidayDate] = useState('');
+  const [newHolidayName, setNewHolidayName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiService.getEscalationPolicy(workspaceId)
+      .then(setPolicy)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load escalation policy'));
+  }, [workspaceId]);
+
+  const updatePolicy = (changes: Partial<EscalationPolicy>) => {
+    setPolicy(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleAddHoliday = () => {
+    if (!policy || !newHolidayDate) return;
+    if (policy.holidays.some(holiday => holiday.date === newHolidayDate)) {
+      setError(`${newHolidayDate} is already a holiday`);
+      return;
+    }
+    setError(null);
+    updatePolicy({
+      holidays: [...policy.holidays, { date: newHolidayDate, name: newHolidayName.trim() }]
+        .sort((a, b) => a.date.localeCompare(b.date))
+    });
+    setNewHolidayDate('');
+    setNewHolidayName('');
+  };
+
+  const handleSave = async () => {
+    if (!policy) return;
+    setError(null);
+    try {
+      setIsSaving(true);
+      const saved = await apiService.saveEscalationPolicy(workspaceId, policy);
+      onPolicyUpdate(saved.changed_task_ids);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save escalation policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 modal-overlay">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Priority Escalation</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 max-h-[32rem] overflow-y-auto space-y-4">
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {!policy ? (
+            !error && <div className="text-center text-gray-500 py-8">Loading...</div>
+          ) : (
+            <>
+              {/* Rule */}
+              <div className="space-y-2 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={policy.enabled}
+                    onChange={(e) => updatePolicy({ enabled: e.target.checked })}
+                  />
+                  Escalate tasks as their due date comes closer
+                </label>
+                <div className={`flex flex-wrap items-center gap-2 ${policy.enabled ? '' : 'opacity-50'}`}>
+                  <span>Raise to</span>
+                  <select
+                    value={policy.priority}
+                    onChange={(e) => updatePolicy({ priority: e.target.value as EscalationPolicy['priority'] })}
+                    disabled={!policy.enabled}
+                    className={`${inputClassName} bg-white`}
+                  >
+                    <option value="urgent">Urgent</option>
+                    <option value="high">High</option>
+                    <option value="normal">Normal</option>
+                  </select>
+                  <span>when due within</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={30}
+                    value={policy.business_days}
+                    onChange={(e) => updatePolicy({ business_days: Math.max(0, Math.min(30, parseInt(e.target.value, 10) || 0)) })}
+                    disabled={!policy.enabled}
+                    className={`${inputClassName} w-16`}
+                  />
+                  <span>business day{policy.business_days === 1 ? '' : 's'}</span>
+                </div>
+                <label className={`flex items-center gap-2 ${policy.enabled ? '' : 'opacity-50'}`}>
+                  <input
+                    type="checkbox"
+                    checked={policy.deescalate}
+                    onChange={(e) => updatePolicy({ deescalate: e.target.checked })}
+                    disabled={!policy.enabled}
+                  />
+                  Restore the previous priority when the due date moves out again
+                </label>
+                <label className="flex items-center gap-2">
+                  <span>Time zone</span>
+                  <input
+                    type="text"
+                    value={policy.timezone}
+                    onChange={(e) => updatePolicy({ timezone: e.target.value })}
+                    placeholder="e.g. Europe/Berlin"
+                    className={`${inputClassName} flex-1`}
+                  />
+                </label>
+              </div>
+
+              {/* Holiday calendar */}
+              <div className="border-t border-gray-200 pt-4">
+                <h3 className="text-sm font-medium text-gray-900 mb-1">Holidays</h3>
+                <p className="text-xs text-gray-500 mb-2">Skipped like weekends when counting business days, also for recurring tasks</p>
+                <div className="flex items-center space-x-2 mb-2">
+                  <input
+                    type="date"
+                    value={newHolidayDate}
+                    onChange={(e) => setNewHolidayDate(e.target.value)}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="text"
+                    value={newHolidayName}
+                    onChange={(e) => setNewHolidayName(e.target.value)}
+                    onKeyPress={(e) => {
+                      if (e.key === 'Enter') handleAddHoliday();
+                    }}
+                    placeholder="Name (optional)"
+                    maxLength={100}
+                    className={`${inputClassName} flex-1`}
+                  />
+                  <button
+                    onClick={handleAddHoliday}
+                    disabled={!newHolidayDate}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add</span>
+                  </button>
+                </div>
+                {policy.holidays.length === 0 ? (
+                  <p className="text-sm text-gray-400">No holidays yet</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {policy.holidays.map(holiday => (
+                      <li key={holiday.date} className="flex items-center justify-between text-sm text-gray-700">
+                        <span>
+                          {holiday.date}
+                          {holiday.name && <span className="text-gray-500"> · {holiday.name}</span>}
+                        </span>
+                        <button
+                          onClick={() => updatePolicy({ holidays: policy.holidays.filter(h => h.date !== holiday.date) })}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                          title="Remove holiday"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end space-x-2 p-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!policy || isSaving}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EscalationPolicyModal;
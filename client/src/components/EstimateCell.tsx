@@ -0,0 +1,75 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { EstimateUnit } from '../types';
+
+// Short label for an estimate, e.g. "3h" or "5 pt"
+export const formatEstimate = (value: number, unit: EstimateUnit = 'hours') =>
+  unit === 'points' ? `${value} pt` : `${value}h`;
+
+interface EstimateCellProps {
+  value?: number | null;
+  unit?: EstimateUnit;
+  onSave: (value: number | null) => void;
+}
+
+// Inline estimate editor for the task list: click to edit, Enter or blur to save, Escape to cancel
+const EstimateCell: React.FC<EstimateCellProps> = ({ value, unit = 'hours', onSave }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isEditing) {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    }
+  }, [isEditing]);
+
+  const save = () => {
+    setIsEditing(false);
+    const trimmed = draft.trim();
+    const nextValue = trimmed === '' ? null : Number(trimmed);
+    if (nextValue !== null && (!Number.isFinite(nextValue) || nextValue < 0)) return;
+    if (nextValue !== (value ?? null)) {
+      onSave(nextValue);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <input
+        ref={inputRef}
+        type="number"
+        min={0}
+        step={unit === 'points' ? 1 : 0.5}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            save();
+          } else if (e.key === 'Escape') {
+            setIsEditing(false);
+          }
+        }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full text-xs text-center border border-gray-300 rounded px-0.5 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+      />
+    );
+  }
+
+  return (
+    <div
+      className="flex items-center justify-center w-full text-xs text-gray-500 cursor-pointer hover:text-blue-600 hover:bg-blue-50 px-1 py-1 rounded min-h-[20px]"
+      onClick={(e) => {
+        e.stopPropagation();
+        setDraft(value != null ? String(value) : '');
+        setIsEditing(true);
+      }}
+      title={`Click to set estimate (${unit === 'points' ? 'story points' : 'hours'})`}
+    >
+      {value != null ? formatEstimate(value, unit) : <span className="text-gray-400">-</span>}
+    </div>
+  );
+};
+
+export default EstimateCell;
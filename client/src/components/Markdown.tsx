@@ -0,0 +1,302 @@
+import React from 'react';
+import clsx from 'clsx';
+
+// A small markdown renderer for task descriptions: headings, paragraphs, lists with task list
+// checkboxes, quotes, fenced code, rules, and inline code, bold, italics, strikethrough and links.
+// Everything is rendered as React elements, never as HTML, so markup in a description shows as
+// text; links are only made for http(s) and mailto URLs. Mentions (@[Name](user:<id>)) show the
+// user's current name.
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+  // Workspace users, for the current names of mentioned users
+  users?: Array<{ user_id: number; name: string }>;
+  // Called with the line of a task list item whose checkbox was clicked; without it checkboxes are read-only
+  onToggleTask?: (line: number) => void;
+}
+
+interface ListItem {
+  text: string;
+  depth: number;
+  line: number;
+  checked?: boolean; // set for task list items
+}
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'quote'; lines: string[] }
+  | { type: 'list'; ordered: boolean; items: ListItem[] }
+  | { type: 'rule' }
+  | { type: 'paragraph'; lines: string[] };
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_ITEM_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+
+// Groups: 1-2 code span, 3-4 link, 5-6 bold, 7 strikethrough, 8-9 italics, 10 bare URL, 11-12 mention
+const INLINE_PATTERN = /(`+)([\s\S]*?[^`])\1(?!`)|\[([^\]]+)\]\(([^)\s]+)\)|(\*\*|__)(?=\S)([\s\S]*?\S)\5|~~(?=\S)([\s\S]*?\S)~~|(\*|_)(?=\S)([\s\S]*?\S)\8|((?:https?:\/\/|www\.)[^\s<]*[^\s<.,:;"')\]!?])|@\[([^\]]*)\]\(user:(\d+)\)/g;
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// The URL to link to, or null when it is not a web or mail address (javascript:, data: and the like)
+export const getSafeUrl = (url: string): string | null => {
+  const href = /^www\./i.test(url) ? `https://${url}` : url;
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(href).protocol) ? href : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const parseBlocks = (text: string): Block[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        codeLines.push(lines[index]);
+        index++;
+      }
+      index++; // closing fence
+      blocks.push({ type: 'code', text: codeLines.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      index++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && QUOTE_PATTERN.test(lines[index])) {
+        quoteLines.push(lines[index].match(QUOTE_PATTERN)![1]);
+        index++;
+      }
+      blocks.push({ type: 'quote', lines: quoteLines });
+      continue;
+    }
+
+    const firstItem = line.match(LIST_ITEM_PATTERN);
+    if (firstItem) {
+      const ordered = /\d/.test(firstItem[2]);
+      const baseIndent = firstItem[1].length;
+      const items: ListItem[] = [];
+      while (index < lines.length) {
+        const item = lines[index].match(LIST_ITEM_PATTERN);
+        if (!item) {
+          // An indented line without a marker continues the previous item
+          if (items.length > 0 && lines[index].trim() && /^\s+/.test(lines[index])) {
+            items[items.length - 1].text += `\n${lines[index].trim()}`;
+            index++;
+            continue;
+          }
+          break;
+        }
+        const depth = Math.max(0, Math.floor((item[1].length - baseIndent) / 2));
+        // A rule, or a switch between bullets and numbers at the top level, ends the list
+        if (RULE_PATTERN.test(lines[index]) || (depth === 0 && /\d/.test(item[2]) !== ordered)) break;
+        const task = item[3].match(TASK_ITEM_PATTERN);
+        items.push(task
+          ? { text: task[2], depth, line: index, checked: task[1] !== ' ' }
+          : { text: item[3], depth, line: index });
+        index++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraphLines: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !FENCE_PATTERN.test(lines[index]) &&
+      !HEADING_PATTERN.test(lines[index]) &&
+      !RULE_PATTERN.test(lines[index]) &&
+      !QUOTE_PATTERN.test(lines[index]) &&
+      !LIST_ITEM_PATTERN.test(lines[index])
+    ) {
+      paragraphLines.push(lines[index]);
+      index++;
+    }
+    blocks.push({ type: 'paragraph', lines: paragraphLines });
+  }
+
+  return blocks;
+};
+
+// Links and checkboxes inside a clickable container (such as the description tooltip) do their
+// own thing instead of the container's
+const stopPropagation = (e: React.MouseEvent) => e.stopPropagation();
+
+// Current names of users by id
+type UserNames = Map<number, string>;
+
+const renderInline = (text: string, keyPrefix: string, userNames: UserNames): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    // Underscores inside words (snake_case) are not emphasis
+    if ((match[5] === '__' || match[8] === '_') && match.index > 0 && /\w/.test(text[match.index - 1])) {
+      pattern.lastIndex = match.index + 1;
+      continue;
+    }
+
+    if (match.index > lastIndex) {
+      nodes.push(text.slice(lastIndex, match.index));
+    }
+    const key = `${keyPrefix}-${match.index}`;
+
+    if (match[1]) {
+      nodes.push(<code key={key} className="px-1 py-0.5 rounded bg-gray-100 text-[0.85em] font-mono">{match[2]}</code>);
+    } else if (match[3]) {
+      const href = getSafeUrl(match[4]);
+      nodes.push(href ? (
+        <a key={key} href={href} target="_blank" rel="noopener noreferrer" onClick={stopPropagation} className="text-blue-600 hover:underline">
+          {renderInline(match[3], key, userNames)}
+        </a>
+      ) : match[0]);
+    } else if (match[5]) {
+      nodes.push(<strong key={key}>{renderInline(match[6], key, userNames)}</strong>);
+    } else if (match[7]) {
+      nodes.push(<del key={key}>{renderInline(match[7], key, userNames)}</del>);
+    } else if (match[8]) {
+      nodes.push(<em key={key}>{renderInline(match[9], key, userNames)}</em>);
+    } else if (match[10]) {
+      const href = getSafeUrl(match[10]);
+      nodes.push(href ? (
+        <a key={key} href={href} target="_blank" rel="noopener noreferrer" onClick={stopPropagation} className="text-blue-600 hover:underline break-all">
+          {match[10]}
+        </a>
+      ) : match[10]);
+    } else if (match[12]) {
+      nodes.push(
+        <span key={key} className="px-1 rounded bg-blue-50 text-blue-700 font-medium">
+          @{userNames.get(Number(match[12])) || match[11]}
+        </span>
+      );
+    }
+    lastIndex = pattern.lastIndex;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex));
+  }
+  return nodes;
+};
+
+// Line breaks inside a paragraph are kept, as descriptions were always shown that way
+const renderLines = (lines: string[], keyPrefix: string, userNames: UserNames) =>
+  lines.map((line, index) => (
+    <React.Fragment key={index}>
+      {index > 0 && <br />}
+      {renderInline(line, `${keyPrefix}-${index}`, userNames)}
+    </React.Fragment>
+  ));
+
+const HEADING_CLASSES = ['text-lg font-semibold', 'text-base font-semibold', 'text-sm font-semibold', 'text-sm font-semibold', 'text-sm font-medium', 'text-sm font-medium'];
+
+const Markdown: React.FC<MarkdownProps> = ({ text, className, users, onToggleTask }) => {
+  const blocks = parseBlocks(text);
+  const userNames: UserNames = new Map((users || []).map(user => [user.user_id, user.name]));
+
+  const renderList = (block: Extract<Block, { type: 'list' }>, blockIndex: number) => {
+    const ListTag = block.ordered ? 'ol' : 'ul';
+    return (
+      <ListTag key={blockIndex} className={clsx('space-y-0.5', block.ordered ? 'list-decimal' : 'list-disc', 'pl-5')}>
+        {block.items.map(item => {
+          const content = renderLines(item.text.split('\n'), `${blockIndex}-${item.line}`, userNames);
+          return item.checked === undefined ? (
+            <li key={item.line} style={{ marginLeft: `${item.depth * 1.25}rem` }}>{content}</li>
+          ) : (
+            <li key={item.line} className="list-none flex items-start gap-1.5" style={{ marginLeft: `${item.depth * 1.25 - 1.25}rem` }}>
+              <input
+                type="checkbox"
+                checked={item.checked}
+                disabled={!onToggleTask}
+                onChange={() => onToggleTask?.(item.line)}
+                onClick={stopPropagation}
+                className="mt-1 flex-shrink-0 cursor-pointer disabled:cursor-default"
+              />
+              <span className={clsx(item.checked && 'line-through text-gray-400')}>{content}</span>
+            </li>
+          );
+        })}
+      </ListTag>
+    );
+  };
+
+  return (
+    <div className={clsx('space-y-2 break-words', className)}>
+      {blocks.map((block, blockIndex) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <div key={blockIndex} role="heading" aria-level={block.level} className={clsx('text-gray-900', HEADING_CLASSES[block.level - 1])}>
+                {renderInline(block.text, String(blockIndex), userNames)}
+              </div>
+            );
+          case 'code':
+            return (
+              <pre key={blockIndex} className="p-2 rounded bg-gray-100 text-xs font-mono overflow-x-auto whitespace-pre">
+                <code>{block.text}</code>
+              </pre>
+            );
+          case 'quote':
+            return (
+              <blockquote key={blockIndex} className="pl-3 border-l-4 border-gray-200 text-gray-500">
+                {renderLines(block.lines, String(blockIndex), userNames)}
+              </blockquote>
+            );
+          case 'list':
+            return renderList(block, blockIndex);
+          case 'rule':
+            return <hr key={blockIndex} className="border-gray-200" />;
+          default:
+            return <p key={blockIndex}>{renderLines(block.lines, String(blockIndex), userNames)}</p>;
+        }
+      })}
+    </div>
+  );
+};
+
+// Check or uncheck the task list item on the given line of a markdown text
+export const toggleTaskListItem = (text: string, line: number): string => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const item = lines[line] !== undefined ? lines[line].match(LIST_ITEM_PATTERN) : null;
+  const task = item ? item[3].match(TASK_ITEM_PATTERN) : null;
+  if (!item || !task) return text;
+
+  lines[line] = `${item[1]}${item[2]} [${task[1] === ' ' ? 'x' : ' '}] ${task[2]}`;
+  return lines.join('\n');
+};
+
+export default Markdown;
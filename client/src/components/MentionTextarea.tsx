@@ -0,0 +1,130 @@
+import React, { useState, useRef, useImperativeHandle, forwardRef } from 'react';
+import clsx from 'clsx';
+
+type MentionUser = { user_id: number; name: string; email: string };
+
+interface MentionTextareaProps extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  users: MentionUser[];
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// The @ being typed right before the cursor: after whitespace or at the start, with no spaces yet
+const MENTION_QUERY_PATTERN = /(^|\s)@([^\s@[\]()]*)$/;
+
+// A mention is stored as @[Name](user:<id>); the name only stands in for a user who cannot be looked up
+export const formatMention = (user: { user_id: number; name: string }) =>
+  `@[${user.name.replace(/[[\]()]/g, '')}](user:${user.user_id})`;
+
+// Textarea that suggests workspace users after typing @ and inserts a mention for the one picked
+const MentionTextarea = forwardRef<HTMLTextAreaElement, MentionTextareaProps>(({ value, onChange, users, onKeyDown, onBlur, className, ...textareaProps }, ref) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<{ text: string; start: number } | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
+
+  const suggestions = query
+    ? users
+        .filter(user =>
+          user.name.toLowerCase().includes(query.text.toLowerCase()) ||
+          user.email.toLowerCase().includes(query.text.toLowerCase())
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateQuery = (text: string, cursor: number) => {
+    const match = text.slice(0, cursor).match(MENTION_QUERY_PATTERN);
+    setQuery(match ? { text: match[2], start: cursor - match[2].length - 1 } : null);
+    setHighlightedIndex(0);
+  };
+
+  const insertMention = (user: MentionUser) => {
+    if (!query || !textareaRef.current) return;
+    const cursor = textareaRef.current.selectionStart;
+    const mention = `${formatMention(user)} `;
+    const nextValue = value.slice(0, query.start) + mention + value.slice(cursor);
+    const nextCursor = query.start + mention.length;
+    onChange(nextValue);
+    setQuery(null);
+
+    // Put the cursor after the mention once the new value is rendered
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlightedIndex((highlightedIndex + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if ((e.key === 'Enter' && !e.ctrlKey && !e.metaKey) || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[highlightedIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        // Closing the suggestions shouldn't also cancel the edit around them
+        e.preventDefault();
+        e.stopPropagation();
+        setQuery(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        {...textareaProps}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={(e) => {
+          setQuery(null);
+          onBlur?.(e);
+        }}
+        onClick={(e) => {
+          updateQuery(e.currentTarget.value, e.currentTarget.selectionStart);
+          textareaProps.onClick?.(e);
+        }}
+        className={className}
+      />
+
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 top-full mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-50 py-1">
+          {suggestions.map((user, index) => (
+            <div
+              key={user.user_id}
+              // Keep the focus (and an open edit) in the textarea
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertMention(user)}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              className={clsx(
+                'px-3 py-1.5 cursor-pointer',
+                index === highlightedIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+              )}
+            >
+              <div className="text-sm text-gray-900 truncate">{user.name}</div>
+              <div className="text-xs text-gray-500 truncate">{user.email}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default MentionTextarea;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Task } from '../types';
+import { apiService } from '../services/api';
+import { X, FolderOpen } from 'lucide-react';
+
+interface MoveTaskModalProps {
+  task: Task;
+  workspaces: Array<{ id: number; name: string; access_level?: 'owner' | 'edit' | 'view' }>;
+  onClose: () => void;
+  onMoved: (movedIds: number[]) => void;
+}
+
+const MoveTaskModal: React.FC<MoveTaskModalProps> = ({ task, workspaces, onClose, onMoved }) => {
+  // Only workspaces the user can edit can receive tasks
+  const targetWorkspaces = workspaces.filter(w => w.id !== task.workspace_id && (w.access_level === 'owner' || w.access_level === 'edit'));
+  const [targetWorkspaceId, setTargetWorkspaceId] = useState<number | null>(targetWorkspaces[0]?.id ?? null);
+  const [mode, setMode] = useState<'move' | 'copy'>('move');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!targetWorkspaceId) return;
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      if (mode === 'move') {
+        const result = await apiService.moveTask(task.id, targetWorkspaceId);
+        onMoved(result.moved_ids);
+      } else {
+        await apiService.copyTask(task.id, targetWorkspaceId);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${mode} task`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 modal-overlay">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 truncate">Move "{task.title}"</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4">
+          {targetWorkspaces.length === 0 ? (
+            <p className="text-sm text-gray-500">There is no other workspace you can edit.</p>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Workspace
+                </label>
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  {targetWorkspaces.map(workspace => (
+                    <label
+                      key={workspace.id}
+                      className="flex items-center space-x-2 p-2 rounded cursor-pointer hover:bg-gray-50"
+                    >
+                      <input
+                        type="radio"
+                        name="target-workspace"
+                        checked={targetWorkspaceId === workspace.id}
+                        onChange={() => setTargetWorkspaceId(workspace.id)}
+                      />
+                      <FolderOpen className="w-4 h-4 text-gray-500" />
+                      <span className="text-sm text-gray-900">{workspace.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-4 text-sm text-gray-700">
+                <label className="flex items-center space-x-1 cursor-pointer">
+                  <input type="radio" name="transfer-mode" checked={mode === 'move'} onChange={() => setMode('move')} />
+                  <span>Move</span>
+                </label>
+                <label className="flex items-center space-x-1 cursor-pointer">
+                  <input type="radio" name="transfer-mode" checked={mode === 'copy'} onChange={() => setMode('copy')} />
+                  <span>Copy</span>
+                </label>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Subtasks come along. Categories and tags are matched by name and created if missing;
+                assignees without access to the workspace are removed.
+              </p>
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end space-x-2 p-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!targetWorkspaceId || isSubmitting}
+            className="px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {mode === 'move' ? 'Move' : 'Copy'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MoveTaskModal;
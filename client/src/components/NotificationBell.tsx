@@ -0,0 +1,180 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Bell } from 'lucide-react';
+import clsx from 'clsx';
+import { AppNotification } from '../types';
+import { apiService } from '../services/api';
+
+interface NotificationBellProps {
+  className?: string;
+  onSelect: (notification: AppNotification) => void;
+}
+
+const POLL_INTERVAL_MS = 60000;
+
+const formatNotificationDate = (dateString: string) => {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+};
+
+// What happened, worded for the user the notification is for
+const getNotificationMessage = (notification: AppNotification) => {
+  const actor = notification.actor_name || 'Someone';
+  const task = `"${notification.task_title || 'a task'}"`;
+  const workspace = `"${notification.workspace_name || 'a workspace'}"`;
+  const { data } = notification;
+
+  switch (notification.type) {
+    case 'task_assigned':
+      return `${actor} assigned you to ${task}`;
+    case 'task_status':
+      return `${actor} moved ${task} from ${data.from} to ${data.to}`;
+    case 'task_mentioned':
+      return `${actor} mentioned you in ${data.in_comment ? 'a comment on ' : ''}${task}`;
+    case 'workspace_access':
+      if (data.change === 'removed') return `${actor} removed your access to ${workspace}`;
+      if (data.change === 'changed') return `${actor} changed your access to ${workspace} to ${data.access_level}`;
+      return `${actor} gave you ${data.access_level} access to ${workspace}`;
+    case 'workspace_ownership':
+      return `${actor} made you the owner of ${workspace}`;
+    default:
+      return 'Something changed';
+  }
+};
+
+// Bell with the number of unread notifications, opening a list of the latest ones
+const NotificationBell: React.FC<NotificationBellProps> = ({ className = '', onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const result = await apiService.getNotifications();
+      setNotifications(result.notifications);
+      setUnreadCount(result.unread_count);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, []);
+
+  // Check for new notifications now and then
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadNotifications]);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      loadNotifications();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleSelect = async (notification: AppNotification) => {
+    setIsOpen(false);
+    onSelect(notification);
+    if (notification.read_at) return;
+
+    try {
+      const result = await apiService.markNotificationRead(notification.id);
+      setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, read_at: result.read_at } : n));
+      setUnreadCount(prev => Math.max(prev - 1, 0));
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await apiService.markAllNotificationsRead();
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(n => n.read_at ? n : { ...n, read_at: readAt }));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`} ref={menuRef}>
+      {/* Bell Button */}
+      <button
+        onClick={handleToggle}
+        className="relative flex items-center justify-center w-10 h-10 text-gray-600 hover:text-gray-900 hover:bg-white rounded-md border border-gray-300 transition-colors"
+        title={unreadCount > 0 ? `${unreadCount} unread notification${unreadCount === 1 ? '' : 's'}` : 'Notifications'}
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full bg-red-500 text-white text-xs font-medium">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {/* Dropdown */}
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-80 bg-white rounded-md shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+            <p className="text-sm font-medium text-gray-900">Notifications</p>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-xs text-blue-600 hover:text-blue-800 transition-colors"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">No notifications yet</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto py-1">
+              {notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleSelect(notification)}
+                  className={clsx(
+                    'w-full flex items-start text-left px-4 py-2 transition-colors',
+                    notification.read_at ? 'hover:bg-gray-50' : 'bg-blue-50 hover:bg-blue-100'
+                  )}
+                >
+                  <span
+                    className={clsx(
+                      'mt-1.5 mr-3 w-2 h-2 flex-shrink-0 rounded-full',
+                      notification.read_at ? 'bg-transparent' : 'bg-blue-500'
+                    )}
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-sm text-gray-800 break-words">{getNotificationMessage(notification)}</span>
+                    <span className="block text-xs text-gray-500">
+                      {formatNotificationDate(notification.created_at)}
+                      {notification.task_id && notification.workspace_name && ` · ${notification.workspace_name}`}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
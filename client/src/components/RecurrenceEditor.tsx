@@ -0,0 +1,133 @@
+import React from 'react';
+import { RecurrenceRule } from '../types';
+import clsx from 'clsx';
+
+interface RecurrenceEditorProps {
+  rule: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+}
+
+const WEEKDAY_LABELS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+const INTERVAL_UNITS: Record<RecurrenceRule['frequency'], string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  business_days: 'business day(s)'
+};
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ rule, onChange }) => {
+  const handleFrequencyChange = (frequency: string) => {
+    switch (frequency) {
+      case 'daily':
+      case 'business_days':
+        onChange({ frequency, interval: 1 });
+        break;
+      case 'weekly':
+        onChange({ frequency, weekdays: [new Date().getDay()] });
+        break;
+      case 'monthly':
+        onChange({ frequency, day_of_month: new Date().getDate() });
+        break;
+      default:
+        onChange(null);
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!rule) return;
+    const weekdays = rule.weekdays || [];
+    const nextWeekdays = weekdays.includes(day)
+      ? weekdays.filter(d => d !== day)
+      : [...weekdays, day].sort((a, b) => a - b);
+    // A weekly rule needs at least one day
+    if (nextWeekdays.length === 0) return;
+    onChange({ ...rule, weekdays: nextWeekdays });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Repeat
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={rule?.frequency || ''}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          className="px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+        >
+          <option value="">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="business_days">Business days</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+        </select>
+
+        {rule && (rule.frequency === 'daily' || rule.frequency === 'business_days') && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>every</span>
+            <input
+              type="number"
+              min={1}
+              value={rule.interval || 1}
+              onChange={(e) => {
+                const interval = parseInt(e.target.value, 10);
+                if (interval >= 1) {
+                  onChange({ ...rule, interval });
+                }
+              }}
+              className="w-16 px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+            <span>{INTERVAL_UNITS[rule.frequency]}</span>
+          </div>
+        )}
+
+        {rule && rule.frequency === 'weekly' && (
+          <div className="flex items-center gap-1">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={clsx(
+                  "w-8 h-8 text-xs rounded-full border transition-colors",
+                  rule.weekdays?.includes(day)
+                    ? "bg-blue-600 border-blue-600 text-white"
+                    : "bg-white border-gray-300 text-gray-600 hover:bg-gray-100"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {rule && rule.frequency === 'monthly' && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>on day</span>
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={rule.day_of_month || 1}
+              onChange={(e) => {
+                const dayOfMonth = parseInt(e.target.value, 10);
+                if (dayOfMonth >= 1 && dayOfMonth <= 31) {
+                  onChange({ ...rule, day_of_month: dayOfMonth });
+                }
+              }}
+              className="w-16 px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+          </div>
+        )}
+      </div>
+      {rule && (
+        <p className="mt-1 text-xs text-gray-500">
+          Completing this task creates the next occurrence.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
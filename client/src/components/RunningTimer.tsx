@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+
+// Format a number of seconds as "1h 05m", "12m" or "<1m"
+export const formatDuration = (totalSeconds: number) => {
+  const minutes = Math.floor(totalSeconds / 60);
+  if (minutes < 1) return '<1m';
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
+
+interface RunningTimerProps {
+  startedAt: string;
+  className?: string;
+}
+
+// Elapsed time of a running timer, refreshed every 30 seconds
+const RunningTimer: React.FC<RunningTimerProps> = ({ startedAt, className }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const elapsedSeconds = Math.max(0, (now - new Date(startedAt).getTime()) / 1000);
+
+  return (
+    <span
+      className={className || 'flex-shrink-0 flex items-center gap-0.5 text-xs text-green-600'}
+      title={`Timer running since ${new Date(startedAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}`}
+    >
+      <Timer className="w-3.5 h-3.5 animate-pulse" />
+      <span>{formatDuration(elapsedSeconds)}</span>
+    </span>
+  );
+};
+
+export default RunningTimer;
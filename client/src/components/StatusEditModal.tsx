@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import { WorkflowStatus, WorkflowStatusInput, StatusCategory } from '../types';
+import { apiService } from '../services/api';
+import { X, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import StatusIcon, { STATUS_CATEGORY_LABELS } from './StatusIcon';
+
+interface StatusEditModalProps {
+  statuses: WorkflowStatus[];
+  workspaceId: number;
+  onClose: () => void;
+  onStatusesUpdate: (updatedStatuses: WorkflowStatus[]) => void;
+}
+
+// A status being edited; new statuses have no key until the server assigns one
+interface DraftStatus extends WorkflowStatusInput {
+  draftId: string;
+}
+
+const DEFAULT_COLORS: Record<StatusCategory, string> = {
+  not_started: '#6b7280',
+  active: '#2563eb',
+  done: '#16a34a'
+};
+
+const toDraft = (status: WorkflowStatus): DraftStatus => ({
+  draftId: status.key,
+  key: status.key,
+  name: status.name,
+  color: status.color,
+  category: status.category,
+  allowed_transitions: status.allowed_transitions
+});
+
+// Edits the whole workflow locally and saves it in one request, so removed statuses
+// can hand their tasks over to another status in the same step
+const StatusEditModal: React.FC<StatusEditModalProps> = ({ statuses, workspaceId, onClose, onStatusesUpdate }) => {
+  const [drafts, setDrafts] = useState<DraftStatus[]>(() => statuses.map(toDraft));
+  const [newStatusName, setNewStatusName] = useState('');
+  const [newStatusCategory, setNewStatusCategory] = useState<StatusCategory>('active');
+  const [reassign, setReassign] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only saved statuses can be transition or reassignment targets; new ones have no key yet
+  const keptStatuses = drafts.filter(draft => draft.key);
+  const removedStatuses = statuses.filter(status => !drafts.some(draft => draft.key === status.key));
+
+  const updateDraft = (draftId: string, changes: Partial<DraftStatus>) => {
+    setDrafts(prev => prev.map(draft => (draft.draftId === draftId ? { ...draft, ...changes } : draft)));
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    setDrafts(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleAdd = () => {
+    if (!newStatusName.trim()) return;
+    setDrafts(prev => [
+      ...prev,
+      {
+        draftId: `new-${Date.now()}`,
+        name: newStatusName.trim(),
+        color: DEFAULT_COLORS[newStatusCategory],
+        category: newStatusCategory,
+        allowed_transitions: null
+      }
+    ]);
+    setNewStatusName('');
+  };
+
+  const toggleTransition = (draft: DraftStatus, targetKey: string) => {
+    const current = draft.allowed_transitions || [];
+    updateDraft(draft.draftId, {
+      allowed_transitions: current.includes(targetKey)
+        ? current.filter(key => key !== targetKey)
+        : [...current, targetKey]
+    });
+  };
+
+  // Tasks of a removed status go to the chosen status, or the first kept status of the same category
+  const getReassignTarget = (status: WorkflowStatus) =>
+    reassign[status.key]
+      || keptStatuses.find(draft => draft.category === status.category)?.key
+      || keptStatuses[0]?.key
+      || '';
+
+  const handleSave = async () => {
+    setError(null);
+    const keptKeys = keptStatuses.map(draft => draft.key as string);
+    const inputs: WorkflowStatusInput[] = drafts.map(draft => ({
+      key: draft.key,
+      name: draft.name.trim(),
+      color: draft.color,
+      category: draft.category,
+      allowed_transitions: draft.allowed_transitions
+        ? draft.allowed_transitions.filter(key => keptKeys.includes(key))
+        : null
+    }));
+    const reassignments: Record<string, string> = {};
+    removedStatuses.forEach(status => {
+      reassignments[status.key] = getReassignTarget(status);
+    });
+
+    try {
+      setIsSaving(true);
+      const saved = await apiService.saveStatuses(workspaceId, inputs, reassignments);
+      onStatusesUpdate(saved);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save statuses');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 modal-overlay">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Status Workflow</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 max-h-[32rem] overflow-y-auto">
+          {/* Create new status section */}
+          <div className="mb-4 p-3 bg-gray-50 rounded-lg flex items-center space-x-2">
+            <input
+              type="text"
+              placeholder="Enter new status name..."
+              value={newStatusName}
+              onChange={(e) => setNewStatusName(e.target.value)}
+              onKeyPress={(e) => {
+                if (e.key === 'Enter') handleAdd();
+              }}
+              maxLength={40}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <select
+              value={newStatusCategory}
+              onChange={(e) => setNewStatusCategory(e.target.value as StatusCategory)}
+              className="px-2 py-2 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {(Object.keys(STATUS_CATEGORY_LABELS) as StatusCategory[]).map(category => (
+                <option key={category} value={category}>{STATUS_CATEGORY_LABELS[category]}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAdd}
+              disabled={!newStatusName.trim()}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add</span>
+            </button>
+          </div>
+
+          {error && (
+            <p className="mb-3 text-sm text-red-600">{error}</p>
+          )}
+
+          {/* Statuses list */}
+          <div className="space-y-2">
+            {drafts.map((draft, index) => (
+              <div key={draft.draftId} className="p-3 rounded-lg border bg-white border-gray-300 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="color"
+                    value={draft.color}
+                    onChange={(e) => updateDraft(draft.draftId, { color: e.target.value })}
+                    className="w-8 h-8 p-0 border border-gray-300 rounded cursor-pointer"
+                    title="Status color"
+                  />
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => updateDraft(draft.draftId, { name: e.target.value })}
+                    maxLength={40}
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <select
+                    value={draft.category}
+                    onChange={(e) => updateDraft(draft.draftId, { category: e.target.value as StatusCategory })}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    {(Object.keys(STATUS_CATEGORY_LABELS) as StatusCategory[]).map(category => (
+                      <option key={category} value={category}>{STATUS_CATEGORY_LABELS[category]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => moveDraft(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-600 hover:bg-gray-100 rounded transition-colors disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveDraft(index, 1)}
+                    disabled={index === drafts.length - 1}
+                    className="p-1 text-gray-600 hover:bg-gray-100 rounded transition-colors disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setDrafts(prev => prev.filter(d => d.draftId !== draft.draftId))}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                    title="Remove status"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {/* Allowed transitions; unrestricted statuses may move anywhere */}
+                {draft.key && (
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={draft.allowed_transitions !== null}
+                        onChange={(e) => updateDraft(draft.draftId, {
+                          allowed_transitions: e.target.checked
+                            ? keptStatuses.filter(d => d.key !== draft.key).map(d => d.key as string)
+                            : null
+                        })}
+                      />
+                      Restrict moves to:
+                    </label>
+                    {draft.allowed_transitions !== null && keptStatuses.filter(d => d.key !== draft.key).map(target => (
+                      <label key={target.draftId} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={(draft.allowed_transitions || []).includes(target.key as string)}
+                          onChange={() => toggleTransition(draft, target.key as string)}
+                        />
+                        {target.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Where the tasks of removed statuses go */}
+          {removedStatuses.length > 0 && (
+            <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-2">
+              <div className="text-sm font-medium text-gray-900">Removed statuses</div>
+              {removedStatuses.map(status => (
+                <div key={status.key} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <StatusIcon statuses={statuses} status={status.key} />
+                  <span className="flex-1">Move tasks in "{status.name}" to</span>
+                  <select
+                    value={getReassignTarget(status)}
+                    onChange={(e) => setReassign(prev => ({ ...prev, [status.key]: e.target.value }))}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    {keptStatuses.map(target => (
+                      <option key={target.draftId} value={target.key}>{target.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end space-x-2 p-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || drafts.some(draft => !draft.name.trim())}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatusEditModal;
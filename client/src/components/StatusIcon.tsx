@@ -0,0 +1,76 @@
+import React from 'react';
+import { WorkflowStatus, StatusCategory } from '../types';
+import { Circle, Play, Pause, CheckCircle } from 'lucide-react';
+
+export const STATUS_CATEGORY_LABELS: Record<StatusCategory, string> = {
+  not_started: 'Not started',
+  active: 'Active',
+  done: 'Done'
+};
+
+// Workflow helpers; they mirror the rules in server/services/statuses.js
+export const findStatus = (statuses: WorkflowStatus[], key: string) =>
+  statuses.find(status => status.key === key);
+
+export const isDoneStatus = (statuses: WorkflowStatus[], key: string) =>
+  findStatus(statuses, key)?.category === 'done';
+
+// The first active status is where the work happens; the server starts timers there
+export const getWorkingStatus = (statuses: WorkflowStatus[]) =>
+  statuses.find(status => status.category === 'active');
+
+export const canTransition = (statuses: WorkflowStatus[], fromKey: string, toKey: string) => {
+  const current = findStatus(statuses, fromKey);
+  return fromKey === toKey || !current || !current.allowed_transitions || current.allowed_transitions.includes(toKey);
+};
+
+// Moving into an active status from outside the active category starts a task
+export const isStartingTransition = (statuses: WorkflowStatus[], fromKey: string, toKey: string) =>
+  findStatus(statuses, toKey)?.category === 'active' && findStatus(statuses, fromKey)?.category !== 'active';
+
+// First done status the task may move to, used to complete it in one step
+export const getCompletedStatus = (statuses: WorkflowStatus[], fromKey: string) =>
+  statuses.find(status => status.category === 'done' && canTransition(statuses, fromKey, status.key));
+
+// Status a click on the status button moves to: a not-started task starts, an active one
+// cycles through the active statuses in workflow order. Done tasks stay done.
+export const getNextStatus = (statuses: WorkflowStatus[], key: string) => {
+  const current = findStatus(statuses, key);
+  if (!current || current.category === 'done') return undefined;
+  const activeStatuses = statuses.filter(status =>
+    status.category === 'active' && status.key !== key && canTransition(statuses, key, status.key)
+  );
+  if (current.category === 'not_started') return activeStatuses[0];
+  return activeStatuses.find(status => status.position > current.position) || activeStatuses[0];
+};
+
+// Sort rank of a status: by category in view order, then by workflow position
+export const getStatusSortOrder = (statuses: WorkflowStatus[], key: string, categoryOrder: StatusCategory[]) => {
+  const status = findStatus(statuses, key);
+  if (!status) return Number.MAX_SAFE_INTEGER;
+  return categoryOrder.indexOf(status.category) * 10000 + status.position;
+};
+
+interface StatusIconProps {
+  statuses: WorkflowStatus[];
+  status: string;
+  className?: string;
+}
+
+// Icon of a status in its workflow color
+const StatusIcon: React.FC<StatusIconProps> = ({ statuses, status, className = 'w-4 h-4' }) => {
+  const definition = findStatus(statuses, status);
+  const style = { color: definition ? definition.color : '#9ca3af' };
+
+  if (definition?.category === 'done') {
+    return <CheckCircle className={className} style={style} />;
+  }
+  if (definition?.category === 'active') {
+    return definition.key === getWorkingStatus(statuses)?.key
+      ? <Play className={className} style={style} />
+      : <Pause className={className} style={style} />;
+  }
+  return <Circle className={className} style={style} />;
+};
+
+export default StatusIcon;
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { TaskChange, WorkflowStatus } from '../types';
+import { apiService } from '../services/api';
+import { History, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface TaskActivityProps {
+  taskId: number;
+  // Changes whenever the task is edited, so an open timeline picks up new entries
+  refreshKey?: string;
+  statuses?: WorkflowStatus[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  start_date: 'start date',
+  due_date: 'due date',
+  completion_date: 'completion date',
+  category: 'category',
+  tags: 'tags',
+  assignees: 'assignees',
+  parent_task: 'parent task',
+  recurrence: 'repeat rule',
+  workspace: 'workspace'
+};
+
+// Long free-text values are summarized instead of shown in full
+const SUMMARIZED_FIELDS = ['description', 'recurrence'];
+
+export const formatChangeDate = (dateString: string) => {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+};
+
+// Statuses are logged by key; removed statuses show their key
+const formatValue = (field: string, value: string | null, statuses: WorkflowStatus[]) => {
+  if (value === null) return 'none';
+  if (field === 'status') return statuses.find(status => status.key === value)?.name || value;
+  return value;
+};
+
+export const describeChange = (change: TaskChange, statuses: WorkflowStatus[]) => {
+  if (change.field === 'copied_from') {
+    return <>copied this task from <span className="font-medium text-gray-800">{change.new_value}</span></>;
+  }
+  if (change.field === 'attachment') {
+    return change.new_value
+      ? <>attached <span className="font-medium text-gray-800">{change.new_value}</span></>
+      : <>removed the attachment <span className="font-medium text-gray-800">{change.old_value}</span></>;
+  }
+  if (change.field === 'trash') {
+    return <>{change.new_value ? 'moved the task to the trash' : 'restored the task from the trash'}</>;
+  }
+  // Custom fields are logged as custom:<field name>
+  const label = FIELD_LABELS[change.field] || change.field.replace(/^custom:/, '');
+  if (SUMMARIZED_FIELDS.includes(change.field)) {
+    if (change.new_value === null) return <>removed the {label}</>;
+    return <>{change.old_value === null ? 'added' : 'updated'} the {label}</>;
+  }
+  return (
+    <>
+      changed {label} from <span className="font-medium text-gray-800">{formatValue(change.field, change.old_value, statuses)}</span>
+      {' '}to <span className="font-medium text-gray-800">{formatValue(change.field, change.new_value, statuses)}</span>
+    </>
+  );
+};
+
+const TaskActivity: React.FC<TaskActivityProps> = ({ taskId, refreshKey, statuses = [] }) => {
+  const [changes, setChanges] = useState<TaskChange[]>([]);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isExpanded) return;
+
+    let cancelled = false;
+    const loadChanges = async () => {
+      setIsLoading(true);
+      try {
+        const taskChanges = await apiService.getTaskChanges(taskId);
+        if (!cancelled) {
+          setChanges(taskChanges);
+        }
+      } catch (err) {
+        console.error('Error loading task activity:', err);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadChanges();
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, refreshKey, isExpanded]);
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-2 hover:text-gray-900"
+      >
+        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <History className="w-4 h-4" />
+        Activity
+      </button>
+
+      {isExpanded && (
+        changes.length > 0 ? (
+          <ol className="relative border-l border-gray-200 ml-2">
+            {changes.map(change => (
+              <li key={change.id} className="ml-4 pb-3 last:pb-0">
+                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white bg-gray-300" />
+                <div className="text-sm text-gray-600 break-words">
+                  <span className="font-medium text-gray-800">
+                    {change.actor === 'system' ? 'System' : change.actor_name || 'Deleted user'}
+                  </span>
+                  {' '}{describeChange(change, statuses)}
+                </div>
+                {change.reason && (
+                  <div className="text-xs text-gray-500">{change.reason}</div>
+                )}
+                <div className="text-xs text-gray-400">{formatChangeDate(change.changed_at)}</div>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-gray-400">{isLoading ? 'Loading...' : 'No changes recorded yet'}</p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default TaskActivity;
@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { TaskAttachment } from '../types';
+import { apiService } from '../services/api';
+import { Paperclip, Upload, Download, Trash2, FileText } from 'lucide-react';
+
+interface TaskAttachmentsProps {
+  taskId: number;
+  onCountChange?: (count: number) => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
+
+const isImage = (attachment: TaskAttachment) => attachment.content_type.startsWith('image/');
+
+// Images are fetched with the session cookie and shown from an object URL
+const AttachmentThumbnail: React.FC<{ attachment: TaskAttachment }> = ({ attachment }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    apiService.getTaskAttachmentContent(attachment.task_id, attachment.id)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => console.error('Error loading attachment preview:', err));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.task_id, attachment.id]);
+
+  if (!url) {
+    return <div className="w-12 h-12 rounded bg-gray-100 flex-shrink-0" />;
+  }
+  return <img src={url} alt={attachment.file_name} className="w-12 h-12 rounded object-cover flex-shrink-0 border border-gray-200" />;
+};
+
+const TaskAttachments: React.FC<TaskAttachmentsProps> = ({ taskId, onCountChange }) => {
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const loadAttachments = async () => {
+      try {
+        setAttachments(await apiService.getTaskAttachments(taskId));
+      } catch (err) {
+        console.error('Error loading task attachments:', err);
+      }
+    };
+
+    loadAttachments();
+  }, [taskId]);
+
+  const replaceAttachments = (nextAttachments: TaskAttachment[]) => {
+    setAttachments(nextAttachments);
+    onCountChange?.(nextAttachments.length);
+  };
+
+  const handleUpload = async (files: File[]) => {
+    if (files.length === 0) return;
+    setError(null);
+    setIsUploading(true);
+    let nextAttachments = attachments;
+    try {
+      for (const file of files) {
+        const attachment = await apiService.uploadTaskAttachment(taskId, file);
+        nextAttachments = [attachment, ...nextAttachments];
+        replaceAttachments(nextAttachments);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload file');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDownload = async (attachment: TaskAttachment) => {
+    setError(null);
+    try {
+      const blob = await apiService.getTaskAttachmentContent(taskId, attachment.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.file_name;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download file');
+    }
+  };
+
+  const handleDelete = async (attachment: TaskAttachment) => {
+    if (!window.confirm(`Delete "${attachment.file_name}"?`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await apiService.deleteTaskAttachment(taskId, attachment.id);
+      replaceAttachments(attachments.filter(a => a.id !== attachment.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete file');
+    }
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        handleUpload(Array.from(e.dataTransfer.files));
+      }}
+      className={`rounded ${isDragging ? 'ring-2 ring-blue-400 bg-blue-50' : ''}`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <label className="flex items-center gap-1 text-sm font-medium text-gray-700">
+          <Paperclip className="w-4 h-4" />
+          Attachments
+          {attachments.length > 0 && <span className="font-normal text-gray-500">({attachments.length})</span>}
+        </label>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 hover:text-blue-600 disabled:opacity-50"
+        >
+          <Upload className="w-3.5 h-3.5" />
+          {isUploading ? 'Uploading...' : 'Add files'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => handleUpload(Array.from(e.target.files || []))}
+        />
+      </div>
+
+      {attachments.length > 0 ? (
+        <ul className="space-y-1">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="flex items-center gap-2 text-sm text-gray-600">
+              {isImage(attachment) ? (
+                <AttachmentThumbnail attachment={attachment} />
+              ) : (
+                <div className="w-12 h-12 rounded bg-gray-50 border border-gray-200 flex items-center justify-center flex-shrink-0">
+                  <FileText className="w-5 h-5 text-gray-400" />
+                </div>
+              )}
+              <div className="min-w-0 flex-1">
+                <button
+                  type="button"
+                  onClick={() => handleDownload(attachment)}
+                  className="block max-w-full truncate font-medium text-gray-800 hover:text-blue-600 text-left"
+                  title={attachment.file_name}
+                >
+                  {attachment.file_name}
+                </button>
+                <span className="text-xs text-gray-500">
+                  {formatFileSize(attachment.size_bytes)} · {attachment.uploader_name || 'Deleted user'}
+                  {' · '}{new Date(attachment.created_at).toLocaleDateString()}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDownload(attachment)}
+                className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                title="Download"
+              >
+                <Download className="w-3.5 h-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(attachment)}
+                className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                title="Delete attachment"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-400">No files yet - drop files here or use Add files</p>
+      )}
+
+      {error && (
+        <p className="mt-1 text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default TaskAttachments;
@@ -0,0 +1,286 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { TaskComment } from '../types';
+import { apiService } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { MessageSquare, CornerDownRight, Edit2, Trash2 } from 'lucide-react';
+import Markdown from './Markdown';
+import MentionTextarea from './MentionTextarea';
+
+interface TaskCommentsProps {
+  taskId: number;
+  workspaceUsers: Array<{ user_id: number; name: string; email: string }>;
+  autoFocus?: boolean;
+  onCountChange?: (count: number) => void;
+}
+
+const formatCommentDate = (dateString: string) => {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+};
+
+const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, workspaceUsers, autoFocus, onCountChange }) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [newComment, setNewComment] = useState('');
+  const [replyingToId, setReplyingToId] = useState<number | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [editingCommentId, setEditingCommentId] = useState<number | null>(null);
+  const [editingText, setEditingText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const newCommentRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const loadComments = async () => {
+      try {
+        setComments(await apiService.getTaskComments(taskId));
+      } catch (err) {
+        console.error('Error loading task comments:', err);
+      }
+    };
+
+    loadComments();
+  }, [taskId]);
+
+  useEffect(() => {
+    if (autoFocus && newCommentRef.current) {
+      newCommentRef.current.scrollIntoView({ block: 'center' });
+      newCommentRef.current.focus();
+    }
+  }, [autoFocus]);
+
+  const repliesByParent = useMemo(() => {
+    const map = new Map<number | null, TaskComment[]>();
+    comments.forEach(comment => {
+      const key = comment.parent_comment_id;
+      map.set(key, [...(map.get(key) || []), comment]);
+    });
+    return map;
+  }, [comments]);
+
+  // Deleting a comment also removes its replies on the server
+  const collectThreadIds = (commentId: number): number[] => {
+    const replies = repliesByParent.get(commentId) || [];
+    return [commentId, ...replies.flatMap(reply => collectThreadIds(reply.id))];
+  };
+
+  const updateComments = (nextComments: TaskComment[]) => {
+    setComments(nextComments);
+    onCountChange?.(nextComments.length);
+  };
+
+  const handleAddComment = async (body: string, parentCommentId?: number) => {
+    if (!body.trim()) return;
+    setError(null);
+    try {
+      const comment = await apiService.addTaskComment(taskId, body.trim(), parentCommentId);
+      updateComments([...comments, comment]);
+      if (parentCommentId) {
+        setReplyingToId(null);
+        setReplyText('');
+      } else {
+        setNewComment('');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add comment');
+    }
+  };
+
+  const handleUpdateComment = async (commentId: number) => {
+    if (!editingText.trim()) return;
+    setError(null);
+    try {
+      const updatedComment = await apiService.updateTaskComment(taskId, commentId, editingText.trim());
+      setComments(prev => prev.map(c => c.id === commentId ? updatedComment : c));
+      setEditingCommentId(null);
+      setEditingText('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update comment');
+    }
+  };
+
+  const handleDeleteComment = async (commentId: number) => {
+    const replyCount = collectThreadIds(commentId).length - 1;
+    const message = replyCount > 0
+      ? `Delete this comment and its ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}?`
+      : 'Delete this comment?';
+    if (!window.confirm(message)) return;
+
+    setError(null);
+    try {
+      await apiService.deleteTaskComment(taskId, commentId);
+      const removedIds = new Set(collectThreadIds(commentId));
+      updateComments(comments.filter(c => !removedIds.has(c.id)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete comment');
+    }
+  };
+
+  // Ctrl/Cmd+Enter submits, Escape cancels
+  const handleKeyDown = (e: React.KeyboardEvent, onSubmit: () => void, onCancel?: () => void) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onSubmit();
+    } else if (e.key === 'Escape' && onCancel) {
+      e.preventDefault();
+      e.stopPropagation();
+      onCancel();
+    }
+  };
+
+  const renderComment = (comment: TaskComment, depth: number): React.ReactNode => {
+    const isAuthor = user?.id === comment.user_id;
+    const isEditing = editingCommentId === comment.id;
+    const replies = repliesByParent.get(comment.id) || [];
+
+    return (
+      <div key={comment.id} style={{ marginLeft: Math.min(depth, 4) * 20 }}>
+        <div className="group py-2">
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            {depth > 0 && <CornerDownRight className="w-3 h-3 text-gray-400" />}
+            <span className="font-medium text-gray-800">{comment.author_name || 'Deleted user'}</span>
+            <span>{formatCommentDate(comment.created_at)}</span>
+            {comment.updated_at !== comment.created_at && <span className="italic">(edited)</span>}
+          </div>
+
+          {isEditing ? (
+            <div className="mt-1">
+              <MentionTextarea
+                value={editingText}
+                onChange={setEditingText}
+                users={workspaceUsers}
+                onKeyDown={(e) => handleKeyDown(e, () => handleUpdateComment(comment.id), () => setEditingCommentId(null))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none text-sm bg-white"
+                rows={2}
+                autoFocus
+              />
+              <div className="flex justify-end gap-2 mt-1">
+                <button type="button" onClick={() => setEditingCommentId(null)} className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800">
+                  Cancel
+                </button>
+                <button type="button" onClick={() => handleUpdateComment(comment.id)} className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700">
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <Markdown text={comment.body} users={workspaceUsers} className="mt-1 text-sm text-gray-700" />
+          )}
+
+          {!isEditing && (
+            <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
+              <button
+                type="button"
+                onClick={() => {
+                  setReplyingToId(comment.id);
+                  setReplyText('');
+                }}
+                className="hover:text-blue-600"
+              >
+                Reply
+              </button>
+              {isAuthor && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingCommentId(comment.id);
+                      setEditingText(comment.body);
+                    }}
+                    className="opacity-0 group-hover:opacity-100 hover:text-blue-600 transition-opacity"
+                    title="Edit comment"
+                  >
+                    <Edit2 className="w-3 h-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteComment(comment.id)}
+                    className="opacity-0 group-hover:opacity-100 hover:text-red-600 transition-opacity"
+                    title="Delete comment"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {replyingToId === comment.id && (
+            <div className="mt-2">
+              <MentionTextarea
+                value={replyText}
+                onChange={setReplyText}
+                users={workspaceUsers}
+                onKeyDown={(e) => handleKeyDown(e, () => handleAddComment(replyText, comment.id), () => setReplyingToId(null))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none text-sm bg-white"
+                placeholder={`Reply to ${comment.author_name || 'comment'}...`}
+                rows={2}
+                autoFocus
+              />
+              <div className="flex justify-end gap-2 mt-1">
+                <button type="button" onClick={() => setReplyingToId(null)} className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800">
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleAddComment(replyText, comment.id)}
+                  disabled={!replyText.trim()}
+                  className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Reply
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {replies.map(reply => renderComment(reply, depth + 1))}
+      </div>
+    );
+  };
+
+  const topLevelComments = repliesByParent.get(null) || [];
+
+  return (
+    <div>
+      <label className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-2">
+        <MessageSquare className="w-4 h-4" />
+        Comments{comments.length > 0 && ` (${comments.length})`}
+      </label>
+
+      {topLevelComments.length > 0 ? (
+        <div className="divide-y divide-gray-100 mb-2">
+          {topLevelComments.map(comment => renderComment(comment, 0))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 mb-2">No comments yet</p>
+      )}
+
+      <MentionTextarea
+        ref={newCommentRef}
+        value={newComment}
+        onChange={setNewComment}
+        users={workspaceUsers}
+        onKeyDown={(e) => handleKeyDown(e, () => handleAddComment(newComment))}
+        className="w-full px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none text-sm bg-white"
+        placeholder="Write a comment... (@ to mention, Ctrl+Enter to send)"
+        rows={2}
+      />
+      <div className="flex justify-end mt-1">
+        <button
+          type="button"
+          onClick={() => handleAddComment(newComment)}
+          disabled={!newComment.trim()}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Comment
+        </button>
+      </div>
+      {error && (
+        <p className="mt-1 text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default TaskComments;
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Category, Tag, WorkflowStatus, EstimateUnit, RecurrenceRule, TaskFieldConflict, TaskFieldValue, UpdateTaskData } from '../types';
+import { TaskConflictError } from '../services/api';
+import { describeChange, formatChangeDate } from './TaskActivity';
+import { formatEstimate } from './EstimateCell';
+import { X, AlertTriangle } from 'lucide-react';
+
+export type ConflictChoice = 'yours' | 'theirs';
+export type ConflictChoices = Partial<Record<keyof UpdateTaskData, ConflictChoice>>;
+
+interface TaskConflictModalProps {
+  conflict: TaskConflictError;
+  conflicts: TaskFieldConflict[]; // fields both sides changed
+  categories: Category[];
+  tags: Tag[];
+  statuses: WorkflowStatus[];
+  estimateUnit?: EstimateUnit;
+  onResolve: (choices: ConflictChoices) => void;
+}
+
+const FIELD_LABELS: Partial<Record<keyof UpdateTaskData, string>> = {
+  title: 'Title',
+  description: 'Description',
+  category_id: 'Category',
+  tag_ids: 'Tags',
+  priority: 'Priority',
+  status: 'Status',
+  start_date: 'Start date',
+  due_date: 'Due date',
+  completion_date: 'Completion date',
+  parent_task_id: 'Parent task',
+  recurrence_rule: 'Repeat rule',
+  estimate: 'Estimate'
+};
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Whether two values of a task field are the same, e.g. an edit's value and the task's
+export const isSameFieldValue = (a: unknown, b: unknown) => {
+  if (isEmptyValue(a) || isEmptyValue(b)) return isEmptyValue(a) && isEmptyValue(b);
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return JSON.stringify(a.map(Number).sort((x, y) => x - y)) === JSON.stringify(b.map(Number).sort((x, y) => x - y));
+  }
+  if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+  return String(a) === String(b);
+};
+
+// Copy one field of an edit into another edit, e.g. the fields of an edit that are kept after a conflict
+export const copyTaskField = <K extends keyof UpdateTaskData>(from: UpdateTaskData, to: UpdateTaskData, field: K) => {
+  to[field] = from[field];
+};
+
+// Puts the fields of an edit that a teammate changed in the meantime side by side,
+// so the user can keep their version, override it or pick per field
+const TaskConflictModal: React.FC<TaskConflictModalProps> = ({ conflict, conflicts, categories, tags, statuses, estimateUnit = 'hours', onResolve }) => {
+  const [choices, setChoices] = useState<ConflictChoices>(
+    () => Object.fromEntries(conflicts.map(c => [c.field, 'theirs'])) as ConflictChoices
+  );
+
+  const chooseAll = (choice: ConflictChoice) =>
+    Object.fromEntries(conflicts.map(c => [c.field, choice])) as ConflictChoices;
+
+  const formatFieldValue = (field: keyof UpdateTaskData, value: TaskFieldValue) => {
+    if (isEmptyValue(value)) return 'none';
+    switch (field) {
+      case 'category_id':
+        return categories.find(c => c.id === Number(value))?.name || `#${value}`;
+      case 'tag_ids':
+        return (value as number[]).map(id => tags.find(t => t.id === Number(id))?.name || `#${id}`).join(', ');
+      case 'status':
+        return statuses.find(s => s.key === value)?.name || String(value);
+      case 'estimate':
+        return formatEstimate(Number(value), estimateUnit);
+      case 'recurrence_rule': {
+        const rule = value as RecurrenceRule;
+        return `Repeats ${rule.frequency.replace('_', ' ')}${rule.interval && rule.interval > 1 ? `, every ${rule.interval}` : ''}`;
+      }
+      case 'start_date':
+      case 'due_date':
+      case 'completion_date':
+        return String(value).slice(0, 10);
+      case 'parent_task_id':
+        return `#${value}`;
+      default:
+        return String(value);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 modal-overlay">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-xl mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            Task changed by someone else
+          </h2>
+          <button
+            onClick={() => onResolve(chooseAll('theirs'))}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            title="Keep their version"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 max-h-[32rem] overflow-y-auto space-y-4">
+          <p className="text-sm text-gray-600">
+            "{conflict.task.title}" was changed while you were editing it. Choose which version to keep for each field.
+          </p>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="pb-1 font-medium">Field</th>
+                <th className="pb-1 font-medium">Theirs</th>
+                <th className="pb-1 font-medium">Yours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflicts.map(c => (
+                <tr key={c.field} className="border-t border-gray-100 align-top">
+                  <td className="py-2 pr-2 text-gray-700">{FIELD_LABELS[c.field] || c.field}</td>
+                  {(['theirs', 'yours'] as ConflictChoice[]).map(side => (
+                    <td key={side} className="py-2 pr-2">
+                      <label className={`flex items-start gap-2 p-2 rounded border cursor-pointer ${choices[c.field] === side ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}>
+                        <input
+                          type="radio"
+                          name={`conflict-${c.field}`}
+                          checked={choices[c.field] === side}
+                          onChange={() => setChoices(prev => ({ ...prev, [c.field]: side }))}
+                          className="mt-0.5"
+                        />
+                        <span className="text-gray-800 whitespace-pre-wrap break-words max-h-24 overflow-y-auto">
+                          {formatFieldValue(c.field, c[side])}
+                        </span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {conflict.changes.length > 0 && (
+            <div className="border-t border-gray-200 pt-3">
+              <h3 className="text-xs font-medium text-gray-500 mb-1">Changed since you opened it</h3>
+              <ul className="space-y-1 text-xs text-gray-600">
+                {conflict.changes.map(change => (
+                  <li key={change.id}>
+                    <span className="font-medium text-gray-800">{change.actor === 'system' ? 'System' : change.actor_name || 'Someone'}</span>
+                    {' '}{describeChange(change, statuses)}
+                    <span className="text-gray-400"> · {formatChangeDate(change.changed_at)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end space-x-2 p-4 border-t border-gray-200">
+          <button
+            onClick={() => onResolve(chooseAll('theirs'))}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Keep theirs
+          </button>
+          <button
+            onClick={() => onResolve(chooseAll('yours'))}
+            className="px-4 py-2 text-sm text-red-600 hover:text-red-700 transition-colors"
+          >
+            Override with mine
+          </button>
+          <button
+            onClick={() => onResolve(choices)}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Save selection
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskConflictModal;
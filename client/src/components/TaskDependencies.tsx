@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { Task, TaskDependency, WorkflowStatus } from '../types';
+import { apiService } from '../services/api';
+import { Lock, CheckCircle, Circle, X as XIcon } from 'lucide-react';
+import clsx from 'clsx';
+import { findStatus, isDoneStatus } from './StatusIcon';
+
+interface TaskDependenciesProps {
+  task: Task;
+  workspaceTasks: Task[];
+  statuses?: WorkflowStatus[];
+  onChange?: () => void;
+}
+
+const TaskDependencies: React.FC<TaskDependenciesProps> = ({ task, workspaceTasks, statuses = [], onChange }) => {
+  const [dependsOn, setDependsOn] = useState<TaskDependency[]>([]);
+  const [dependents, setDependents] = useState<TaskDependency[]>([]);
+  const [selectedTaskId, setSelectedTaskId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadDependencies = async () => {
+      try {
+        const dependencies = await apiService.getTaskDependencies(task.id);
+        setDependsOn(dependencies.depends_on);
+        setDependents(dependencies.dependents);
+      } catch (err) {
+        console.error('Error loading task dependencies:', err);
+      }
+    };
+
+    loadDependencies();
+  }, [task.id]);
+
+  // Tasks that could still be added as a dependency
+  const candidateTasks = workspaceTasks
+    .filter(t => t.id !== task.id && !dependsOn.some(d => d.id === t.id))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const handleAddDependency = async (dependsOnTaskId: number) => {
+    setError(null);
+    try {
+      const dependency = await apiService.addTaskDependency(task.id, dependsOnTaskId);
+      setDependsOn(prev => [...prev, dependency].sort((a, b) => a.title.localeCompare(b.title)));
+      setSelectedTaskId('');
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add dependency');
+    }
+  };
+
+  const handleRemoveDependency = async (dependsOnTaskId: number) => {
+    setError(null);
+    try {
+      await apiService.removeTaskDependency(task.id, dependsOnTaskId);
+      setDependsOn(prev => prev.filter(d => d.id !== dependsOnTaskId));
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove dependency');
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Blocked by
+      </label>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {dependsOn.length > 0 ? (
+          dependsOn.map((dependency) => (
+            <span
+              key={dependency.id}
+              className={clsx(
+                "inline-flex items-center gap-1 px-2 py-1 text-xs rounded-full",
+                isDoneStatus(statuses, dependency.status) ? "bg-green-100 text-green-800" : "bg-orange-100 text-orange-800"
+              )}
+              title={isDoneStatus(statuses, dependency.status) ? findStatus(statuses, dependency.status)?.name : 'Not done yet'}
+            >
+              {isDoneStatus(statuses, dependency.status) ? <CheckCircle className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+              <span className="truncate max-w-[160px]">{dependency.title}</span>
+              <button
+                type="button"
+                onClick={() => handleRemoveDependency(dependency.id)}
+                className="hover:text-red-600"
+                title="Remove dependency"
+              >
+                <XIcon className="w-3 h-3" />
+              </button>
+            </span>
+          ))
+        ) : (
+          <span className="text-sm text-gray-400">No dependencies</span>
+        )}
+      </div>
+      <select
+        value={selectedTaskId}
+        onChange={(e) => {
+          setSelectedTaskId(e.target.value);
+          if (e.target.value) {
+            handleAddDependency(Number(e.target.value));
+          }
+        }}
+        className="w-full px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+      >
+        <option value="">Add a task this one waits on...</option>
+        {candidateTasks.map((t) => (
+          <option key={t.id} value={t.id}>{t.title}</option>
+        ))}
+      </select>
+      {error && (
+        <p className="mt-1 text-sm text-red-600">{error}</p>
+      )}
+      {dependents.length > 0 && (
+        <div className="mt-2 text-xs text-gray-500 flex flex-wrap items-center gap-1">
+          <span>Blocking:</span>
+          {dependents.map((dependent) => (
+            <span key={dependent.id} className="inline-flex items-center gap-1 px-2 py-0.5 bg-gray-100 rounded-full">
+              <Circle className="w-2.5 h-2.5" />
+              {dependent.title}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskDependencies;
@@ -1,22 +1,41 @@
 import React, { useState, useEffect } from 'react';
-import { Task, Category, Tag } from '../types';
-import { X, Save, Calendar, Flag, Tag as TagIcon, MessageSquare, Circle, Play, Pause, CheckCircle, Users, X as XIcon } from 'lucide-react';
+import { Task, Category, Tag, RecurrenceRule, EstimateUnit, CustomField, CustomFieldValue, WorkflowStatus } from '../types';
+import { X, Save, Calendar, Flag, Tag as TagIcon, MessageSquare, Users, Copy, X as XIcon } from 'lucide-react';
 import clsx from 'clsx';
 import DatePicker from './DatePicker';
+import TaskDependencies from './TaskDependencies';
+import RecurrenceEditor from './RecurrenceEditor';
+import TaskComments from './TaskComments';
+import TaskAttachments from './TaskAttachments';
+import TaskActivity from './TaskActivity';
+import TaskTimeEntries from './TaskTimeEntries';
+import CustomFieldInput from './CustomFieldInput';
+import Markdown, { toggleTaskListItem } from './Markdown';
+import MentionTextarea from './MentionTextarea';
+import StatusIcon, { canTransition, isStartingTransition, getNextStatus, getCompletedStatus } from './StatusIcon';
 
 interface TaskEditModalProps {
   task: Task;
   categories: Category[];
   tags: Tag[];
   onClose: () => void;
+  onDuplicate?: (task: Task) => void;
   onSave: (task: Task) => Promise<void>;
   onUpdate: (task: Task) => void;
   onCategorySave: (taskId: number, categoryId?: number) => Promise<void>;
-  onTagSave: (taskId: number, tagId?: number) => Promise<void>;
+  onTagSave: (taskId: number, tagIds: number[]) => Promise<void>;
   onAssigneeSave?: (taskId: number, assigneeIds: number[]) => Promise<void>;
+  workspaceTasks?: Task[];
+  onDependenciesChange?: () => void;
+  focusComments?: boolean;
+  estimateUnit?: EstimateUnit;
+  statuses?: WorkflowStatus[];
+  customFields?: CustomField[];
+  // Resolves to null when someone else changed the field in the meantime and their value was kept
+  onCustomFieldsSave?: (taskId: number, values: Record<number, CustomFieldValue | null>) => Promise<Record<string, CustomFieldValue> | null>;
 }
 
-const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, onClose, onSave, onUpdate, onCategorySave, onTagSave, onAssigneeSave }) => {
+const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, onClose, onDuplicate, onSave, onUpdate, onCategorySave, onTagSave, onAssigneeSave, workspaceTasks, onDependenciesChange, focusComments, estimateUnit = 'hours', statuses = [], customFields = [], onCustomFieldsSave }) => {
   const formatDateForInput = (dateString: string | undefined) => {
     if (!dateString) return '';
     
@@ -39,13 +58,14 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
     title: task.title,
     description: task.description || '',
     category_id: task.category_id || '',
-    tag_id: task.tag_id || '',
     priority: task.priority,
     status: task.status,
     start_date: formatDateForInput(task.start_date),
     due_date: formatDateForInput(task.due_date),
     completion_date: formatDateForInput(task.completion_date)
   });
+  const [estimateDraft, setEstimateDraft] = useState(task.estimate != null ? String(task.estimate) : '');
+  const [customFieldError, setCustomFieldError] = useState<string | null>(null);
   
   // Assignee state
   const [selectedAssignees, setSelectedAssignees] = useState<Array<{id: number, name: string, email: string}>>([]);
@@ -54,22 +74,26 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
   const [assigneeSearchTerm, setAssigneeSearchTerm] = useState('');
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editingTitleValue, setEditingTitleValue] = useState(task.title);
+  const [isEditingDescription, setIsEditingDescription] = useState(false);
   const titleInputRef = React.useRef<HTMLInputElement>(null);
   const descriptionRef = React.useRef<HTMLTextAreaElement>(null);
   const statusClickTimer = React.useRef<NodeJS.Timeout | null>(null);
+  // The status of a parent task is rolled up from its subtasks on the server
+  const hasSubtasks = (task.child_count || 0) > 0;
+  const taskTagIds = task.tag_ids || [];
 
   useEffect(() => {
     setFormData({
       title: task.title,
       description: task.description || '',
       category_id: task.category_id || '',
-      tag_id: task.tag_id || '',
-      priority: task.priority,
+        priority: task.priority,
       status: task.status,
       start_date: formatDateForInput(task.start_date),
       due_date: formatDateForInput(task.due_date),
       completion_date: formatDateForInput(task.completion_date)
     });
+    setEstimateDraft(task.estimate != null ? String(task.estimate) : '');
   }, [task]);
 
   // Load workspace users and current assignees
@@ -138,36 +162,6 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
     loadCurrentAssignees();
   }, [task.id, task.workspace_id]);
 
-  const getStatusIcon = (status: Task['status']) => {
-    switch (status) {
-      case 'todo':
-        return <Circle className="w-5 h-5" />;
-      case 'in_progress':
-        return <Play className="w-5 h-5" />;
-      case 'paused':
-        return <Pause className="w-5 h-5" />;
-      case 'done':
-        return <CheckCircle className="w-5 h-5" />;
-      default:
-        return <Circle className="w-5 h-5" />;
-    }
-  };
-
-  const getStatusColor = (status: Task['status']) => {
-    switch (status) {
-      case 'todo':
-        return 'text-gray-400 hover:text-gray-600';
-      case 'in_progress':
-        return 'text-blue-500 hover:text-blue-700';
-      case 'paused':
-        return 'text-yellow-500 hover:text-yellow-700';
-      case 'done':
-        return 'text-green-500 hover:text-green-700';
-      default:
-        return 'text-gray-400 hover:text-gray-600';
-    }
-  };
-
   const getPriorityIcon = (priority: Task['priority']) => {
     const baseClasses = "w-5 h-5";
     switch (priority) {
@@ -183,24 +177,9 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
   };
 
   const handleStatusClick = async () => {
-    let newStatus: Task['status'];
-    
-    switch (formData.status) {
-      case 'todo':
-        newStatus = 'in_progress';
-        break;
-      case 'in_progress':
-        newStatus = 'paused';
-        break;
-      case 'paused':
-        newStatus = 'in_progress';
-        break;
-      case 'done':
-        // Done stays done - no cycling back
-        return;
-      default:
-        return;
-    }
+    // Done stays done - no cycling back
+    const newStatus = getNextStatus(statuses, formData.status)?.key;
+    if (!newStatus) return;
     
     setFormData({ ...formData, status: newStatus });
     await handleStatusAutoSave(newStatus);
@@ -271,8 +250,7 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
     const updatedTask = { 
       ...task, 
       title: newTitle.trim(),
-      category_id: formData.category_id ? Number(formData.category_id) : undefined,
-      tag_id: formData.tag_id ? Number(formData.tag_id) : undefined
+      category_id: formData.category_id ? Number(formData.category_id) : undefined
     };
     onUpdate(updatedTask); // Optimistic update - immediate UI change
     
@@ -294,8 +272,7 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
     const updatedTask = { 
       ...task, 
       description: finalDescription,
-      category_id: formData.category_id ? Number(formData.category_id) : undefined,
-      tag_id: formData.tag_id ? Number(formData.tag_id) : undefined
+      category_id: formData.category_id ? Number(formData.category_id) : undefined
     };
     onUpdate(updatedTask); // Optimistic update - immediate UI change
     
@@ -308,6 +285,13 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
     }
   };
 
+  // Check or uncheck a task list item in the rendered description
+  const handleDescriptionTaskToggle = async (line: number) => {
+    const newDescription = toggleTaskListItem(formData.description, line);
+    setFormData(prev => ({ ...prev, description: newDescription }));
+    await handleDescriptionAutoSave(newDescription);
+  };
+
   const handleCategoryAutoSave = async (newCategoryId: string) => {
     const currentCategoryId = task.category_id || '';
     const finalCategoryId = newCategoryId ? Number(newCategoryId) : undefined;
@@ -330,36 +314,41 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
     }
   };
 
-  const handleTagAutoSave = async (newTagId: string) => {
-    const currentTagId = task.tag_id || '';
-    const finalTagId = newTagId ? Number(newTagId) : undefined;
-    
-    if (finalTagId === currentTagId) return;
-    
+  const handleTagAutoSave = async (newTagIds: number[]) => {
     if (onTagSave) {
       // Use the parent's tag save function if provided
-      await onTagSave(task.id, finalTagId);
+      await onTagSave(task.id, newTagIds);
     } else {
       // Fallback to local implementation if not provided
       try {
-        const tagName = finalTagId ? tags.find(t => t.id === finalTagId)?.name || 'Unknown' : undefined;
+        const taskTags = tags
+          .filter(t => newTagIds.includes(t.id))
+          .sort((a, b) => a.name.localeCompare(b.name));
+        const updatedTask = { ...task, tag_ids: taskTags.map(t => t.id), tag_names: taskTags.map(t => t.name) };
 
-        await onSave({ ...task, tag_id: finalTagId, tag_name: tagName });
-        onUpdate({ ...task, tag_id: finalTagId, tag_name: tagName });
+        await onSave(updatedTask);
+        onUpdate(updatedTask);
       } catch (error) {
-        console.error('Error auto-saving task tag:', error);
+        console.error('Error auto-saving task tags:', error);
       }
     }
   };
 
   const handleStatusAutoSave = async (newStatus: Task['status']) => {
     if (newStatus === task.status) return;
+
+    // Starting a blocked task needs confirmation
+    if (isStartingTransition(statuses, task.status, newStatus) && task.blocked_by_titles && task.blocked_by_titles.length > 0) {
+      if (!window.confirm(`This task is blocked by: ${task.blocked_by_titles.join(', ')}. Start it anyway?`)) {
+        setFormData((prev) => ({ ...prev, status: task.status }));
+        return;
+      }
+    }
     
     const updatedTask = { 
       ...task, 
       status: newStatus,
-      category_id: formData.category_id ? Number(formData.category_id) : undefined,
-      tag_id: formData.tag_id ? Number(formData.tag_id) : undefined
+      category_id: formData.category_id ? Number(formData.category_id) : undefined
     };
     onUpdate(updatedTask); // Optimistic update - immediate UI change
     
@@ -378,8 +367,7 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
     const updatedTask = { 
       ...task, 
       priority: newPriority,
-      category_id: formData.category_id ? Number(formData.category_id) : undefined,
-      tag_id: formData.tag_id ? Number(formData.tag_id) : undefined
+      category_id: formData.category_id ? Number(formData.category_id) : undefined
     };
     onUpdate(updatedTask); // Optimistic update - immediate UI change
     
@@ -392,6 +380,69 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
     }
   };
 
+  const handleRecurrenceAutoSave = async (newRule: RecurrenceRule | null) => {
+    const updatedTask = { 
+      ...task, 
+      recurrence_rule: newRule,
+      category_id: formData.category_id ? Number(formData.category_id) : undefined
+    };
+    onUpdate(updatedTask); // Optimistic update - immediate UI change
+    
+    try {
+      await onSave(updatedTask);
+    } catch (error) {
+      console.error('Error auto-saving task recurrence:', error);
+      onUpdate(task); // Revert on error
+    }
+  };
+
+  const handleEstimateAutoSave = async () => {
+    const trimmed = estimateDraft.trim();
+    const finalEstimate = trimmed === '' ? null : Number(trimmed);
+    if (finalEstimate !== null && (!Number.isFinite(finalEstimate) || finalEstimate < 0)) {
+      setEstimateDraft(task.estimate != null ? String(task.estimate) : '');
+      return;
+    }
+
+    if (finalEstimate === (task.estimate ?? null)) return;
+
+    const updatedTask = {
+      ...task,
+      estimate: finalEstimate,
+      category_id: formData.category_id ? Number(formData.category_id) : undefined
+    };
+    onUpdate(updatedTask); // Optimistic update - immediate UI change
+
+    try {
+      await onSave(updatedTask);
+    } catch (error) {
+      console.error('Error auto-saving task estimate:', error);
+      onUpdate(task); // Revert on error
+    }
+  };
+
+  const handleCustomFieldAutoSave = async (fieldId: number, value: CustomFieldValue | null) => {
+    if (!onCustomFieldsSave) return;
+
+    const nextValues = { ...(task.custom_fields || {}) };
+    if (value === null) {
+      delete nextValues[fieldId];
+    } else {
+      nextValues[fieldId] = value;
+    }
+    onUpdate({ ...task, custom_fields: nextValues }); // Optimistic update - immediate UI change
+
+    try {
+      // The list updates the task, keeping the version the server gave it
+      const savedValues = await onCustomFieldsSave(task.id, { [fieldId]: value });
+      setCustomFieldError(savedValues ? null : 'Someone else changed this field in the meantime; their value was kept');
+    } catch (error) {
+      console.error('Error auto-saving custom field:', error);
+      setCustomFieldError(error instanceof Error ? error.message : 'Failed to save field');
+      onUpdate(task); // Revert on error
+    }
+  };
+
   const handleDateAutoSave = async (dateType: 'start_date' | 'due_date' | 'completion_date', newDate: string) => {
     const currentDate = task[dateType] || '';
     const finalDate = newDate || null;
@@ -401,8 +452,7 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
     const updatedTask = { 
       ...task, 
       [dateType]: finalDate,
-      category_id: formData.category_id ? Number(formData.category_id) : undefined,
-      tag_id: formData.tag_id ? Number(formData.tag_id) : undefined
+      category_id: formData.category_id ? Number(formData.category_id) : undefined
     };
     onUpdate(updatedTask); // Optimistic update - immediate UI change
     
@@ -477,7 +527,16 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
   // Auto-resize textarea when description changes
   useEffect(() => {
     autoResizeTextarea();
-  }, [formData.description]);
+  }, [formData.description, isEditingDescription]);
+
+  // Focus the description editor when it opens
+  useEffect(() => {
+    if (isEditingDescription && descriptionRef.current) {
+      descriptionRef.current.focus();
+      const length = descriptionRef.current.value.length;
+      descriptionRef.current.setSelectionRange(length, length);
+    }
+  }, [isEditingDescription]);
 
   // Close assignee dropdown when clicking outside
   useEffect(() => {
@@ -525,12 +584,23 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
               </h2>
             )}
           </div>
-          <button
-            onClick={onClose}
-            className="text-gray-400 hover:text-gray-600 flex-shrink-0"
-          >
-            <X className="w-5 h-5" />
-          </button>
+          <div className="flex items-center space-x-3 flex-shrink-0">
+            {onDuplicate && (
+              <button
+                onClick={() => onDuplicate(task)}
+                className="text-gray-400 hover:text-blue-600"
+                title="Duplicate task"
+              >
+                <Copy className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
         <form className="space-y-6">
@@ -538,20 +608,41 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Tag
+                Tags
               </label>
+              {taskTagIds.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {taskTagIds.map((tagId, index) => (
+                    <span
+                      key={tagId}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700"
+                    >
+                      {task.tag_names?.[index] || tags.find(t => t.id === tagId)?.name}
+                      <button
+                        type="button"
+                        onClick={() => handleTagAutoSave(taskTagIds.filter(id => id !== tagId))}
+                        className="hover:text-red-600"
+                        title="Remove tag"
+                      >
+                        <XIcon className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
               <select
-                value={formData.tag_id}
+                value=""
                 onChange={async (e) => {
-                  setFormData({ ...formData, tag_id: e.target.value });
-                  await handleTagAutoSave(e.target.value);
+                  if (e.target.value) {
+                    await handleTagAutoSave([...taskTagIds, Number(e.target.value)]);
+                  }
                 }}
                 className="w-full px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm appearance-none bg-white min-h-[40px]"
                 style={{ WebkitAppearance: 'none', MozAppearance: 'none' }}
               >
-                <option value="" className="text-gray-500">Select a tag</option>
+                <option value="" className="text-gray-500">Add a tag</option>
                 {tags
-                  .filter(tag => tag.hidden !== true)
+                  .filter(tag => tag.hidden !== true && !taskTagIds.includes(tag.id))
                   .sort((a, b) => a.name.localeCompare(b.name))
                   .map((tag) => (
                     <option key={tag.id} value={tag.id}>
@@ -696,6 +787,7 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
               <div className="flex items-center space-x-3">
                 <button
                   type="button"
+                  disabled={hasSubtasks}
                   onClick={async (e) => {
                     e.stopPropagation();
                     if (statusClickTimer.current) {
@@ -712,32 +804,32 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
                       clearTimeout(statusClickTimer.current);
                       statusClickTimer.current = null;
                     }
-                    // Set status to done directly
-                    await handleStatusAutoSave('done');
-                    setFormData((prev) => ({ ...prev, status: 'done' }));
+                    // Set status to the first done status directly
+                    const completedStatus = getCompletedStatus(statuses, formData.status);
+                    if (!completedStatus) return;
+                    await handleStatusAutoSave(completedStatus.key);
+                    setFormData((prev) => ({ ...prev, status: completedStatus.key }));
                   }}
-                  className={clsx(
-                    "px-3 py-2.5 rounded-md border border-gray-300 bg-white hover:bg-gray-200 transition-colors min-w-[48px] flex items-center justify-center",
-                    getStatusColor(formData.status)
-                  )}
-                  title="Click to cycle status"
+                  className="px-3 py-2.5 rounded-md border border-gray-300 bg-white hover:bg-gray-200 transition-colors min-w-[48px] flex items-center justify-center"
+                  title={hasSubtasks ? 'Status is derived from subtasks' : 'Click to cycle status'}
                 >
-                  {getStatusIcon(formData.status)}
+                  <StatusIcon statuses={statuses} status={formData.status} className="w-5 h-5" />
                 </button>
                 <select
                   value={formData.status}
+                  disabled={hasSubtasks}
                   onChange={async (e) => {
-                    const newStatus = e.target.value as Task['status'];
+                    const newStatus = e.target.value;
                     setFormData({ ...formData, status: newStatus });
                     await handleStatusAutoSave(newStatus);
                   }}
-                  className="flex-1 px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm appearance-none bg-white min-h-[40px]"
+                  className="flex-1 px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm appearance-none bg-white min-h-[40px] disabled:bg-gray-50 disabled:text-gray-500"
                   style={{ WebkitAppearance: 'none', MozAppearance: 'none' }}
                 >
-                  <option value="todo">To Do</option>
-                  <option value="in_progress">In Progress</option>
-                  <option value="paused">Paused</option>
-                  <option value="done">Done</option>
+                  {/* Only statuses the workflow allows from the saved status */}
+                  {statuses.filter(status => canTransition(statuses, task.status, status.key)).map(status => (
+                    <option key={status.key} value={status.key}>{status.name}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -824,23 +916,150 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, categories, tags, o
             </div>
           </div>
 
+          {/* Estimate */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Estimate ({estimateUnit === 'points' ? 'story points' : 'hours'})
+            </label>
+            <input
+              type="number"
+              min={0}
+              step={estimateUnit === 'points' ? 1 : 0.5}
+              value={estimateDraft}
+              onChange={(e) => setEstimateDraft(e.target.value)}
+              onBlur={handleEstimateAutoSave}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  e.currentTarget.blur();
+                }
+              }}
+              placeholder="Not estimated"
+              className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+          </div>
+
+          {/* Custom fields */}
+          {customFields.length > 0 && (
+            <div>
+              <div className="grid grid-cols-2 gap-4">
+                {customFields.map(field => (
+                  <div key={field.id}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {field.name}
+                    </label>
+                    <CustomFieldInput
+                      field={field}
+                      value={task.custom_fields?.[field.id]}
+                      onSave={(value) => handleCustomFieldAutoSave(field.id, value)}
+                    />
+                  </div>
+                ))}
+              </div>
+              {customFieldError && (
+                <p className="mt-1 text-sm text-red-600">{customFieldError}</p>
+              )}
+            </div>
+          )}
 
+          {/* Recurrence */}
+          <RecurrenceEditor
+            rule={task.recurrence_rule || null}
+            onChange={handleRecurrenceAutoSave}
+          />
+
+          {/* Dependencies */}
+          {workspaceTasks && (
+            <TaskDependencies
+              task={task}
+              workspaceTasks={workspaceTasks}
+              statuses={statuses}
+              onChange={onDependenciesChange}
+            />
+          )}
 
           {/* Description - full width at bottom */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Description
             </label>
-            <textarea
-              ref={descriptionRef}
-              value={formData.description}
-              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-              onBlur={async () => await handleDescriptionAutoSave(formData.description)}
-              className="w-full px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none text-sm bg-white"
-              placeholder="Enter task description..."
-              style={{ minHeight: '120px', maxHeight: '400px' }}
-            />
+            {isEditingDescription ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <MentionTextarea
+                  ref={descriptionRef}
+                  value={formData.description}
+                  onChange={(description) => setFormData({ ...formData, description })}
+                  users={workspaceUsers}
+                  onBlur={async () => {
+                    setIsEditingDescription(false);
+                    await handleDescriptionAutoSave(formData.description);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                      e.preventDefault();
+                      descriptionRef.current?.blur();
+                    }
+                  }}
+                  className="w-full px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none text-sm bg-white font-mono"
+                  placeholder="Enter task description... Markdown is supported: **bold**, `code`, [links](https://...), - [ ] checklists, @mentions"
+                  style={{ minHeight: '120px', maxHeight: '400px' }}
+                />
+                {/* Live preview */}
+                <div className="px-3 py-2.5 border border-dashed border-gray-200 rounded-md text-sm text-gray-700 overflow-y-auto" style={{ maxHeight: '400px' }}>
+                  {formData.description.trim() ? (
+                    <Markdown text={formData.description} users={workspaceUsers} />
+                  ) : (
+                    <span className="text-gray-400 italic">Preview</span>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div
+                onClick={() => setIsEditingDescription(true)}
+                className="w-full px-3 py-2.5 border border-gray-300 rounded-md text-sm bg-white cursor-text hover:border-gray-400 transition-colors overflow-y-auto"
+                style={{ minHeight: '120px', maxHeight: '400px' }}
+              >
+                {formData.description.trim() ? (
+                  <Markdown text={formData.description} className="text-gray-700" users={workspaceUsers} onToggleTask={handleDescriptionTaskToggle} />
+                ) : (
+                  <span className="text-gray-400">Enter task description...</span>
+                )}
+              </div>
+            )}
           </div>
+
+          {/* Attachments */}
+          <TaskAttachments
+            taskId={task.id}
+            onCountChange={(count) => onUpdate({ ...task, attachment_count: count })}
+          />
+
+          {/* Comments */}
+          <TaskComments
+            taskId={task.id}
+            workspaceUsers={workspaceUsers}
+            autoFocus={focusComments}
+            onCountChange={(count) => onUpdate({ ...task, comment_count: count })}
+          />
+
+          {/* Time tracking */}
+          <TaskTimeEntries
+            taskId={task.id}
+            refreshKey={`${task.status}|${task.running_timer_started_at ?? ''}`}
+            onTimerChange={(runningTimerStartedAt) => onUpdate({ ...task, running_timer_started_at: runningTimerStartedAt })}
+          />
+
+          {/* Activity */}
+          <TaskActivity
+            taskId={task.id}
+            refreshKey={[
+              task.last_modified, task.title, task.description, task.status, task.priority,
+              task.category_id, task.tag_ids?.join(','), task.start_date, task.due_date,
+              task.completion_date, task.assignee_names?.join(','), task.parent_task_id,
+              JSON.stringify(task.recurrence_rule ?? null)
+            ].join('|')}
+            statuses={statuses}
+          />
         </form>
 
 
@@ -1,12 +1,8 @@
 import React, { useState, useRef, useEffect, useCallback, useImperativeHandle, useMemo } from 'react';
-import { Task, TaskFilters, Category, Tag } from '../types';
-import { apiService } from '../services/api';
+import { Task, TaskFilters, Category, Tag, CustomField, CustomFieldValue, TaskTemplate, BulkTaskChanges, EstimateUnit, WorkflowStatus, StatusCategory, UpdateTaskData, TaskFieldConflict, WorkspaceEvent } from '../types';
+import { apiService, TaskConflictError } from '../services/api';
 import { format } from 'date-fns';
 import { 
-  Circle, 
-  Play, 
-  Pause, 
-  CheckCircle, 
   Flag, 
   Calendar,
   Plus,
@@ -15,7 +11,13 @@ import {
   Tag as TagIcon,
   Trash2,
   Edit3,
-  MessageSquarePlus
+  MessageSquarePlus,
+  ListPlus,
+  FolderInput,
+  Copy,
+  SlidersHorizontal,
+  Workflow,
+  AlarmClock
 } from 'lucide-react';
 import clsx from 'clsx';
 import TaskEditModal from './TaskEditModal';
@@ -23,28 +25,70 @@ import TaskTooltip from './TaskTooltip';
 import TitleTooltip from './TitleTooltip';
 import CategoryEditModal from './CategoryEditModal';
 import TagEditModal from './TagEditModal';
+import CustomFieldEditModal from './CustomFieldEditModal';
+import TaskTemplateModal from './TaskTemplateModal';
+import TaskTemplateMenu from './TaskTemplateMenu';
+import StatusEditModal from './StatusEditModal';
+import EscalationPolicyModal from './EscalationPolicyModal';
+import StatusIcon, { findStatus, isDoneStatus, isStartingTransition, getNextStatus, getCompletedStatus, getWorkingStatus, getStatusSortOrder } from './StatusIcon';
 import TaskRow from './TaskRow';
 import DatePicker from './DatePicker';
+import BulkActionBar from './BulkActionBar';
+import MoveTaskModal from './MoveTaskModal';
+import DuplicateTaskModal, { hasDuplicateOptions } from './DuplicateTaskModal';
+import TaskConflictModal, { ConflictChoices, isSameFieldValue, copyTaskField } from './TaskConflictModal';
+
+// Status categories in the order the planner lists them (the server sorts the same way)
+const PLANNER_CATEGORY_ORDER: StatusCategory[] = ['active', 'not_started', 'done'];
+
+// Tasks are loaded a page at a time, the next page when the end of the list scrolls into view
+const TASK_PAGE_SIZE = 100;
 
 interface TaskListProps {
   viewMode: 'planner' | 'tracker';
   filters: TaskFilters;
   selectedWorkspaceId: number;
-  workspaces?: Array<{ id: number; name: string; access_level?: 'owner' | 'edit' | 'view'; other_users_count?: number }>;
+  workspaces?: Array<{ id: number; name: string; access_level?: 'owner' | 'edit' | 'view'; other_users_count?: number; estimate_unit?: EstimateUnit }>;
   onFiltersChange: (filters: TaskFilters) => void;
   onSort: () => void;
   onTasksChange?: (tasks: Task[]) => void;
+  onTaskTotalChange?: (total: number) => void; // tasks matching the filters, loaded or not
+  onStatusesChange?: (statuses: WorkflowStatus[]) => void;
+  focusTaskId?: number | null;
+  onFocusTaskHandled?: () => void;
 }
 
-const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[] }, TaskListProps>(({ viewMode, filters, selectedWorkspaceId, workspaces, onFiltersChange, onSort, onTasksChange }, ref) => {
+const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[]; reloadTasks: () => void }, TaskListProps>(({ viewMode, filters, selectedWorkspaceId, workspaces, onFiltersChange, onSort, onTasksChange, onTaskTotalChange, onStatusesChange, focusTaskId, onFocusTaskHandled }, ref) => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [tags, setTags] = useState<Tag[]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>([]);
   const [workspaceUsers, setWorkspaceUsers] = useState<Array<{user_id: number, name: string, email: string}>>([]);
   const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [unloadedTaskCount, setUnloadedTaskCount] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Bumped on every reload, so a page requested for the previous list is dropped
+  const pageRequestRef = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [movingTask, setMovingTask] = useState<Task | null>(null);
+  const [duplicatingTask, setDuplicatingTask] = useState<Task | null>(null);
+  // An edit rejected because someone else changed the task, waiting for the user to resolve it
+  const [pendingConflict, setPendingConflict] = useState<{
+    error: TaskConflictError;
+    conflicts: TaskFieldConflict[];
+    resolve: (choices: ConflictChoices) => void;
+  } | null>(null);
+  const [focusEditingComments, setFocusEditingComments] = useState(false);
   const [showCategoryEditModal, setShowCategoryEditModal] = useState(false);
   const [showTagEditModal, setShowTagEditModal] = useState(false);
+  const [showCustomFieldModal, setShowCustomFieldModal] = useState(false);
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [showStatusModal, setShowStatusModal] = useState(false);
+  const [showEscalationModal, setShowEscalationModal] = useState(false);
   const [showNewTaskCategoryDropdown, setShowNewTaskCategoryDropdown] = useState(false);
   const [hoveredTask, setHoveredTask] = useState<number | null>(null);
   const [expandedCategories, setExpandedCategories] = useState<Set<number>>(new Set());
@@ -80,6 +124,8 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     y: 0,
     taskId: null
   });
+  const [selectedTaskIds, setSelectedTaskIds] = useState<Set<number>>(new Set());
+  const selectionAnchorRef = useRef<number | null>(null);
   const titleRefs = useRef<Map<number, HTMLDivElement | null>>(new Map());
   const truncationTimeouts = useRef<Map<number, NodeJS.Timeout>>(new Map());
   const positionCache = useRef<Map<number, React.CSSProperties>>(new Map());
@@ -93,6 +139,15 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
   const statusClickTimers = useRef<{ [taskId: number]: NodeJS.Timeout }>({});
   const [newTaskPriority, setNewTaskPriority] = useState<Task['priority']>('normal');
   const [selectedTagFilter, setSelectedTagFilter] = useState<string | null>(null);
+  const [collapsedTasks, setCollapsedTasks] = useState<Set<number>>(new Set());
+  const [addingSubtaskParentId, setAddingSubtaskParentId] = useState<number | null>(null);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+  const loadedWorkspaceIdRef = useRef<number | null>(null);
+
+  // Estimates are entered in the unit chosen for the workspace
+  const estimateUnit: EstimateUnit = workspaces?.find(w => w.id === selectedWorkspaceId)?.estimate_unit || 'hours';
+  const isWorkspaceOwner = workspaces?.find(w => w.id === selectedWorkspaceId)?.access_level === 'owner';
+  const customColumns = useMemo(() => customFields.filter(field => field.show_in_list), [customFields]);
 
   // Determine if assignee column should be shown based on workspace user count
   const shouldShowAssigneeColumn = useMemo(() => {
@@ -248,99 +303,32 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     return 400; // Fallback width
   }, []);
 
-  // Manual sorting function that applies the same logic as the backend
-  const sortTasks = useCallback((tasksToSort: Task[]) => {
-    if (viewMode === 'planner') {
-      return [...tasksToSort].sort((a, b) => {
-        // First sort by status: in_progress first, then paused, then todo, then done
-        const getStatusOrder = (status: Task['status']) => {
-          if (status === 'in_progress') return 1;
-          if (status === 'paused') return 2;
-          if (status === 'todo') return 3;
-          if (status === 'done') return 4;
-          return 5;
-        };
-        
-        const statusOrderA = getStatusOrder(a.status);
-        const statusOrderB = getStatusOrder(b.status);
-        
-        if (statusOrderA !== statusOrderB) {
-          return statusOrderA - statusOrderB;
-        }
-        
-        // Then sort by priority: urgent, high, normal, low
-        const getPriorityOrder = (priority: Task['priority']) => {
-          if (priority === 'urgent') return 1;
-          if (priority === 'high') return 2;
-          if (priority === 'normal') return 3;
-          if (priority === 'low') return 4;
-          return 5;
-        };
-        
-        const priorityOrderA = getPriorityOrder(a.priority);
-        const priorityOrderB = getPriorityOrder(b.priority);
-        
-        if (priorityOrderA !== priorityOrderB) {
-          return priorityOrderA - priorityOrderB;
-        }
-        
-        // Finally sort by title alphabetically
-        return a.title.localeCompare(b.title);
-      });
-    } else {
-      // Tracker view: sort by category name, then status, then title
-      return [...tasksToSort].sort((a, b) => {
-        // First sort by category name
-        const categoryA = a.category_name || 'Unassigned';
-        const categoryB = b.category_name || 'Unassigned';
-        
-        if (categoryA !== categoryB) {
-          if (categoryA === 'Unassigned') return -1;
-          if (categoryB === 'Unassigned') return 1;
-          return categoryA.localeCompare(categoryB);
-        }
-        
-        // Then sort by status: done first, then in_progress, paused, todo
-        const getStatusOrder = (status: Task['status']) => {
-          if (status === 'done') return 1;
-          if (status === 'in_progress') return 2;
-          if (status === 'paused') return 3;
-          if (status === 'todo') return 4;
-          return 5;
-        };
-        
-        const statusOrderA = getStatusOrder(a.status);
-        const statusOrderB = getStatusOrder(b.status);
-        
-        if (statusOrderA !== statusOrderB) {
-          return statusOrderA - statusOrderB;
-        }
-        
-        // Finally sort by title alphabetically
-        return a.title.localeCompare(b.title);
-      });
-    }
-  }, [viewMode]);
-
   const loadData = useCallback(async () => {
     try {
       setLoading(true);
-      const [tasksData, categoriesData, tagsData, usersData] = await Promise.all([
-        apiService.getTasks({ ...currentFiltersRef.current, view: viewMode, workspace_id: selectedWorkspaceId }),
+      const pageRequest = ++pageRequestRef.current;
+      const [tasksPage, categoriesData, tagsData, customFieldsData, statusesData, templatesData, usersData] = await Promise.all([
+        apiService.getTasksPage({ ...currentFiltersRef.current, view: viewMode, workspace_id: selectedWorkspaceId }, { limit: TASK_PAGE_SIZE }),
         apiService.getCategories(true, selectedWorkspaceId), // Include hidden categories and filter by workspace
         apiService.getTags(selectedWorkspaceId), // Get tags for the workspace
+        apiService.getCustomFields(selectedWorkspaceId),
+        apiService.getStatuses(selectedWorkspaceId),
+        apiService.getTaskTemplates(selectedWorkspaceId),
         fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/workspace-users/${selectedWorkspaceId}`, { credentials: 'include' }).then(res => res.ok ? res.json() : [])
       ]);
-      
-      // Apply sorting to the loaded data
-      // Note: sortTasks is not in dependencies because it's a pure function
-      // that gets the current viewMode value when called
-      const sortedTasks = sortTasks(tasksData);
-      setTasks(sortedTasks);
+      if (pageRequest !== pageRequestRef.current) return;
+
+      // Tasks come sorted by the server
+      setTasks(tasksPage.tasks);
+      setNextCursor(tasksPage.next_cursor);
+      setUnloadedTaskCount(tasksPage.total - tasksPage.tasks.length);
+      loadedWorkspaceIdRef.current = selectedWorkspaceId;
       setCategories(categoriesData);
       setTags(tagsData);
+      setCustomFields(customFieldsData);
+      setStatuses(statusesData);
+      setTemplates(templatesData);
       setWorkspaceUsers(usersData);
-      console.log(`📋 Loaded ${tasksData.length} tasks, ${categoriesData.length} categories, ${tagsData.length} tags, and ${usersData.length} users`);
       
       // Clear caches when data changes
       positionCache.current.clear();
@@ -352,7 +340,7 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
       if (groupingMethod === 'none') {
         setExpandedCategories(new Set());
       } else if (groupingMethod === 'status') {
-        setExpandedCategories(new Set([1, 2, 3])); // All status groups
+        setExpandedCategories(new Set(statusesData.map(status => status.id))); // All status groups
       } else if (groupingMethod === 'priority') {
         setExpandedCategories(new Set([1, 2, 3, 4])); // All priority groups
       } else if (groupingMethod === 'category') {
@@ -372,7 +360,49 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     } finally {
       setLoading(false);
     }
-  }, [viewMode, sortTasks, selectedWorkspaceId]); // Removed filters to prevent function recreation
+  }, [viewMode, selectedWorkspaceId]); // Removed filters to prevent function recreation
+
+  // Append the next page of tasks. Tasks that are already listed, e.g. because a live update
+  // brought them in, are updated in place instead of being listed twice.
+  const loadMoreTasks = async () => {
+    if (!nextCursor || loadingMore) return;
+    const pageRequest = pageRequestRef.current;
+    try {
+      setLoadingMore(true);
+      const tasksPage = await apiService.getTasksPage(
+        { ...currentFiltersRef.current, view: viewMode, workspace_id: selectedWorkspaceId },
+        { limit: TASK_PAGE_SIZE, cursor: nextCursor }
+      );
+      if (pageRequest !== pageRequestRef.current) return;
+      const pageById = new Map(tasksPage.tasks.map(t => [t.id, t]));
+      const newTaskCount = tasksPage.tasks.filter(t => !tasks.some(loaded => loaded.id === t.id)).length;
+      setTasks(prevTasks => [
+        ...prevTasks.map(t => pageById.get(t.id) || t),
+        ...tasksPage.tasks.filter(t => !prevTasks.some(prev => prev.id === t.id))
+      ]);
+      setUnloadedTaskCount(Math.max(0, tasksPage.total - tasks.length - newTaskCount));
+      setNextCursor(tasksPage.next_cursor);
+    } catch (error) {
+      console.error('Error loading more tasks:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+  const loadMoreTasksRef = useRef(loadMoreTasks);
+  loadMoreTasksRef.current = loadMoreTasks;
+
+  // Load the next page once the end of the list comes near the viewport
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (loading || !nextCursor || !sentinel) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMoreTasksRef.current();
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loading, nextCursor]);
 
 
 
@@ -443,6 +473,159 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     }
   }, [viewMode, selectedWorkspaceId, filters.presets, filters.grouping, filters.currentDays, filters.customFilters]);
 
+  // Live updates: tasks reported as changed are fetched in batches, with the current filters
+  const liveTaskIdsRef = useRef<Set<number>>(new Set());
+  const liveFlushTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const flushLiveTaskUpdates = async () => {
+    const taskIds = Array.from(liveTaskIdsRef.current);
+    liveTaskIdsRef.current.clear();
+    if (taskIds.length === 0) return;
+    try {
+      const updatedTasks = await apiService.getTasks({ ...currentFiltersRef.current, view: viewMode, workspace_id: selectedWorkspaceId, task_ids: taskIds });
+      const updatedById = new Map(updatedTasks.map(t => [t.id, t]));
+      // Changed tasks that no longer match the filters drop out of the list; new matches are added
+      setTasks(prevTasks => [
+        ...prevTasks
+          .filter(t => !taskIds.includes(t.id) || updatedById.has(t.id))
+          .map(t => updatedById.get(t.id) || t),
+        ...updatedTasks.filter(t => !prevTasks.some(prev => prev.id === t.id))
+      ]);
+    } catch (error) {
+      console.error('Error applying live task updates:', error);
+    }
+  };
+  const flushLiveTaskUpdatesRef = useRef(flushLiveTaskUpdates);
+  flushLiveTaskUpdatesRef.current = flushLiveTaskUpdates;
+
+  // Apply a change a teammate made to the workspace. An open task editor keeps the version it
+  // was opened with; saving it over newer changes goes through the conflict prompt.
+  const handleWorkspaceEvent = async (event: WorkspaceEvent) => {
+    try {
+      switch (event.type) {
+        case 'tasks':
+          (event.task_ids || []).forEach(taskId => liveTaskIdsRef.current.add(taskId));
+          if (!liveFlushTimerRef.current) {
+            liveFlushTimerRef.current = setTimeout(() => {
+              liveFlushTimerRef.current = null;
+              flushLiveTaskUpdatesRef.current();
+            }, 300);
+          }
+          break;
+        case 'tasks_deleted': {
+          const deletedIds = new Set(event.task_ids || []);
+          setTasks(prevTasks => prevTasks.filter(t => !deletedIds.has(t.id)));
+          setEditingTask(prev => (prev && deletedIds.has(prev.id) ? null : prev));
+          break;
+        }
+        case 'categories':
+          setCategories(await apiService.getCategories(true, selectedWorkspaceId));
+          break;
+        case 'tags':
+          setTags(await apiService.getTags(selectedWorkspaceId));
+          break;
+        case 'permissions': {
+          const response = await fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/workspace-users/${selectedWorkspaceId}`, { credentials: 'include' });
+          if (response.ok) setWorkspaceUsers(await response.json());
+          break;
+        }
+        // Events were missed, or the workspace is no longer shared with this user
+        case 'resync':
+        case 'access_revoked':
+          loadDataRef.current();
+          break;
+      }
+    } catch (error) {
+      console.error('Error applying live update:', error);
+    }
+  };
+  const handleWorkspaceEventRef = useRef(handleWorkspaceEvent);
+  handleWorkspaceEventRef.current = handleWorkspaceEvent;
+
+  // Keep a live update stream open for the selected workspace. After a dropped connection it
+  // reconnects with a growing delay and catches up from the last event it saw.
+  useEffect(() => {
+    if (!selectedWorkspaceId) return;
+
+    let eventSource: EventSource | null = null;
+    let reconnectTimer: NodeJS.Timeout | null = null;
+    let retryDelay = 1000;
+    let since: number | undefined;
+    let closed = false;
+    const liveTaskIds = liveTaskIdsRef.current;
+
+    const connect = () => {
+      eventSource = apiService.openWorkspaceEvents(selectedWorkspaceId, since);
+      eventSource.addEventListener('ready', (e) => {
+        retryDelay = 1000;
+        since = Math.max(since || 0, JSON.parse((e as MessageEvent).data).at);
+      });
+      eventSource.onmessage = (e) => {
+        const event: WorkspaceEvent = JSON.parse(e.data);
+        since = Math.max(since || 0, event.at);
+        if (event.type === 'access_revoked') {
+          closed = true;
+          eventSource?.close();
+        }
+        handleWorkspaceEventRef.current(event);
+      };
+      eventSource.onerror = () => {
+        eventSource?.close();
+        if (closed) return;
+        reconnectTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, 30000);
+      };
+    };
+    connect();
+
+    return () => {
+      closed = true;
+      eventSource?.close();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (liveFlushTimerRef.current) clearTimeout(liveFlushTimerRef.current);
+      liveFlushTimerRef.current = null;
+      liveTaskIds.clear();
+    };
+  }, [selectedWorkspaceId]);
+
+  // Jump to a task picked from the header search once its workspace is loaded
+  useEffect(() => {
+    if (!focusTaskId || loading || loadedWorkspaceIdRef.current !== selectedWorkspaceId) return;
+    onFocusTaskHandled?.();
+
+    const task = tasks.find(t => t.id === focusTaskId);
+    if (!task) {
+      // Hidden by the current filters - open it in the editor instead
+      apiService.getTask(focusTaskId)
+        .then(setEditingTask)
+        .catch(error => console.error('Error loading task from search:', error));
+      return;
+    }
+
+    // Expand collapsed parents so the row is rendered
+    const tasksById = new Map(tasks.map(t => [t.id, t]));
+    const ancestorIds: number[] = [];
+    let ancestor = task.parent_task_id ? tasksById.get(task.parent_task_id) : undefined;
+    while (ancestor) {
+      ancestorIds.push(ancestor.id);
+      ancestor = ancestor.parent_task_id ? tasksById.get(ancestor.parent_task_id) : undefined;
+    }
+    if (ancestorIds.length > 0) {
+      setCollapsedTasks(prev => new Set(Array.from(prev).filter(id => !ancestorIds.includes(id))));
+    }
+
+    setTimeout(() => {
+      const row = document.querySelector(`[data-task-row-id="${task.id}"]`);
+      if (!row) {
+        setEditingTask(task);
+        return;
+      }
+      row.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      row.classList.add('bg-yellow-50');
+      setTimeout(() => row.classList.remove('bg-yellow-50'), 2000);
+    }, 100);
+  }, [focusTaskId, loading, tasks, selectedWorkspaceId, onFocusTaskHandled]);
+
   // Recheck title truncation when view mode changes
   useEffect(() => {
     // Clear existing timeouts
@@ -459,6 +642,33 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     return () => clearTimeout(timeout);
   }, [viewMode, tasks]);
 
+  // The selection belongs to one workspace and view
+  useEffect(() => {
+    setSelectedTaskIds(new Set());
+    selectionAnchorRef.current = null;
+  }, [selectedWorkspaceId, viewMode]);
+
+  // Drop tasks from the selection once they leave the list
+  useEffect(() => {
+    setSelectedTaskIds(prev => {
+      const remaining = Array.from(prev).filter(id => tasks.some(t => t.id === id));
+      return remaining.length === prev.size ? prev : new Set(remaining);
+    });
+  }, [tasks]);
+
+  // Escape clears the selection unless a modal is open
+  useEffect(() => {
+    if (selectedTaskIds.size === 0 || editingTask) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setSelectedTaskIds(new Set());
+        selectionAnchorRef.current = null;
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [selectedTaskIds.size, editingTask]);
+
   // Close context menu when clicking outside
   useEffect(() => {
     const handleClickOutside = () => {
@@ -500,32 +710,123 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     }
   }, [tasks, onTasksChange]);
 
+  useEffect(() => {
+    if (onTaskTotalChange) {
+      onTaskTotalChange(tasks.length + unloadedTaskCount);
+    }
+  }, [tasks.length, unloadedTaskCount, onTaskTotalChange]);
+
+  useEffect(() => {
+    if (onStatusesChange) {
+      onStatusesChange(statuses);
+    }
+  }, [statuses, onStatusesChange]);
+
+  // Re-fetch a task's parent chain, whose status and progress are derived from their subtasks
+  const refreshTaskAncestors = async (task: Task) => {
+    let parentId = task.parent_task_id;
+    while (parentId) {
+      const parent = await apiService.getTask(parentId);
+      setTasks(prevTasks => prevTasks.map(t => t.id === parent.id ? { ...t, ...parent } : t));
+      parentId = parent.parent_task_id;
+    }
+  };
+
+  // Re-fetch which tasks are blocked by unfinished dependencies
+  const refreshBlockedState = async () => {
+    try {
+      const updatedTasks = await apiService.getTasks({ ...filters, view: viewMode, workspace_id: selectedWorkspaceId, task_ids: tasks.map(t => t.id) });
+      const blockedById = new Map(updatedTasks.map(t => [t.id, t.blocked_by_titles || []]));
+      setTasks(prevTasks => prevTasks.map(t => blockedById.has(t.id) ? { ...t, blocked_by_titles: blockedById.get(t.id) } : t));
+      setEditingTask(prev => prev && blockedById.has(prev.id) ? { ...prev, blocked_by_titles: blockedById.get(prev.id) } : prev);
+    } catch (error) {
+      console.error('Error refreshing blocked tasks:', error);
+    }
+  };
+
+  // Completing a recurring task creates its next occurrence on the server
+  const addNextRecurrence = (nextTask?: Task | null) => {
+    if (!nextTask) return;
+    setTasks(prevTasks => prevTasks.some(t => t.id === nextTask.id) ? prevTasks : [...prevTasks, nextTask]);
+  };
+
+  // Save an edit against the version of the task it was made on. If someone else changed the task
+  // in the meantime, their changes to fields this edit did not touch are kept, and fields both sides
+  // changed are put to the user. Resolves to null when the user kept the other version.
+  // baseTask defaults to the task as the list shows it.
+  const saveTaskChanges = async (taskId: number, changes: UpdateTaskData, baseTask = tasks.find(t => t.id === taskId)) => {
+    let version = baseTask?.last_modified;
+    let pendingChanges = changes;
+    let hadConflict = false;
+    for (;;) {
+      try {
+        const result = await apiService.updateTask(taskId, { ...pendingChanges, version });
+        if (hadConflict) {
+          // The task now mixes both versions; show what the server stored
+          const savedTask = await apiService.getTask(taskId);
+          setTasks(prevTasks => prevTasks.map(t => t.id === savedTask.id ? { ...t, ...savedTask } : t));
+          setEditingTask(prev => prev && prev.id === savedTask.id ? { ...prev, ...savedTask } : prev);
+        } else {
+          setTasks(prevTasks => prevTasks.map(t => t.id === taskId ? { ...t, last_modified: result.last_modified } : t));
+          setEditingTask(prev => prev && prev.id === taskId ? { ...prev, last_modified: result.last_modified } : prev);
+        }
+        return result;
+      } catch (error) {
+        if (!(error instanceof TaskConflictError)) throw error;
+        const conflictError = error;
+        hadConflict = true;
+
+        // Fields this edit left as they were simply take the other version
+        const conflicts = conflictError.conflicts.filter(c => !baseTask || !isSameFieldValue(c.yours, baseTask[c.field as keyof Task]));
+        const choices = conflicts.length > 0
+          ? await new Promise<ConflictChoices>(resolve => setPendingConflict({ error: conflictError, conflicts, resolve }))
+          : {};
+        setPendingConflict(null);
+
+        const keptChanges: UpdateTaskData = {};
+        const fields = Object.keys(pendingChanges) as Array<keyof UpdateTaskData>;
+        for (const field of fields) {
+          const isConflict = conflictError.conflicts.some(c => c.field === field);
+          if (!isConflict || choices[field] === 'yours') {
+            copyTaskField(pendingChanges, keptChanges, field);
+          }
+        }
+
+        // Nothing of this edit survives: show their version instead
+        const keepsOwnChanges = fields.some(field =>
+          field in keptChanges && (!baseTask || !isSameFieldValue(keptChanges[field], baseTask[field as keyof Task]))
+        );
+        if (!keepsOwnChanges) {
+          setTasks(prevTasks => prevTasks.map(t => t.id === conflictError.task.id ? { ...t, ...conflictError.task } : t));
+          setEditingTask(prev => prev && prev.id === conflictError.task.id ? { ...prev, ...conflictError.task } : prev);
+          return null;
+        }
+        version = conflictError.task.last_modified;
+        pendingChanges = keptChanges;
+      }
+    }
+  };
+
   const handleStatusClick = async (task: Task) => {
     try {
-      let newStatus: Task['status'];
-      
-      switch (task.status) {
-        case 'todo':
-          newStatus = 'in_progress';
-          break;
-        case 'in_progress':
-          newStatus = 'paused';
-          break;
-        case 'paused':
-          newStatus = 'in_progress';
-          break;
-        case 'done':
-          // Done stays done - no cycling back
-          return;
-        default:
+      // Done stays done - no cycling back
+      const newStatus = getNextStatus(statuses, task.status)?.key;
+      if (!newStatus) return;
+
+      // Starting a blocked task needs confirmation
+      let force = false;
+      if (isStartingTransition(statuses, task.status, newStatus) && task.blocked_by_titles && task.blocked_by_titles.length > 0) {
+        if (!window.confirm(`"${task.title}" is blocked by: ${task.blocked_by_titles.join(', ')}. Start it anyway?`)) {
           return;
+        }
+        force = true;
       }
-      
 
-      await apiService.updateTaskStatus(task.id, newStatus);
+      const statusResult = await apiService.updateTaskStatus(task.id, newStatus, undefined, force);
+      addNextRecurrence(statusResult.next_task);
       
       // Fetch updated task data to get new dates
-      const updatedTasks = await apiService.getTasks({ ...filters, view: viewMode, workspace_id: selectedWorkspaceId });
+      const updatedTasks = await apiService.getTasks({ ...filters, view: viewMode, workspace_id: selectedWorkspaceId, task_ids: [task.id] });
       const updatedTask = updatedTasks.find(t => t.id === task.id);
       
       // Update local state with the updated task data
@@ -538,15 +839,18 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
         });
         return updatedTasksList;
       });
+      await refreshTaskAncestors(task);
     } catch (error) {
       console.error('Error updating task status:', error);
     }
   };
 
   const handleStatusDoubleClick = async (task: Task) => {
-    try {
+    const completedStatus = getCompletedStatus(statuses, task.status);
+    if (!completedStatus || isDoneStatus(statuses, task.status)) return;
 
-      await apiService.updateTaskStatus(task.id, 'done');
+    try {
+      const statusResult = await apiService.updateTaskStatus(task.id, completedStatus.key);
       
       // Update local state immediately for double-click (mark as done)
       const now = new Date().toISOString().slice(0, 19).replace('T', ' ');
@@ -556,15 +860,20 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
           if (t.id === task.id) {
             return {
               ...t,
-              status: 'done' as const,
+              status: completedStatus.key,
               completion_date: now,
-              last_modified: now
+              last_modified: statusResult.last_modified,
+              running_timer_started_at: null
             };
           }
           return t;
         });
         return updatedTasksList;
       });
+      addNextRecurrence(statusResult.next_task);
+      await refreshTaskAncestors(task);
+      // Completing a task may unblock the tasks that depend on it
+      await refreshBlockedState();
     } catch (error) {
       console.error('Error completing task:', error);
     }
@@ -592,7 +901,7 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
       }
       
 
-      await apiService.updateTask(task.id, { priority: newPriority });
+      if (!await saveTaskChanges(task.id, { priority: newPriority }, task)) return;
       
       // Update local state instead of reloading
       setTasks(prevTasks => {
@@ -609,7 +918,7 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
   const handlePrioritySave = async (taskId: number) => {
     try {
 
-      await apiService.updateTask(taskId, { priority: editingPriorityValue });
+      if (!await saveTaskChanges(taskId, { priority: editingPriorityValue })) return;
       
       // Update local state instead of reloading
       setTasks(prevTasks => {
@@ -667,12 +976,11 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
       const selectedCategoryId = selectedNewTaskCategory[selectedWorkspaceId] ? Number(selectedNewTaskCategory[selectedWorkspaceId]) : undefined;
       const selectedCategoryName = selectedCategoryId ? categories.find(c => c.id === selectedCategoryId)?.name : undefined;
       const selectedTagId = selectedNewTaskTag[selectedWorkspaceId] || undefined;
-      const selectedTagName = selectedTagId ? tags.find(t => t.id === selectedTagId)?.name : undefined;
 
       const newTask = await apiService.createTask({
         title: newTaskTitle.trim(),
         category_id: selectedCategoryId,
-        tag_id: selectedTagId,
+        tag_ids: selectedTagId ? [selectedTagId] : [],
         due_date: newTaskDueDate || undefined,
         workspace_id: selectedWorkspaceId,
         priority: newTaskPriority
@@ -692,39 +1000,23 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      handleCreateTask();
-    }
-  };
-
-  const getStatusIcon = (status: Task['status']) => {
-    switch (status) {
-      case 'todo':
-        return <Circle className="w-4 h-4" />;
-      case 'in_progress':
-        return <Play className="w-4 h-4" />;
-      case 'paused':
-        return <Pause className="w-4 h-4" />;
-      case 'done':
-        return <CheckCircle className="w-4 h-4" />;
-      default:
-        return <Circle className="w-4 h-4" />;
+  // The new task opens in the editor, to fill in what differs this time
+  const handleCreateFromTemplate = async (template: TaskTemplate) => {
+    setIsCreatingTask(true);
+    try {
+      const newTask = await apiService.createTaskFromTemplate(selectedWorkspaceId, template.id);
+      setTasks(prevTasks => [...prevTasks, newTask]);
+      setEditingTask(newTask);
+    } catch (error) {
+      console.error('Error creating task from template:', error);
+    } finally {
+      setIsCreatingTask(false);
     }
   };
 
-  const getStatusColor = (status: Task['status']) => {
-    switch (status) {
-      case 'todo':
-        return 'text-gray-400 hover:text-gray-600';
-      case 'in_progress':
-        return 'text-blue-500 hover:text-blue-700';
-      case 'paused':
-        return 'text-yellow-500 hover:text-yellow-700';
-      case 'done':
-        return 'text-green-500 hover:text-green-700';
-      default:
-        return 'text-gray-400 hover:text-gray-600';
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleCreateTask();
     }
   };
 
@@ -742,6 +1034,38 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     }
   };
 
+  // Subtasks are rendered under their parent; a subtask whose parent is filtered out is shown at the top level
+  const subtasksByParent = useMemo(() => {
+    const taskIds = new Set(tasks.map(task => task.id));
+    const map = new Map<number, Task[]>();
+    tasks.forEach(task => {
+      if (task.parent_task_id && taskIds.has(task.parent_task_id)) {
+        if (!map.has(task.parent_task_id)) {
+          map.set(task.parent_task_id, []);
+        }
+        map.get(task.parent_task_id)!.push(task);
+      }
+    });
+    return map;
+  }, [tasks]);
+
+  const rootTasks = useMemo(() => {
+    const taskIds = new Set(tasks.map(task => task.id));
+    return tasks.filter(task => !task.parent_task_id || !taskIds.has(task.parent_task_id));
+  }, [tasks]);
+
+  const toggleTaskCollapse = (taskId: number) => {
+    setCollapsedTasks(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(taskId)) {
+        newSet.delete(taskId);
+      } else {
+        newSet.add(taskId);
+      }
+      return newSet;
+    });
+  };
+
   // Unified grouping logic with useMemo for performance
   const groupedTasks = useMemo(() => {
     const groupingMethod = filters.grouping || (viewMode === 'planner' ? 'none' : 'category');
@@ -751,19 +1075,16 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     }
     
     if (groupingMethod === 'status') {
-      const grouped: { [key: string]: Task[] } = {
-        'In Progress & Paused': [],
-        'To Do': [],
-        'Completed': []
-      };
+      // One group per status of the workspace workflow
+      const grouped: { [key: string]: Task[] } = {};
+      statuses.forEach(status => {
+        grouped[status.name] = [];
+      });
       
-      tasks.forEach(task => {
-        if (task.status === 'in_progress' || task.status === 'paused') {
-          grouped['In Progress & Paused'].push(task);
-        } else if (task.status === 'todo') {
-          grouped['To Do'].push(task);
-        } else if (task.status === 'done') {
-          grouped['Completed'].push(task);
+      rootTasks.forEach(task => {
+        const status = findStatus(statuses, task.status);
+        if (status) {
+          grouped[status.name].push(task);
         }
       });
       
@@ -778,7 +1099,7 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
         'Low': []
       };
       
-      tasks.forEach(task => {
+      rootTasks.forEach(task => {
         if (task.priority === 'urgent') {
           grouped['Urgent'].push(task);
         } else if (task.priority === 'high') {
@@ -795,7 +1116,7 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     
     if (groupingMethod === 'category') {
       const grouped: { [key: string]: Task[] } = {};
-      tasks.forEach(task => {
+      rootTasks.forEach(task => {
         const categoryName = task.category_name || 'Unassigned';
         if (!grouped[categoryName]) {
           grouped[categoryName] = [];
@@ -807,18 +1128,21 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     
     if (groupingMethod === 'tag') {
       const grouped: { [key: string]: Task[] } = {};
-      tasks.forEach(task => {
-        const tagName = task.tag_name || 'Untagged';
-        if (!grouped[tagName]) {
-          grouped[tagName] = [];
-        }
-        grouped[tagName].push(task);
+      // A task with several tags is listed under each of them
+      rootTasks.forEach(task => {
+        const tagNames = task.tag_names && task.tag_names.length > 0 ? task.tag_names : ['Untagged'];
+        tagNames.forEach(tagName => {
+          if (!grouped[tagName]) {
+            grouped[tagName] = [];
+          }
+          grouped[tagName].push(task);
+        });
       });
       return grouped;
     }
     
     return null;
-  }, [tasks, filters.grouping, viewMode]);
+  }, [rootTasks, filters.grouping, viewMode, statuses]);
 
   // Get sorted group names
   const sortedGroupNames = useMemo(() => {
@@ -827,7 +1151,9 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     const groupingMethod = filters.grouping || (viewMode === 'planner' ? 'none' : 'category');
     
     if (groupingMethod === 'status') {
-      return ['In Progress & Paused', 'To Do', 'Completed'];
+      return [...statuses]
+        .sort((a, b) => getStatusSortOrder(statuses, a.key, PLANNER_CATEGORY_ORDER) - getStatusSortOrder(statuses, b.key, PLANNER_CATEGORY_ORDER))
+        .map(status => status.name);
     }
     
     if (groupingMethod === 'priority') {
@@ -851,16 +1177,14 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     }
     
     return [];
-  }, [groupedTasks, filters.grouping, viewMode]);
+  }, [groupedTasks, filters.grouping, viewMode, statuses]);
 
   // Get group ID for expansion tracking
   const getGroupId = useCallback((groupName: string) => {
     const groupingMethod = filters.grouping || (viewMode === 'planner' ? 'none' : 'category');
     
     if (groupingMethod === 'status') {
-      if (groupName === 'In Progress & Paused') return 1;
-      if (groupName === 'To Do') return 2;
-      if (groupName === 'Completed') return 3;
+      return statuses.find(status => status.name === groupName)?.id || 0;
     }
     
     if (groupingMethod === 'priority') {
@@ -881,22 +1205,16 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     }
     
     return 0;
-  }, [filters.grouping, viewMode, categories, tags]);
+  }, [filters.grouping, viewMode, categories, tags, statuses]);
 
   // Check if group is expanded
   const isGroupExpanded = useCallback((groupName: string) => {
-    const groupingMethod = filters.grouping || (viewMode === 'planner' ? 'none' : 'category');
     const groupId = getGroupId(groupName);
     
-    // Special handling for completed tasks in status grouping
     // Note: Hide Completed filter is handled at the database level, so if it's enabled,
     // completed tasks won't be returned by the API at all
-    if (groupingMethod === 'status' && groupName === 'Completed') {
-      return expandedCategories.has(groupId);
-    }
-    
     return expandedCategories.has(groupId);
-  }, [filters.grouping, viewMode, filters.presets, expandedCategories, getGroupId]);
+  }, [expandedCategories, getGroupId]);
 
   // Toggle group expansion
   const toggleGroupExpansion = useCallback((groupName: string) => {
@@ -916,6 +1234,18 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     e.dataTransfer.effectAllowed = 'move';
   };
 
+  // Set a task's tags, keeping tag_names in step with tag_ids (both ordered by name like the server)
+  const withTags = (task: Task, tagIds: number[]): Task => {
+    const taskTags = tags
+      .filter(t => tagIds.includes(t.id))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return {
+      ...task,
+      tag_ids: taskTags.map(t => t.id),
+      tag_names: taskTags.map(t => t.name)
+    };
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     e.dataTransfer.dropEffect = 'move';
@@ -936,18 +1266,25 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
       try {
         const tagId = parseInt(draggedTagId);
         const tag = tags.find(t => t.id === tagId);
+        const targetTask = tasks.find(t => t.id === targetId);
         
-        if (!tag) {
+        if (!tag || !targetTask) {
           return;
         }
 
+        // Dropping a tag adds it to the task's existing tags
+        const currentTagIds = targetTask.tag_ids || [];
+        if (currentTagIds.includes(tagId)) {
+          return;
+        }
+        const newTagIds = [...currentTagIds, tagId];
 
-        await apiService.updateTask(targetId, { tag_id: tagId });
+        if (!await saveTaskChanges(targetId, { tag_ids: newTagIds }, targetTask)) return;
         
         // Update local state instead of reloading
         setTasks(prevTasks => {
           const updatedTasks = prevTasks.map(t => 
-            t.id === targetId ? { ...t, tag_id: tagId, tag_name: tag.name } as Task : t
+            t.id === targetId ? withTags(t, newTagIds) : t
           );
           return updatedTasks;
         });
@@ -971,35 +1308,34 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
       if (!task) return;
       
       if (viewMode === 'planner') {
-        // In planner view, we're moving between status groups
-        let newStatus: Task['status'];
-        if (targetId === 1) { // In Progress & Paused
-          newStatus = 'in_progress';
-        } else if (targetId === 2) { // To Do
-          newStatus = 'todo';
-        } else if (targetId === 3) { // Completed
-          newStatus = 'done';
-        } else {
+        // In planner view, we're moving between status groups; each group is one workflow status
+        const newStatus = statuses.find(status => status.id === targetId)?.key;
+        if (!newStatus || newStatus === task.status) {
           return;
         }
-        
 
-        await apiService.updateTaskStatus(taskId, newStatus);
+        const statusResult = await apiService.updateTaskStatus(taskId, newStatus);
         
         // Update local state instead of reloading
         setTasks(prevTasks => {
-          const updatedTasks = prevTasks.map(t => 
-            t.id === taskId ? { ...t, status: newStatus } as Task : t
-          );
+          const updatedTasks = prevTasks.map(t => {
+            if (t.id !== taskId) return t;
+            // Mirror the timer the server starts or stops along with the status
+            const runningTimerStartedAt = newStatus === getWorkingStatus(statuses)?.key
+              ? t.running_timer_started_at || new Date().toISOString()
+              : null;
+            return { ...t, status: newStatus, running_timer_started_at: runningTimerStartedAt } as Task;
+          });
           return updatedTasks;
         });
+        addNextRecurrence(statusResult.next_task);
       } else {
         // In tracker view, we're moving between category groups
         const categoryId = targetId === -1 ? undefined : targetId;
         const targetCategoryName = targetId === -1 ? 'Unassigned' : categories.find(c => c.id === targetId)?.name || 'Unknown';
         
 
-        await apiService.updateTask(taskId, { category_id: categoryId });
+        if (!await saveTaskChanges(taskId, { category_id: categoryId })) return;
         
         // Update local state instead of reloading
         setTasks(prevTasks => {
@@ -1037,7 +1373,7 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     
     try {
 
-      await apiService.updateTask(taskId, { title: editingTitleValue.trim() });
+      if (!await saveTaskChanges(taskId, { title: editingTitleValue.trim() })) return;
       
       // Update local state instead of reloading
       setTasks(prevTasks => {
@@ -1101,7 +1437,7 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
       const finalCategoryId = categoryId !== undefined ? categoryId : (editingCategoryValue ? Number(editingCategoryValue) : undefined);
       const categoryName = finalCategoryId ? categories.find(c => c.id === finalCategoryId)?.name || 'Unknown' : 'Unassigned';
 
-      await apiService.updateTask(taskId, { category_id: finalCategoryId });
+      if (!await saveTaskChanges(taskId, { category_id: finalCategoryId })) return;
       
       // Update local state instead of reloading
       setTasks(prevTasks => {
@@ -1125,26 +1461,21 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     }
   };
 
-  const handleTagSave = async (taskId: number, tagId?: number) => {
+  const handleTagSave = async (taskId: number, tagIds: number[]) => {
     try {
-      const tagName = tagId ? tags.find(t => t.id === tagId)?.name || 'Unknown' : undefined;
-
-      await apiService.updateTask(taskId, { tag_id: tagId });
+      if (!await saveTaskChanges(taskId, { tag_ids: tagIds })) return;
       
       // Update local state instead of reloading
       setTasks(prevTasks => {
         const updatedTasks = prevTasks.map(t => {
           if (t.id === taskId) {
-            return {
-              ...t,
-              tag_id: tagId,
-              tag_name: tagName
-            } as Task;
+            return withTags(t, tagIds);
           }
           return t;
         });
         return updatedTasks;
       });
+      setEditingTask(prev => prev && prev.id === taskId ? withTags(prev, tagIds) : prev);
     } catch (error) {
       console.error('Error updating task tag:', error);
     }
@@ -1265,7 +1596,7 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
       }
       
 
-      await apiService.updateTask(taskId, { [dateType]: validatedDateValue });
+      if (!await saveTaskChanges(taskId, { [dateType]: validatedDateValue })) return;
       
       // Reload the task data from server to ensure correct format
       const updatedTask = await apiService.getTask(taskId);
@@ -1285,6 +1616,36 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
 
 
 
+  const handleEstimateSave = async (taskId: number, estimate: number | null) => {
+    try {
+      if (!await saveTaskChanges(taskId, { estimate })) return;
+      setTasks(prevTasks => prevTasks.map(t => (t.id === taskId ? { ...t, estimate } : t)));
+    } catch (error) {
+      console.error('Error updating task estimate:', error);
+    }
+  };
+
+  // Save custom field values against the version of the task they were edited on. Other changes made
+  // in the meantime are kept; a field someone else changed keeps their value, and this resolves to null.
+  const handleCustomFieldsSave = async (taskId: number, values: Record<number, CustomFieldValue | null>) => {
+    let version = (editingTask && editingTask.id === taskId ? editingTask : tasks.find(t => t.id === taskId))?.last_modified;
+    for (;;) {
+      try {
+        const { custom_fields, last_modified } = await apiService.setTaskCustomFields(taskId, values, version);
+        setTasks(prevTasks => prevTasks.map(t => (t.id === taskId ? { ...t, custom_fields, last_modified } : t)));
+        setEditingTask(prev => prev && prev.id === taskId ? { ...prev, custom_fields, last_modified } : prev);
+        return custom_fields;
+      } catch (error) {
+        if (!(error instanceof TaskConflictError)) throw error;
+        const conflictTask = error.task;
+        setTasks(prevTasks => prevTasks.map(t => t.id === conflictTask.id ? { ...t, ...conflictTask } : t));
+        setEditingTask(prev => prev && prev.id === conflictTask.id ? { ...prev, ...conflictTask } : prev);
+        if (error.conflicts.length > 0) return null;
+        version = conflictTask.last_modified;
+      }
+    }
+  };
+
   const formatDate = (dateString: string | undefined) => {
     if (!dateString || dateString === '') return '';
     
@@ -1338,7 +1699,7 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
       // If description is empty or just whitespace, set it to undefined
       const finalDescription = description.trim() || undefined;
       
-      await apiService.updateTask(taskId, { description: finalDescription });
+      if (!await saveTaskChanges(taskId, { description: finalDescription })) return;
       
       // Update local state instead of reloading
       setTasks(prevTasks => 
@@ -1390,14 +1751,17 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
       });
     }
 
-    // Hide chat icon and show tooltip in editing mode
+    // Hide chat icon and open the task's comment thread
     setChatIcons(prev => {
       const newSet = new Set(prev);
       newSet.delete(taskId);
       return newSet;
     });
-    setVisibleTooltips(prev => new Set(prev).add(taskId));
-    setEditingTooltips(prev => new Set(prev).add(taskId));
+    const task = tasks.find(t => t.id === taskId);
+    if (task) {
+      setFocusEditingComments(true);
+      setEditingTask(task);
+    }
   };
 
   const showTooltip = (taskId: number) => {
@@ -1471,6 +1835,11 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
       y = Math.min(y + 10, window.innerHeight - menuHeight - 10);
     }
     
+    // Right-clicking outside the selection starts over with just that task
+    if (!selectedTaskIds.has(taskId)) {
+      clearSelection();
+    }
+    
     setContextMenu({
       visible: true,
       x,
@@ -1488,38 +1857,308 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
     });
   };
 
+  const clearSelection = () => {
+    setSelectedTaskIds(new Set());
+    selectionAnchorRef.current = null;
+  };
+
+  // Ctrl/Cmd-click toggles a task in the selection, Shift-click adds the range from the last clicked task
+  const handleTaskSelect = (e: React.MouseEvent, taskId: number) => {
+    const anchorId = selectionAnchorRef.current;
+    if (e.shiftKey && anchorId !== null) {
+      // Rows are ranged in the order they are shown, which depends on grouping and collapsed subtasks
+      const visibleIds = Array.from(document.querySelectorAll<HTMLElement>('[data-task-row-id]'))
+        .map(el => Number(el.dataset.taskRowId));
+      const anchorIndex = visibleIds.indexOf(anchorId);
+      const clickedIndex = visibleIds.indexOf(taskId);
+      if (anchorIndex !== -1 && clickedIndex !== -1) {
+        const rangeIds = visibleIds.slice(Math.min(anchorIndex, clickedIndex), Math.max(anchorIndex, clickedIndex) + 1);
+        setSelectedTaskIds(prev => new Set(Array.from(prev).concat(rangeIds)));
+        return;
+      }
+    }
+
+    setSelectedTaskIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+    selectionAnchorRef.current = taskId;
+  };
+
+  // Reload the tasks after a bulk change, keeping the current order
+  const refreshTasksAfterBulkChange = async () => {
+    const updatedTasks = await apiService.getTasks({ ...filters, view: viewMode, workspace_id: selectedWorkspaceId, task_ids: Array.from(selectedTaskIds) });
+    const updatedById = new Map(updatedTasks.map(t => [t.id, t]));
+    setTasks(prevTasks => prevTasks
+      .filter(t => updatedById.has(t.id) || !selectedTaskIds.has(t.id))
+      .map(t => updatedById.get(t.id) ?? t));
+  };
+
+  const handleBulkUpdate = async (changes: BulkTaskChanges) => {
+    handleContextMenuClose();
+    const taskIds = Array.from(selectedTaskIds);
+    if (taskIds.length === 0) return;
+
+    let force = false;
+    const newStatus = changes.status;
+    if (newStatus) {
+      const blockedTasks = tasks.filter(t => selectedTaskIds.has(t.id) && isStartingTransition(statuses, t.status, newStatus) && t.blocked_by_titles?.length);
+      if (blockedTasks.length > 0) {
+        if (!window.confirm(`${blockedTasks.map(t => `"${t.title}"`).join(', ')} ${blockedTasks.length === 1 ? 'is' : 'are'} blocked by unfinished dependencies. Start anyway?`)) {
+          return;
+        }
+        force = true;
+      }
+    }
+
+    try {
+      const result = await apiService.bulkUpdateTasks(taskIds, changes, force);
+      await refreshTasksAfterBulkChange();
+      result.next_tasks.forEach(addNextRecurrence);
+    } catch (error) {
+      console.error('Error updating tasks:', error);
+      window.alert(error instanceof Error ? error.message : 'Failed to update the selected tasks');
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    handleContextMenuClose();
+    const taskIds = Array.from(selectedTaskIds);
+    if (taskIds.length === 0) return;
+    if (!window.confirm(`Move ${taskIds.length} selected task${taskIds.length === 1 ? '' : 's'} (and their subtasks) to the trash?`)) {
+      return;
+    }
+
+    try {
+      const result = await apiService.bulkDeleteTasks(taskIds);
+      const deletedIds = new Set(result.deleted_ids);
+      setTasks(prevTasks => prevTasks.filter(t => !deletedIds.has(t.id)));
+      clearSelection();
+      // Parents of deleted subtasks may have a new derived status
+      await refreshTasksAfterBulkChange();
+    } catch (error) {
+      console.error('Error deleting tasks:', error);
+      window.alert(error instanceof Error ? error.message : 'Failed to delete the selected tasks');
+    }
+  };
+
   const handleDeleteTask = async (taskId: number) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (task?.child_count && !window.confirm(`Move "${task.title}" and all of its subtasks to the trash?`)) {
+      handleContextMenuClose();
+      return;
+    }
+
     try {
-      await apiService.deleteTask(taskId);
+      const result = await apiService.deleteTask(taskId);
+      const deletedIds = new Set(result.deleted_ids || [taskId]);
       
       // Update local state instead of reloading
       setTasks(prevTasks => {
-        const updatedTasks = prevTasks.filter(t => t.id !== taskId);
+        const updatedTasks = prevTasks.filter(t => !deletedIds.has(t.id));
         return updatedTasks;
       });
       handleContextMenuClose();
+      if (task) {
+        await refreshTaskAncestors(task);
+      }
     } catch (error) {
       console.error('Error deleting task:', error);
     }
   };
 
-  // Expose sort function to parent component
-  useImperativeHandle(ref, () => ({
-    sortTasks: async () => {
-
-      const sortedTasks = sortTasks(tasks);
-      setTasks(sortedTasks);
-      
-      // Also reload tags to update their order based on usage
+  // The copy joins the list next to the original, with those of its copied subtasks that match
+  // the filters, and its title opens for editing right away
+  const handleTaskDuplicated = async (copy: Task, copiedIds: number[]) => {
+    let copies = [copy];
+    if (copiedIds.length > 1) {
       try {
-        const tagsData = await apiService.getTags(selectedWorkspaceId);
-        setTags(tagsData);
+        const copiedSubtasks = await apiService.getTasks({ ...currentFiltersRef.current, view: viewMode, workspace_id: selectedWorkspaceId, task_ids: copiedIds.filter(id => id !== copy.id) });
+        copies = [copy, ...copiedSubtasks];
       } catch (error) {
-        console.error('Error reloading tags:', error);
+        console.error('Error loading duplicated subtasks:', error);
       }
-    },
-    getTasks: () => tasks
-  }), [tasks, sortTasks, selectedWorkspaceId]);
+    }
+    setTasks(prevTasks => [...prevTasks.filter(t => !copiedIds.includes(t.id)), ...copies]);
+    await refreshTaskAncestors(copy);
+    handleTitleClick(copy);
+  };
+
+  // Tasks with subtasks, attachments or comments ask what to bring along first
+  const handleDuplicateTask = async (task: Task) => {
+    handleContextMenuClose();
+    if (hasDuplicateOptions(task)) {
+      setDuplicatingTask(task);
+      return;
+    }
+
+    try {
+      const result = await apiService.duplicateTask(task.id);
+      await handleTaskDuplicated(result.task, result.task_ids);
+    } catch (error) {
+      console.error('Error duplicating task:', error);
+      window.alert(error instanceof Error ? error.message : 'Failed to duplicate the task');
+    }
+  };
+
+  const handleAddSubtask = (parentId: number) => {
+    setAddingSubtaskParentId(parentId);
+    setNewSubtaskTitle('');
+    // Make sure the new subtask input is visible under the parent
+    setCollapsedTasks(prev => {
+      const newSet = new Set(prev);
+      newSet.delete(parentId);
+      return newSet;
+    });
+    handleContextMenuClose();
+  };
+
+  const handleCreateSubtask = async () => {
+    const parent = tasks.find(t => t.id === addingSubtaskParentId);
+    if (!parent || !newSubtaskTitle.trim()) return;
+    try {
+      const newTask = await apiService.createTask({
+        title: newSubtaskTitle.trim(),
+        category_id: parent.category_id,
+        workspace_id: selectedWorkspaceId,
+        parent_task_id: parent.id
+      });
+      setTasks(prevTasks => [...prevTasks, newTask]);
+      setNewSubtaskTitle('');
+      await refreshTaskAncestors(newTask);
+    } catch (error) {
+      console.error('Error creating subtask:', error);
+    }
+  };
+
+  const handleSubtaskKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleCreateSubtask();
+    } else if (e.key === 'Escape') {
+      setAddingSubtaskParentId(null);
+      setNewSubtaskTitle('');
+    }
+  };
+
+  // Expose sort function to parent component. Edited tasks keep their place until the list is
+  // sorted again, which reloads it in the server's order (and tags in their order of usage).
+  useImperativeHandle(ref, () => ({
+    sortTasks: () => loadDataRef.current(),
+    getTasks: () => tasks,
+    reloadTasks: () => loadDataRef.current()
+  }), [tasks]);
+
+  // Render tasks with their subtasks nested underneath
+  const renderTaskTree = (taskList: Task[], depth = 0): React.ReactNode => taskList.map((task) => {
+    const subtasks = subtasksByParent.get(task.id) || [];
+    const isCollapsed = collapsedTasks.has(task.id);
+    return (
+      <React.Fragment key={task.id}>
+        <TaskRow
+          task={task}
+          viewMode={viewMode}
+          shouldShowAssigneeColumn={shouldShowAssigneeColumn}
+          onContextMenu={handleContextMenu}
+          editingTitleTaskId={editingTitleTaskId}
+          editingPriorityTaskId={editingPriorityTaskId}
+
+          editingTitleValue={editingTitleValue}
+          editingPriorityValue={editingPriorityValue}
+          editingCategoryTaskId={editingCategoryTaskId}
+          editingCategoryValue={editingCategoryValue}
+          editingAssigneeTaskId={editingAssigneeTaskId}
+          visibleTooltips={visibleTooltips}
+          hoveredTask={hoveredTask}
+          chatIcons={chatIcons}
+          editingTooltips={editingTooltips}
+          titleRefs={titleRefs}
+          statusClickTimers={statusClickTimers}
+          categories={categories}
+          onStatusClick={handleStatusClick}
+          onStatusDoubleClick={handleStatusDoubleClick}
+          onPriorityClick={handlePriorityClick}
+          onPrioritySave={handlePrioritySave}
+          onPriorityKeyPress={handlePriorityKeyPress}
+          onTitleClick={handleTitleClick}
+          onTitleSave={handleTitleSave}
+          onTitleCancel={handleTitleCancel}
+          onTitleKeyPress={handleTitleKeyPress}
+
+          onDirectDateSave={handleDirectDateSave}
+          estimateUnit={estimateUnit}
+          onEstimateSave={handleEstimateSave}
+          customColumns={customColumns}
+          onCategoryClick={(taskId) => setEditingCategoryTaskId(taskId)}
+          onCategorySave={handleCategorySave}
+          onCategoryCancel={handleCategoryCancel}
+          onCategoryKeyPress={handleCategoryKeyPress}
+          onDescriptionSave={handleDescriptionSave}
+          onDescriptionTooltipClose={handleDescriptionTooltipClose}
+          onChatIconClick={handleChatIconClick}
+          onShowTooltip={showTooltip}
+          onHideTooltip={hideTooltip}
+          onSetEditingTitleValue={setEditingTitleValue}
+          onSetEditingPriorityValue={setEditingPriorityValue}
+          onSetEditingCategoryValue={setEditingCategoryValue}
+          onSetEditingTitleTaskId={setEditingTitleTaskId}
+          onSetEditingPriorityTaskId={setEditingPriorityTaskId}
+          onSetEditingCategoryTaskId={setEditingCategoryTaskId}
+          onSetEditingAssigneeTaskId={setEditingAssigneeTaskId}
+          onSetHoveredTask={setHoveredTask}
+          onSetEditingTooltips={setEditingTooltips}
+          onDrop={handleDrop}
+          titleInputRef={titleInputRef}
+          categoryInputRef={categoryInputRef}
+          onAssigneeClick={handleAssigneeClick}
+          onAssigneeSave={handleAssigneeSave}
+          workspaceUsers={workspaceUsers}
+
+          formatDate={formatDate}
+          statuses={statuses}
+          getPriorityIcon={getPriorityIcon}
+          checkTitleTruncation={checkTitleTruncation}
+          getTitleEndPosition={getTitleEndPosition}
+          getTitleEndPositionStyle={getTitleEndPositionStyle}
+          getMaxTooltipWidth={getMaxTooltipWidth}
+          selectedTagFilter={selectedTagFilter}
+          setSelectedTagFilter={setSelectedTagFilter}
+          depth={depth}
+          isCollapsed={isCollapsed}
+          onToggleCollapse={toggleTaskCollapse}
+          isSelected={selectedTaskIds.has(task.id)}
+          onSelect={handleTaskSelect}
+        />
+        {!isCollapsed && renderTaskTree(subtasks, depth + 1)}
+        {addingSubtaskParentId === task.id && (
+          <div
+            className="flex items-center space-x-3 p-3"
+            style={{ paddingLeft: 12 + (depth + 1) * 20 }}
+          >
+            <ListPlus className="w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={newSubtaskTitle}
+              onChange={(e) => setNewSubtaskTitle(e.target.value)}
+              onKeyDown={handleSubtaskKeyDown}
+              onBlur={() => {
+                if (!newSubtaskTitle.trim()) {
+                  setAddingSubtaskParentId(null);
+                }
+              }}
+              className="flex-1 bg-white border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 placeholder-gray-400"
+              placeholder="Add subtask title... (Enter to add, Escape to finish)"
+              autoFocus
+            />
+          </div>
+        )}
+      </React.Fragment>
+    );
+  });
 
   if (loading) {
     return <div className="flex justify-center items-center h-64">Loading...</div>;
@@ -1638,6 +2277,12 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
             disabled={isCreatingTask}
             className="flex-1 bg-white border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 placeholder-gray-400"
           />
+          <TaskTemplateMenu
+            templates={templates}
+            disabled={isCreatingTask}
+            onSelect={handleCreateFromTemplate}
+            onManage={() => setShowTemplateModal(true)}
+          />
         </div>
         
         {/* Mobile layout with plus spanning two rows */}
@@ -1751,7 +2396,7 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
           </div>
             
             {/* Second row: title input */}
-            <div className="flex">
+            <div className="flex gap-2">
               <input
                 ref={newTaskInputRef}
                 type="text"
@@ -1762,6 +2407,12 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
                 disabled={isCreatingTask}
                 className="flex-1 bg-white border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 placeholder-gray-400"
               />
+              <TaskTemplateMenu
+                templates={templates}
+                disabled={isCreatingTask}
+                onSelect={handleCreateFromTemplate}
+                onManage={() => setShowTemplateModal(true)}
+              />
             </div>
           </div>
         </div>
@@ -1809,9 +2460,47 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
               <span className="text-xs text-gray-400 italic">No tags available</span>
             )}
           </div>
+          {isWorkspaceOwner && (
+            <div className="ml-auto flex items-center space-x-1">
+              <button
+                onClick={() => setShowStatusModal(true)}
+                className="p-1 text-gray-500 hover:text-blue-600 transition-colors"
+                title="Manage statuses"
+              >
+                <Workflow className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setShowEscalationModal(true)}
+                className="p-1 text-gray-500 hover:text-blue-600 transition-colors"
+                title="Priority escalation and holidays"
+              >
+                <AlarmClock className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setShowCustomFieldModal(true)}
+                className="p-1 text-gray-500 hover:text-blue-600 transition-colors"
+                title="Manage custom fields"
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Bulk actions for the multi-selection */}
+      {selectedTaskIds.size > 0 && (
+        <BulkActionBar
+          selectedCount={selectedTaskIds.size}
+          categories={categories}
+          statuses={statuses}
+          workspaceUsers={workspaceUsers}
+          onApply={handleBulkUpdate}
+          onDelete={handleBulkDelete}
+          onClear={clearSelection}
+        />
+      )}
+
       {/* Unified Task List Layout */}
       {groupedTasks ? (
         // Grouped layout
@@ -1853,82 +2542,17 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
                   <div className="flex-1">Task</div>
                   {viewMode === 'planner' && <div className="hidden sm:block w-24 text-center">Category</div>}
                   {shouldShowAssigneeColumn && <div className="hidden sm:block w-24 text-center">Assignee</div>}
+                  {customColumns.map(field => (
+                    <div key={field.id} className="hidden sm:block w-20 text-center truncate" title={field.name}>{field.name}</div>
+                  ))}
+                  <div className="hidden sm:block w-12 text-center">Est.</div>
                   <div className="hidden sm:block w-12 text-center">Start</div>
                   {viewMode === 'tracker' && <div className="hidden sm:block w-12 text-center">Complete</div>}
                   <div className="hidden sm:block w-12 text-center">Due</div>
                   <div className="w-4"></div> {/* Three-dot menu space */}
                 </div>
 
-                {groupedTasks?.[groupName]?.map((task) => (
-                  <TaskRow 
-                    key={task.id}
-                    task={task}
-                    viewMode={viewMode}
-                    shouldShowAssigneeColumn={shouldShowAssigneeColumn}
-                    onContextMenu={handleContextMenu}
-                    editingTitleTaskId={editingTitleTaskId}
-                    editingPriorityTaskId={editingPriorityTaskId}
-
-                    editingTitleValue={editingTitleValue}
-                    editingPriorityValue={editingPriorityValue}
-                    editingCategoryTaskId={editingCategoryTaskId}
-                    editingCategoryValue={editingCategoryValue}
-                    editingAssigneeTaskId={editingAssigneeTaskId}
-                    visibleTooltips={visibleTooltips}
-                    hoveredTask={hoveredTask}
-                    chatIcons={chatIcons}
-                    editingTooltips={editingTooltips}
-                    titleRefs={titleRefs}
-                    statusClickTimers={statusClickTimers}
-                    categories={categories}
-                    onStatusClick={handleStatusClick}
-                    onStatusDoubleClick={handleStatusDoubleClick}
-                    onPriorityClick={handlePriorityClick}
-                    onPrioritySave={handlePrioritySave}
-                    onPriorityKeyPress={handlePriorityKeyPress}
-                    onTitleClick={handleTitleClick}
-                    onTitleSave={handleTitleSave}
-                    onTitleCancel={handleTitleCancel}
-                    onTitleKeyPress={handleTitleKeyPress}
-
-                    onDirectDateSave={handleDirectDateSave}
-                    onCategoryClick={(taskId: number) => setEditingCategoryTaskId(taskId)}
-                    onCategorySave={handleCategorySave}
-                    onCategoryCancel={handleCategoryCancel}
-                    onCategoryKeyPress={handleCategoryKeyPress}
-                    onDescriptionSave={handleDescriptionSave}
-                    onDescriptionTooltipClose={handleDescriptionTooltipClose}
-                    onChatIconClick={handleChatIconClick}
-                    onShowTooltip={showTooltip}
-                    onHideTooltip={hideTooltip}
-                    onSetEditingTitleValue={setEditingTitleValue}
-                    onSetEditingPriorityValue={setEditingPriorityValue}
-                    onSetEditingCategoryValue={setEditingCategoryValue}
-                    onSetEditingTitleTaskId={setEditingTitleTaskId}
-                    onSetEditingPriorityTaskId={setEditingPriorityTaskId}
-                    onSetEditingCategoryTaskId={setEditingCategoryTaskId}
-                    onSetEditingAssigneeTaskId={setEditingAssigneeTaskId}
-                    onSetHoveredTask={setHoveredTask}
-                    onSetEditingTooltips={setEditingTooltips}
-                    onDrop={handleDrop}
-                    titleInputRef={titleInputRef}
-                    categoryInputRef={categoryInputRef}
-                    onAssigneeClick={handleAssigneeClick}
-                    onAssigneeSave={handleAssigneeSave}
-                    workspaceUsers={workspaceUsers}
-
-                    formatDate={formatDate}
-                    getStatusIcon={getStatusIcon}
-                    getStatusColor={getStatusColor}
-                    getPriorityIcon={getPriorityIcon}
-                    checkTitleTruncation={checkTitleTruncation}
-                    getTitleEndPosition={getTitleEndPosition}
-                    getTitleEndPositionStyle={getTitleEndPositionStyle}
-                    getMaxTooltipWidth={getMaxTooltipWidth}
-                    selectedTagFilter={selectedTagFilter}
-                    setSelectedTagFilter={setSelectedTagFilter}
-                  />
-                ))}
+                {renderTaskTree(groupedTasks?.[groupName] || [])}
               </div>
             )}
           </div>
@@ -1943,6 +2567,10 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
             <div className="flex-1">Task</div>
             {viewMode === 'planner' && <div className="hidden sm:block w-24 text-center">Category</div>}
             {shouldShowAssigneeColumn && <div className="hidden sm:block w-24 text-center">Assignee</div>}
+            {customColumns.map(field => (
+              <div key={field.id} className="hidden sm:block w-20 text-center truncate" title={field.name}>{field.name}</div>
+            ))}
+            <div className="hidden sm:block w-12 text-center">Est.</div>
             <div className="hidden sm:block w-12 text-center">Start</div>
             {viewMode === 'tracker' && <div className="hidden sm:block w-12 text-center">Complete</div>}
             <div className="hidden sm:block w-12 text-center">Due</div>
@@ -1951,100 +2579,65 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
           
           {/* All tasks in single list */}
           <div className="divide-y">
-            {tasks.map((task) => (
-              <TaskRow 
-                key={task.id}
-                task={task}
-                viewMode={viewMode}
-                shouldShowAssigneeColumn={shouldShowAssigneeColumn}
-                onContextMenu={handleContextMenu}
-                editingTitleTaskId={editingTitleTaskId}
-                editingPriorityTaskId={editingPriorityTaskId}
-
-                editingTitleValue={editingTitleValue}
-                editingPriorityValue={editingPriorityValue}
-                editingCategoryTaskId={editingCategoryTaskId}
-                editingCategoryValue={editingCategoryValue}
-                editingAssigneeTaskId={editingAssigneeTaskId}
-                visibleTooltips={visibleTooltips}
-                hoveredTask={hoveredTask}
-                chatIcons={chatIcons}
-                editingTooltips={editingTooltips}
-                titleRefs={titleRefs}
-                statusClickTimers={statusClickTimers}
-                categories={categories}
-                onStatusClick={handleStatusClick}
-                onStatusDoubleClick={handleStatusDoubleClick}
-                onPriorityClick={handlePriorityClick}
-                onPrioritySave={handlePrioritySave}
-                onPriorityKeyPress={handlePriorityKeyPress}
-                onTitleClick={handleTitleClick}
-                onTitleSave={handleTitleSave}
-                onTitleCancel={handleTitleCancel}
-                onTitleKeyPress={handleTitleKeyPress}
-
-                onDirectDateSave={handleDirectDateSave}
-                onCategoryClick={(taskId) => setEditingCategoryTaskId(taskId)}
-                onCategorySave={handleCategorySave}
-                onCategoryCancel={handleCategoryCancel}
-                onCategoryKeyPress={handleCategoryKeyPress}
-                onDescriptionSave={handleDescriptionSave}
-                onDescriptionTooltipClose={handleDescriptionTooltipClose}
-                onChatIconClick={handleChatIconClick}
-                onShowTooltip={showTooltip}
-                onHideTooltip={hideTooltip}
-                onSetEditingTitleValue={setEditingTitleValue}
-                onSetEditingPriorityValue={setEditingPriorityValue}
-                onSetEditingCategoryValue={setEditingCategoryValue}
-                onSetEditingTitleTaskId={setEditingTitleTaskId}
-                onSetEditingPriorityTaskId={setEditingPriorityTaskId}
-                onSetEditingCategoryTaskId={setEditingCategoryTaskId}
-                onSetEditingAssigneeTaskId={setEditingAssigneeTaskId}
-                onSetHoveredTask={setHoveredTask}
-                onSetEditingTooltips={setEditingTooltips}
-                onDrop={handleDrop}
-                titleInputRef={titleInputRef}
-                categoryInputRef={categoryInputRef}
-                onAssigneeClick={handleAssigneeClick}
-                onAssigneeSave={handleAssigneeSave}
-                workspaceUsers={workspaceUsers}
-
-                formatDate={formatDate}
-                getStatusIcon={getStatusIcon}
-                getStatusColor={getStatusColor}
-                getPriorityIcon={getPriorityIcon}
-                checkTitleTruncation={checkTitleTruncation}
-                getTitleEndPosition={getTitleEndPosition}
-                getTitleEndPositionStyle={getTitleEndPositionStyle}
-                getMaxTooltipWidth={getMaxTooltipWidth}
-                selectedTagFilter={selectedTagFilter}
-                setSelectedTagFilter={setSelectedTagFilter}
-              />
-            ))}
+            {renderTaskTree(rootTasks)}
           </div>
         </div>
       )}
 
+      {/* More tasks load when this comes into view; the button is there in case it does not */}
+      {nextCursor && (
+        <div ref={loadMoreRef} className="flex justify-center py-2 text-sm text-gray-500">
+          {loadingMore ? (
+            'Loading more tasks...'
+          ) : (
+            <button onClick={loadMoreTasks} className="px-3 py-1 hover:text-blue-600 transition-colors">
+              Load more ({unloadedTaskCount} more)
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Edit modal */}
       {editingTask && (
         <TaskEditModal
           task={editingTask}
           categories={categories}
           tags={tags}
-          onClose={() => setEditingTask(null)}
+          estimateUnit={estimateUnit}
+          statuses={statuses}
+          customFields={customFields}
+          onCustomFieldsSave={handleCustomFieldsSave}
+          onClose={() => {
+            setEditingTask(null);
+            setFocusEditingComments(false);
+          }}
+          onDuplicate={(task) => {
+            setEditingTask(null);
+            setFocusEditingComments(false);
+            handleDuplicateTask(task);
+          }}
           onSave={async (updatedTask) => {
             try {
-              await apiService.updateTask(updatedTask.id, {
+              // editingTask is still the task as it was before this edit
+              const updateResult = await saveTaskChanges(updatedTask.id, {
                 title: updatedTask.title,
                 description: updatedTask.description,
                 category_id: updatedTask.category_id,
-                tag_id: updatedTask.tag_id,
+                tag_ids: updatedTask.tag_ids,
                 priority: updatedTask.priority,
                 status: updatedTask.status,
                 start_date: updatedTask.start_date,
                 due_date: updatedTask.due_date,
-                completion_date: updatedTask.completion_date
-              });
+                completion_date: updatedTask.completion_date,
+                recurrence_rule: updatedTask.recurrence_rule,
+                estimate: updatedTask.estimate
+              }, editingTask);
+              if (!updateResult) return;
+              addNextRecurrence(updateResult.next_task);
+              await refreshTaskAncestors(updatedTask);
+              if (updatedTask.status !== editingTask.status) {
+                await refreshBlockedState();
+              }
               // Don't call loadData() or close modal for auto-save operations
               // The modal will handle its own state updates
             } catch (error) {
@@ -2061,6 +2654,22 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
           }}
           onCategorySave={handleCategorySave}
           onTagSave={handleTagSave}
+          workspaceTasks={tasks}
+          onDependenciesChange={refreshBlockedState}
+          focusComments={focusEditingComments}
+        />
+      )}
+
+      {/* Conflict prompt for edits made against an outdated task */}
+      {pendingConflict && (
+        <TaskConflictModal
+          conflict={pendingConflict.error}
+          conflicts={pendingConflict.conflicts}
+          categories={categories}
+          tags={tags}
+          statuses={statuses}
+          estimateUnit={estimateUnit}
+          onResolve={pendingConflict.resolve}
         />
       )}
 
@@ -2096,8 +2705,131 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
         />
       )}
 
+      {/* Custom Field Edit Modal */}
+      {showCustomFieldModal && (
+        <CustomFieldEditModal
+          fields={customFields}
+          workspaceId={selectedWorkspaceId}
+          onClose={() => setShowCustomFieldModal(false)}
+          onFieldsUpdate={setCustomFields}
+        />
+      )}
+
+      {/* Task Template Modal */}
+      {showTemplateModal && (
+        <TaskTemplateModal
+          templates={templates}
+          workspaceId={selectedWorkspaceId}
+          categories={categories}
+          tags={tags}
+          workspaceUsers={workspaceUsers}
+          onClose={() => setShowTemplateModal(false)}
+          onTemplatesUpdate={setTemplates}
+        />
+      )}
+
+      {/* Status Workflow Edit Modal */}
+      {showStatusModal && (
+        <StatusEditModal
+          statuses={statuses}
+          workspaceId={selectedWorkspaceId}
+          onClose={() => setShowStatusModal(false)}
+          onStatusesUpdate={(updatedStatuses) => {
+            setStatuses(updatedStatuses);
+            // Tasks of removed statuses were moved on the server
+            loadData();
+          }}
+        />
+      )}
+
+      {/* Priority Escalation Policy Modal */}
+      {showEscalationModal && (
+        <EscalationPolicyModal
+          workspaceId={selectedWorkspaceId}
+          onClose={() => setShowEscalationModal(false)}
+          onPolicyUpdate={(changedTaskIds) => {
+            // The new policy may have changed priorities right away
+            if (changedTaskIds.length > 0) loadData();
+          }}
+        />
+      )}
+
+      {/* Move/copy to another workspace */}
+      {movingTask && workspaces && (
+        <MoveTaskModal
+          task={movingTask}
+          workspaces={workspaces}
+          onClose={() => setMovingTask(null)}
+          onMoved={() => loadData()}
+        />
+      )}
+
+      {/* Duplicate with subtasks, attachments or comments */}
+      {duplicatingTask && (
+        <DuplicateTaskModal
+          task={duplicatingTask}
+          onClose={() => setDuplicatingTask(null)}
+          onDuplicated={handleTaskDuplicated}
+        />
+      )}
+
+      {/* Context menu for a multi-selection: actions apply to every selected task */}
+      {contextMenu.visible && contextMenu.taskId && selectedTaskIds.size > 1 && selectedTaskIds.has(contextMenu.taskId) && (
+        <div
+          className="fixed bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-50"
+          style={{
+            left: contextMenu.x,
+            top: contextMenu.y,
+            minWidth: '180px',
+            maxWidth: '220px'
+          }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-4 py-2 text-xs font-medium text-gray-500 border-b border-gray-100">
+            {selectedTaskIds.size} tasks selected
+          </div>
+          <div className="px-4 py-2 flex items-center justify-between">
+            <span className="text-xs text-gray-500">Status</span>
+            <div className="flex items-center space-x-1">
+              {statuses.map(status => (
+                <button
+                  key={status.key}
+                  onClick={() => handleBulkUpdate({ status: status.key })}
+                  className="p-1 rounded hover:bg-gray-100"
+                  title={`Set status to ${status.name}`}
+                >
+                  <StatusIcon statuses={statuses} status={status.key} />
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="px-4 py-2 flex items-center justify-between">
+            <span className="text-xs text-gray-500">Priority</span>
+            <div className="flex items-center space-x-1">
+              {(['urgent', 'high', 'normal', 'low'] as Task['priority'][]).map(priority => (
+                <button
+                  key={priority}
+                  onClick={() => handleBulkUpdate({ priority })}
+                  className="p-1 rounded hover:bg-gray-100"
+                  title={`Set priority to ${priority}`}
+                >
+                  {getPriorityIcon(priority)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={handleBulkDelete}
+            className="w-full px-4 py-3 text-left text-sm text-red-600 hover:bg-red-50 active:bg-red-100 flex items-center space-x-2 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Move {selectedTaskIds.size} to Trash</span>
+          </button>
+        </div>
+      )}
+
       {/* Context Menu */}
-      {contextMenu.visible && contextMenu.taskId && (
+      {contextMenu.visible && contextMenu.taskId && !(selectedTaskIds.size > 1 && selectedTaskIds.has(contextMenu.taskId)) && (
         <div
           className="fixed bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-50"
           style={{
@@ -2123,12 +2855,46 @@ const TaskList = React.forwardRef<{ sortTasks: () => void; getTasks: () => Task[
             </svg>
             <span>Edit Task</span>
           </button>
+          <button
+            onClick={() => handleAddSubtask(contextMenu.taskId!)}
+            className="w-full px-4 py-3 text-left text-sm text-gray-700 hover:bg-gray-50 active:bg-gray-100 flex items-center space-x-2 transition-colors"
+          >
+            <ListPlus className="w-4 h-4" />
+            <span>Add Subtask</span>
+          </button>
+          <button
+            onClick={() => {
+              const task = tasks.find(t => t.id === contextMenu.taskId);
+              if (task) {
+                handleDuplicateTask(task);
+              }
+            }}
+            className="w-full px-4 py-3 text-left text-sm text-gray-700 hover:bg-gray-50 active:bg-gray-100 flex items-center space-x-2 transition-colors"
+          >
+            <Copy className="w-4 h-4" />
+            <span>Duplicate</span>
+          </button>
+          {workspaces && workspaces.length > 1 && (
+            <button
+              onClick={() => {
+                const task = tasks.find(t => t.id === contextMenu.taskId);
+                if (task) {
+                  setMovingTask(task);
+                }
+                handleContextMenuClose();
+              }}
+              className="w-full px-4 py-3 text-left text-sm text-gray-700 hover:bg-gray-50 active:bg-gray-100 flex items-center space-x-2 transition-colors"
+            >
+              <FolderInput className="w-4 h-4" />
+              <span>Move to…</span>
+            </button>
+          )}
           <button
             onClick={() => handleDeleteTask(contextMenu.taskId!)}
             className="w-full px-4 py-3 text-left text-sm text-red-600 hover:bg-red-50 active:bg-red-100 flex items-center space-x-2 transition-colors"
           >
             <Trash2 className="w-4 h-4" />
-            <span>Delete Task</span>
+            <span>Move to Trash</span>
           </button>
         </div>
       )}
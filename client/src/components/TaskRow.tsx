@@ -1,5 +1,5 @@
 import React from 'react';
-import { Task, Category } from '../types';
+import { Task, Category, EstimateUnit, CustomField, WorkflowStatus } from '../types';
 import { 
   Circle, 
   Play, 
@@ -10,12 +10,21 @@ import {
   ChevronDown,
   ChevronRight,
   MessageSquarePlus,
-  MoreVertical
+  MoreVertical,
+  Lock,
+  Repeat,
+  MessageSquare,
+  Timer,
+  Paperclip
 } from 'lucide-react';
 import clsx from 'clsx';
 import TaskTooltip from './TaskTooltip';
 import TitleTooltip from './TitleTooltip';
 import DatePicker from './DatePicker';
+import RunningTimer, { formatDuration } from './RunningTimer';
+import EstimateCell from './EstimateCell';
+import { formatCustomFieldValue } from './CustomFieldInput';
+import StatusIcon, { findStatus, isDoneStatus } from './StatusIcon';
 
 interface TaskRowProps {
   task: Task;
@@ -48,6 +57,9 @@ interface TaskRowProps {
   onTitleKeyPress: (e: React.KeyboardEvent, taskId: number) => void;
 
   onDirectDateSave: (taskId: number, dateType: 'due_date' | 'start_date' | 'completion_date', dateValue: string | null) => Promise<void>;
+  estimateUnit?: EstimateUnit;
+  onEstimateSave: (taskId: number, estimate: number | null) => void;
+  customColumns?: CustomField[];
   onCategoryClick: (taskId: number) => void;
   onCategorySave: (taskId: number, categoryId?: number) => void;
   onCategoryCancel: () => void;
@@ -74,8 +86,7 @@ interface TaskRowProps {
   onAssigneeSave: (taskId: number, assigneeNames: string[]) => Promise<void>;
   workspaceUsers: Array<{user_id: number, name: string, email: string}>;
   formatDate: (dateString: string | undefined) => string;
-  getStatusIcon: (status: Task['status']) => React.ReactNode;
-  getStatusColor: (status: Task['status']) => string;
+  statuses: WorkflowStatus[];
   getPriorityIcon: (priority: Task['priority']) => React.ReactNode;
   checkTitleTruncation: (taskId: number) => void;
   getTitleEndPosition: (taskId: number) => "right" | "end-of-title" | "end-of-content";
@@ -83,6 +94,11 @@ interface TaskRowProps {
   getMaxTooltipWidth: (taskId: number) => number;
   selectedTagFilter: string | null;
   setSelectedTagFilter: (tag: string | null) => void;
+  depth?: number;
+  isCollapsed?: boolean;
+  onToggleCollapse?: (taskId: number) => void;
+  isSelected?: boolean;
+  onSelect?: (e: React.MouseEvent, taskId: number) => void;
 }
 
 const TaskRow: React.FC<TaskRowProps> = ({
@@ -116,6 +132,9 @@ const TaskRow: React.FC<TaskRowProps> = ({
   onTitleKeyPress,
 
   onDirectDateSave,
+  estimateUnit = 'hours',
+  onEstimateSave,
+  customColumns = [],
   onCategoryClick,
   onCategorySave,
   onCategoryCancel,
@@ -143,24 +162,59 @@ const TaskRow: React.FC<TaskRowProps> = ({
   onAssigneeSave,
   workspaceUsers,
   formatDate,
-  getStatusIcon,
-  getStatusColor,
+  statuses,
   getPriorityIcon,
   checkTitleTruncation,
   getTitleEndPosition,
   getTitleEndPositionStyle,
   getMaxTooltipWidth,
   selectedTagFilter,
-  setSelectedTagFilter
+  setSelectedTagFilter,
+  depth = 0,
+  isCollapsed = false,
+  onToggleCollapse,
+  isSelected = false,
+  onSelect
 }) => {
   const setTitleRef = (taskId: number, ref: HTMLDivElement | null) => {
     titleRefs.current.set(taskId, ref);
   };
 
+  const childCount = task.child_count || 0;
+  const doneChildCount = task.done_child_count || 0;
+  const hasSubtasks = childCount > 0;
+  const blockedByTitles = !isDoneStatus(statuses, task.status) ? task.blocked_by_titles || [] : [];
+  const statusName = findStatus(statuses, task.status)?.name || task.status;
+
   return (
     <div
-      className="flex items-center space-x-3 p-3 hover:bg-gray-50 relative"
+      className={clsx(
+        "flex items-center space-x-3 p-3 relative",
+        isSelected ? "bg-blue-50 hover:bg-blue-100" : "hover:bg-gray-50"
+      )}
+      data-task-row-id={task.id}
+      style={depth > 0 ? { paddingLeft: 12 + depth * 20 } : undefined}
       onContextMenu={(e) => onContextMenu(e, task.id)}
+      draggable={editingTitleTaskId !== task.id && !editingTooltips.has(task.id)}
+      onDragStart={(e) => {
+        // Rows can be dropped onto a workspace in the workspace selector
+        e.dataTransfer.setData('application/x-task-id', task.id.toString());
+        e.dataTransfer.effectAllowed = 'copyMove';
+      }}
+      onMouseDown={(e) => {
+        // Keep Shift-click from selecting text across rows
+        if (onSelect && e.shiftKey) {
+          e.preventDefault();
+        }
+      }}
+      onClickCapture={(e) => {
+        // Shift/Ctrl/Cmd-click selects the row instead of editing the cell under the pointer
+        if (onSelect && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+          e.preventDefault();
+          e.stopPropagation();
+          onSelect(e, task.id);
+        }
+      }}
       onDragOver={(e) => {
         e.preventDefault();
         e.currentTarget.classList.add('bg-blue-50', 'border-blue-200');
@@ -174,10 +228,27 @@ const TaskRow: React.FC<TaskRowProps> = ({
         onDrop(e, task.id);
       }}
     >
+      {/* Subtask expand/collapse toggle, drawn in the row's left padding */}
+      {hasSubtasks && onToggleCollapse && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleCollapse(task.id);
+          }}
+          className="absolute top-1/2 -translate-y-1/2 w-3 flex justify-center text-gray-400 hover:text-gray-700"
+          style={{ left: depth * 20 }}
+          title={isCollapsed ? 'Show subtasks' : 'Hide subtasks'}
+        >
+          {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        </button>
+      )}
+
       {/* Status button */}
       <div className="w-4 flex justify-center">
         <button
           type="button"
+          disabled={hasSubtasks}
           onClick={(e) => {
             e.stopPropagation();
             // Start a timer for single click
@@ -199,12 +270,12 @@ const TaskRow: React.FC<TaskRowProps> = ({
             onStatusDoubleClick(task);
           }}
           className={clsx(
-            "p-0.5 rounded hover:bg-gray-200 transition-colors",
-            getStatusColor(task.status)
+            "p-0.5 rounded transition-colors",
+            hasSubtasks ? "cursor-default" : "hover:bg-gray-200 hover:opacity-75"
           )}
-          title={`Click to change status, double-click to complete`}
+          title={hasSubtasks ? `${statusName} (derived from subtasks)` : `${statusName}: click to change status, double-click to complete`}
         >
-          {getStatusIcon(task.status)}
+          <StatusIcon statuses={statuses} status={task.status} />
         </button>
       </div>
 
@@ -287,25 +358,42 @@ const TaskRow: React.FC<TaskRowProps> = ({
                 onHideTooltip(task.id);
               }}
             >
-                              {task.tag_name && (
+              {blockedByTitles.length > 0 && (
+                <span
+                  className="inline-flex items-center mr-1 text-orange-500 align-middle"
+                  title={`Blocked by: ${blockedByTitles.join(', ')}`}
+                >
+                  <Lock className="w-3 h-3" />
+                </span>
+              )}
+              {task.recurrence_rule && (
+                <span
+                  className="inline-flex items-center mr-1 text-blue-500 align-middle"
+                  title="Recurring task"
+                >
+                  <Repeat className="w-3 h-3" />
+                </span>
+              )}
+              {(task.tag_names || []).map(tagName => (
                   <button
+                    key={tagName}
                     type="button"
                     onClick={(e) => {
                       e.stopPropagation();
-                      setSelectedTagFilter(selectedTagFilter === task.tag_name ? null : (task.tag_name || null));
+                      setSelectedTagFilter(selectedTagFilter === tagName ? null : tagName);
                     }}
                     className={clsx(
                       "inline-block px-1.5 py-0.5 text-xs rounded border mr-2 transition-colors focus:outline-none",
-                      selectedTagFilter === task.tag_name
+                      selectedTagFilter === tagName
                         ? "bg-blue-100 border-blue-300 text-blue-700"
                         : "bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100"
                     )}
                     style={{ cursor: 'pointer' }}
-                    title={selectedTagFilter === task.tag_name ? 'Show all tasks' : `Show only tasks with tag: ${task.tag_name}`}
+                    title={selectedTagFilter === tagName ? 'Show all tasks' : `Show only tasks with tag: ${tagName}`}
                   >
-                    {task.tag_name}
+                    {tagName}
                   </button>
-                )}
+                ))}
               {task.title}
             </div>
             
@@ -340,7 +428,7 @@ const TaskRow: React.FC<TaskRowProps> = ({
                 e.stopPropagation();
                 onChatIconClick(task.id);
               }}
-              title="Click to add description"
+              title="Open comments"
             >
               <MessageSquarePlus className="w-6 h-6 text-gray-600 hover:text-blue-600" />
             </div>
@@ -364,11 +452,68 @@ const TaskRow: React.FC<TaskRowProps> = ({
               positionStyle={getTitleEndPositionStyle(task.id)}
               maxWidth={getMaxTooltipWidth(task.id)}
               startEditing={editingTooltips.has(task.id)}
+              workspaceUsers={workspaceUsers}
             />
           </div>
         )}
       </div>
 
+      {/* Subtask progress */}
+      {hasSubtasks && (
+        <div
+          className="flex-shrink-0 flex items-center gap-1"
+          title={`${doneChildCount} of ${childCount} subtasks done`}
+        >
+          <div className="w-10 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-green-500 rounded-full"
+              style={{ width: `${Math.round((doneChildCount / childCount) * 100)}%` }}
+            />
+          </div>
+          <span className="text-xs text-gray-500">{doneChildCount}/{childCount}</span>
+        </div>
+      )}
+
+      {/* Time tracking: the user's running timer, or the total time logged in the tracker view */}
+      {task.running_timer_started_at ? (
+        <RunningTimer startedAt={task.running_timer_started_at} />
+      ) : viewMode === 'tracker' && (task.time_spent_seconds || 0) > 0 && (
+        <span
+          className="flex-shrink-0 flex items-center gap-0.5 text-xs text-gray-500"
+          title="Time logged"
+        >
+          <Timer className="w-3.5 h-3.5" />
+          <span>{formatDuration(task.time_spent_seconds || 0)}</span>
+        </span>
+      )}
+
+      {/* Attachment count */}
+      {(task.attachment_count || 0) > 0 && (
+        <span
+          className="flex-shrink-0 flex items-center gap-0.5 text-xs text-gray-500"
+          title={`${task.attachment_count} attachment${task.attachment_count === 1 ? '' : 's'}`}
+        >
+          <Paperclip className="w-3.5 h-3.5" />
+          <span>{task.attachment_count}</span>
+        </span>
+      )}
+
+      {/* Comment count */}
+      {(task.comment_count || 0) > 0 && (
+        <button
+          type="button"
+          className="flex-shrink-0 flex items-center gap-0.5 text-xs text-gray-500 hover:text-blue-600"
+          onClick={(e) => {
+            e.stopPropagation();
+            onChatIconClick(task.id);
+          }}
+          title={`${task.comment_count} comment${task.comment_count === 1 ? '' : 's'}`}
+        >
+          <MessageSquare className="w-3.5 h-3.5" />
+          <span>{task.comment_count}</span>
+        </button>
+      )}
+
       {/* Category */}
       {viewMode === 'planner' && (
         <div className="hidden sm:flex flex-shrink-0 w-24 text-center relative">
@@ -514,6 +659,25 @@ const TaskRow: React.FC<TaskRowProps> = ({
         </div>
       )}
 
+      {/* Custom field columns */}
+      {customColumns.map(field => {
+        const text = formatCustomFieldValue(field, task.custom_fields?.[field.id]);
+        return (
+          <div key={field.id} className="hidden sm:flex flex-shrink-0 w-20 justify-center text-xs text-gray-600 min-w-0" title={text ? `${field.name}: ${text}` : field.name}>
+            <span className="truncate">{text || <span className="text-gray-400">-</span>}</span>
+          </div>
+        );
+      })}
+
+      {/* Estimate */}
+      <div className="hidden sm:flex flex-shrink-0 w-12 justify-center">
+        <EstimateCell
+          value={task.estimate}
+          unit={estimateUnit}
+          onSave={(estimate) => onEstimateSave(task.id, estimate)}
+        />
+      </div>
+
       {/* Start date */}
       <div className="hidden sm:flex flex-shrink-0 w-12 justify-center">
         <DatePicker
@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SearchResult } from '../types';
+import { apiService } from '../services/api';
+import { Search, X, MessageSquare, FolderOpen } from 'lucide-react';
+import clsx from 'clsx';
+
+interface TaskSearchProps {
+  onSelect: (result: SearchResult) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Render server highlights (<mark>…</mark>) without injecting any other markup
+const renderHighlighted = (text: string) =>
+  text.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+    part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+      <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm">
+        {part.slice('<mark>'.length, -'</mark>'.length)}
+      </mark>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    )
+  );
+
+const TaskSearch: React.FC<TaskSearchProps> = ({ onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Debounced search as the user types
+  useEffect(() => {
+    const text = query.trim();
+    if (!text) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const searchResults = await apiService.searchTasks(text);
+        if (!cancelled) {
+          setResults(searchResults);
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        console.error('Error searching tasks:', error);
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Close the results when clicking elsewhere
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleSelect = (result: SearchResult) => {
+    onSelect(result);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      handleSelect(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full md:w-64">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search tasks..."
+          className="w-full pl-9 pr-8 py-2 bg-white border border-gray-300 rounded-lg shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {query && (
+          <button
+            type="button"
+            onClick={() => {
+              setQuery('');
+              setResults([]);
+            }}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 text-gray-400 hover:text-gray-600"
+            title="Clear search"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {isOpen && query.trim() && (
+        <div className="absolute top-full right-0 w-full md:w-96 mt-1 bg-white border border-gray-300 rounded-lg shadow-lg z-50 max-h-96 overflow-y-auto">
+          {results.length > 0 ? (
+            results.map((result, index) => (
+              <button
+                key={result.id}
+                type="button"
+                onClick={() => handleSelect(result)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={clsx(
+                  "w-full px-3 py-2 text-left border-b border-gray-100 last:border-b-0",
+                  index === activeIndex ? "bg-blue-50" : "hover:bg-gray-50"
+                )}
+              >
+                <div className="text-sm text-gray-900 truncate">
+                  {renderHighlighted(result.title_highlight)}
+                </div>
+                {result.snippet && (
+                  <div className="mt-0.5 text-xs text-gray-600 line-clamp-2 flex items-start gap-1">
+                    {result.snippet_source === 'comment' && <MessageSquare className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+                    <span>{renderHighlighted(result.snippet)}</span>
+                  </div>
+                )}
+                <div className="mt-0.5 text-xs text-gray-400 flex items-center gap-1">
+                  <FolderOpen className="w-3 h-3" />
+                  {result.workspace_name}
+                </div>
+              </button>
+            ))
+          ) : (
+            <div className="px-3 py-2 text-sm text-gray-500">
+              {isSearching ? 'Searching...' : 'No matching tasks'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskSearch;
@@ -1,11 +1,13 @@
 import React from 'react';
-import { Task } from '../types';
+import { Task, WorkflowStatus } from '../types';
 
 interface TaskSummaryProps {
-  tasks: Task[];
+  tasks: Task[]; // the loaded tasks
+  total?: number; // all tasks matching the filters, when not all of them are loaded
+  statuses: WorkflowStatus[];
 }
 
-const TaskSummary: React.FC<TaskSummaryProps> = ({ tasks }) => {
+const TaskSummary: React.FC<TaskSummaryProps> = ({ tasks, total, statuses }) => {
   const statusCounts = tasks.reduce((acc, task) => {
     acc[task.status] = (acc[task.status] || 0) + 1;
     return acc;
@@ -21,42 +23,27 @@ const TaskSummary: React.FC<TaskSummaryProps> = ({ tasks }) => {
     );
   }
 
-  const statusOrder: Task['status'][] = ['todo', 'in_progress', 'paused', 'done'];
-  const statusLabels: Record<Task['status'], string> = {
-    todo: 'To Do',
-    in_progress: 'In Progress',
-    paused: 'Paused',
-    done: 'Done'
-  };
-
-  const statusColors: Record<Task['status'], string> = {
-    todo: 'text-gray-600',
-    in_progress: 'text-blue-600',
-    paused: 'text-yellow-600',
-    done: 'text-green-600'
-  };
+  // Statuses are listed in workflow order, each in its own color
+  const statusOrder = statuses.filter(status => statusCounts[status.key] > 0);
 
   return (
     <div className="mb-1 pl-4 pt-2">
       <div className="flex items-center space-x-3 text-sm text-gray-600">
         <span className="font-medium">
-          {totalTasks} task{totalTasks !== 1 ? 's' : ''}:
+          {total !== undefined && total > totalTasks
+            ? `${totalTasks} of ${total} tasks loaded:`
+            : `${totalTasks} task${totalTasks !== 1 ? 's' : ''}:`}
         </span>
-        {statusOrder.map((status, index) => {
-          const count = statusCounts[status] || 0;
-          if (count === 0) return null;
-          
-          return (
-            <React.Fragment key={status}>
-              <span className={`${statusColors[status]} font-medium`}>
-                {count} {statusLabels[status]}
-              </span>
-              {index < statusOrder.length - 1 && statusCounts[statusOrder[index + 1]] > 0 && (
-                <span className="text-gray-400">•</span>
-              )}
-            </React.Fragment>
-          );
-        })}
+        {statusOrder.map((status, index) => (
+          <React.Fragment key={status.key}>
+            <span className="font-medium" style={{ color: status.color }}>
+              {statusCounts[status.key]} {status.name}
+            </span>
+            {index < statusOrder.length - 1 && (
+              <span className="text-gray-400">•</span>
+            )}
+          </React.Fragment>
+        ))}
       </div>
     </div>
   );
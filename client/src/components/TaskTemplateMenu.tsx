@@ -0,0 +1,79 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { TaskTemplate } from '../types';
+import { CopyPlus } from 'lucide-react';
+
+interface TaskTemplateMenuProps {
+  templates: TaskTemplate[];
+  disabled?: boolean;
+  onSelect: (template: TaskTemplate) => void;
+  onManage: () => void;
+}
+
+// "New from template" button next to the new task input
+const TaskTemplateMenu: React.FC<TaskTemplateMenuProps> = ({ templates, disabled = false, onSelect, onManage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center justify-center p-1.5 rounded-md border border-gray-300 bg-white text-gray-500 hover:text-blue-600 hover:border-blue-300 transition-colors min-h-[32px] disabled:opacity-50"
+        title="New from template"
+      >
+        <CopyPlus className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 bg-white border border-gray-200 rounded-lg shadow-lg z-50 mt-1 w-64">
+          <div className="px-3 py-1.5 text-xs font-medium text-gray-500 border-b">New from template</div>
+          <div className="max-h-60 overflow-y-auto">
+            {templates.map(template => (
+              <div
+                key={template.id}
+                className="px-3 py-1.5 cursor-pointer hover:bg-blue-50 transition-colors"
+                onClick={() => {
+                  setIsOpen(false);
+                  onSelect(template);
+                }}
+              >
+                <div className="text-sm text-gray-900 truncate">{template.name}</div>
+                <div className="text-xs text-gray-400 truncate">{template.title_pattern}</div>
+              </div>
+            ))}
+            {templates.length === 0 && (
+              <div className="px-3 py-1.5 text-xs text-gray-400 italic">No templates yet</div>
+            )}
+          </div>
+          <div className="border-t border-gray-200">
+            <div
+              className="px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 cursor-pointer transition-colors"
+              onClick={() => {
+                setIsOpen(false);
+                onManage();
+              }}
+            >
+              Manage templates
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskTemplateMenu;
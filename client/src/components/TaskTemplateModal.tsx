@@ -0,0 +1,334 @@
+import React, { useState } from 'react';
+import { TaskTemplate, TaskTemplateInput, Category, Tag, Task } from '../types';
+import { apiService } from '../services/api';
+import { X, Plus, Edit3, Trash2 } from 'lucide-react';
+import clsx from 'clsx';
+
+interface TaskTemplateModalProps {
+  templates: TaskTemplate[];
+  workspaceId: number;
+  categories: Category[];
+  tags: Tag[];
+  workspaceUsers: Array<{ user_id: number; name: string; email: string }>;
+  onClose: () => void;
+  onTemplatesUpdate: (updatedTemplates: TaskTemplate[]) => void;
+}
+
+const PLACEHOLDER_HINT = '{date}, {weekday}, {week}, {month} and {year} are filled in when a task is created';
+
+const PRIORITIES: Task['priority'][] = ['urgent', 'high', 'normal', 'low'];
+
+const EMPTY_TEMPLATE: TaskTemplateInput = {
+  name: '',
+  title_pattern: '',
+  description: '',
+  category_id: null,
+  tag_ids: [],
+  priority: 'normal',
+  due_offset_days: null,
+  assignee_ids: []
+};
+
+const toInput = (template: TaskTemplate): TaskTemplateInput => ({
+  name: template.name,
+  title_pattern: template.title_pattern,
+  description: template.description || '',
+  category_id: template.category_id ?? null,
+  tag_ids: template.tag_ids,
+  priority: template.priority,
+  due_offset_days: template.due_offset_days,
+  assignee_ids: template.assignee_ids
+});
+
+const toggleId = (ids: number[], id: number) => (ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]);
+
+const sortByName = (templates: TaskTemplate[]) => [...templates].sort((a, b) => a.name.localeCompare(b.name));
+
+const TaskTemplateModal: React.FC<TaskTemplateModalProps> = ({ templates, workspaceId, categories, tags, workspaceUsers, onClose, onTemplatesUpdate }) => {
+  // null while the list is shown, 'new' or the id of the template being edited otherwise
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [draft, setDraft] = useState<TaskTemplateInput>(EMPTY_TEMPLATE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyTemplateId, setBusyTemplateId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = (changes: Partial<TaskTemplateInput>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleNew = () => {
+    setError(null);
+    setDraft(EMPTY_TEMPLATE);
+    setEditingId('new');
+  };
+
+  const handleEditClick = (template: TaskTemplate) => {
+    setError(null);
+    setDraft(toInput(template));
+    setEditingId(template.id);
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim() || !draft.title_pattern.trim()) return;
+
+    setError(null);
+    setIsSaving(true);
+    try {
+      if (editingId === 'new') {
+        const created = await apiService.createTaskTemplate(workspaceId, draft);
+        onTemplatesUpdate(sortByName([...templates, created]));
+      } else if (editingId !== null) {
+        const updated = await apiService.updateTaskTemplate(editingId, draft);
+        onTemplatesUpdate(sortByName(templates.map(t => (t.id === editingId ? updated : t))));
+      }
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: TaskTemplate) => {
+    if (!window.confirm(`Are you sure you want to delete the template "${template.name}"? Tasks created from it are kept.`)) {
+      return;
+    }
+
+    setError(null);
+    setBusyTemplateId(template.id);
+    try {
+      await apiService.deleteTaskTemplate(template.id);
+      onTemplatesUpdate(templates.filter(t => t.id !== template.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    } finally {
+      setBusyTemplateId(null);
+    }
+  };
+
+  const renderEditor = () => (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Template name</label>
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => updateDraft({ name: e.target.value })}
+          placeholder="e.g. Release checklist"
+          maxLength={100}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+          autoFocus
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Task title</label>
+        <input
+          type="text"
+          value={draft.title_pattern}
+          onChange={(e) => updateDraft({ title_pattern: e.target.value })}
+          placeholder="e.g. Release week {week}"
+          maxLength={255}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <p className="mt-1 text-xs text-gray-400">{PLACEHOLDER_HINT}</p>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+        <textarea
+          value={draft.description || ''}
+          onChange={(e) => updateDraft({ description: e.target.value })}
+          rows={4}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 resize-none"
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+          <select
+            value={draft.category_id ?? ''}
+            onChange={(e) => updateDraft({ category_id: e.target.value ? Number(e.target.value) : null })}
+            className="w-full px-2 py-2 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="">No category</option>
+            {categories.filter(category => category.hidden !== true || category.id === draft.category_id).map(category => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+          <select
+            value={draft.priority}
+            onChange={(e) => updateDraft({ priority: e.target.value as Task['priority'] })}
+            className="w-full px-2 py-2 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 capitalize"
+          >
+            {PRIORITIES.map(priority => (
+              <option key={priority} value={priority}>{priority}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Due after (days)</label>
+          <input
+            type="number"
+            min={0}
+            value={draft.due_offset_days ?? ''}
+            onChange={(e) => updateDraft({ due_offset_days: e.target.value === '' ? null : Math.max(0, Math.floor(Number(e.target.value))) })}
+            placeholder="No due date"
+            className="w-full px-2 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+        <div className="flex flex-wrap gap-1">
+          {tags.filter(tag => tag.hidden !== true || draft.tag_ids.includes(tag.id)).map(tag => (
+            <button
+              key={tag.id}
+              type="button"
+              onClick={() => updateDraft({ tag_ids: toggleId(draft.tag_ids, tag.id) })}
+              className={clsx(
+                "px-2 py-0.5 text-xs rounded border transition-colors",
+                draft.tag_ids.includes(tag.id)
+                  ? "bg-blue-100 border-blue-300 text-blue-700"
+                  : "bg-white border-gray-300 text-gray-600 hover:bg-gray-50"
+              )}
+            >
+              {tag.name}
+            </button>
+          ))}
+          {tags.length === 0 && <span className="text-xs text-gray-400 italic">No tags available</span>}
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Assignees</label>
+        <div className="flex flex-wrap gap-1">
+          {workspaceUsers.map(user => (
+            <button
+              key={user.user_id}
+              type="button"
+              onClick={() => updateDraft({ assignee_ids: toggleId(draft.assignee_ids, user.user_id) })}
+              className={clsx(
+                "px-2 py-0.5 text-xs rounded border transition-colors",
+                draft.assignee_ids.includes(user.user_id)
+                  ? "bg-blue-100 border-blue-300 text-blue-700"
+                  : "bg-white border-gray-300 text-gray-600 hover:bg-gray-50"
+              )}
+              title={user.email}
+            >
+              {user.name}
+            </button>
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-gray-400">Without assignees, tasks are assigned to whoever creates them</p>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 modal-overlay">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {editingId === null ? 'Task Templates' : editingId === 'new' ? 'New Template' : 'Edit Template'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 max-h-[28rem] overflow-y-auto">
+          {error && (
+            <p className="mb-3 text-sm text-red-600">{error}</p>
+          )}
+
+          {editingId !== null ? renderEditor() : (
+            <>
+              <button
+                onClick={handleNew}
+                className="mb-4 px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center space-x-1"
+              >
+                <Plus className="w-4 h-4" />
+                <span>New template</span>
+              </button>
+
+              {/* Templates list */}
+              {templates.length === 0 ? (
+                <div className="text-center text-gray-500 py-8">
+                  No templates yet
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {templates.map((template) => (
+                    <div key={template.id} className="flex items-start justify-between p-3 rounded-lg border bg-white border-gray-300">
+                      <div className="flex-1 min-w-0 mr-2">
+                        <div className="text-sm font-medium text-gray-900">{template.name}</div>
+                        <div className="text-xs text-gray-400 mt-1 truncate">
+                          {template.title_pattern}
+                          {template.category_name && ` · ${template.category_name}`}
+                          {template.due_offset_days !== null && ` · due after ${template.due_offset_days} day${template.due_offset_days === 1 ? '' : 's'}`}
+                        </div>
+                      </div>
+
+                      {/* Actions */}
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => handleEditClick(template)}
+                          className="p-1 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                          title="Edit template"
+                        >
+                          <Edit3 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(template)}
+                          disabled={busyTemplateId === template.id}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors disabled:opacity-50"
+                          title="Delete template"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end space-x-2 p-4 border-t border-gray-200">
+          {editingId !== null ? (
+            <>
+              <button
+                onClick={() => setEditingId(null)}
+                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!draft.name.trim() || !draft.title_pattern.trim() || isSaving}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : 'Save template'}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskTemplateModal;
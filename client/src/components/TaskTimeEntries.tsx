@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { TimeEntry } from '../types';
+import { apiService } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { Timer, ChevronDown, ChevronRight, Square, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatDuration } from './RunningTimer';
+
+interface TaskTimeEntriesProps {
+  taskId: number;
+  // Changes whenever the task is edited, so a status change that starts or stops a timer shows up
+  refreshKey?: string;
+  onTimerChange?: (runningTimerStartedAt: string | null) => void;
+}
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+const TaskTimeEntries: React.FC<TaskTimeEntriesProps> = ({ taskId, refreshKey, onTimerChange }) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [totalSeconds, setTotalSeconds] = useState(0);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [entryDate, setEntryDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isExpanded) return;
+
+    let cancelled = false;
+    const loadEntries = async () => {
+      setIsLoading(true);
+      try {
+        const result = await apiService.getTimeEntries(taskId);
+        if (!cancelled) {
+          setEntries(result.entries);
+          setTotalSeconds(result.total_seconds);
+        }
+      } catch (err) {
+        console.error('Error loading time entries:', err);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadEntries();
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, refreshKey, isExpanded]);
+
+  const replaceEntries = (nextEntries: TimeEntry[]) => {
+    setEntries(nextEntries);
+    setTotalSeconds(nextEntries.reduce((sum, entry) => sum + entry.duration_seconds, 0));
+  };
+
+  const handleAddEntry = async () => {
+    if (!entryDate || !startTime || !endTime) {
+      setError('Date, start and end time are required');
+      return;
+    }
+    const startedAt = new Date(`${entryDate}T${startTime}`);
+    const endedAt = new Date(`${entryDate}T${endTime}`);
+    if (endedAt <= startedAt) {
+      setError('End time must be after start time');
+      return;
+    }
+
+    setError(null);
+    try {
+      const entry = await apiService.createTimeEntry(taskId, {
+        started_at: startedAt.toISOString(),
+        ended_at: endedAt.toISOString(),
+        notes: notes.trim() || undefined
+      });
+      replaceEntries([entry, ...entries].sort((a, b) => b.started_at.localeCompare(a.started_at)));
+      setStartTime('');
+      setEndTime('');
+      setNotes('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log time');
+    }
+  };
+
+  const handleStopTimer = async (entry: TimeEntry) => {
+    setError(null);
+    try {
+      const stopped = await apiService.updateTimeEntry(entry.id, { ended_at: new Date().toISOString() });
+      replaceEntries(entries.map(e => (e.id === entry.id ? stopped : e)));
+      onTimerChange?.(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stop timer');
+    }
+  };
+
+  const handleDeleteEntry = async (entry: TimeEntry) => {
+    if (!window.confirm('Delete this time entry?')) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await apiService.deleteTimeEntry(entry.id);
+      replaceEntries(entries.filter(e => e.id !== entry.id));
+      if (!entry.ended_at) {
+        onTimerChange?.(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete time entry');
+    }
+  };
+
+  // The inputs live inside the task form; Enter logs the entry instead of submitting the form
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleAddEntry();
+    }
+  };
+
+  const inputClassName = "px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-2 hover:text-gray-900"
+      >
+        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <Timer className="w-4 h-4" />
+        Time
+        {isExpanded && totalSeconds > 0 && (
+          <span className="font-normal text-gray-500">· {formatDuration(totalSeconds)} total</span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="space-y-2">
+          {entries.length > 0 ? (
+            <ul className="space-y-1">
+              {entries.map(entry => {
+                const isOwn = user?.id === entry.user_id;
+                return (
+                  <li key={entry.id} className="flex items-center justify-between text-sm text-gray-600">
+                    <div className="min-w-0">
+                      <span className="font-medium text-gray-800">{entry.user_name || 'Deleted user'}</span>
+                      {' '}{format(new Date(entry.started_at), 'MMM d')}, {formatTime(entry.started_at)}
+                      {' – '}{entry.ended_at ? formatTime(entry.ended_at) : <span className="text-green-600">running</span>}
+                      {' · '}{formatDuration(entry.duration_seconds)}
+                      {entry.notes && <span className="text-gray-500"> · {entry.notes}</span>}
+                    </div>
+                    {isOwn && (
+                      <div className="flex items-center space-x-1 ml-2 flex-shrink-0">
+                        {!entry.ended_at && (
+                          <button
+                            type="button"
+                            onClick={() => handleStopTimer(entry)}
+                            className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                            title="Stop timer"
+                          >
+                            <Square className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteEntry(entry)}
+                          className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                          title="Delete time entry"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-400">{isLoading ? 'Loading...' : 'No time logged yet'}</p>
+          )}
+
+          {/* Manual entry */}
+          <div className="flex flex-wrap items-center gap-2">
+            <input type="date" value={entryDate} onChange={(e) => setEntryDate(e.target.value)} onKeyDown={handleKeyDown} className={inputClassName} />
+            <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} onKeyDown={handleKeyDown} className={inputClassName} />
+            <span className="text-sm text-gray-500">to</span>
+            <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} onKeyDown={handleKeyDown} className={inputClassName} />
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Notes (optional)"
+              className={`${inputClassName} flex-1 min-w-0`}
+            />
+            <button
+              type="button"
+              onClick={handleAddEntry}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Log time
+            </button>
+          </div>
+
+          {error && (
+            <p className="mt-1 text-sm text-red-600">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskTimeEntries;
@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { X, Edit3, Save, RotateCcw } from 'lucide-react';
 import clsx from 'clsx';
+import Markdown, { toggleTaskListItem } from './Markdown';
+import MentionTextarea from './MentionTextarea';
 
 interface TaskTooltipProps {
   description: string;
@@ -11,6 +13,7 @@ interface TaskTooltipProps {
   positionStyle?: React.CSSProperties;
   maxWidth?: number;
   startEditing?: boolean;
+  workspaceUsers?: Array<{ user_id: number; name: string; email: string }>;
 }
 
 const TaskTooltip: React.FC<TaskTooltipProps> = ({ 
@@ -21,7 +24,8 @@ const TaskTooltip: React.FC<TaskTooltipProps> = ({
   position = 'right',
   positionStyle,
   maxWidth = 1100,
-  startEditing = false
+  startEditing = false,
+  workspaceUsers = []
 }) => {
   const [isEditing, setIsEditing] = useState(startEditing);
   const [editValue, setEditValue] = useState(description);
@@ -64,6 +68,13 @@ const TaskTooltip: React.FC<TaskTooltipProps> = ({
     }
   }, [isEditing, editValue.length]);
 
+  // Keep the edit value in step with the saved description (e.g. after a checkbox was toggled)
+  useEffect(() => {
+    if (!isEditing) {
+      setEditValue(description);
+    }
+  }, [description, isEditing]);
+
   // Handle startEditing prop changes
   useEffect(() => {
     if (startEditing && !isEditing) {
@@ -110,6 +121,14 @@ const TaskTooltip: React.FC<TaskTooltipProps> = ({
     }
   };
 
+  const handleToggleTask = async (line: number) => {
+    try {
+      await onSave(taskId, toggleTaskListItem(description, line));
+    } catch (error) {
+      console.error('Error saving description:', error);
+    }
+  };
+
   const handleMouseLeave = () => {
     // Auto-save when mouse leaves the tooltip
     if (isEditing && editValue.trim() !== description) {
@@ -141,10 +160,11 @@ const TaskTooltip: React.FC<TaskTooltipProps> = ({
       {/* Content */}
       <div className="p-3">
         {isEditing ? (
-          <textarea
+          <MentionTextarea
             ref={textareaRef}
             value={editValue}
-            onChange={(e) => setEditValue(e.target.value)}
+            onChange={setEditValue}
+            users={workspaceUsers}
             onKeyDown={handleKeyDown}
             onBlur={handleSave}
             placeholder="Enter task description..."
@@ -155,15 +175,17 @@ const TaskTooltip: React.FC<TaskTooltipProps> = ({
         ) : (
           <div 
             className={clsx(
-              "text-sm whitespace-pre-wrap break-words select-text",
+              "text-sm break-words select-text",
               description ? "text-gray-700 min-h-[30px]" : "text-gray-300 min-h-[30px] flex items-center justify-center italic"
             )}
             style={{ 
               maxHeight: '200px',
-              overflowY: description && description.length > 200 ? 'auto' : 'visible'
+              overflowY: description ? 'auto' : 'visible'
             }}
           >
-            {description || "Click to add description..."}
+            {description ? (
+              <Markdown text={description} users={workspaceUsers} onToggleTask={handleToggleTask} />
+            ) : "Click to add description..."}
           </div>
         )}
       </div>
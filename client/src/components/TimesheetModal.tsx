@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { TimesheetRow, TimeTotal, EstimateReport, EstimateReportGroup } from '../types';
+import { apiService } from '../services/api';
+import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { format, startOfWeek, addDays, addWeeks } from 'date-fns';
+import { formatDuration } from './RunningTimer';
+import { formatEstimate } from './EstimateCell';
+
+interface TimesheetModalProps {
+  workspaceId: number;
+  workspaceName?: string;
+  onClose: () => void;
+}
+
+type TotalsGrouping = 'task' | 'user' | 'category';
+
+const TimesheetModal: React.FC<TimesheetModalProps> = ({ workspaceId, workspaceName, onClose }) => {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [tab, setTab] = useState<'timesheet' | 'totals' | 'estimates'>('timesheet');
+  const [grouping, setGrouping] = useState<TotalsGrouping>('category');
+  const [rows, setRows] = useState<TimesheetRow[]>([]);
+  const [totals, setTotals] = useState<TimeTotal[]>([]);
+  const [estimateReport, setEstimateReport] = useState<EstimateReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const days = useMemo(() => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)), [weekStart]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadWeek = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        if (tab === 'timesheet') {
+          const timesheet = await apiService.getTimesheet(
+            format(weekStart, 'yyyy-MM-dd'),
+            format(addDays(weekStart, 6), 'yyyy-MM-dd'),
+            workspaceId
+          );
+          if (!cancelled) setRows(timesheet);
+        } else if (tab === 'estimates') {
+          // Covers every finished task, not just the selected week
+          const report = await apiService.getEstimateReport(workspaceId);
+          if (!cancelled) setEstimateReport(report);
+        } else {
+          const weekTotals = await apiService.getTimeTotals(
+            workspaceId,
+            grouping,
+            weekStart.toISOString(),
+            addWeeks(weekStart, 1).toISOString()
+          );
+          if (!cancelled) setTotals(weekTotals);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load time');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadWeek();
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, weekStart, tab, grouping]);
+
+  // One line per task with the seconds logged on each day of the week
+  const taskLines = useMemo(() => {
+    const lines = new Map<number, { title: string; category?: string | null; perDay: Record<string, number> }>();
+    for (const row of rows) {
+      const line = lines.get(row.task_id) || { title: row.task_title, category: row.category_name, perDay: {} };
+      line.perDay[row.day] = (line.perDay[row.day] || 0) + row.total_seconds;
+      lines.set(row.task_id, line);
+    }
+    return Array.from(lines.entries());
+  }, [rows]);
+
+  const dayTotal = (day: string) => rows.filter(row => row.day === day).reduce((sum, row) => sum + row.total_seconds, 0);
+  const weekTotal = rows.reduce((sum, row) => sum + row.total_seconds, 0);
+
+  const tabClassName = (active: boolean) =>
+    `px-3 py-1 text-sm rounded ${active ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 modal-overlay">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Timesheet{workspaceName && <span className="font-normal text-gray-500"> · {workspaceName}</span>}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Week navigation and tabs */}
+        <div className="flex flex-wrap items-center justify-between gap-2 px-4 pt-4">
+          {tab === 'estimates' ? (
+            <span className="text-sm text-gray-500">Finished tasks with an estimate, start and completion date</span>
+          ) : (
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setWeekStart(prev => addWeeks(prev, -1))}
+                className="p-1 text-gray-500 hover:text-gray-800"
+                title="Previous week"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="text-sm font-medium text-gray-800">
+                {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+              </span>
+              <button
+                onClick={() => setWeekStart(prev => addWeeks(prev, 1))}
+                className="p-1 text-gray-500 hover:text-gray-800"
+                title="Next week"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+          <div className="flex items-center space-x-1">
+            <button onClick={() => setTab('timesheet')} className={tabClassName(tab === 'timesheet')}>My time</button>
+            <button onClick={() => setTab('totals')} className={tabClassName(tab === 'totals')}>Totals</button>
+            <button onClick={() => setTab('estimates')} className={tabClassName(tab === 'estimates')}>Estimates</button>
+            {tab !== 'timesheet' && (
+              <select
+                value={grouping}
+                onChange={(e) => setGrouping(e.target.value as TotalsGrouping)}
+                className="ml-2 px-2 py-1 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="category">By category</option>
+                <option value="task">By task</option>
+                <option value="user">{tab === 'estimates' ? 'By assignee' : 'By user'}</option>
+              </select>
+            )}
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 max-h-96 overflow-auto">
+          {isLoading ? (
+            <div className="text-center text-gray-500 py-8">Loading...</div>
+          ) : tab === 'timesheet' ? (
+            taskLines.length === 0 ? (
+              <div className="text-center text-gray-500 py-8">No time logged this week</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500">
+                    <th className="text-left font-medium pb-2">Task</th>
+                    {days.map(day => (
+                      <th key={day.toISOString()} className="text-right font-medium pb-2 px-1">{format(day, 'EEE d')}</th>
+                    ))}
+                    <th className="text-right font-medium pb-2 pl-2">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {taskLines.map(([taskId, line]) => (
+                    <tr key={taskId} className="border-t border-gray-100">
+                      <td className="py-1.5 pr-2 max-w-[14rem]">
+                        <div className="truncate text-gray-900">{line.title}</div>
+                        {line.category && <div className="text-xs text-gray-400 truncate">{line.category}</div>}
+                      </td>
+                      {days.map(day => {
+                        const seconds = line.perDay[format(day, 'yyyy-MM-dd')] || 0;
+                        return (
+                          <td key={day.toISOString()} className="py-1.5 px-1 text-right text-gray-700">
+                            {seconds > 0 ? formatDuration(seconds) : <span className="text-gray-300">–</span>}
+                          </td>
+                        );
+                      })}
+                      <td className="py-1.5 pl-2 text-right font-medium text-gray-900">
+                        {formatDuration(Object.values(line.perDay).reduce((sum, seconds) => sum + seconds, 0))}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-t border-gray-300 font-medium">
+                    <td className="py-1.5 text-gray-700">Total</td>
+                    {days.map(day => {
+                      const seconds = dayTotal(format(day, 'yyyy-MM-dd'));
+                      return (
+                        <td key={day.toISOString()} className="py-1.5 px-1 text-right text-gray-900">
+                          {seconds > 0 ? formatDuration(seconds) : ''}
+                        </td>
+                      );
+                    })}
+                    <td className="py-1.5 pl-2 text-right text-gray-900">{formatDuration(weekTotal)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            )
+          ) : tab === 'estimates' ? (
+            !estimateReport || estimateReport.totals.task_count === 0 ? (
+              <div className="text-center text-gray-500 py-8">No finished tasks with an estimate yet</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500">
+                    <th className="text-left font-medium pb-2">{grouping === 'task' ? 'Task' : grouping === 'user' ? 'Assignee' : 'Category'}</th>
+                    {grouping !== 'task' && <th className="text-right font-medium pb-2 px-1">Tasks</th>}
+                    <th className="text-right font-medium pb-2 px-1">Estimate</th>
+                    <th className="text-right font-medium pb-2 px-1">Actual days</th>
+                    <th className="text-right font-medium pb-2 px-1">Tracked</th>
+                    {grouping !== 'task' && <th className="text-right font-medium pb-2 pl-2">Days / {estimateReport.unit === 'points' ? 'pt' : 'h'}</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {grouping === 'task'
+                    ? estimateReport.tasks.map(task => (
+                        <tr key={task.id} className="border-t border-gray-100">
+                          <td className="py-1.5 pr-2 max-w-[16rem]">
+                            <div className="truncate text-gray-900">{task.title}</div>
+                            {task.category_name && <div className="text-xs text-gray-400 truncate">{task.category_name}</div>}
+                          </td>
+                          <td className="py-1.5 px-1 text-right text-gray-700">{formatEstimate(task.estimate, estimateReport.unit)}</td>
+                          <td className="py-1.5 px-1 text-right text-gray-700">{task.actual_days}</td>
+                          <td className="py-1.5 px-1 text-right text-gray-700">{formatDuration(task.tracked_hours * 3600)}</td>
+                        </tr>
+                      ))
+                    : (grouping === 'user' ? estimateReport.by_assignee : estimateReport.by_category).map((group: EstimateReportGroup) => (
+                        <tr key={group.id ?? 'none'} className="border-t border-gray-100">
+                          <td className="py-1.5 pr-2 truncate text-gray-900">
+                            {group.name || (grouping === 'category' ? 'Uncategorized' : 'Unassigned')}
+                          </td>
+                          <td className="py-1.5 px-1 text-right text-gray-700">{group.task_count}</td>
+                          <td className="py-1.5 px-1 text-right text-gray-700">{formatEstimate(group.estimate, estimateReport.unit)}</td>
+                          <td className="py-1.5 px-1 text-right text-gray-700">{group.actual_days}</td>
+                          <td className="py-1.5 px-1 text-right text-gray-700">{formatDuration(group.tracked_hours * 3600)}</td>
+                          <td className="py-1.5 pl-2 text-right font-medium text-gray-900">{group.days_per_unit ?? '–'}</td>
+                        </tr>
+                      ))}
+                </tbody>
+              </table>
+            )
+          ) : totals.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">No time logged this week</div>
+          ) : (
+            <div className="space-y-1">
+              {totals.map(total => (
+                <div key={total.id ?? 'none'} className="flex items-center justify-between py-1.5 border-b border-gray-100 text-sm">
+                  <span className="text-gray-900 truncate">
+                    {total.name || (grouping === 'category' ? 'Uncategorized' : 'Unknown')}
+                  </span>
+                  <span className="font-medium text-gray-900 ml-2">{formatDuration(total.total_seconds)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <p className="mt-2 text-sm text-red-600">{error}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimesheetModal;
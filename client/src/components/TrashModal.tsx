@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { TrashedTask } from '../types';
+import { apiService } from '../services/api';
+import { X, RotateCcw, Trash2 } from 'lucide-react';
+
+interface TrashModalProps {
+  workspaceId: number;
+  workspaceName?: string;
+  canEdit: boolean;
+  onClose: () => void;
+  onTasksRestored: () => void;
+}
+
+const formatTrashDate = (dateString: string) => {
+  // Timestamps come from the server in UTC without a zone suffix
+  const date = new Date(dateString.includes('T') ? dateString : `${dateString.replace(' ', 'T')}Z`);
+  if (isNaN(date.getTime())) return dateString;
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+};
+
+const daysUntil = (dateString: string) => {
+  const date = new Date(dateString.includes('T') ? dateString : `${dateString.replace(' ', 'T')}Z`);
+  return Math.max(0, Math.ceil((date.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+};
+
+const TrashModal: React.FC<TrashModalProps> = ({ workspaceId, workspaceName, canEdit, onClose, onTasksRestored }) => {
+  const [trashedTasks, setTrashedTasks] = useState<TrashedTask[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyTaskId, setBusyTaskId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTrash = async () => {
+      setIsLoading(true);
+      try {
+        const trash = await apiService.getTrash(workspaceId);
+        setTrashedTasks(trash.tasks);
+        setRetentionDays(trash.retention_days);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load trash');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTrash();
+  }, [workspaceId]);
+
+  const handleRestore = async (task: TrashedTask) => {
+    setError(null);
+    setBusyTaskId(task.id);
+    try {
+      await apiService.restoreTask(task.id);
+      setTrashedTasks(prev => prev.filter(t => t.id !== task.id));
+      onTasksRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore task');
+    } finally {
+      setBusyTaskId(null);
+    }
+  };
+
+  const handlePurge = async (task: TrashedTask) => {
+    const subtaskNote = task.child_count > 0 ? ' and its subtasks' : '';
+    if (!window.confirm(`Permanently delete "${task.title}"${subtaskNote}? This cannot be undone.`)) {
+      return;
+    }
+
+    setError(null);
+    setBusyTaskId(task.id);
+    try {
+      await apiService.purgeTask(task.id);
+      setTrashedTasks(prev => prev.filter(t => t.id !== task.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete task');
+    } finally {
+      setBusyTaskId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!window.confirm(`Permanently delete all ${trashedTasks.length} task(s) in the trash? This cannot be undone.`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await apiService.emptyTrash(workspaceId);
+      setTrashedTasks([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to empty trash');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 modal-overlay">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Trash{workspaceName && <span className="font-normal text-gray-500"> · {workspaceName}</span>}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 max-h-96 overflow-y-auto">
+          {retentionDays !== null && (
+            <p className="mb-3 text-xs text-gray-500">
+              Deleted tasks are removed permanently after {retentionDays} days.
+            </p>
+          )}
+
+          {isLoading ? (
+            <div className="text-center text-gray-500 py-8">Loading...</div>
+          ) : trashedTasks.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">The trash is empty</div>
+          ) : (
+            <div className="space-y-2">
+              {trashedTasks.map(task => (
+                <div
+                  key={task.id}
+                  className="flex items-center justify-between p-3 border border-gray-200 rounded-lg hover:bg-gray-50"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="text-sm text-gray-900 truncate">{task.title}</div>
+                    <div className="text-xs text-gray-500">
+                      Deleted {formatTrashDate(task.deleted_at)}
+                      {task.deleted_by_name && ` by ${task.deleted_by_name}`}
+                      {task.child_count > 0 && ` · ${task.child_count} subtask${task.child_count === 1 ? '' : 's'}`}
+                      {` · purged in ${daysUntil(task.purge_at)} day(s)`}
+                    </div>
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center space-x-1 ml-2">
+                      <button
+                        onClick={() => handleRestore(task)}
+                        disabled={busyTaskId === task.id}
+                        className="p-1 text-gray-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+                        title="Restore task"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handlePurge(task)}
+                        disabled={busyTaskId === task.id}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                        title="Delete permanently"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <p className="mt-2 text-sm text-red-600">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        {canEdit && trashedTasks.length > 0 && (
+          <div className="flex justify-end p-4 border-t border-gray-200">
+            <button
+              onClick={handleEmptyTrash}
+              className="px-3 py-2 text-sm text-red-600 border border-red-200 rounded hover:bg-red-50 transition-colors"
+            >
+              Empty trash
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashModal;
@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Filter, X } from 'lucide-react';
-import { TaskFilters, PresetFilter, FilterGroup, FilterCondition, Category, Tag } from '../types';
+import { TaskFilters, PresetFilter, FilterGroup, FilterCondition, Category, Tag, CustomField, CustomFieldType, WorkflowStatus, StatusCategory } from '../types';
 import { useAuth } from '../contexts/AuthContext';
+import { STATUS_CATEGORY_LABELS } from './StatusIcon';
 
 interface UniversalFilterProps {
   workspaceId: number;
@@ -37,11 +38,25 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
   const [tags, setTags] = useState<Tag[]>([]);
 
   // Single-field custom filter state
-  type SingleMode = 'none' | 'assignee' | 'category' | 'tag' | 'status' | 'priority' | 'date_range' | 'date_diff';
+  type SingleMode = 'none' | 'assignee' | 'category' | 'tag' | 'status' | 'status_category' | 'priority' | 'blocked' | 'mentioned' | 'estimate' | 'custom_field' | 'date_range' | 'date_diff';
   const [singleMode, setSingleMode] = useState<SingleMode>('none');
   const [singleValues, setSingleValues] = useState<any[]>([]);
   const [singleIncludeNull, setSingleIncludeNull] = useState<boolean>(false);
-  const [categoricalOperator, setCategoricalOperator] = useState<'in' | 'is_null' | 'is_not_null'>('in');
+  type CategoricalOperator = 'in' | 'is_null' | 'is_not_null' | 'has_any' | 'has_all' | 'has_none';
+  const [categoricalOperator, setCategoricalOperator] = useState<CategoricalOperator>('in');
+  const [blockedValue, setBlockedValue] = useState<boolean>(true);
+  const [mentionedValue, setMentionedValue] = useState<boolean>(true);
+  // Estimate filter state
+  const [estimateOperator, setEstimateOperator] = useState<'<' | '<=' | '=' | '>=' | '>' | 'IS_NULL' | 'IS_NOT_NULL'>('<=');
+  const [estimateValue, setEstimateValue] = useState<string>('');
+  // Custom field filter state
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>([]);
+  const [customFieldId, setCustomFieldId] = useState<number | null>(null);
+  const [customFieldOperator, setCustomFieldOperator] = useState<string>('IS_NOT_NULL');
+  const [customFieldInput, setCustomFieldInput] = useState<string>('');
+  const [customFieldOptions, setCustomFieldOptions] = useState<string[]>([]);
+  const selectedCustomField = customFields.find(f => f.id === customFieldId);
   const [rangeField, setRangeField] = useState<'due_date' | 'completion_date' | 'created_date' | 'last_modified' | 'start_date'>('due_date');
   const [rangeStart, setRangeStart] = useState<string>('');
   const [rangeEnd, setRangeEnd] = useState<string>('');
@@ -182,11 +197,38 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
       // Validate days value before setting it
       const daysValue = cond.values?.[0];
       setDiffDays((typeof daysValue === 'number' && daysValue >= 0) ? daysValue : 0);
+    } else if (cond.condition_type === 'custom_field') {
+      setSingleMode('custom_field');
+      setCustomFieldId(cond.custom_field_id ?? null);
+      // Checkbox conditions compare against a boolean and are shown as a Checked/Unchecked choice
+      const isCheckbox = typeof cond.values?.[0] === 'boolean';
+      if (isCheckbox) {
+        setCustomFieldOperator(cond.values[0] ? 'CHECKED' : 'UNCHECKED');
+      } else {
+        setCustomFieldOperator(cond.operator);
+      }
+      setCustomFieldInput(cond.values?.[0] !== undefined && !isCheckbox ? String(cond.values[0]) : '');
+      setCustomFieldOptions(Array.isArray(cond.values) ? cond.values.map(String) : []);
     } else if ((cond as any).condition_type === 'list') {
-      if (cond.field && ['assignee', 'category', 'tag', 'status', 'priority'].includes(cond.field)) {
+      if (cond.field && ['assignee', 'category', 'tag', 'status', 'status_category', 'priority'].includes(cond.field)) {
         setSingleMode(cond.field as SingleMode);
         setSingleValues(Array.isArray(cond.values) ? cond.values : []);
         setSingleIncludeNull(!!cond.includeNull);
+        // Tags can be matched against the task's whole tag set
+        const tagOperator = String(cond.operator).toLowerCase();
+        if (cond.field === 'tag' && ['has_any', 'has_all', 'has_none'].includes(tagOperator)) {
+          setCategoricalOperator(tagOperator as CategoricalOperator);
+        }
+      } else if (cond.field === 'blocked') {
+        setSingleMode('blocked');
+        setBlockedValue(String(cond.values?.[0]) !== 'false');
+      } else if (cond.field === 'mentioned') {
+        setSingleMode('mentioned');
+        setMentionedValue(String(cond.values?.[0]) !== 'false');
+      } else if (cond.field === 'estimate') {
+        setSingleMode('estimate');
+        setEstimateOperator(cond.operator as any);
+        setEstimateValue(cond.values?.[0] !== undefined ? String(cond.values[0]) : '');
       } else {
         setSingleMode('none');
       }
@@ -200,10 +242,12 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
     const loadOptions = async () => {
       if (!workspaceId) return;
       try {
-        const [usersRes, catsRes, tagsRes] = await Promise.all([
+        const [usersRes, catsRes, tagsRes, fieldsRes, statusesRes] = await Promise.all([
           fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/workspace-users/${workspaceId}`, { credentials: 'include' }),
           fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/categories?include_hidden=true&workspace_id=${workspaceId}`, { credentials: 'include' }),
-          fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/tags?workspace_id=${workspaceId}`, { credentials: 'include' })
+          fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/tags?workspace_id=${workspaceId}`, { credentials: 'include' }),
+          fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/custom-fields?workspace_id=${workspaceId}`, { credentials: 'include' }),
+          fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/statuses?workspace_id=${workspaceId}`, { credentials: 'include' })
         ]);
         if (usersRes.ok) {
           const usersJson = await usersRes.json();
@@ -222,6 +266,8 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
         }
         if (catsRes.ok) setCategories(await catsRes.json());
         if (tagsRes.ok) setTags(await tagsRes.json());
+        if (fieldsRes.ok) setCustomFields(await fieldsRes.json());
+        if (statusesRes.ok) setStatuses(await statusesRes.json());
       } catch (e) {
         console.error('Error loading filter options:', e);
       }
@@ -300,6 +346,14 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
     setSingleMode('none');
     setSingleValues([]);
     setSingleIncludeNull(false);
+    setBlockedValue(true);
+    setMentionedValue(true);
+    setEstimateOperator('<=');
+    setEstimateValue('');
+    setCustomFieldId(null);
+    setCustomFieldOperator('IS_NOT_NULL');
+    setCustomFieldInput('');
+    setCustomFieldOptions([]);
     setRangeField(DEFAULT_VALUES.rangeField);
     setRangeStart('');
     setRangeEnd('');
@@ -316,15 +370,73 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
     // Convert UI selection to database-compatible format
     let condition: any = null;
     
-    if (['assignee', 'category', 'tag', 'status', 'priority'].includes(singleMode)) {
+    if (['assignee', 'category', 'tag', 'status', 'status_category', 'priority'].includes(singleMode)) {
       // Categorical fields with operator selector
       condition = {
         condition_type: 'list',
         field: singleMode,
         operator: categoricalOperator.toUpperCase(), // Convert to uppercase for database
-        values: categoricalOperator === 'in' ? singleValues : [],
+        values: operatorTakesValues(categoricalOperator) ? singleValues : [],
         includeNull: ['assignee', 'category', 'tag'].includes(singleMode) ? singleIncludeNull : undefined,
       };
+    } else if (singleMode === 'blocked') {
+      condition = {
+        condition_type: 'list',
+        field: 'blocked',
+        operator: '=',
+        values: [blockedValue],
+      };
+    } else if (singleMode === 'mentioned') {
+      // Mentions of the user looking at the list, in the description or a comment
+      condition = {
+        condition_type: 'list',
+        field: 'mentioned',
+        operator: '=',
+        values: [mentionedValue],
+      };
+    } else if (singleMode === 'estimate') {
+      const isNullCheck = estimateOperator === 'IS_NULL' || estimateOperator === 'IS_NOT_NULL';
+      if (isNullCheck || (estimateValue !== '' && Number.isFinite(Number(estimateValue)))) {
+        condition = {
+          condition_type: 'list',
+          field: 'estimate',
+          operator: estimateOperator,
+          values: isNullCheck ? [] : [Number(estimateValue)],
+        };
+      }
+    } else if (singleMode === 'custom_field' && selectedCustomField) {
+      const fieldType = selectedCustomField.field_type;
+      if (fieldType === 'checkbox') {
+        condition = {
+          condition_type: 'custom_field',
+          custom_field_id: selectedCustomField.id,
+          operator: '=',
+          values: [customFieldOperator !== 'UNCHECKED'],
+        };
+      } else if (customFieldOperator === 'IS_NULL' || customFieldOperator === 'IS_NOT_NULL') {
+        condition = {
+          condition_type: 'custom_field',
+          custom_field_id: selectedCustomField.id,
+          operator: customFieldOperator,
+          values: [],
+        };
+      } else if (fieldType === 'select' || fieldType === 'multi_select') {
+        if (customFieldOptions.length > 0) {
+          condition = {
+            condition_type: 'custom_field',
+            custom_field_id: selectedCustomField.id,
+            operator: customFieldOperator,
+            values: customFieldOptions,
+          };
+        }
+      } else if (customFieldInput.trim() !== '') {
+        condition = {
+          condition_type: 'custom_field',
+          custom_field_id: selectedCustomField.id,
+          operator: customFieldOperator,
+          values: [fieldType === 'number' ? Number(customFieldInput) : customFieldInput.trim()],
+        };
+      }
     } else if (singleMode === 'date_range') {
       if (rangeStart && rangeEnd) {
         condition = {
@@ -380,11 +492,11 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
   };
 
   // Helpers to render editors
-  const categoricalFields = ['assignee', 'category', 'tag', 'status', 'priority'] as const;
+  const operatorTakesValues = (operator: CategoricalOperator) => ['in', 'has_any', 'has_all', 'has_none'].includes(operator);
+  const categoricalFields = ['assignee', 'category', 'tag', 'status', 'status_category', 'priority'] as const;
   const dateFields = ['due_date', 'completion_date', 'created_date', 'last_modified', 'start_date'] as const;
   
   // These could be moved to a constants file or loaded from database in the future
-  const statusOptions = ['todo', 'in_progress', 'paused', 'done'];
   const priorityOptions = ['urgent', 'high', 'normal', 'low'];
   
   // Default values for form initialization
@@ -397,6 +509,58 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
     fallbackDays: 7
   };
 
+  // Operators offered for each kind of custom field
+  const customFieldOperators = (fieldType: CustomFieldType): Array<[string, string]> => {
+    const nullOperators: Array<[string, string]> = [['IS_NOT_NULL', 'Is set'], ['IS_NULL', 'Is empty']];
+    switch (fieldType) {
+      case 'checkbox':
+        return [['CHECKED', 'Checked'], ['UNCHECKED', 'Unchecked']];
+      case 'number':
+        return [['<', 'Less than'], ['<=', 'At most'], ['=', 'Equal to'], ['>=', 'At least'], ['>', 'More than'], ...nullOperators];
+      case 'date':
+        return [['<', 'Before'], ['<=', 'On or before'], ['=', 'On'], ['>=', 'On or after'], ['>', 'After'], ...nullOperators];
+      case 'select':
+        return [['IN', 'Is any of'], ['NOT_IN', 'Is none of'], ...nullOperators];
+      case 'multi_select':
+        return [['HAS_ANY', 'Has any of'], ['HAS_ALL', 'Has all of'], ['HAS_NONE', 'Has none of'], ...nullOperators];
+      default:
+        return [['CONTAINS', 'Contains'], ['=', 'Is'], ['!=', 'Is not'], ...nullOperators];
+    }
+  };
+
+  const renderCustomFieldSingle = () => {
+    if (!selectedCustomField || ['IS_NULL', 'IS_NOT_NULL', 'CHECKED', 'UNCHECKED'].includes(customFieldOperator)) {
+      return null;
+    }
+    if (selectedCustomField.field_type === 'select' || selectedCustomField.field_type === 'multi_select') {
+      return (
+        <div className="max-h-32 overflow-y-auto border rounded">
+          {selectedCustomField.options.map(option => (
+            <label key={option} className="flex items-center gap-2 px-2 py-1 text-sm hover:bg-gray-50">
+              <input
+                type="checkbox"
+                className="w-4 h-4"
+                checked={customFieldOptions.includes(option)}
+                onChange={() => setCustomFieldOptions(prev => (prev.includes(option) ? prev.filter(o => o !== option) : [...prev, option]))}
+              />
+              <span className="truncate">{option}</span>
+            </label>
+          ))}
+        </div>
+      );
+    }
+    return (
+      <input
+        type={selectedCustomField.field_type === 'number' ? 'number' : selectedCustomField.field_type === 'date' ? 'date' : 'text'}
+        step={selectedCustomField.field_type === 'number' ? 'any' : undefined}
+        value={customFieldInput}
+        onChange={e => setCustomFieldInput(e.target.value)}
+        placeholder="Value"
+        className="text-sm border rounded px-2 py-1 w-1/2"
+      />
+    );
+  };
+
   const renderCategoricalSingle = () => {
     let options: Array<{ value: number | string; label: string }> = [];
     if (singleMode === 'assignee') {
@@ -406,7 +570,9 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
     } else if (singleMode === 'tag') {
       options = tags.map(t => ({ value: t.id, label: t.name }));
     } else if (singleMode === 'status') {
-      options = statusOptions.map(s => ({ value: s, label: s.replace('_', ' ') }));
+      options = statuses.map(s => ({ value: s.key, label: s.name }));
+    } else if (singleMode === 'status_category') {
+      options = (Object.keys(STATUS_CATEGORY_LABELS) as StatusCategory[]).map(c => ({ value: c, label: STATUS_CATEGORY_LABELS[c] }));
     } else if (singleMode === 'priority') {
       options = priorityOptions.map(p => ({ value: p, label: p }));
     }
@@ -430,8 +596,8 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
 
     return (
       <div className="w-full">
-        {/* Only show values input when operator is 'in' */}
-        {categoricalOperator === 'in' && (
+        {/* Only show values input when the operator compares against values */}
+        {operatorTakesValues(categoricalOperator) && (
           <>
             <div className="flex items-center justify-between mb-1">
               <label className="flex items-center gap-1 text-xs cursor-pointer">
@@ -452,7 +618,7 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
                 </label>
               ))}
               {/* None at bottom */}
-              {['assignee', 'category', 'tag'].includes(singleMode) && (
+              {['assignee', 'category', 'tag'].includes(singleMode) && categoricalOperator === 'in' && (
                 <label className="flex items-center gap-2 px-2 py-1 text-sm border-t hover:bg-gray-50">
                   <input
                     type="checkbox"
@@ -623,8 +789,23 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
                             <span className="pointer-events-none absolute left-2 top-1/2 -translate-y-1/2 text-gray-400 text-sm">Filter by</span>
                           )}
                           <select
-                            value={singleMode}
-                            onChange={e => setSingleMode(e.target.value as any)}
+                            value={singleMode === 'custom_field' ? `custom_${customFieldId}` : singleMode}
+                            onChange={e => {
+                              if (e.target.value.startsWith('custom_')) {
+                                const field = customFields.find(f => f.id === Number(e.target.value.slice('custom_'.length)));
+                                setSingleMode('custom_field');
+                                setCustomFieldId(field ? field.id : null);
+                                setCustomFieldOperator(field ? customFieldOperators(field.field_type)[0][0] : 'IS_NOT_NULL');
+                                setCustomFieldInput('');
+                                setCustomFieldOptions([]);
+                                return;
+                              }
+                              setSingleMode(e.target.value as any);
+                              // The tag set operators only apply to tags; every task has a status type
+                              if ((e.target.value !== 'tag' && categoricalOperator.startsWith('has_')) || e.target.value === 'status_category') {
+                                setCategoricalOperator('in');
+                              }
+                            }}
                             className="text-sm border rounded px-2 py-1 w-full text-gray-900"
                           >
                             <option value="none" hidden></option>
@@ -632,16 +813,27 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
                           <option value="category">Category</option>
                           <option value="tag">Tag</option>
                           <option value="status">Status</option>
+                          <option value="status_category">Status type</option>
                           <option value="priority">Priority</option>
+                          <option value="blocked">Blocked</option>
+                          <option value="mentioned">Mentioned me</option>
+                          <option value="estimate">Estimate</option>
+                          {customFields.length > 0 && (
+                            <optgroup label="Custom fields">
+                              {customFields.map(field => (
+                                <option key={field.id} value={`custom_${field.id}`}>{field.name}</option>
+                              ))}
+                            </optgroup>
+                          )}
                           <option value="date_range">Date range</option>
                           <option value="date_diff">Date difference</option>
                           </select>
                         </div>
                         {/* Operator selector for categorical fields - moved to be inline */}
-                        {['assignee', 'category', 'tag', 'status', 'priority'].includes(singleMode) && (
+                        {['assignee', 'category', 'status', 'priority'].includes(singleMode) && (
                           <select
                             value={categoricalOperator}
-                            onChange={(e) => setCategoricalOperator(e.target.value as 'in' | 'is_null' | 'is_not_null')}
+                            onChange={(e) => setCategoricalOperator(e.target.value as CategoricalOperator)}
                             className="text-sm border rounded px-2 py-1 w-1/2 text-gray-900"
                           >
                             <option value="in">In</option>
@@ -649,6 +841,65 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
                             <option value="is_not_null">Is not NULL</option>
                           </select>
                         )}
+                        {singleMode === 'tag' && (
+                          <select
+                            value={categoricalOperator === 'in' ? 'has_any' : categoricalOperator}
+                            onChange={(e) => setCategoricalOperator(e.target.value as CategoricalOperator)}
+                            className="text-sm border rounded px-2 py-1 w-1/2 text-gray-900"
+                          >
+                            <option value="has_any">Has any of</option>
+                            <option value="has_all">Has all of</option>
+                            <option value="has_none">Has none of</option>
+                            <option value="is_null">Has no tags</option>
+                            <option value="is_not_null">Has tags</option>
+                          </select>
+                        )}
+                        {singleMode === 'blocked' && (
+                          <select
+                            value={blockedValue ? 'true' : 'false'}
+                            onChange={(e) => setBlockedValue(e.target.value === 'true')}
+                            className="text-sm border rounded px-2 py-1 w-1/2 text-gray-900"
+                          >
+                            <option value="true">Blocked by unfinished tasks</option>
+                            <option value="false">Not blocked</option>
+                          </select>
+                        )}
+                        {singleMode === 'mentioned' && (
+                          <select
+                            value={mentionedValue ? 'true' : 'false'}
+                            onChange={(e) => setMentionedValue(e.target.value === 'true')}
+                            className="text-sm border rounded px-2 py-1 w-1/2 text-gray-900"
+                          >
+                            <option value="true">Mentions me</option>
+                            <option value="false">Doesn't mention me</option>
+                          </select>
+                        )}
+                        {singleMode === 'estimate' && (
+                          <select
+                            value={estimateOperator}
+                            onChange={(e) => setEstimateOperator(e.target.value as any)}
+                            className="text-sm border rounded px-2 py-1 w-1/2 text-gray-900"
+                          >
+                            <option value="<">Less than</option>
+                            <option value="<=">At most</option>
+                            <option value="=">Equal to</option>
+                            <option value=">=">At least</option>
+                            <option value=">">More than</option>
+                            <option value="IS_NULL">Not estimated</option>
+                            <option value="IS_NOT_NULL">Estimated</option>
+                          </select>
+                        )}
+                        {singleMode === 'custom_field' && selectedCustomField && (
+                          <select
+                            value={customFieldOperator}
+                            onChange={(e) => setCustomFieldOperator(e.target.value)}
+                            className="text-sm border rounded px-2 py-1 w-1/2 text-gray-900"
+                          >
+                            {customFieldOperators(selectedCustomField.field_type).map(([value, label]) => (
+                              <option key={value} value={value}>{label}</option>
+                            ))}
+                          </select>
+                        )}
                         {singleMode === 'date_range' && (
                           <select
                             value={rangeField}
@@ -663,10 +914,22 @@ const UniversalFilter: React.FC<UniversalFilterProps> = ({
 
                       </div>
 
-                      {['assignee', 'category', 'tag', 'status', 'priority'].includes(singleMode) && (
+                      {['assignee', 'category', 'tag', 'status', 'status_category', 'priority'].includes(singleMode) && (
                         renderCategoricalSingle()
                       )}
 
+                      {singleMode === 'estimate' && estimateOperator !== 'IS_NULL' && estimateOperator !== 'IS_NOT_NULL' && (
+                        <input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={estimateValue}
+                          onChange={e => setEstimateValue(e.target.value)}
+                          placeholder="Estimate"
+                          className="text-sm border rounded px-2 py-1 w-1/2"
+                        />
+                      )}
+                      {singleMode === 'custom_field' && renderCustomFieldSingle()}
                       {singleMode === 'date_range' && renderDateRangeSingle()}
                       {singleMode === 'date_diff' && renderDateDiffSingle()}
                     </div>
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Menu, User, Settings, LogOut, Users } from 'lucide-react';
-import { useAuth } from '../contexts/AuthContext';
+import { Menu, User, Settings, LogOut, Users, Globe } from 'lucide-react';
+import { useAuth, detectTimezone } from '../contexts/AuthContext';
 import ManageAccessModal from './ManageAccessModal';
 
 interface UserMenuProps {
@@ -11,6 +11,13 @@ interface UserMenuProps {
   refreshWorkspaces?: () => void;
 }
 
+// Time zones the browser knows about; older browsers only offer the detected one
+const getTimezoneOptions = (current: string) => {
+  const supportedValuesOf = (Intl as any).supportedValuesOf as ((key: string) => string[]) | undefined;
+  const zones: string[] = supportedValuesOf ? supportedValuesOf('timeZone') : [];
+  return Array.from(new Set([current, detectTimezone(), 'UTC', ...zones])).sort();
+};
+
 const UserMenu: React.FC<UserMenuProps> = ({ 
   className = '', 
   selectedWorkspaceId = 1, 
@@ -21,7 +28,9 @@ const UserMenu: React.FC<UserMenuProps> = ({
   const [isOpen, setIsOpen] = useState(false);
   const [isManageAccessOpen, setIsManageAccessOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
-  const { user, logout } = useAuth();
+  const [isEditingTimezone, setIsEditingTimezone] = useState(false);
+  const [timezoneError, setTimezoneError] = useState<string | null>(null);
+  const { user, logout, updateTimezone } = useAuth();
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -52,6 +61,16 @@ const UserMenu: React.FC<UserMenuProps> = ({
 
   };
 
+  const handleTimezoneChange = async (timezone: string) => {
+    setTimezoneError(null);
+    try {
+      await updateTimezone(timezone);
+      setIsEditingTimezone(false);
+    } catch (err) {
+      setTimezoneError(err instanceof Error ? err.message : 'Failed to update time zone');
+    }
+  };
+
   const handleManageAccess = () => {
     setIsOpen(false);
     setIsManageAccessOpen(true);
@@ -72,13 +91,42 @@ const UserMenu: React.FC<UserMenuProps> = ({
 
       {/* Dropdown Menu */}
       {isOpen && (
-        <div className="absolute right-0 top-full mt-1 w-48 bg-white rounded-md shadow-lg border border-gray-200 py-1 z-50">
+        <div className="absolute right-0 top-full mt-1 w-56 bg-white rounded-md shadow-lg border border-gray-200 py-1 z-50">
           {/* User Info */}
           <div className="px-4 py-2 border-b border-gray-100">
             <p className="text-sm font-medium text-gray-900">{user.name}</p>
             {/* <p className="text-xs text-gray-500">{user.email}</p> */}
           </div>
 
+          {/* Time zone: due dates, start and completion dates and "today" follow it */}
+          <div className="px-4 py-2 border-b border-gray-100">
+            {isEditingTimezone ? (
+              <select
+                value={user.timezone || 'UTC'}
+                onChange={(e) => handleTimezoneChange(e.target.value)}
+                onBlur={() => setIsEditingTimezone(false)}
+                className="w-full text-sm border border-gray-300 rounded px-1 py-1 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                autoFocus
+              >
+                {getTimezoneOptions(user.timezone || 'UTC').map(zone => (
+                  <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+            ) : (
+              <button
+                onClick={() => setIsEditingTimezone(true)}
+                className="w-full flex items-center text-xs text-gray-600 hover:text-gray-900 transition-colors"
+                title="Change time zone"
+              >
+                <Globe className="w-4 h-4 mr-3 text-gray-500" />
+                <span className="truncate">{(user.timezone || 'UTC').replace(/_/g, ' ')}</span>
+              </button>
+            )}
+            {timezoneError && (
+              <p className="mt-1 text-xs text-red-600">{timezoneError}</p>
+            )}
+          </div>
+
           {/* Menu Items */}
           <button
             onClick={handleProfile}
@@ -1,20 +1,27 @@
 import React, { useState, useEffect } from 'react';
-import { Workspace } from '../types';
+import { Workspace, EstimateUnit } from '../types';
 import { apiService } from '../services/api';
 import { ChevronDown, Plus, Edit, Trash2, FolderOpen, Star, Users } from 'lucide-react';
 
 interface WorkspaceSelectorProps {
   selectedWorkspaceId: number | undefined;
   onWorkspaceChange: (workspaceId: number) => void;
-  workspaces?: Array<{ id: number; name: string; description?: string; access_level?: 'owner' | 'edit' | 'view'; is_default?: boolean; created_at?: string; updated_at?: string; other_users_count?: number }>;
+  workspaces?: Array<{ id: number; name: string; description?: string; access_level?: 'owner' | 'edit' | 'view'; is_default?: boolean; created_at?: string; updated_at?: string; other_users_count?: number; estimate_unit?: EstimateUnit }>;
   refreshWorkspaces?: () => void;
+  onTaskDrop?: (taskId: number, workspaceId: number, copy: boolean) => void;
 }
 
+// Tasks dragged out of the task list carry their id under this type
+const TASK_DRAG_TYPE = 'application/x-task-id';
+
+const isTaskDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(TASK_DRAG_TYPE);
+
 const WorkspaceSelector: React.FC<WorkspaceSelectorProps> = ({ 
   selectedWorkspaceId, 
   onWorkspaceChange,
   workspaces: propWorkspaces,
-  refreshWorkspaces = () => {}
+  refreshWorkspaces = () => {},
+  onTaskDrop
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
@@ -23,6 +30,8 @@ const WorkspaceSelector: React.FC<WorkspaceSelectorProps> = ({
   const [newWorkspaceDescription, setNewWorkspaceDescription] = useState('');
   const [editWorkspaceName, setEditWorkspaceName] = useState('');
   const [editWorkspaceDescription, setEditWorkspaceDescription] = useState('');
+  const [editEstimateUnit, setEditEstimateUnit] = useState<EstimateUnit>('hours');
+  const [dragOverWorkspaceId, setDragOverWorkspaceId] = useState<number | null>(null);
 
   // Use prop workspaces if provided, otherwise use empty array
   const workspaces = propWorkspaces || [];
@@ -54,7 +63,8 @@ const WorkspaceSelector: React.FC<WorkspaceSelectorProps> = ({
       const updatedWorkspace = await apiService.updateWorkspace(
         id,
         editWorkspaceName.trim(),
-        editWorkspaceDescription.trim() || undefined
+        editWorkspaceDescription.trim() || undefined,
+        editEstimateUnit
       );
       setEditWorkspaceName('');
       setEditWorkspaceDescription('');
@@ -103,6 +113,7 @@ const WorkspaceSelector: React.FC<WorkspaceSelectorProps> = ({
     setIsEditing(workspace.id);
     setEditWorkspaceName(workspace.name);
     setEditWorkspaceDescription(workspace.description || '');
+    setEditEstimateUnit(workspace.estimate_unit || 'hours');
   };
 
   const cancelEditing = () => {
@@ -126,6 +137,12 @@ const WorkspaceSelector: React.FC<WorkspaceSelectorProps> = ({
       {/* Main Selector */}
       <button
         onClick={() => setIsOpen(!isOpen)}
+        onDragEnter={(e) => {
+          // Open the list so a dragged task can be dropped onto a workspace
+          if (onTaskDrop && isTaskDrag(e)) {
+            setIsOpen(true);
+          }
+        }}
         className="flex items-center px-4 py-2 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 w-full"
       >
         {selectedWorkspace?.other_users_count && selectedWorkspace.other_users_count > 0 ? (
@@ -166,6 +183,17 @@ const WorkspaceSelector: React.FC<WorkspaceSelectorProps> = ({
                       placeholder="Description (optional)"
                       rows={2}
                     />
+                    <label className="flex items-center justify-between mb-2 text-xs text-gray-600">
+                      <span>Estimate tasks in</span>
+                      <select
+                        value={editEstimateUnit}
+                        onChange={(e) => setEditEstimateUnit(e.target.value as EstimateUnit)}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+                      >
+                        <option value="hours">Hours</option>
+                        <option value="points">Story points</option>
+                      </select>
+                    </label>
                     <div className="flex space-x-2">
                       <button
                         onClick={() => handleUpdateWorkspace(workspace.id)}
@@ -183,11 +211,34 @@ const WorkspaceSelector: React.FC<WorkspaceSelectorProps> = ({
                   </div>
                 ) : (
                   // Display Mode
-                  <div className={`p-3 rounded-lg cursor-pointer transition-colors ${
-                    selectedWorkspaceId === workspace.id 
-                      ? 'bg-blue-100 border border-blue-300' 
-                      : 'hover:bg-gray-50 border border-transparent'
-                  }`}>
+                  <div
+                    className={`p-3 rounded-lg cursor-pointer transition-colors ${
+                      dragOverWorkspaceId === workspace.id
+                        ? 'bg-blue-50 border border-dashed border-blue-400'
+                        : selectedWorkspaceId === workspace.id 
+                          ? 'bg-blue-100 border border-blue-300' 
+                          : 'hover:bg-gray-50 border border-transparent'
+                    }`}
+                    onDragOver={(e) => {
+                      // Tasks can be dropped on other workspaces the user can edit
+                      if (!onTaskDrop || !isTaskDrag(e) || workspace.id === selectedWorkspaceId) return;
+                      if (workspace.access_level !== 'owner' && workspace.access_level !== 'edit') return;
+                      e.preventDefault();
+                      e.dataTransfer.dropEffect = e.ctrlKey || e.altKey ? 'copy' : 'move';
+                      setDragOverWorkspaceId(workspace.id);
+                    }}
+                    onDragLeave={() => setDragOverWorkspaceId(null)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      setDragOverWorkspaceId(null);
+                      const taskId = parseInt(e.dataTransfer.getData(TASK_DRAG_TYPE), 10);
+                      if (onTaskDrop && taskId) {
+                        // Holding Ctrl or Alt while dropping copies instead of moving
+                        onTaskDrop(taskId, workspace.id, e.ctrlKey || e.altKey);
+                        setIsOpen(false);
+                      }
+                    }}
+                  >
                     <div className="flex items-center justify-between">
                       <div 
                         className="flex-1"
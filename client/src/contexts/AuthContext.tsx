@@ -4,8 +4,12 @@ interface User {
   id: number;
   email: string;
   name: string;
+  timezone?: string | null; // IANA time zone dates of day are computed in; null until detected
 }
 
+// Time zone reported by the browser
+export const detectTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
 interface AuthContextType {
   user: User | null;
   loading: boolean;
@@ -14,6 +18,7 @@ interface AuthContextType {
   register: (name: string, email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   checkSession: () => Promise<void>;
+  updateTimezone: (timezone: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -48,6 +53,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         const data = await res.json();
         console.log('✅ Session check successful:', data.user);
         setUser(data.user);
+        // Users without a stored time zone get the one their browser reports
+        if (!data.user.timezone) {
+          updateTimezone(detectTimezone()).catch(() => {});
+        }
       } else {
         console.log('❌ Session check failed with status:', res.status);
         setUser(null);
@@ -134,7 +143,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ name, email, password }),
+        body: JSON.stringify({ name, email, password, timezone: detectTimezone() }),
       });
 
       if (!res.ok) {
@@ -159,6 +168,26 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const updateTimezone = async (timezone: string) => {
+    try {
+      const res = await fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/auth/me`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ timezone }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || 'Failed to update time zone');
+      }
+      const data = await res.json();
+      setUser(data.user);
+    } catch (e) {
+      console.error('Error updating time zone:', e);
+      throw e;
+    }
+  };
+
   const logout = async () => {
     setLoading(true);
     setError(null);
@@ -176,7 +205,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, error, login, register, logout, checkSession }}>
+    <AuthContext.Provider value={{ user, loading, error, login, register, logout, checkSession, updateTimezone }}>
       {children}
     </AuthContext.Provider>
   );
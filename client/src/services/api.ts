@@ -1,7 +1,22 @@
-import { Task, TaskFilters, Category, Tag, Workspace, CreateTaskData, UpdateTaskData, TaskHistory } from '../types';
+import { Task, TaskFilters, Category, Tag, CustomField, CustomFieldType, CustomFieldValue, TaskTemplate, TaskTemplateInput, WorkflowStatus, WorkflowStatusInput, Workspace, CreateTaskData, UpdateTaskData, DuplicateTaskOptions, BulkTaskChanges, TaskHistory, TaskDependency, TaskDependencies, TaskComment, TaskAttachment, TaskChange, TimeEntry, TimeTotal, TimesheetRow, EstimateReport, EstimateUnit, EscalationPolicy, TrashedTask, SearchResult, NotificationsResponse, TaskFieldConflict, TaskPage, TaskPageOptions } from '../types';
 
 const API_BASE = process.env.REACT_APP_API_URL || 'http://localhost:3001/api';
 
+// Thrown when a task edit was based on an outdated version of the task (HTTP 409)
+export class TaskConflictError extends Error {
+  task: Task; // the task as it is now
+  changes: TaskChange[]; // changes made since the edit's version, newest first
+  conflicts: TaskFieldConflict[];
+
+  constructor(message: string, task: Task, changes: TaskChange[], conflicts: TaskFieldConflict[]) {
+    super(message);
+    this.name = 'TaskConflictError';
+    this.task = task;
+    this.changes = changes;
+    this.conflicts = conflicts;
+  }
+}
+
 class ApiService {
   private async request<T>(endpoint: string, options?: RequestInit): Promise<T> {
     const url = `${API_BASE}${endpoint}`;
@@ -23,6 +38,9 @@ class ApiService {
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Network error' }));
+      if (response.status === 409 && error.task) {
+        throw new TaskConflictError(error.error, error.task, error.changes || [], error.conflicts || []);
+      }
       throw new Error(error.error || `HTTP ${response.status}`);
     }
 
@@ -41,10 +59,10 @@ class ApiService {
     });
   }
 
-  async updateWorkspace(id: number, name: string, description?: string): Promise<Workspace> {
+  async updateWorkspace(id: number, name: string, description?: string, estimateUnit?: EstimateUnit): Promise<Workspace> {
     return this.request<Workspace>(`/workspaces/${id}`, {
       method: 'PUT',
-      body: JSON.stringify({ name, description }),
+      body: JSON.stringify({ name, description, estimate_unit: estimateUnit }),
     });
   }
 
@@ -60,6 +78,26 @@ class ApiService {
     });
   }
 
+  // Live updates: a Server-Sent Events stream of WorkspaceEvent messages. Pass since (the at of
+  // the last event seen) when reconnecting to first receive what was missed.
+  openWorkspaceEvents(workspaceId: number, since?: number): EventSource {
+    const query = since ? `?since=${since}` : '';
+    return new EventSource(`${API_BASE}/workspaces/${workspaceId}/events${query}`, { withCredentials: true });
+  }
+
+  // Escalation policy
+  async getEscalationPolicy(workspaceId: number): Promise<EscalationPolicy> {
+    return this.request<EscalationPolicy>(`/workspaces/${workspaceId}/escalation-policy`);
+  }
+
+  // Saving applies the policy right away; changed_task_ids lists the tasks whose priority it changed
+  async saveEscalationPolicy(workspaceId: number, policy: EscalationPolicy): Promise<EscalationPolicy & { changed_task_ids: number[] }> {
+    return this.request<EscalationPolicy & { changed_task_ids: number[] }>(`/workspaces/${workspaceId}/escalation-policy`, {
+      method: 'PUT',
+      body: JSON.stringify(policy),
+    });
+  }
+
   // Categories
   async getCategories(includeHidden?: boolean, workspaceId?: number): Promise<Category[]> {
     const params = new URLSearchParams();
@@ -139,8 +177,79 @@ class ApiService {
     });
   }
 
+  // Custom fields
+  async getCustomFields(workspaceId: number): Promise<CustomField[]> {
+    return this.request<CustomField[]>(`/custom-fields?workspace_id=${workspaceId}`);
+  }
+
+  async createCustomField(workspaceId: number, field: { name: string; field_type: CustomFieldType; options?: string[]; show_in_list?: boolean }): Promise<CustomField> {
+    return this.request<CustomField>('/custom-fields', {
+      method: 'POST',
+      body: JSON.stringify({ ...field, workspace_id: workspaceId }),
+    });
+  }
+
+  async updateCustomField(id: number, changes: { name?: string; options?: string[]; show_in_list?: boolean; position?: number }): Promise<CustomField> {
+    return this.request<CustomField>(`/custom-fields/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async deleteCustomField(id: number): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/custom-fields/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Pass version to have the edit rejected with a TaskConflictError if someone else changed the task
+  async setTaskCustomFields(taskId: number, values: Record<number, CustomFieldValue | null>, version?: string): Promise<{ custom_fields: Record<string, CustomFieldValue>; last_modified: string }> {
+    return this.request<{ custom_fields: Record<string, CustomFieldValue>; last_modified: string }>(`/tasks/${taskId}/custom-fields`, {
+      method: 'PUT',
+      body: JSON.stringify({ values, version }),
+    });
+  }
+
+  // Task templates
+  async getTaskTemplates(workspaceId: number): Promise<TaskTemplate[]> {
+    return this.request<TaskTemplate[]>(`/task-templates?workspace_id=${workspaceId}`);
+  }
+
+  async createTaskTemplate(workspaceId: number, template: TaskTemplateInput): Promise<TaskTemplate> {
+    return this.request<TaskTemplate>('/task-templates', {
+      method: 'POST',
+      body: JSON.stringify({ ...template, workspace_id: workspaceId }),
+    });
+  }
+
+  async updateTaskTemplate(id: number, changes: Partial<TaskTemplateInput>): Promise<TaskTemplate> {
+    return this.request<TaskTemplate>(`/task-templates/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async deleteTaskTemplate(id: number): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/task-templates/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Statuses
+  async getStatuses(workspaceId: number): Promise<WorkflowStatus[]> {
+    return this.request<WorkflowStatus[]>(`/statuses?workspace_id=${workspaceId}`);
+  }
+
+  // Replaces the whole workflow; tasks in a removed status move to the status given for it in reassign
+  async saveStatuses(workspaceId: number, statuses: WorkflowStatusInput[], reassign: Record<string, string> = {}): Promise<WorkflowStatus[]> {
+    return this.request<WorkflowStatus[]>('/statuses', {
+      method: 'PUT',
+      body: JSON.stringify({ workspace_id: workspaceId, statuses, reassign }),
+    });
+  }
+
   // Tasks
-  async getTasks(filters?: TaskFilters): Promise<Task[]> {
+  private buildTaskQuery(filters?: TaskFilters, page?: TaskPageOptions): string {
     const params = new URLSearchParams();
     if (filters) {
       Object.entries(filters).forEach(([key, value]) => {
@@ -154,10 +263,23 @@ class ApiService {
         }
       });
     }
+    if (page) {
+      params.append('limit', page.limit.toString());
+      if (page.cursor) params.append('cursor', page.cursor);
+      if (page.sort) params.append('sort', page.sort);
+    }
     
     const queryString = params.toString();
-    const endpoint = queryString ? `/tasks?${queryString}` : '/tasks';
-    return this.request<Task[]>(endpoint);
+    return queryString ? `/tasks?${queryString}` : '/tasks';
+  }
+
+  async getTasks(filters?: TaskFilters): Promise<Task[]> {
+    return this.request<Task[]>(this.buildTaskQuery(filters));
+  }
+
+  // One page of tasks; pass the next_cursor of a page to get the page after it
+  async getTasksPage(filters: TaskFilters | undefined, page: TaskPageOptions): Promise<TaskPage> {
+    return this.request<TaskPage>(this.buildTaskQuery(filters, page));
   }
 
   async getTask(id: number): Promise<Task> {
@@ -171,30 +293,257 @@ class ApiService {
     });
   }
 
-  async updateTask(id: number, taskData: UpdateTaskData): Promise<{ success: boolean }> {
-    return this.request<{ success: boolean }>(`/tasks/${id}`, {
+  // The template's placeholders are filled in for the day the task is created
+  async createTaskFromTemplate(workspaceId: number, templateId: number): Promise<Task> {
+    return this.request<Task>('/tasks', {
+      method: 'POST',
+      body: JSON.stringify({ workspace_id: workspaceId, template_id: templateId }),
+    });
+  }
+
+  // Copy a task next to itself; the copy starts over in the first status without start or completion dates
+  async duplicateTask(id: number, options: DuplicateTaskOptions = {}): Promise<{ success: boolean; task_id: number; task_ids: number[]; task: Task }> {
+    return this.request<{ success: boolean; task_id: number; task_ids: number[]; task: Task }>(`/tasks/${id}/duplicate`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  }
+
+  // Pass taskData.version to have the edit rejected with a TaskConflictError if someone else changed the task
+  async updateTask(id: number, taskData: UpdateTaskData): Promise<{ success: boolean; last_modified: string; next_task?: Task | null }> {
+    return this.request<{ success: boolean; last_modified: string; next_task?: Task | null }>(`/tasks/${id}`, {
       method: 'PUT',
       body: JSON.stringify(taskData),
     });
   }
 
-  async updateTaskStatus(id: number, status: Task['status'], notes?: string): Promise<{ success: boolean; status: Task['status'] }> {
-    return this.request<{ success: boolean; status: Task['status'] }>(`/tasks/${id}/status`, {
+  async updateTaskStatus(id: number, status: Task['status'], notes?: string, force?: boolean): Promise<{ success: boolean; status: Task['status']; last_modified: string; next_task?: Task | null }> {
+    return this.request<{ success: boolean; status: Task['status']; last_modified: string; next_task?: Task | null }>(`/tasks/${id}/status`, {
       method: 'PATCH',
-      body: JSON.stringify({ status, notes }),
+      body: JSON.stringify({ status, notes, force }),
     });
   }
 
-  async deleteTask(id: number): Promise<{ success: boolean }> {
-    return this.request<{ success: boolean }>(`/tasks/${id}`, {
+  async deleteTask(id: number): Promise<{ success: boolean; deleted_ids: number[] }> {
+    return this.request<{ success: boolean; deleted_ids: number[] }>(`/tasks/${id}`, {
       method: 'DELETE',
     });
   }
 
+  async bulkUpdateTasks(taskIds: number[], changes: BulkTaskChanges, force?: boolean): Promise<{ success: boolean; updated_ids: number[]; next_tasks: Task[] }> {
+    return this.request<{ success: boolean; updated_ids: number[]; next_tasks: Task[] }>('/tasks/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ task_ids: taskIds, action: 'update', changes, force }),
+    });
+  }
+
+  async bulkDeleteTasks(taskIds: number[]): Promise<{ success: boolean; deleted_ids: number[] }> {
+    return this.request<{ success: boolean; deleted_ids: number[] }>('/tasks/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ task_ids: taskIds, action: 'delete' }),
+    });
+  }
+
+  async moveTask(id: number, workspaceId: number): Promise<{ success: boolean; moved_ids: number[] }> {
+    return this.request<{ success: boolean; moved_ids: number[] }>(`/tasks/${id}/move`, {
+      method: 'POST',
+      body: JSON.stringify({ workspace_id: workspaceId }),
+    });
+  }
+
+  async copyTask(id: number, workspaceId: number): Promise<{ success: boolean; task_id: number }> {
+    return this.request<{ success: boolean; task_id: number }>(`/tasks/${id}/copy`, {
+      method: 'POST',
+      body: JSON.stringify({ workspace_id: workspaceId }),
+    });
+  }
+
   async getTaskHistory(id: number): Promise<TaskHistory[]> {
     return this.request<TaskHistory[]>(`/tasks/${id}/history`);
   }
 
+  // Task dependencies
+  async getTaskDependencies(id: number): Promise<TaskDependencies> {
+    return this.request<TaskDependencies>(`/tasks/${id}/dependencies`);
+  }
+
+  async addTaskDependency(id: number, dependsOnTaskId: number): Promise<TaskDependency> {
+    return this.request<TaskDependency>(`/tasks/${id}/dependencies`, {
+      method: 'POST',
+      body: JSON.stringify({ depends_on_task_id: dependsOnTaskId }),
+    });
+  }
+
+  async removeTaskDependency(id: number, dependsOnTaskId: number): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/tasks/${id}/dependencies/${dependsOnTaskId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Activity
+  async getTaskChanges(id: number): Promise<TaskChange[]> {
+    return this.request<TaskChange[]>(`/tasks/${id}/changes`);
+  }
+
+  // Comments
+  async getTaskComments(id: number): Promise<TaskComment[]> {
+    return this.request<TaskComment[]>(`/tasks/${id}/comments`);
+  }
+
+  async addTaskComment(id: number, body: string, parentCommentId?: number): Promise<TaskComment> {
+    return this.request<TaskComment>(`/tasks/${id}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ body, parent_comment_id: parentCommentId }),
+    });
+  }
+
+  async updateTaskComment(id: number, commentId: number, body: string): Promise<TaskComment> {
+    return this.request<TaskComment>(`/tasks/${id}/comments/${commentId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ body }),
+    });
+  }
+
+  async deleteTaskComment(id: number, commentId: number): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/tasks/${id}/comments/${commentId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Attachments
+  async getTaskAttachments(id: number): Promise<TaskAttachment[]> {
+    return this.request<TaskAttachment[]>(`/tasks/${id}/attachments`);
+  }
+
+  // The file is sent as the request body; its name and type travel in headers
+  async uploadTaskAttachment(id: number, file: File): Promise<TaskAttachment> {
+    return this.request<TaskAttachment>(`/tasks/${id}/attachments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-File-Name': encodeURIComponent(file.name),
+        'X-File-Type': encodeURIComponent(file.type),
+      },
+      body: file,
+    });
+  }
+
+  // The file contents, for downloads and image previews
+  async getTaskAttachmentContent(id: number, attachmentId: number): Promise<Blob> {
+    const response = await fetch(`${API_BASE}/tasks/${id}/attachments/${attachmentId}/download`, {
+      credentials: 'include',
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Network error' }));
+      throw new Error(error.error || `HTTP ${response.status}`);
+    }
+    return response.blob();
+  }
+
+  async deleteTaskAttachment(id: number, attachmentId: number): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/tasks/${id}/attachments/${attachmentId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Time tracking
+  async getTimeEntries(taskId: number): Promise<{ entries: TimeEntry[]; total_seconds: number }> {
+    return this.request<{ entries: TimeEntry[]; total_seconds: number }>(`/tasks/${taskId}/time-entries`);
+  }
+
+  async createTimeEntry(taskId: number, entry: { started_at: string; ended_at: string; notes?: string }): Promise<TimeEntry> {
+    return this.request<TimeEntry>(`/tasks/${taskId}/time-entries`, {
+      method: 'POST',
+      body: JSON.stringify(entry),
+    });
+  }
+
+  async updateTimeEntry(id: number, entry: { started_at?: string; ended_at?: string; notes?: string }): Promise<TimeEntry> {
+    return this.request<TimeEntry>(`/time-entries/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(entry),
+    });
+  }
+
+  async deleteTimeEntry(id: number): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/time-entries/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getTimeTotals(workspaceId: number, groupBy: 'task' | 'user' | 'category', from?: string, to?: string): Promise<TimeTotal[]> {
+    const params = new URLSearchParams({ workspace_id: workspaceId.toString(), group_by: groupBy });
+    if (from) params.append('from', from);
+    if (to) params.append('to', to);
+    return this.request<TimeTotal[]>(`/time-entries/totals?${params.toString()}`);
+  }
+
+  async getTimesheet(from: string, to: string, workspaceId?: number): Promise<TimesheetRow[]> {
+    // Days are counted in the user's time zone setting
+    const params = new URLSearchParams({ from, to });
+    if (workspaceId) {
+      params.append('workspace_id', workspaceId.toString());
+    }
+    return this.request<TimesheetRow[]>(`/time-entries/timesheet?${params.toString()}`);
+  }
+
+  // Reports
+  async getEstimateReport(workspaceId: number, from?: string, to?: string): Promise<EstimateReport> {
+    const params = new URLSearchParams({ workspace_id: workspaceId.toString() });
+    if (from) params.append('from', from);
+    if (to) params.append('to', to);
+    return this.request<EstimateReport>(`/reports/estimates?${params.toString()}`);
+  }
+
+  // Trash
+  async getTrash(workspaceId: number): Promise<{ retention_days: number; tasks: TrashedTask[] }> {
+    return this.request<{ retention_days: number; tasks: TrashedTask[] }>(`/trash?workspace_id=${workspaceId}`);
+  }
+
+  async restoreTask(id: number): Promise<{ success: boolean; restored_ids: number[] }> {
+    return this.request<{ success: boolean; restored_ids: number[] }>(`/trash/${id}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  async purgeTask(id: number): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/trash/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async emptyTrash(workspaceId: number): Promise<{ success: boolean; purged_count: number }> {
+    return this.request<{ success: boolean; purged_count: number }>(`/trash?workspace_id=${workspaceId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Search
+  async searchTasks(q: string, workspaceId?: number): Promise<SearchResult[]> {
+    const params = new URLSearchParams({ q });
+    if (workspaceId) {
+      params.append('workspace_id', workspaceId.toString());
+    }
+    return this.request<SearchResult[]>(`/search?${params.toString()}`);
+  }
+
+  // Notifications
+  async getNotifications(unreadOnly?: boolean): Promise<NotificationsResponse> {
+    return this.request<NotificationsResponse>(`/notifications${unreadOnly ? '?unread_only=true' : ''}`);
+  }
+
+  async markNotificationRead(id: number): Promise<{ success: boolean; read_at: string }> {
+    return this.request<{ success: boolean; read_at: string }>(`/notifications/${id}/read`, {
+      method: 'POST',
+    });
+  }
+
+  async markAllNotificationsRead(): Promise<{ success: boolean; updated: number }> {
+    return this.request<{ success: boolean; updated: number }>('/notifications/read-all', {
+      method: 'POST',
+    });
+  }
+
   // Export
   async exportTasks(): Promise<Task[]> {
     return this.request<Task[]>('/export');
@@ -7,6 +7,25 @@ export interface Workspace {
   created_at?: string;
   updated_at?: string;
   other_users_count?: number;
+  estimate_unit?: EstimateUnit;
+}
+
+export type EstimateUnit = 'hours' | 'points';
+
+// A non-working date of a workspace's calendar
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+// How a workspace raises the priority of tasks as their due date comes closer
+export interface EscalationPolicy {
+  enabled: boolean;
+  business_days: number; // escalate tasks due within this many business days (0 = due today or overdue)
+  priority: 'urgent' | 'high' | 'normal';
+  deescalate: boolean; // restore the previous priority when the due date moves out again
+  timezone: string; // IANA time zone the workspace's days are counted in
+  holidays: Holiday[];
 }
 
 export interface Category {
@@ -27,26 +46,117 @@ export interface Tag {
   updated_at: string;
 }
 
+export type StatusCategory = 'not_started' | 'active' | 'done';
+
+// A status of a workspace workflow; tasks refer to it by key
+export interface WorkflowStatus {
+  id: number;
+  workspace_id: number;
+  key: string;
+  name: string;
+  color: string; // hex color like #2563eb
+  category: StatusCategory;
+  position: number;
+  allowed_transitions: string[] | null; // keys this status may move to; null allows every status
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A status as sent when saving a workflow; new statuses have no key yet
+export interface WorkflowStatusInput {
+  key?: string;
+  name: string;
+  color: string;
+  category: StatusCategory;
+  allowed_transitions: string[] | null;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'url' | 'checkbox';
+
+// Values are strings for text, url, date and select fields, numbers, true for a checked box,
+// and lists of options for multi-select fields
+export type CustomFieldValue = string | number | boolean | string[];
+
+export interface CustomField {
+  id: number;
+  workspace_id: number;
+  name: string;
+  field_type: CustomFieldType;
+  options: string[]; // choices of select and multi_select fields
+  show_in_list: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Fields a new task starts with; title_pattern and description may contain {date}, {weekday},
+// {week}, {month} and {year}, filled in when a task is created from the template
+export interface TaskTemplate {
+  id: number;
+  workspace_id: number;
+  name: string;
+  title_pattern: string;
+  description?: string | null;
+  category_id?: number | null;
+  category_name?: string | null;
+  tag_ids: number[];
+  priority: Task['priority'];
+  due_offset_days: number | null; // days from the day of creation; null leaves the due date empty
+  assignee_ids: number[]; // empty assigns the creator
+  created_at: string;
+  updated_at: string;
+}
+
+export type TaskTemplateInput = Omit<TaskTemplate, 'id' | 'workspace_id' | 'category_name' | 'created_at' | 'updated_at'>;
+
 export interface Task {
   id: number;
   title: string;
   description?: string;
   category_id?: number;
   category_name?: string;
-  tag_id?: number;
-  tag_name?: string;
+  tag_ids?: number[];
+  tag_names?: string[];
   workspace_id: number;
-  status: 'todo' | 'in_progress' | 'paused' | 'done';
+  status: string; // key of a status in the workspace workflow
   priority: 'urgent' | 'high' | 'normal' | 'low';
   due_date?: string;
   start_date?: string;
   completion_date?: string;
   assignee_names?: string[];
   assignee_emails?: string[];
+  parent_task_id?: number | null;
+  child_count?: number;
+  done_child_count?: number;
+  comment_count?: number;
+  attachment_count?: number;
+  blocked_by_titles?: string[];
+  recurrence_rule?: RecurrenceRule | null;
+  recurring_from_task_id?: number | null;
+  estimate?: number | null; // in the workspace's estimate_unit
+  running_timer_started_at?: string | null; // the current user's running timer, if any
+  time_spent_seconds?: number;
+  custom_fields?: Record<string, CustomFieldValue>; // keyed by custom field id
+  position?: number | null; // place in the workspace's custom order
   last_modified: string;
   created_at: string;
 }
 
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'business_days';
+  interval?: number;
+  weekdays?: number[]; // 0 = Sunday
+  day_of_month?: number;
+}
+
+// A change to a workspace pushed over its live update stream
+export interface WorkspaceEvent {
+  type: 'tasks' | 'tasks_deleted' | 'categories' | 'tags' | 'permissions' | 'access_revoked' | 'resync';
+  workspace_id: number;
+  task_ids?: number[];
+  at: number; // event timestamp; reconnecting with it as since replays the events after it
+}
+
 export interface TaskHistory {
   id: number;
   task_id: number;
@@ -55,26 +165,212 @@ export interface TaskHistory {
   notes?: string;
 }
 
+export interface TaskDependency {
+  id: number;
+  title: string;
+  status: Task['status'];
+  created_at?: string;
+}
+
+export interface TaskDependencies {
+  depends_on: TaskDependency[];
+  dependents: TaskDependency[];
+}
+
+export interface TaskComment {
+  id: number;
+  task_id: number;
+  parent_comment_id: number | null;
+  user_id: number | null;
+  author_name?: string;
+  author_email?: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskAttachment {
+  id: number;
+  task_id: number;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  uploaded_by: number | null;
+  uploader_name?: string;
+  created_at: string;
+}
+
+export interface TaskChange {
+  id: number;
+  task_id: number;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  actor: 'user' | 'system';
+  changed_by: number | null;
+  actor_name?: string | null;
+  changed_at: string;
+  reason?: string | null; // why the system made an automatic change
+}
+
+export interface TimeEntry {
+  id: number;
+  task_id: number;
+  user_id: number;
+  user_name?: string | null;
+  started_at: string;
+  ended_at: string | null; // null while the timer is running
+  notes?: string | null;
+  source: 'timer' | 'manual';
+  duration_seconds: number;
+}
+
+export interface TimeTotal {
+  id: number | null;
+  name: string | null;
+  total_seconds: number;
+}
+
+export interface TimesheetRow {
+  day: string; // YYYY-MM-DD
+  task_id: number;
+  task_title: string;
+  workspace_id: number;
+  category_name?: string | null;
+  total_seconds: number;
+}
+
+export interface EstimateReportGroup {
+  id: number | null;
+  name: string | null;
+  task_count: number;
+  estimate: number;
+  actual_days: number;
+  tracked_hours: number;
+  days_per_unit: number | null;
+  tracked_hours_per_unit: number | null;
+}
+
+export interface EstimateReport {
+  unit: EstimateUnit;
+  totals: EstimateReportGroup;
+  by_category: EstimateReportGroup[];
+  by_assignee: EstimateReportGroup[];
+  tasks: Array<{ id: number; title: string; category_name?: string | null; estimate: number; actual_days: number; tracked_hours: number }>;
+}
+
+export interface TrashedTask {
+  id: number;
+  title: string;
+  status: Task['status'];
+  priority: Task['priority'];
+  parent_task_id: number | null;
+  category_name?: string | null;
+  child_count: number;
+  deleted_at: string;
+  deleted_by: number | null;
+  deleted_by_name?: string | null;
+  purge_at: string;
+}
+
+export interface SearchResult {
+  id: number;
+  title: string;
+  status: Task['status'];
+  priority: Task['priority'];
+  due_date?: string;
+  parent_task_id?: number | null;
+  workspace_id: number;
+  workspace_name: string;
+  rank: number;
+  // Highlighted fragments are wrapped in <mark></mark>
+  title_highlight: string;
+  snippet: string | null;
+  snippet_source: 'description' | 'comment' | null;
+}
+
+export type NotificationType = 'task_assigned' | 'task_status' | 'task_mentioned' | 'workspace_access' | 'workspace_ownership';
+
+export interface AppNotification {
+  id: number;
+  type: NotificationType;
+  actor_id: number | null;
+  actor_name: string | null; // null once the actor's account is gone
+  workspace_id: number | null;
+  workspace_name: string | null;
+  task_id: number | null;
+  task_title: string | null;
+  // task_status: from, to; task_mentioned: in_comment; workspace_access: change, access_level
+  data: {
+    from?: string;
+    to?: string;
+    in_comment?: boolean;
+    change?: 'added' | 'changed' | 'removed';
+    access_level?: 'edit' | 'view';
+  };
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationsResponse {
+  notifications: AppNotification[];
+  unread_count: number;
+}
+
 export interface CreateTaskData {
   title: string;
   description?: string;
   category_id?: number;
-  tag_id?: number;
+  tag_ids?: number[];
   priority?: Task['priority'];
   due_date?: string;
   workspace_id: number;
+  parent_task_id?: number;
+  recurrence_rule?: RecurrenceRule | null;
+  estimate?: number | null;
+}
+
+// What a duplicate brings along besides the task's own fields
+export interface DuplicateTaskOptions {
+  include_subtasks?: boolean;
+  include_attachments?: boolean;
+  include_comments?: boolean;
 }
 
 export interface UpdateTaskData {
   title?: string;
   description?: string;
   category_id?: number;
-  tag_id?: number;
+  tag_ids?: number[];
   priority?: Task['priority'];
   status?: Task['status'];
   start_date?: string;
   due_date?: string;
   completion_date?: string;
+  parent_task_id?: number | null;
+  recurrence_rule?: RecurrenceRule | null;
+  estimate?: number | null;
+  position?: number | null;
+  version?: string; // last_modified of the task the edit is based on; stale edits are rejected
+}
+
+// A field of an edit that someone else changed since the edit's version
+// The value of any one field of a task edit
+export type TaskFieldValue = UpdateTaskData[keyof UpdateTaskData];
+
+export interface TaskFieldConflict {
+  field: keyof UpdateTaskData;
+  yours: TaskFieldValue;
+  theirs: TaskFieldValue;
+}
+
+export interface BulkTaskChanges {
+  status?: Task['status'];
+  priority?: Task['priority'];
+  category_id?: number | null;
+  due_date?: string | null;
+  add_assignee_ids?: number[];
+  remove_assignee_ids?: number[];
 }
 
 export interface TaskFilters {
@@ -93,10 +389,30 @@ export interface TaskFilters {
   // Logic to combine groups
   customFiltersLogic?: 'AND' | 'OR';
   
+  // Full-text search on title, description and comments
+  q?: string;
+
+  // Only these tasks (live updates fetch just the tasks that changed)
+  task_ids?: number[];
+  
   // Internal flag to track initial filter loading
   _initialFiltersLoaded?: boolean;
 }
 
+export interface TaskPageOptions {
+  limit: number;
+  cursor?: string | null;
+  // Comma-separated keys (status, priority, due_date, created_at, last_modified, title, category,
+  // position, custom_field:<id>), each descending with a leading -; each view has its own default
+  sort?: string;
+}
+
+export interface TaskPage {
+  tasks: Task[];
+  next_cursor: string | null; // null on the last page
+  total: number; // tasks matching the filters, on all pages
+}
+
 export interface FilterGroup {
   id: string;
   conditions: FilterCondition[];
@@ -104,13 +420,14 @@ export interface FilterGroup {
 }
 
 export interface FilterCondition {
-  condition_type: 'list' | 'date_diff' | 'date_range';
+  condition_type: 'list' | 'date_diff' | 'date_range' | 'custom_field';
   field?: string; // Optional for date_diff where date_from/date_to are primary
   date_from?: string; // For date_diff
   date_to?: string;   // For date_diff
   operator: string; // SQL operator symbols
   values: any[];
   unit?: string; // For date_diff: 'days', 'weeks', 'months'
+  custom_field_id?: number; // For custom_field
   // Custom additions for categorical null handling
   includeNull?: boolean;
 }
@@ -1,5 +1,6 @@
 const { Pool } = require('pg');
 const moment = require('moment-timezone');
+const { createDefaultStatuses } = require('./services/statuses');
 
 class PostgreSQLBackupManager {
   constructor(options = {}) {
@@ -22,7 +23,7 @@ class PostgreSQLBackupManager {
   async calculateDatabaseHash() {
     const client = await this.pool.connect();
     try {
-      const tables = ['tasks', 'tags', 'task_history', 'workspaces'];
+      const tables = ['tasks', 'categories', 'tags', 'task_history', 'workspaces', 'workspace_statuses', 'task_attachments'];
       const tableData = {};
       
       for (const table of tables) {
@@ -95,21 +96,28 @@ class PostgreSQLBackupManager {
       
       const backupPrefix = `backup_${timestamp}`;
       
-      // Create backup tables with data
+      // Create backup tables with data. They copy every column the table has at the time of the
+      // backup; restoreTable matches them by name, so later migrations don't break older backups.
       const tables = [
-        { name: 'workspaces', columns: 'id, name, description, created_at, updated_at' },
-        { name: 'categories', columns: 'id, name, workspace_id, hidden, created_at, updated_at' },
-        { name: 'tasks', columns: 'id, user_id, workspace_id, title, description, category_id, priority, status, due_date, start_date, completion_date, last_modified, created_at' },
-        { name: 'task_history', columns: 'id, task_id, status, action_date, notes' }
+        'workspaces',
+        'workspace_permissions',
+        'workspace_statuses',
+        'categories',
+        'tags',
+        'tasks',
+        'task_history',
+        'task_tags',
+        // Attachment rows only; the files stay in the attachment storage backend
+        'task_attachments'
       ];
       
       for (const table of tables) {
-        const backupTableName = `${backupPrefix}_${table.name}`;
+        const backupTableName = `${backupPrefix}_${table}`;
         
         // Create backup table with same structure
         await client.query(`
           CREATE TABLE ${backupTableName} AS 
-          SELECT * FROM ${table.name}
+          SELECT * FROM ${table}
         `);
         
         console.log(`Created backup table: ${backupTableName}`);
@@ -464,6 +472,35 @@ class PostgreSQLBackupManager {
     }
   }
 
+  // Copy the rows of a backup table into its table, naming the columns both have. Columns added by
+  // migrations after the backup was made get their defaults, and differing column order is harmless.
+  async restoreTable(client, table, backupTableName) {
+    const result = await client.query(`
+      SELECT b.column_name
+      FROM information_schema.columns b
+      JOIN information_schema.columns t
+        ON t.table_schema = b.table_schema AND t.table_name = $1 AND t.column_name = b.column_name
+      WHERE b.table_schema = 'public' AND b.table_name = $2
+      ORDER BY b.ordinal_position
+    `, [table, backupTableName]);
+    const columns = result.rows.map(row => `"${row.column_name}"`).join(', ');
+    await client.query(`INSERT INTO ${table} (${columns}) SELECT ${columns} FROM ${backupTableName}`);
+
+    // Restored rows keep their ids, so new rows must be numbered after them
+    const sequenceResult = await client.query("SELECT pg_get_serial_sequence($1, 'id') as sequence", [table]);
+    if (sequenceResult.rows[0].sequence) {
+      await client.query(
+        `SELECT setval($1, COALESCE((SELECT MAX(id) FROM ${table}), 0) + 1, false)`,
+        [sequenceResult.rows[0].sequence]
+      );
+    }
+  }
+
+  async hasBackupTable(client, backupTableName) {
+    const result = await client.query('SELECT to_regclass($1) IS NOT NULL as exists', [backupTableName]);
+    return result.rows[0].exists;
+  }
+
   // Restore from backup
   async restoreFromBackup(backupPrefix) {
     const client = await this.pool.connect();
@@ -471,7 +508,7 @@ class PostgreSQLBackupManager {
       // Verify backup exists
       const backupTables = [
         `${backupPrefix}_workspaces`,
-        `${backupPrefix}_tags`, 
+        `${backupPrefix}_categories`,
         `${backupPrefix}_tasks`,
         `${backupPrefix}_task_history`
       ];
@@ -494,17 +531,55 @@ class PostgreSQLBackupManager {
       await client.query('BEGIN');
       
       try {
-        // Clear current tables
+        // Clear current tables. Deleting the workspaces also removes their permissions, statuses and
+        // everything else that belongs to them.
         await client.query('DELETE FROM task_history');
         await client.query('DELETE FROM tasks');
+        await client.query('DELETE FROM categories');
         await client.query('DELETE FROM tags');
         await client.query('DELETE FROM workspaces');
         
-        // Restore from backup tables
-        await client.query(`INSERT INTO workspaces SELECT * FROM ${backupPrefix}_workspaces`);
-        await client.query(`INSERT INTO tags SELECT * FROM ${backupPrefix}_tags`);
-        await client.query(`INSERT INTO tasks SELECT * FROM ${backupPrefix}_tasks`);
-        await client.query(`INSERT INTO task_history SELECT * FROM ${backupPrefix}_task_history`);
+        // Restore from backup tables, each after the tables it references
+        await this.restoreTable(client, 'workspaces', `${backupPrefix}_workspaces`);
+
+        // Backups made before permissions were backed up give each workspace back to its creator
+        if (await this.hasBackupTable(client, `${backupPrefix}_workspace_permissions`)) {
+          await this.restoreTable(client, 'workspace_permissions', `${backupPrefix}_workspace_permissions`);
+        } else {
+          await client.query(`
+            INSERT INTO workspace_permissions (workspace_id, user_id, email, access_level)
+            SELECT w.id, u.id, u.email, 'owner'
+            FROM workspaces w
+            JOIN users u ON u.id = w.user_id
+          `);
+        }
+
+        // Backups made before status workflows existed get the default statuses
+        if (await this.hasBackupTable(client, `${backupPrefix}_workspace_statuses`)) {
+          await this.restoreTable(client, 'workspace_statuses', `${backupPrefix}_workspace_statuses`);
+        } else {
+          const workspaceResult = await client.query('SELECT id FROM workspaces');
+          for (const workspace of workspaceResult.rows) {
+            await createDefaultStatuses(workspace.id, client);
+          }
+        }
+
+        await this.restoreTable(client, 'categories', `${backupPrefix}_categories`);
+        // Backups made before tags were backed up restore tasks without tags
+        const hasTagBackup = await this.hasBackupTable(client, `${backupPrefix}_tags`);
+        if (hasTagBackup) {
+          await this.restoreTable(client, 'tags', `${backupPrefix}_tags`);
+        }
+        await this.restoreTable(client, 'tasks', `${backupPrefix}_tasks`);
+        await this.restoreTable(client, 'task_history', `${backupPrefix}_task_history`);
+        if (hasTagBackup && await this.hasBackupTable(client, `${backupPrefix}_task_tags`)) {
+          await this.restoreTable(client, 'task_tags', `${backupPrefix}_task_tags`);
+        }
+
+        // Backups made before attachments existed have no attachment table
+        if (await this.hasBackupTable(client, `${backupPrefix}_task_attachments`)) {
+          await this.restoreTable(client, 'task_attachments', `${backupPrefix}_task_attachments`);
+        }
         
         // Commit transaction
         await client.query('COMMIT');
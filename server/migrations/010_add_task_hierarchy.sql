@@ -0,0 +1,11 @@
+-- Migration 010: Add parent/child hierarchy to tasks
+
+-- Subtasks reference their parent; deleting a parent deletes its whole subtree
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS parent_task_id INTEGER REFERENCES tasks(id) ON DELETE CASCADE;
+
+-- A task can never be its own parent
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_parent_not_self;
+ALTER TABLE tasks ADD CONSTRAINT tasks_parent_not_self CHECK (parent_task_id IS NULL OR parent_task_id <> id);
+
+-- Create index for looking up subtasks
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON tasks(parent_task_id);
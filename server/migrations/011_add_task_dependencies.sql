@@ -0,0 +1,16 @@
+-- Migration 011: Add task dependency functionality
+
+-- A task is blocked until every task it depends on is done
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  id SERIAL PRIMARY KEY,
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  depends_on_task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(task_id, depends_on_task_id),
+  CHECK (task_id <> depends_on_task_id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_task_id ON task_dependencies(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on_task_id ON task_dependencies(depends_on_task_id);
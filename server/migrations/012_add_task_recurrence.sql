@@ -0,0 +1,10 @@
+-- Migration 012: Add recurring tasks
+
+-- Recurrence rule as JSON, e.g. {"frequency": "weekly", "weekdays": [1, 3]}; NULL for one-off tasks
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence_rule JSONB;
+
+-- Each generated occurrence points back to the occurrence whose completion created it
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurring_from_task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL;
+
+-- Create index for following a recurring series
+CREATE INDEX IF NOT EXISTS idx_tasks_recurring_from_task_id ON tasks(recurring_from_task_id);
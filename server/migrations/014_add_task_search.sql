@@ -0,0 +1,15 @@
+-- Migration 014: Add full-text search on tasks and comments
+
+-- Title matches rank above description matches
+CREATE OR REPLACE FUNCTION task_search_document(title TEXT, description TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+         setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+$$;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_tasks_search_document ON tasks USING GIN (task_search_document(title, description));
+CREATE INDEX IF NOT EXISTS idx_task_comments_search_document ON task_comments USING GIN (to_tsvector('english', body));
@@ -0,0 +1,25 @@
+-- Migration 015: Allow multiple tags per task
+-- Replaces the single tasks.tag_id column with a task_tags join table
+
+CREATE TABLE IF NOT EXISTS task_tags (
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (task_id, tag_id)
+);
+
+-- Create index for better performance
+CREATE INDEX IF NOT EXISTS idx_task_tags_tag_id ON task_tags(tag_id);
+
+-- Carry over existing single tags
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tasks' AND column_name = 'tag_id') THEN
+    INSERT INTO task_tags (task_id, tag_id)
+    SELECT id, tag_id FROM tasks WHERE tag_id IS NOT NULL
+    ON CONFLICT DO NOTHING;
+  END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_tasks_tag_id;
+ALTER TABLE tasks DROP COLUMN IF EXISTS tag_id;
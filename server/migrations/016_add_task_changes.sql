@@ -0,0 +1,17 @@
+-- Migration 016: Add field-level audit trail for tasks
+
+-- One row per changed field; changed_by is NULL for automatic changes made by the system
+CREATE TABLE IF NOT EXISTS task_changes (
+  id SERIAL PRIMARY KEY,
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  field VARCHAR(50) NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  actor VARCHAR(10) NOT NULL DEFAULT 'user' CHECK (actor IN ('user', 'system')),
+  changed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_task_changes_task_id ON task_changes(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_changes_changed_at ON task_changes(changed_at);
@@ -0,0 +1,8 @@
+-- Migration 017: Add soft delete (trash bin) for tasks
+-- Trashed tasks keep their row until they are restored or purged
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS deleted_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON tasks(deleted_at);
@@ -0,0 +1,23 @@
+-- Migration 018: Add time tracking for tasks
+
+-- One row per block of work; ended_at is NULL while the timer is still running
+CREATE TABLE IF NOT EXISTS time_entries (
+  id SERIAL PRIMARY KEY,
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  source VARCHAR(10) NOT NULL DEFAULT 'manual' CHECK (source IN ('timer', 'manual')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+-- A user has at most one running timer per task
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_running ON time_entries(task_id, user_id) WHERE ended_at IS NULL;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_time_entries_task_id ON time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_user_id ON time_entries(user_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_started_at ON time_entries(started_at);
@@ -0,0 +1,5 @@
+-- Migration 019: Add effort estimates to tasks
+-- The unit (hours or story points) is chosen per workspace
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS estimate DOUBLE PRECISION CHECK (estimate >= 0);
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS estimate_unit VARCHAR(10) NOT NULL DEFAULT 'hours' CHECK (estimate_unit IN ('hours', 'points'));
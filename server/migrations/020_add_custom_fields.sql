@@ -0,0 +1,34 @@
+-- Migration 020: Add workspace-defined custom fields on tasks
+-- Each workspace defines its own fields; values are stored per task as JSON
+
+CREATE TABLE IF NOT EXISTS custom_fields (
+  id SERIAL PRIMARY KEY,
+  workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  name VARCHAR(40) NOT NULL,
+  field_type VARCHAR(20) NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'select', 'multi_select', 'url', 'checkbox')),
+  options JSONB NOT NULL DEFAULT '[]',
+  show_in_list BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (workspace_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS task_custom_field_values (
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  field_id INTEGER NOT NULL REFERENCES custom_fields(id) ON DELETE CASCADE,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (task_id, field_id)
+);
+
+-- Filter conditions on custom fields reference the field they test
+ALTER TABLE filter_conditions ADD COLUMN IF NOT EXISTS custom_field_id INTEGER REFERENCES custom_fields(id) ON DELETE CASCADE;
+ALTER TABLE filter_conditions DROP CONSTRAINT IF EXISTS filter_conditions_condition_type_check;
+ALTER TABLE filter_conditions ADD CONSTRAINT filter_conditions_condition_type_check
+  CHECK (condition_type IN ('list', 'date_diff', 'date_range', 'custom_field'));
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_custom_fields_workspace_id ON custom_fields(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_task_custom_field_values_field_id ON task_custom_field_values(field_id);
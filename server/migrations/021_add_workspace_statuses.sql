@@ -0,0 +1,40 @@
+-- Migration 021: Add configurable status workflows per workspace
+-- Tasks keep the status key; the workspace's workflow gives it a name, color, order and category
+
+CREATE TABLE IF NOT EXISTS workspace_statuses (
+  id SERIAL PRIMARY KEY,
+  workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  key VARCHAR(20) NOT NULL,
+  name VARCHAR(40) NOT NULL,
+  color VARCHAR(7) NOT NULL DEFAULT '#6b7280',
+  category VARCHAR(20) NOT NULL CHECK (category IN ('not_started', 'active', 'done')),
+  position INTEGER NOT NULL DEFAULT 0,
+  allowed_transitions JSONB, -- keys this status may move to; NULL allows every status
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (workspace_id, key)
+);
+
+-- Every existing workspace starts with the statuses that used to be built in
+INSERT INTO workspace_statuses (workspace_id, key, name, color, category, position)
+SELECT w.id, s.key, s.name, s.color, s.category, s.position
+FROM workspaces w
+CROSS JOIN (VALUES
+  ('todo', 'To Do', '#6b7280', 'not_started', 1),
+  ('in_progress', 'In Progress', '#2563eb', 'active', 2),
+  ('paused', 'Paused', '#d97706', 'active', 3),
+  ('done', 'Done', '#16a34a', 'done', 4)
+) AS s(key, name, color, category, position)
+ON CONFLICT (workspace_id, key) DO NOTHING;
+
+-- Valid statuses now come from the workflow instead of a fixed list
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_status_check;
+
+-- Preset filters ask about categories, so custom done and active statuses are covered too
+UPDATE filter_conditions SET field = 'status_category', values = '["done"]'
+WHERE condition_type = 'list' AND field = 'status' AND values = '["done"]'::jsonb;
+UPDATE filter_conditions SET field = 'status_category', values = '["active"]'
+WHERE condition_type = 'list' AND field = 'status' AND values = '["in_progress", "paused"]'::jsonb;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_workspace_statuses_workspace_id ON workspace_statuses(workspace_id);
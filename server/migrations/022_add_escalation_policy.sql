@@ -0,0 +1,31 @@
+-- Migration 022: Add per-workspace priority escalation policy and holiday calendar
+-- Escalation runs as a scheduled job instead of rewriting priorities when tasks are read
+
+-- Escalation policy of each workspace; the defaults match the old hard-wired rule
+-- (urgent once the due date is within one business day)
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS escalation_enabled BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS escalation_business_days INTEGER NOT NULL DEFAULT 1 CHECK (escalation_business_days BETWEEN 0 AND 30);
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS escalation_priority VARCHAR(10) NOT NULL DEFAULT 'urgent' CHECK (escalation_priority IN ('urgent', 'high', 'normal'));
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS deescalation_enabled BOOLEAN NOT NULL DEFAULT false;
+-- Time zone the workspace's calendar days are counted in
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+-- Non-working dates skipped by business-day math, on top of weekends
+CREATE TABLE IF NOT EXISTS workspace_holidays (
+  id SERIAL PRIMARY KEY,
+  workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  holiday_date DATE NOT NULL,
+  name VARCHAR(100) NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (workspace_id, holiday_date)
+);
+
+-- Priority a task had before the policy escalated it, so it can be restored when the due date moves out.
+-- Cleared whenever someone sets the priority by hand.
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS escalated_from VARCHAR(10);
+
+-- Why an automatic change was made (e.g. which rule escalated a priority)
+ALTER TABLE task_changes ADD COLUMN IF NOT EXISTS reason TEXT;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_workspace_holidays_workspace_id ON workspace_holidays(workspace_id);
@@ -0,0 +1,5 @@
+-- Migration 023: Add a time zone to each user
+-- Dates of day (start and completion dates, "today" in filters, escalation on edits) are
+-- evaluated in the time zone of the user making the request. NULL until the browser reports one.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
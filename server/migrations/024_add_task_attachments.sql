@@ -0,0 +1,16 @@
+-- Migration 024: Add file attachments on tasks
+-- The files live in the attachment storage backend; rows keep their key there
+
+CREATE TABLE IF NOT EXISTS task_attachments (
+  id SERIAL PRIMARY KEY,
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  file_name VARCHAR(255) NOT NULL,
+  content_type VARCHAR(255) NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  storage_key VARCHAR(255) NOT NULL UNIQUE,
+  uploaded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_task_attachments_task_id ON task_attachments(task_id);
@@ -0,0 +1,35 @@
+-- Migration 025: Add workspace task templates
+-- A template holds the fields a new task starts with; its title pattern and description may contain
+-- placeholders such as {date} and {week} that are filled in when a task is created from it
+
+CREATE TABLE IF NOT EXISTS task_templates (
+  id SERIAL PRIMARY KEY,
+  workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  title_pattern VARCHAR(255) NOT NULL,
+  description TEXT,
+  category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+  priority VARCHAR(20) NOT NULL DEFAULT 'normal' CHECK (priority IN ('urgent', 'high', 'normal', 'low')),
+  due_offset_days INTEGER CHECK (due_offset_days >= 0),
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (workspace_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS task_template_tags (
+  template_id INTEGER NOT NULL REFERENCES task_templates(id) ON DELETE CASCADE,
+  tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (template_id, tag_id)
+);
+
+CREATE TABLE IF NOT EXISTS task_template_assignees (
+  template_id INTEGER NOT NULL REFERENCES task_templates(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  PRIMARY KEY (template_id, user_id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_task_templates_workspace_id ON task_templates(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_task_template_tags_tag_id ON task_template_tags(tag_id);
+CREATE INDEX IF NOT EXISTS idx_task_template_assignees_user_id ON task_template_assignees(user_id);
@@ -0,0 +1,17 @@
+-- Migration 026: Add @mentions in task descriptions and comments
+-- The text keeps a @[Name](user:<id>) token for each mention; this table records who is mentioned
+-- where, by user id, so mentions survive renames and can be filtered on
+
+CREATE TABLE IF NOT EXISTS task_mentions (
+  id SERIAL PRIMARY KEY,
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  comment_id INTEGER REFERENCES task_comments(id) ON DELETE CASCADE, -- NULL for the task's description
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  mentioned_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for better performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_mentions_source_user ON task_mentions(task_id, COALESCE(comment_id, 0), user_id);
+CREATE INDEX IF NOT EXISTS idx_task_mentions_user_id ON task_mentions(user_id);
+CREATE INDEX IF NOT EXISTS idx_task_mentions_comment_id ON task_mentions(comment_id);
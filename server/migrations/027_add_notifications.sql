@@ -0,0 +1,21 @@
+-- Migration 027: Add in-app notifications
+-- A notification tells a user what someone else did to a task or workspace they are involved in.
+-- It keeps ids rather than names (the current names are looked up when listing) and the details of
+-- the change in data, e.g. the old and new status or the new access level
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(30) NOT NULL CHECK (type IN ('task_assigned', 'task_status', 'task_mentioned', 'workspace_access', 'workspace_ownership')),
+  actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE,
+  task_id INTEGER REFERENCES tasks(id) ON DELETE CASCADE,
+  data JSONB NOT NULL DEFAULT '{}',
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_task_id ON notifications(task_id);
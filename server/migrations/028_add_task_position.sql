@@ -0,0 +1,7 @@
+-- Migration 028: Add a manual order to tasks
+-- position places a task in its workspace's custom order (sort key position); tasks never placed sort last
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS position DOUBLE PRECISION;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_tasks_workspace_position ON tasks(workspace_id, position);
@@ -3,8 +3,10 @@ const bcrypt = require('bcrypt');
 const jwt = require('jsonwebtoken');
 const { Pool } = require('pg');
 const moment = require('moment-timezone');
-const { JWT_SECRET } = require('../middleware/auth');
+const { JWT_SECRET, authenticateToken } = require('../middleware/auth');
 const { createDefaultPresetFilters, createExampleTasks } = require('../services/workspaceInit');
+const { createDefaultStatuses } = require('../services/statuses');
+const { isValidTimezone } = require('../services/userTimezone');
 
 const router = express.Router();
 const pool = new Pool({
@@ -21,7 +23,7 @@ const isValidEmail = (email) => {
 // Register new user
 router.post('/register', async (req, res) => {
   try {
-    const { email, password, name } = req.body;
+    const { email, password, name, timezone } = req.body;
 
     // Validation
     if (!email || !password || !name) {
@@ -57,10 +59,10 @@ router.post('/register', async (req, res) => {
       const saltRounds = 10;
       const passwordHash = await bcrypt.hash(password, saltRounds);
 
-      // Create user
+      // Create user; the time zone is the one detected by the browser
       const userResult = await client.query(
-        'INSERT INTO users (email, password_hash, name) VALUES ($1, $2, $3) RETURNING id, email, name, created_at',
-        [email.toLowerCase(), passwordHash, name.trim()]
+        'INSERT INTO users (email, password_hash, name, timezone) VALUES ($1, $2, $3, $4) RETURNING id, email, name, timezone, created_at',
+        [email.toLowerCase(), passwordHash, name.trim(), isValidTimezone(timezone) ? timezone : null]
       );
 
       const user = userResult.rows[0];
@@ -104,6 +106,7 @@ router.post('/register', async (req, res) => {
             moment().utc().format('YYYY-MM-DD HH:mm:ss')
           ]
         );
+        await createDefaultStatuses(workspaceResult.rows[0].id, client);
 
         // Add owner permission for the default workspace with is_default = true
         await client.query(
@@ -168,7 +171,8 @@ router.post('/register', async (req, res) => {
         user: {
           id: user.id,
           email: user.email,
-          name: user.name
+          name: user.name,
+          timezone: user.timezone
         },
         message: 'User registered successfully'
       });
@@ -216,7 +220,7 @@ router.post('/login', async (req, res) => {
       // Find user by email
       console.log('🔍 Looking up user in database...');
       const userResult = await client.query(
-        'SELECT id, email, password_hash, name FROM users WHERE email = $1',
+        'SELECT id, email, password_hash, name, timezone FROM users WHERE email = $1',
         [email.toLowerCase()]
       );
 
@@ -278,7 +282,8 @@ router.post('/login', async (req, res) => {
         user: {
           id: user.id,
           email: user.email,
-          name: user.name
+          name: user.name,
+          timezone: user.timezone
         },
         message: 'Login successful'
       });
@@ -367,7 +372,7 @@ router.get('/me', async (req, res) => {
       }
 
       const userResult = await client.query(
-        'SELECT id, email, name, created_at FROM users WHERE id = $1',
+        'SELECT id, email, name, timezone, created_at FROM users WHERE id = $1',
         [decoded.userId]
       );
 
@@ -399,4 +404,27 @@ router.get('/me', async (req, res) => {
   }
 });
 
+// Update the current user's settings (currently the time zone dates of day are computed in)
+router.patch('/me', authenticateToken, async (req, res) => {
+  const { timezone } = req.body;
+
+  if (!isValidTimezone(timezone)) {
+    return res.status(400).json({ error: 'Unknown time zone' });
+  }
+
+  try {
+    const result = await pool.query(
+      'UPDATE users SET timezone = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING id, email, name, timezone, created_at',
+      [timezone, req.user.userId]
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json({ user: result.rows[0] });
+  } catch (error) {
+    console.error('Error updating user settings:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 module.exports = router; 
\ No newline at end of file
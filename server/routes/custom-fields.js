@@ -0,0 +1,278 @@
+const express = require('express');
+const router = express.Router();
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+const { authenticateToken } = require('../middleware/auth');
+const { publishTaskChanges } = require('../services/liveUpdates');
+const { clearFilterCache } = require('../services/filterCache');
+const { getRequestedVersion, isStaleVersion, getTaskConflicts } = require('../services/taskVersions');
+const {
+  OPTION_FIELD_TYPES,
+  TASK_CUSTOM_FIELD_COLUMN,
+  normalizeOptions,
+  validateFieldDefinition,
+  getWorkspaceCustomFields,
+  setTaskCustomFieldValues,
+  getCustomFieldConflicts,
+  pruneRemovedOptions
+} = require('../services/customFields');
+
+// Helper function to get the user's access level for a workspace (null without access)
+async function getWorkspaceAccessLevel(workspaceId, userId) {
+  const result = await pool.query(
+    'SELECT access_level FROM workspace_permissions WHERE workspace_id = $1 AND user_id = $2',
+    [workspaceId, userId]
+  );
+  return result.rows[0] ? result.rows[0].access_level : null;
+}
+
+// Helper function to load a custom field together with the user's access level for its workspace
+async function getFieldWithAccess(fieldId, userId) {
+  const result = await pool.query(`
+    SELECT f.*, wp.access_level
+    FROM custom_fields f
+    LEFT JOIN workspace_permissions wp ON wp.workspace_id = f.workspace_id AND wp.user_id = $2
+    WHERE f.id = $1
+  `, [fieldId, userId]);
+  return result.rows[0] || null;
+}
+
+// Helper function to load a task together with the user's access level for its workspace
+async function getTaskWithAccess(taskId, userId) {
+  const result = await pool.query(`
+    SELECT t.id, t.workspace_id, t.last_modified, wp.access_level
+    FROM tasks t
+    LEFT JOIN workspace_permissions wp ON wp.workspace_id = t.workspace_id AND wp.user_id = $2
+    WHERE t.id = $1 AND t.deleted_at IS NULL
+  `, [taskId, userId]);
+  return result.rows[0] || null;
+}
+
+// Get the custom fields of a workspace
+router.get('/custom-fields', authenticateToken, async (req, res) => {
+  const { workspace_id } = req.query;
+
+  if (!workspace_id) {
+    return res.status(400).json({ error: 'Workspace ID is required' });
+  }
+
+  try {
+    if (!await getWorkspaceAccessLevel(workspace_id, req.user.userId)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    res.json(await getWorkspaceCustomFields(workspace_id));
+  } catch (error) {
+    console.error('Error fetching custom fields:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create a custom field (workspace owners only)
+router.post('/custom-fields', authenticateToken, async (req, res) => {
+  const { workspace_id, name, field_type, options, show_in_list } = req.body;
+
+  if (!workspace_id) {
+    return res.status(400).json({ error: 'Workspace ID is required' });
+  }
+  const definitionError = validateFieldDefinition({ name, field_type, options });
+  if (definitionError) {
+    return res.status(400).json({ error: definitionError });
+  }
+
+  try {
+    if (await getWorkspaceAccessLevel(workspace_id, req.user.userId) !== 'owner') {
+      return res.status(403).json({ error: 'Only workspace owners can manage custom fields' });
+    }
+
+    const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+    const result = await pool.query(`
+      INSERT INTO custom_fields (workspace_id, name, field_type, options, show_in_list, position, created_by, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5,
+              (SELECT COALESCE(MAX(position), 0) + 1 FROM custom_fields WHERE workspace_id = $1),
+              $6, $7, $7)
+      RETURNING *
+    `, [
+      workspace_id,
+      name.trim(),
+      field_type,
+      JSON.stringify(OPTION_FIELD_TYPES.includes(field_type) ? normalizeOptions(options) : []),
+      !!show_in_list,
+      req.user.userId,
+      now
+    ]);
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A field with this name already exists' });
+    }
+    console.error('Error creating custom field:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update a custom field's name, options, list column or position (workspace owners only).
+// The type of a field cannot change; options that are removed are cleared from tasks.
+router.put('/custom-fields/:id', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  const { name, options, show_in_list, position } = req.body;
+
+  const definitionError = validateFieldDefinition({ name, options }, { partial: true });
+  if (definitionError) {
+    return res.status(400).json({ error: definitionError });
+  }
+  if (position !== undefined && !Number.isInteger(Number(position))) {
+    return res.status(400).json({ error: 'position must be an integer' });
+  }
+
+  try {
+    const field = await getFieldWithAccess(id, req.user.userId);
+    if (!field) {
+      return res.status(404).json({ error: 'Custom field not found' });
+    }
+    if (field.access_level !== 'owner') {
+      return res.status(403).json({ error: 'Only workspace owners can manage custom fields' });
+    }
+
+    const hasOptions = OPTION_FIELD_TYPES.includes(field.field_type);
+    const nextOptions = hasOptions && options !== undefined ? normalizeOptions(options) : null;
+    if (nextOptions && nextOptions.length === 0) {
+      return res.status(400).json({ error: 'Select fields need at least one option' });
+    }
+
+    const updateFields = [];
+    const updateParams = [];
+    let paramIndex = 1;
+
+    if (name !== undefined) {
+      updateFields.push(`name = $${paramIndex}`);
+      updateParams.push(name.trim());
+      paramIndex++;
+    }
+    if (nextOptions) {
+      updateFields.push(`options = $${paramIndex}`);
+      updateParams.push(JSON.stringify(nextOptions));
+      paramIndex++;
+    }
+    if (show_in_list !== undefined) {
+      updateFields.push(`show_in_list = $${paramIndex}`);
+      updateParams.push(!!show_in_list);
+      paramIndex++;
+    }
+    if (position !== undefined) {
+      updateFields.push(`position = $${paramIndex}`);
+      updateParams.push(Number(position));
+      paramIndex++;
+    }
+
+    updateFields.push(`updated_at = $${paramIndex}`);
+    updateParams.push(moment().utc().format('YYYY-MM-DD HH:mm:ss'));
+    paramIndex++;
+
+    updateParams.push(id);
+    const result = await pool.query(
+      `UPDATE custom_fields SET ${updateFields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      updateParams
+    );
+    const updatedField = result.rows[0];
+
+    if (nextOptions) {
+      await pruneRemovedOptions(updatedField);
+    }
+
+    res.json(updatedField);
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A field with this name already exists' });
+    }
+    console.error('Error updating custom field:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete a custom field and its values on every task (workspace owners only)
+router.delete('/custom-fields/:id', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const field = await getFieldWithAccess(id, req.user.userId);
+    if (!field) {
+      return res.status(404).json({ error: 'Custom field not found' });
+    }
+    if (field.access_level !== 'owner') {
+      return res.status(403).json({ error: 'Only workspace owners can manage custom fields' });
+    }
+
+    // Values and filter conditions go with the field (ON DELETE CASCADE)
+    await pool.query('DELETE FROM custom_fields WHERE id = $1', [id]);
+    // Cached filter queries may still hold the removed conditions
+    clearFilterCache();
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting custom field:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Set custom field values of a task; values maps field ids to values (null or '' clears a field).
+// Like other task edits, an edit made against an outdated version (version or If-Match) is rejected
+// with 409, the current task, the changes made since that version and the fields both sides changed.
+router.put('/tasks/:id/custom-fields', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  const { values } = req.body;
+
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    return res.status(400).json({ error: 'values must be an object keyed by field id' });
+  }
+
+  const client = await pool.connect();
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (task.access_level !== 'owner' && task.access_level !== 'edit') {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    const version = getRequestedVersion(req);
+    if (version && isStaleVersion(task, version)) {
+      const currentResult = await pool.query(`SELECT t.*,${TASK_CUSTOM_FIELD_COLUMN} FROM tasks t WHERE t.id = $1`, [id]);
+      const currentTask = currentResult.rows[0];
+      const { changes } = await getTaskConflicts(currentTask, version, {});
+      const conflicts = await getCustomFieldConflicts(currentTask, values, changes);
+      return res.status(409).json({ error: 'This task was changed by someone else since you opened it', task: currentTask, changes, conflicts });
+    }
+
+    await client.query('BEGIN');
+    const { error } = await setTaskCustomFieldValues(task, values, req.user.userId, client);
+    if (error) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error });
+    }
+    const updatedResult = await client.query(
+      'UPDATE tasks SET last_modified = $1 WHERE id = $2 RETURNING last_modified',
+      [moment().utc().format('YYYY-MM-DD HH:mm:ss'), id]
+    );
+    await client.query('COMMIT');
+    await publishTaskChanges([id]);
+
+    const result = await pool.query(
+      'SELECT field_id, value FROM task_custom_field_values WHERE task_id = $1',
+      [id]
+    );
+    res.json({
+      custom_fields: Object.fromEntries(result.rows.map(row => [row.field_id, row.value])),
+      last_modified: updatedResult.rows[0].last_modified
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error setting custom field values:', error);
+    res.status(500).json({ error: error.message });
+  } finally {
+    client.release();
+  }
+});
+
+module.exports = router;
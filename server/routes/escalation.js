@@ -0,0 +1,80 @@
+const express = require('express');
+const router = express.Router();
+const { pool } = require('../database-pg');
+const { authenticateToken } = require('../middleware/auth');
+const {
+  getEscalationPolicy,
+  validateEscalationPolicy,
+  saveEscalationPolicy,
+  applyEscalationPolicy
+} = require('../services/escalation');
+
+// Helper function to get the user's access level for a workspace (null without access)
+async function getWorkspaceAccessLevel(workspaceId, userId) {
+  const result = await pool.query(
+    'SELECT access_level FROM workspace_permissions WHERE workspace_id = $1 AND user_id = $2',
+    [workspaceId, userId]
+  );
+  return result.rows[0] ? result.rows[0].access_level : null;
+}
+
+// Get the priority escalation policy and holiday calendar of a workspace
+router.get('/workspaces/:id/escalation-policy', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    if (!await getWorkspaceAccessLevel(id, req.user.userId)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const policy = await getEscalationPolicy(id);
+    if (!policy) {
+      return res.status(404).json({ error: 'Workspace not found' });
+    }
+    res.json(policy);
+  } catch (error) {
+    console.error('Error fetching escalation policy:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Replace the escalation policy of a workspace (workspace owners only).
+// The new policy is applied to the workspace's tasks right away.
+router.put('/workspaces/:id/escalation-policy', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  const policy = {
+    enabled: req.body.enabled,
+    business_days: req.body.business_days,
+    priority: req.body.priority,
+    deescalate: req.body.deescalate,
+    timezone: req.body.timezone,
+    holidays: req.body.holidays || []
+  };
+
+  const policyError = validateEscalationPolicy(policy);
+  if (policyError) {
+    return res.status(400).json({ error: policyError });
+  }
+
+  const client = await pool.connect();
+  try {
+    if (await getWorkspaceAccessLevel(id, req.user.userId) !== 'owner') {
+      return res.status(403).json({ error: 'Only workspace owners can manage the escalation policy' });
+    }
+
+    await client.query('BEGIN');
+    await saveEscalationPolicy(id, policy, client);
+    await client.query('COMMIT');
+
+    const changedIds = await applyEscalationPolicy(id);
+    res.json({ ...await getEscalationPolicy(id), changed_task_ids: changedIds });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error updating escalation policy:', error);
+    res.status(500).json({ error: error.message });
+  } finally {
+    client.release();
+  }
+});
+
+module.exports = router;
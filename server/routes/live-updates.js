@@ -0,0 +1,34 @@
+const express = require('express');
+const router = express.Router();
+const { pool } = require('../database-pg');
+const { authenticateToken } = require('../middleware/auth');
+const { subscribe } = require('../services/liveUpdates');
+
+// Helper function to get the user's access level for a workspace (null without access)
+async function getWorkspaceAccessLevel(workspaceId, userId) {
+  const result = await pool.query(
+    'SELECT access_level FROM workspace_permissions WHERE workspace_id = $1 AND user_id = $2',
+    [workspaceId, userId]
+  );
+  return result.rows[0] ? result.rows[0].access_level : null;
+}
+
+// Stream the changes to a workspace as Server-Sent Events. Pass since (or the Last-Event-ID header
+// EventSource sends when it reconnects) to first receive the events after that event timestamp.
+router.get('/workspaces/:id/events', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  const since = Number(req.query.since || req.get('Last-Event-ID')) || null;
+
+  try {
+    if (!await getWorkspaceAccessLevel(id, req.user.userId)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    subscribe(req, res, id, since);
+  } catch (error) {
+    console.error('Error opening live updates:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,90 @@
+const express = require('express');
+const router = express.Router();
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+const { authenticateToken } = require('../middleware/auth');
+
+const DEFAULT_NOTIFICATION_LIMIT = 30;
+const MAX_NOTIFICATION_LIMIT = 100;
+
+// Notifications about tasks show while the task is out of the trash and the user can still see its
+// workspace. Expects the notification table to be aliased as n and its task as t.
+const VISIBLE_NOTIFICATION_CONDITION = `
+  (n.task_id IS NULL OR (
+    t.deleted_at IS NULL AND
+    EXISTS (SELECT 1 FROM workspace_permissions wp WHERE wp.workspace_id = t.workspace_id AND wp.user_id = n.user_id)
+  ))`;
+
+// Get the user's notifications, newest first, with the number of unread ones.
+// unread_only=true leaves out the ones already read.
+router.get('/notifications', authenticateToken, async (req, res) => {
+  const unreadOnly = req.query.unread_only === 'true';
+  const limit = req.query.limit === undefined ? DEFAULT_NOTIFICATION_LIMIT : Number(req.query.limit);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_NOTIFICATION_LIMIT) {
+    return res.status(400).json({ error: `limit must be a whole number from 1 to ${MAX_NOTIFICATION_LIMIT}` });
+  }
+
+  try {
+    const result = await pool.query(`
+      SELECT n.*, actor.name as actor_name, w.name as workspace_name, t.title as task_title
+      FROM notifications n
+      LEFT JOIN users actor ON n.actor_id = actor.id
+      LEFT JOIN workspaces w ON n.workspace_id = w.id
+      LEFT JOIN tasks t ON n.task_id = t.id
+      WHERE n.user_id = $1 AND ${VISIBLE_NOTIFICATION_CONDITION}
+        ${unreadOnly ? 'AND n.read_at IS NULL' : ''}
+      ORDER BY n.created_at DESC, n.id DESC
+      LIMIT $2
+    `, [req.user.userId, limit]);
+
+    const unreadResult = await pool.query(`
+      SELECT COUNT(*)::int as count
+      FROM notifications n
+      LEFT JOIN tasks t ON n.task_id = t.id
+      WHERE n.user_id = $1 AND n.read_at IS NULL AND ${VISIBLE_NOTIFICATION_CONDITION}
+    `, [req.user.userId]);
+
+    res.json({ notifications: result.rows, unread_count: unreadResult.rows[0].count });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Mark one of the user's notifications as read
+router.post('/notifications/:id/read', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const result = await pool.query(
+      'UPDATE notifications SET read_at = COALESCE(read_at, $1) WHERE id = $2 AND user_id = $3 RETURNING read_at',
+      [moment().utc().format('YYYY-MM-DD HH:mm:ss'), id, req.user.userId]
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    res.json({ success: true, read_at: result.rows[0].read_at });
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Mark all of the user's notifications as read
+router.post('/notifications/read-all', authenticateToken, async (req, res) => {
+  try {
+    const result = await pool.query(
+      'UPDATE notifications SET read_at = $1 WHERE user_id = $2 AND read_at IS NULL',
+      [moment().utc().format('YYYY-MM-DD HH:mm:ss'), req.user.userId]
+    );
+
+    res.json({ success: true, updated: result.rowCount });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
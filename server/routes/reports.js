@@ -0,0 +1,39 @@
+const express = require('express');
+const router = express.Router();
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+const { authenticateToken } = require('../middleware/auth');
+const { buildEstimateReport } = require('../services/estimates');
+
+// Estimates compared with actual durations of finished tasks, per category and assignee.
+// Optional from/to (YYYY-MM-DD) limit the report to tasks completed in that range.
+router.get('/reports/estimates', authenticateToken, async (req, res) => {
+  const { workspace_id, from, to } = req.query;
+
+  if (!workspace_id) {
+    return res.status(400).json({ error: 'Workspace ID is required' });
+  }
+  if ((from && !moment(from, 'YYYY-MM-DD', true).isValid()) || (to && !moment(to, 'YYYY-MM-DD', true).isValid())) {
+    return res.status(400).json({ error: 'from and to must be dates (YYYY-MM-DD)' });
+  }
+
+  try {
+    const workspaceResult = await pool.query(`
+      SELECT w.estimate_unit
+      FROM workspaces w
+      JOIN workspace_permissions wp ON wp.workspace_id = w.id AND wp.user_id = $2
+      WHERE w.id = $1
+    `, [workspace_id, req.user.userId]);
+    if (workspaceResult.rowCount === 0) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const report = await buildEstimateReport(workspace_id, { from, to });
+    res.json({ unit: workspaceResult.rows[0].estimate_unit, ...report });
+  } catch (error) {
+    console.error('Error building estimate report:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,23 @@
+const express = require('express');
+const router = express.Router();
+const { authenticateToken } = require('../middleware/auth');
+const { searchTasks } = require('../services/search');
+
+// Search tasks across all workspaces the user can access
+router.get('/search', authenticateToken, async (req, res) => {
+  const { q, workspace_id, limit } = req.query;
+
+  if (!q || !q.trim()) {
+    return res.status(400).json({ error: 'Search text is required' });
+  }
+
+  try {
+    const results = await searchTasks(req.user.userId, q.trim(), { workspaceId: workspace_id, limit });
+    res.json(results);
+  } catch (error) {
+    console.error('Error searching tasks:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,169 @@
+const express = require('express');
+const router = express.Router();
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+const { authenticateToken } = require('../middleware/auth');
+const { recordTaskChange } = require('../services/taskChanges');
+const { stopTimers, stopsTimers } = require('../services/timeTracking');
+const {
+  getWorkspaceStatuses,
+  buildStatusKey,
+  validateWorkflow
+} = require('../services/statuses');
+
+// Helper function to get the user's access level for a workspace (null without access)
+async function getWorkspaceAccessLevel(workspaceId, userId) {
+  const result = await pool.query(
+    'SELECT access_level FROM workspace_permissions WHERE workspace_id = $1 AND user_id = $2',
+    [workspaceId, userId]
+  );
+  return result.rows[0] ? result.rows[0].access_level : null;
+}
+
+// Get the status workflow of a workspace
+router.get('/statuses', authenticateToken, async (req, res) => {
+  const { workspace_id } = req.query;
+
+  if (!workspace_id) {
+    return res.status(400).json({ error: 'Workspace ID is required' });
+  }
+
+  try {
+    if (!await getWorkspaceAccessLevel(workspace_id, req.user.userId)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    res.json(await getWorkspaceStatuses(workspace_id));
+  } catch (error) {
+    console.error('Error fetching statuses:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Replace the status workflow of a workspace (workspace owners only).
+// statuses lists the whole workflow in order; statuses without a key are new and get one from
+// their name. Tasks in a removed status move to the status named for it in reassign.
+router.put('/statuses', authenticateToken, async (req, res) => {
+  const { workspace_id, statuses, reassign = {} } = req.body;
+
+  if (!workspace_id) {
+    return res.status(400).json({ error: 'Workspace ID is required' });
+  }
+  if (!Array.isArray(statuses)) {
+    return res.status(400).json({ error: 'statuses must be a non-empty list' });
+  }
+  if (!reassign || typeof reassign !== 'object' || Array.isArray(reassign)) {
+    return res.status(400).json({ error: 'reassign must be an object keyed by status key' });
+  }
+
+  const client = await pool.connect();
+  try {
+    if (await getWorkspaceAccessLevel(workspace_id, req.user.userId) !== 'owner') {
+      return res.status(403).json({ error: 'Only workspace owners can manage statuses' });
+    }
+
+    const currentStatuses = await getWorkspaceStatuses(workspace_id, client);
+    const takenKeys = [...currentStatuses.map(status => status.key), ...statuses.map(status => status.key).filter(Boolean)];
+    const workflow = statuses.map(status => {
+      let key = status.key;
+      if (!key) {
+        key = buildStatusKey(status.name || '', takenKeys);
+        takenKeys.push(key);
+      }
+      return {
+        key,
+        name: typeof status.name === 'string' ? status.name.trim() : status.name,
+        color: status.color,
+        category: status.category,
+        allowed_transitions: status.allowed_transitions === undefined ? null : status.allowed_transitions
+      };
+    });
+
+    const workflowError = validateWorkflow(workflow);
+    if (workflowError) {
+      return res.status(400).json({ error: workflowError });
+    }
+
+    const workflowKeys = workflow.map(status => status.key);
+    const removedStatuses = currentStatuses.filter(status => !workflowKeys.includes(status.key));
+    const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+
+    await client.query('BEGIN');
+
+    // Tasks in a removed status (trashed ones included) need a new home in the workflow
+    for (const removed of removedStatuses) {
+      const taskResult = await client.query(
+        'SELECT id FROM tasks WHERE workspace_id = $1 AND status = $2',
+        [workspace_id, removed.key]
+      );
+      if (taskResult.rows.length === 0) continue;
+
+      const target = reassign[removed.key];
+      if (!workflowKeys.includes(target)) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          error: `Choose a status for the ${taskResult.rows.length} task(s) in "${removed.name}"`,
+          status_key: removed.key
+        });
+      }
+
+      const taskIds = taskResult.rows.map(row => row.id);
+      await client.query(
+        'UPDATE tasks SET status = $1, last_modified = $2 WHERE id = ANY($3::int[])',
+        [target, now, taskIds]
+      );
+      for (const taskId of taskIds) {
+        await client.query(
+          'INSERT INTO task_history (task_id, status, notes, action_date) VALUES ($1, $2, $3, $4)',
+          [taskId, target, `Status "${removed.name}" was removed from the workflow`, now]
+        );
+        await recordTaskChange(taskId, 'status', removed.key, target, req.user.userId, client);
+      }
+      if (stopsTimers(workflow, target)) {
+        await stopTimers(taskIds, client);
+      }
+    }
+
+    if (removedStatuses.length > 0) {
+      await client.query(
+        'DELETE FROM workspace_statuses WHERE workspace_id = $1 AND key = ANY($2::text[])',
+        [workspace_id, removedStatuses.map(status => status.key)]
+      );
+    }
+
+    for (const [index, status] of workflow.entries()) {
+      await client.query(`
+        INSERT INTO workspace_statuses (workspace_id, key, name, color, category, position, allowed_transitions, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+        ON CONFLICT (workspace_id, key) DO UPDATE SET
+          name = EXCLUDED.name,
+          color = EXCLUDED.color,
+          category = EXCLUDED.category,
+          position = EXCLUDED.position,
+          allowed_transitions = EXCLUDED.allowed_transitions,
+          updated_at = EXCLUDED.updated_at
+      `, [
+        workspace_id,
+        status.key,
+        status.name,
+        status.color,
+        status.category,
+        index + 1,
+        status.allowed_transitions ? JSON.stringify(status.allowed_transitions) : null,
+        now
+      ]);
+    }
+
+    await client.query('COMMIT');
+
+    res.json(await getWorkspaceStatuses(workspace_id));
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error updating statuses:', error);
+    res.status(500).json({ error: error.message });
+  } finally {
+    client.release();
+  }
+});
+
+module.exports = router;
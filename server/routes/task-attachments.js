@@ -0,0 +1,186 @@
+const express = require('express');
+const router = express.Router();
+const { pool } = require('../database-pg');
+const { authenticateToken } = require('../middleware/auth');
+const { recordTaskChange } = require('../services/taskChanges');
+const { publishTaskChanges } = require('../services/liveUpdates');
+const {
+  MAX_ATTACHMENT_BYTES,
+  formatBytes,
+  sanitizeFileName,
+  validateAttachmentSize,
+  createAttachment,
+  readAttachment,
+  removeStoredFiles
+} = require('../services/attachments');
+
+// Helper function to load a task together with the user's access level for its workspace
+async function getTaskWithAccess(taskId, userId) {
+  const result = await pool.query(`
+    SELECT t.id, t.workspace_id, wp.access_level
+    FROM tasks t
+    LEFT JOIN workspace_permissions wp ON wp.workspace_id = t.workspace_id AND wp.user_id = $2
+    WHERE t.id = $1 AND t.deleted_at IS NULL
+  `, [taskId, userId]);
+  return result.rows[0] || null;
+}
+
+// Helper function to load a single attachment with the name of who uploaded it
+async function getAttachment(attachmentId) {
+  const result = await pool.query(`
+    SELECT ta.*, u.name as uploader_name
+    FROM task_attachments ta
+    LEFT JOIN users u ON ta.uploaded_by = u.id
+    WHERE ta.id = $1
+  `, [attachmentId]);
+  return result.rows[0] || null;
+}
+
+// Leave the storage key out of responses
+function toAttachmentResponse({ storage_key, ...attachment }) {
+  return attachment;
+}
+
+// The request body is the file itself, whatever its type; a body over the size limit is answered with 413
+const readFileBody = express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES });
+function receiveFile(req, res, next) {
+  readFileBody(req, res, (error) => {
+    if (error && error.type === 'entity.too.large') {
+      return res.status(413).json({ error: `Files can be at most ${formatBytes(MAX_ATTACHMENT_BYTES)}` });
+    }
+    next(error);
+  });
+}
+
+// Get the files attached to a task, newest first
+router.get('/tasks/:id/attachments', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!task.access_level) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const result = await pool.query(`
+      SELECT ta.*, u.name as uploader_name
+      FROM task_attachments ta
+      LEFT JOIN users u ON ta.uploaded_by = u.id
+      WHERE ta.task_id = $1
+      ORDER BY ta.created_at DESC, ta.id DESC
+    `, [id]);
+
+    res.json(result.rows.map(toAttachmentResponse));
+  } catch (error) {
+    console.error('Error fetching task attachments:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Attach a file. The body is the raw file; its name comes in the X-File-Name header and its type
+// in X-File-Type (both URI-encoded), so files of any type can be sent as application/octet-stream.
+router.post('/tasks/:id/attachments', authenticateToken, receiveFile, async (req, res) => {
+  const { id } = req.params;
+  const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+  let fileName;
+  let contentType;
+  try {
+    fileName = sanitizeFileName(decodeURIComponent(req.get('X-File-Name') || ''));
+    contentType = decodeURIComponent(req.get('X-File-Type') || '') || req.get('Content-Type');
+  } catch (error) {
+    return res.status(400).json({ error: 'X-File-Name and X-File-Type must be URI-encoded' });
+  }
+
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!['edit', 'owner'].includes(task.access_level)) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    const sizeError = await validateAttachmentSize(task.id, data.length);
+    if (sizeError) {
+      return res.status(data.length === 0 ? 400 : 413).json({ error: sizeError });
+    }
+
+    const attachment = await createAttachment(task.id, { fileName, contentType, data }, req.user.userId);
+    await recordTaskChange(task.id, 'attachment', null, attachment.file_name, req.user.userId);
+    await publishTaskChanges([task.id]);
+
+    res.json(toAttachmentResponse(await getAttachment(attachment.id)));
+  } catch (error) {
+    console.error('Error adding task attachment:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Download an attachment
+router.get('/tasks/:id/attachments/:attachmentId/download', authenticateToken, async (req, res) => {
+  const { id, attachmentId } = req.params;
+
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!task.access_level) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const attachment = await getAttachment(attachmentId);
+    if (!attachment || attachment.task_id !== task.id) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+    const data = await readAttachment(attachment);
+    if (!data) {
+      return res.status(404).json({ error: 'The attached file is missing from storage' });
+    }
+
+    // Always sent as a download, so uploaded HTML or SVG never runs on this origin
+    res.setHeader('Content-Type', attachment.content_type);
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.send(data);
+  } catch (error) {
+    console.error('Error downloading task attachment:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete an attachment and its file
+router.delete('/tasks/:id/attachments/:attachmentId', authenticateToken, async (req, res) => {
+  const { id, attachmentId } = req.params;
+
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!['edit', 'owner'].includes(task.access_level)) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    const attachment = await getAttachment(attachmentId);
+    if (!attachment || attachment.task_id !== task.id) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    await pool.query('DELETE FROM task_attachments WHERE id = $1', [attachment.id]);
+    await removeStoredFiles([attachment.storage_key]);
+    await recordTaskChange(task.id, 'attachment', attachment.file_name, null, req.user.userId);
+    await publishTaskChanges([task.id]);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting task attachment:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,40 @@
+const express = require('express');
+const router = express.Router();
+const { pool } = require('../database-pg');
+const { authenticateToken } = require('../middleware/auth');
+
+// Get the audit trail of a task, newest first
+router.get('/tasks/:id/changes', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const taskResult = await pool.query(`
+      SELECT t.id, wp.access_level
+      FROM tasks t
+      LEFT JOIN workspace_permissions wp ON wp.workspace_id = t.workspace_id AND wp.user_id = $2
+      WHERE t.id = $1 AND t.deleted_at IS NULL
+    `, [id, req.user.userId]);
+    const task = taskResult.rows[0];
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!task.access_level) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const result = await pool.query(`
+      SELECT tc.*, u.name as actor_name
+      FROM task_changes tc
+      LEFT JOIN users u ON tc.changed_by = u.id
+      WHERE tc.task_id = $1
+      ORDER BY tc.changed_at DESC, tc.id DESC
+    `, [id]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Error fetching task changes:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,179 @@
+const express = require('express');
+const router = express.Router();
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+const { authenticateToken } = require('../middleware/auth');
+const { syncMentions, notifyMentions } = require('../services/mentions');
+
+// Helper function to load a task together with the user's access level for its workspace
+async function getTaskWithAccess(taskId, userId) {
+  const result = await pool.query(`
+    SELECT t.id, t.workspace_id, wp.access_level
+    FROM tasks t
+    LEFT JOIN workspace_permissions wp ON wp.workspace_id = t.workspace_id AND wp.user_id = $2
+    WHERE t.id = $1 AND t.deleted_at IS NULL
+  `, [taskId, userId]);
+  return result.rows[0] || null;
+}
+
+// Helper function to load a single comment with its author
+async function getComment(commentId) {
+  const result = await pool.query(`
+    SELECT tc.*, u.name as author_name, u.email as author_email
+    FROM task_comments tc
+    LEFT JOIN users u ON tc.user_id = u.id
+    WHERE tc.id = $1
+  `, [commentId]);
+  return result.rows[0] || null;
+}
+
+// Get all comments of a task, oldest first; replies reference their parent through parent_comment_id
+router.get('/tasks/:id/comments', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!task.access_level) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const result = await pool.query(`
+      SELECT tc.*, u.name as author_name, u.email as author_email
+      FROM task_comments tc
+      LEFT JOIN users u ON tc.user_id = u.id
+      WHERE tc.task_id = $1
+      ORDER BY tc.created_at ASC, tc.id ASC
+    `, [id]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Error fetching task comments:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Add a comment, or a reply when parent_comment_id is given
+router.post('/tasks/:id/comments', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  const { body, parent_comment_id } = req.body;
+
+  if (!body || !body.trim()) {
+    return res.status(400).json({ error: 'Comment text is required' });
+  }
+  if (parent_comment_id && !Number.isInteger(Number(parent_comment_id))) {
+    return res.status(400).json({ error: 'parent_comment_id must be an integer' });
+  }
+
+  try {
+    // Anyone who can see the task can take part in its discussion
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!task.access_level) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (parent_comment_id) {
+      const parentComment = await getComment(parent_comment_id);
+      if (!parentComment || parentComment.task_id !== task.id) {
+        return res.status(404).json({ error: 'Comment to reply to not found' });
+      }
+    }
+
+    const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+    const result = await pool.query(`
+      INSERT INTO task_comments (task_id, parent_comment_id, user_id, body, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $5)
+      RETURNING id
+    `, [task.id, parent_comment_id || null, req.user.userId, body.trim(), now]);
+    const commentId = result.rows[0].id;
+
+    // Mentioned people are notified in the background
+    const mentionedUserIds = await syncMentions(task.id, commentId, body, req.user.userId);
+    notifyMentions(task.id, mentionedUserIds, req.user.userId, { commentId });
+
+    res.json(await getComment(commentId));
+  } catch (error) {
+    console.error('Error adding task comment:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Edit a comment (author only, while they can still see the task and it is not in the trash)
+router.put('/tasks/:id/comments/:commentId', authenticateToken, async (req, res) => {
+  const { id, commentId } = req.params;
+  const { body } = req.body;
+
+  if (!body || !body.trim()) {
+    return res.status(400).json({ error: 'Comment text is required' });
+  }
+
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!task.access_level) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const comment = await getComment(commentId);
+    if (!comment || comment.task_id !== task.id) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+    if (comment.user_id !== req.user.userId) {
+      return res.status(403).json({ error: 'Only the author can edit this comment' });
+    }
+
+    const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+    await pool.query(
+      'UPDATE task_comments SET body = $1, updated_at = $2 WHERE id = $3',
+      [body.trim(), now, commentId]
+    );
+
+    // Only people the edit newly mentions are notified
+    const mentionedUserIds = await syncMentions(comment.task_id, comment.id, body, req.user.userId);
+    notifyMentions(comment.task_id, mentionedUserIds, req.user.userId, { commentId: comment.id });
+
+    res.json(await getComment(commentId));
+  } catch (error) {
+    console.error('Error updating task comment:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete a comment and its replies (author only, while they can still see the task and it is not in the trash)
+router.delete('/tasks/:id/comments/:commentId', authenticateToken, async (req, res) => {
+  const { id, commentId } = req.params;
+
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!task.access_level) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const comment = await getComment(commentId);
+    if (!comment || comment.task_id !== task.id) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+    if (comment.user_id !== req.user.userId) {
+      return res.status(403).json({ error: 'Only the author can delete this comment' });
+    }
+
+    await pool.query('DELETE FROM task_comments WHERE id = $1', [commentId]);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting task comment:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
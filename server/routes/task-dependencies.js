@@ -0,0 +1,174 @@
+const express = require('express');
+const router = express.Router();
+const { pool } = require('../database-pg');
+const { authenticateToken } = require('../middleware/auth');
+const { publishTaskChanges } = require('../services/liveUpdates');
+
+// Helper function to load a task together with the user's access level for its workspace.
+// Tasks in the trash are left out, so dependencies never point to or from them.
+async function getTaskWithAccess(taskId, userId) {
+  const result = await pool.query(`
+    SELECT t.id, t.workspace_id, t.title, t.status, wp.access_level
+    FROM tasks t
+    LEFT JOIN workspace_permissions wp ON wp.workspace_id = t.workspace_id AND wp.user_id = $2
+    WHERE t.id = $1 AND t.deleted_at IS NULL
+  `, [taskId, userId]);
+  return result.rows[0] || null;
+}
+
+// Helper function to check whether dependsOnTaskId already (transitively) depends on taskId,
+// in which case adding taskId -> dependsOnTaskId would close a cycle
+async function wouldCreateCycle(taskId, dependsOnTaskId, db = pool) {
+  const result = await db.query(`
+    WITH RECURSIVE upstream AS (
+      SELECT depends_on_task_id FROM task_dependencies WHERE task_id = $1
+      UNION
+      SELECT td.depends_on_task_id FROM task_dependencies td
+      INNER JOIN upstream u ON td.task_id = u.depends_on_task_id
+    )
+    SELECT 1 FROM upstream WHERE depends_on_task_id = $2 LIMIT 1
+  `, [dependsOnTaskId, taskId]);
+  return result.rows.length > 0;
+}
+
+// Get the tasks a task depends on and the tasks that depend on it
+router.get('/tasks/:id/dependencies', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!task.access_level) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const dependsOnResult = await pool.query(`
+      SELECT t.id, t.title, t.status, td.created_at
+      FROM task_dependencies td
+      JOIN tasks t ON t.id = td.depends_on_task_id
+      WHERE td.task_id = $1 AND t.deleted_at IS NULL
+      ORDER BY t.title ASC
+    `, [id]);
+
+    const dependentsResult = await pool.query(`
+      SELECT t.id, t.title, t.status, td.created_at
+      FROM task_dependencies td
+      JOIN tasks t ON t.id = td.task_id
+      WHERE td.depends_on_task_id = $1 AND t.deleted_at IS NULL
+      ORDER BY t.title ASC
+    `, [id]);
+
+    res.json({
+      depends_on: dependsOnResult.rows,
+      dependents: dependentsResult.rows
+    });
+  } catch (error) {
+    console.error('Error fetching task dependencies:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Make a task depend on another task
+router.post('/tasks/:id/dependencies', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  const { depends_on_task_id } = req.body;
+
+  if (!depends_on_task_id) {
+    return res.status(400).json({ error: 'depends_on_task_id is required' });
+  }
+  if (!Number.isInteger(Number(depends_on_task_id))) {
+    return res.status(400).json({ error: 'depends_on_task_id must be an integer' });
+  }
+  if (Number(depends_on_task_id) === Number(id)) {
+    return res.status(400).json({ error: 'A task cannot depend on itself' });
+  }
+
+  const client = await pool.connect();
+  let inTransaction = false;
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!['edit', 'owner'].includes(task.access_level)) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    const dependsOnTask = await getTaskWithAccess(depends_on_task_id, req.user.userId);
+    if (!dependsOnTask) {
+      return res.status(404).json({ error: 'Dependency task not found' });
+    }
+    if (dependsOnTask.workspace_id !== task.workspace_id) {
+      return res.status(400).json({ error: 'Dependencies must be in the same workspace' });
+    }
+
+    // Dependencies of a workspace are added one at a time, so two opposite ones cannot both pass the cycle check
+    await client.query('BEGIN');
+    inTransaction = true;
+    await client.query("SELECT pg_advisory_xact_lock(hashtext('task_dependencies'), $1)", [task.workspace_id]);
+
+    if (await wouldCreateCycle(task.id, dependsOnTask.id, client)) {
+      await client.query('ROLLBACK');
+      inTransaction = false;
+      return res.status(400).json({ error: `"${dependsOnTask.title}" already depends on this task` });
+    }
+
+    await client.query(`
+      INSERT INTO task_dependencies (task_id, depends_on_task_id, created_by)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (task_id, depends_on_task_id) DO NOTHING
+    `, [task.id, dependsOnTask.id, req.user.userId]);
+    await client.query('COMMIT');
+    inTransaction = false;
+
+    // Other clients show the task as blocked
+    await publishTaskChanges([task.id]);
+
+    res.json({
+      id: dependsOnTask.id,
+      title: dependsOnTask.title,
+      status: dependsOnTask.status
+    });
+  } catch (error) {
+    console.error('Error adding task dependency:', error);
+    if (inTransaction) {
+      await client.query('ROLLBACK');
+    }
+    res.status(500).json({ error: error.message });
+  } finally {
+    client.release();
+  }
+});
+
+// Remove a dependency from a task
+router.delete('/tasks/:id/dependencies/:dependsOnTaskId', authenticateToken, async (req, res) => {
+  const { id, dependsOnTaskId } = req.params;
+
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!['edit', 'owner'].includes(task.access_level)) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    const result = await pool.query(
+      'DELETE FROM task_dependencies WHERE task_id = $1 AND depends_on_task_id = $2',
+      [id, dependsOnTaskId]
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Dependency not found' });
+    }
+    await publishTaskChanges([task.id]);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error removing task dependency:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
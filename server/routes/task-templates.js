@@ -0,0 +1,212 @@
+const express = require('express');
+const router = express.Router();
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+const { authenticateToken } = require('../middleware/auth');
+const {
+  validateTemplate,
+  getWorkspaceTemplates,
+  getTemplate,
+  setTemplateTags,
+  setTemplateAssignees
+} = require('../services/taskTemplates');
+
+// Helper function to get the user's access level for a workspace (null without access)
+async function getWorkspaceAccessLevel(workspaceId, userId) {
+  const result = await pool.query(
+    'SELECT access_level FROM workspace_permissions WHERE workspace_id = $1 AND user_id = $2',
+    [workspaceId, userId]
+  );
+  return result.rows[0] ? result.rows[0].access_level : null;
+}
+
+// Helper function to check that a category belongs to the workspace
+async function isWorkspaceCategory(categoryId, workspaceId) {
+  const result = await pool.query('SELECT 1 FROM categories WHERE id = $1 AND workspace_id = $2', [categoryId, workspaceId]);
+  return result.rowCount > 0;
+}
+
+// Get the task templates of a workspace
+router.get('/task-templates', authenticateToken, async (req, res) => {
+  const { workspace_id } = req.query;
+
+  if (!workspace_id) {
+    return res.status(400).json({ error: 'Workspace ID is required' });
+  }
+
+  try {
+    if (!await getWorkspaceAccessLevel(workspace_id, req.user.userId)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    res.json(await getWorkspaceTemplates(workspace_id));
+  } catch (error) {
+    console.error('Error fetching task templates:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create a task template (edit access)
+router.post('/task-templates', authenticateToken, async (req, res) => {
+  const { workspace_id, name, title_pattern, description, category_id, tag_ids = [], priority = 'normal', due_offset_days, assignee_ids = [] } = req.body;
+
+  if (!workspace_id) {
+    return res.status(400).json({ error: 'Workspace ID is required' });
+  }
+  const templateError = validateTemplate({ name, title_pattern, priority, due_offset_days, tag_ids, assignee_ids });
+  if (templateError) {
+    return res.status(400).json({ error: templateError });
+  }
+
+  const client = await pool.connect();
+  try {
+    if (!['edit', 'owner'].includes(await getWorkspaceAccessLevel(workspace_id, req.user.userId))) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+    if (category_id && !await isWorkspaceCategory(category_id, workspace_id)) {
+      return res.status(400).json({ error: 'Category not found in this workspace' });
+    }
+
+    const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+    await client.query('BEGIN');
+    const result = await client.query(`
+      INSERT INTO task_templates (workspace_id, name, title_pattern, description, category_id, priority, due_offset_days, created_by, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $9)
+      RETURNING id
+    `, [
+      workspace_id,
+      name.trim(),
+      title_pattern.trim(),
+      description || null,
+      category_id || null,
+      priority,
+      due_offset_days === undefined || due_offset_days === null ? null : Number(due_offset_days),
+      req.user.userId,
+      now
+    ]);
+    const templateId = result.rows[0].id;
+    await setTemplateTags(templateId, tag_ids, client);
+    await setTemplateAssignees(templateId, assignee_ids, client);
+    await client.query('COMMIT');
+
+    res.status(201).json(await getTemplate(templateId));
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A template with this name already exists' });
+    }
+    console.error('Error creating task template:', error);
+    res.status(500).json({ error: error.message });
+  } finally {
+    client.release();
+  }
+});
+
+// Update a task template (edit access); tag_ids and assignee_ids replace the current lists
+router.put('/task-templates/:id', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  const { name, title_pattern, description, category_id, tag_ids, priority, due_offset_days, assignee_ids } = req.body;
+
+  const templateError = validateTemplate({ name, title_pattern, priority, due_offset_days, tag_ids, assignee_ids }, { partial: true });
+  if (templateError) {
+    return res.status(400).json({ error: templateError });
+  }
+
+  const client = await pool.connect();
+  try {
+    const template = await getTemplate(id);
+    if (!template) {
+      return res.status(404).json({ error: 'Task template not found' });
+    }
+    if (!['edit', 'owner'].includes(await getWorkspaceAccessLevel(template.workspace_id, req.user.userId))) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+    if (category_id && !await isWorkspaceCategory(category_id, template.workspace_id)) {
+      return res.status(400).json({ error: 'Category not found in this workspace' });
+    }
+
+    const updateFields = [];
+    const updateParams = [];
+    let paramIndex = 1;
+
+    if (name !== undefined) {
+      updateFields.push(`name = $${paramIndex}`);
+      updateParams.push(name.trim());
+      paramIndex++;
+    }
+    if (title_pattern !== undefined) {
+      updateFields.push(`title_pattern = $${paramIndex}`);
+      updateParams.push(title_pattern.trim());
+      paramIndex++;
+    }
+    if (description !== undefined) {
+      updateFields.push(`description = $${paramIndex}`);
+      updateParams.push(description || null);
+      paramIndex++;
+    }
+    if (category_id !== undefined) {
+      updateFields.push(`category_id = $${paramIndex}`);
+      updateParams.push(category_id || null);
+      paramIndex++;
+    }
+    if (priority !== undefined) {
+      updateFields.push(`priority = $${paramIndex}`);
+      updateParams.push(priority);
+      paramIndex++;
+    }
+    if (due_offset_days !== undefined) {
+      updateFields.push(`due_offset_days = $${paramIndex}`);
+      updateParams.push(due_offset_days === null ? null : Number(due_offset_days));
+      paramIndex++;
+    }
+
+    updateFields.push(`updated_at = $${paramIndex}`);
+    updateParams.push(moment().utc().format('YYYY-MM-DD HH:mm:ss'));
+    paramIndex++;
+
+    updateParams.push(id);
+    await client.query('BEGIN');
+    await client.query(`UPDATE task_templates SET ${updateFields.join(', ')} WHERE id = $${paramIndex}`, updateParams);
+    if (tag_ids !== undefined) {
+      await setTemplateTags(id, tag_ids, client);
+    }
+    if (assignee_ids !== undefined) {
+      await setTemplateAssignees(id, assignee_ids, client);
+    }
+    await client.query('COMMIT');
+
+    res.json(await getTemplate(id));
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A template with this name already exists' });
+    }
+    console.error('Error updating task template:', error);
+    res.status(500).json({ error: error.message });
+  } finally {
+    client.release();
+  }
+});
+
+// Delete a task template (edit access); tasks created from it are not affected
+router.delete('/task-templates/:id', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const template = await getTemplate(id);
+    if (!template) {
+      return res.status(404).json({ error: 'Task template not found' });
+    }
+    if (!['edit', 'owner'].includes(await getWorkspaceAccessLevel(template.workspace_id, req.user.userId))) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    await pool.query('DELETE FROM task_templates WHERE id = $1', [id]);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting task template:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,263 @@
+const express = require('express');
+const router = express.Router();
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+const { authenticateToken } = require('../middleware/auth');
+const { DURATION_SECONDS_SQL } = require('../services/timeTracking');
+const { isValidTimezone, getUserTimezone } = require('../services/userTimezone');
+
+// Helper function to load a task together with the user's access level for its workspace
+async function getTaskWithAccess(taskId, userId) {
+  const result = await pool.query(`
+    SELECT t.id, t.workspace_id, wp.access_level
+    FROM tasks t
+    LEFT JOIN workspace_permissions wp ON wp.workspace_id = t.workspace_id AND wp.user_id = $2
+    WHERE t.id = $1 AND t.deleted_at IS NULL
+  `, [taskId, userId]);
+  return result.rows[0] || null;
+}
+
+// Helper function to load a single time entry with its user and duration
+async function getTimeEntry(entryId) {
+  const result = await pool.query(`
+    SELECT te.*, u.name as user_name, ${DURATION_SECONDS_SQL('te')} as duration_seconds
+    FROM time_entries te
+    LEFT JOIN users u ON te.user_id = u.id
+    WHERE te.id = $1
+  `, [entryId]);
+  return result.rows[0] || null;
+}
+
+// Helper function to parse an ISO 8601 timestamp from the request; returns null when it is not a valid date
+function parseTimestamp(value) {
+  if (!value) return null;
+  const parsed = moment.utc(value, moment.ISO_8601, true);
+  return parsed.isValid() ? parsed : null;
+}
+
+// Helper function to check that the user can see a workspace
+async function hasWorkspaceAccess(workspaceId, userId) {
+  const result = await pool.query(
+    'SELECT 1 FROM workspace_permissions WHERE workspace_id = $1 AND user_id = $2',
+    [workspaceId, userId]
+  );
+  return result.rowCount > 0;
+}
+
+// Get all time entries of a task, newest first, with the total time spent
+router.get('/tasks/:id/time-entries', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!task.access_level) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const result = await pool.query(`
+      SELECT te.*, u.name as user_name, ${DURATION_SECONDS_SQL('te')} as duration_seconds
+      FROM time_entries te
+      LEFT JOIN users u ON te.user_id = u.id
+      WHERE te.task_id = $1
+      ORDER BY te.started_at DESC, te.id DESC
+    `, [id]);
+
+    res.json({
+      entries: result.rows,
+      total_seconds: result.rows.reduce((sum, entry) => sum + entry.duration_seconds, 0)
+    });
+  } catch (error) {
+    console.error('Error fetching time entries:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Log time on a task by hand
+router.post('/tasks/:id/time-entries', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  const { started_at, ended_at, notes } = req.body;
+
+  const startedAt = parseTimestamp(started_at);
+  const endedAt = parseTimestamp(ended_at);
+  if (!startedAt || !endedAt) {
+    return res.status(400).json({ error: 'Valid start and end times are required' });
+  }
+  if (endedAt.isBefore(startedAt)) {
+    return res.status(400).json({ error: 'End time must be after start time' });
+  }
+
+  try {
+    const task = await getTaskWithAccess(id, req.user.userId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (task.access_level !== 'owner' && task.access_level !== 'edit') {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    const result = await pool.query(`
+      INSERT INTO time_entries (task_id, user_id, started_at, ended_at, notes, source)
+      VALUES ($1, $2, $3, $4, $5, 'manual')
+      RETURNING id
+    `, [id, req.user.userId, startedAt.toISOString(), endedAt.toISOString(), notes && notes.trim() ? notes.trim() : null]);
+
+    res.status(201).json(await getTimeEntry(result.rows[0].id));
+  } catch (error) {
+    console.error('Error creating time entry:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Edit a time entry (own entries only); setting ended_at stops a running timer
+router.put('/time-entries/:entryId', authenticateToken, async (req, res) => {
+  const { entryId } = req.params;
+  const { started_at, ended_at, notes } = req.body;
+
+  try {
+    const entry = await getTimeEntry(entryId);
+    if (!entry) {
+      return res.status(404).json({ error: 'Time entry not found' });
+    }
+    if (entry.user_id !== req.user.userId) {
+      return res.status(403).json({ error: 'You can only edit your own time entries' });
+    }
+
+    const startedAt = started_at !== undefined ? parseTimestamp(started_at) : moment.utc(entry.started_at);
+    const endedAt = ended_at !== undefined ? parseTimestamp(ended_at) : entry.ended_at && moment.utc(entry.ended_at);
+    if (!startedAt || (ended_at !== undefined && !endedAt)) {
+      return res.status(400).json({ error: 'Invalid start or end time' });
+    }
+    if (endedAt && endedAt.isBefore(startedAt)) {
+      return res.status(400).json({ error: 'End time must be after start time' });
+    }
+
+    await pool.query(`
+      UPDATE time_entries SET started_at = $1, ended_at = $2, notes = $3, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $4
+    `, [startedAt.toISOString(), endedAt ? endedAt.toISOString() : null, notes !== undefined ? (notes && notes.trim() ? notes.trim() : null) : entry.notes, entryId]);
+
+    res.json(await getTimeEntry(entryId));
+  } catch (error) {
+    console.error('Error updating time entry:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete a time entry (own entries only)
+router.delete('/time-entries/:entryId', authenticateToken, async (req, res) => {
+  const { entryId } = req.params;
+
+  try {
+    const entry = await getTimeEntry(entryId);
+    if (!entry) {
+      return res.status(404).json({ error: 'Time entry not found' });
+    }
+    if (entry.user_id !== req.user.userId) {
+      return res.status(403).json({ error: 'You can only delete your own time entries' });
+    }
+
+    await pool.query('DELETE FROM time_entries WHERE id = $1', [entryId]);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting time entry:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Total time in a workspace per task, user or category, optionally limited to entries started in [from, to)
+router.get('/time-entries/totals', authenticateToken, async (req, res) => {
+  const { workspace_id, group_by = 'task', from, to } = req.query;
+
+  const groupings = {
+    task: { id: 't.id', name: 't.title' },
+    user: { id: 'u.id', name: 'u.name' },
+    category: { id: 'c.id', name: 'c.name' }
+  };
+  const grouping = groupings[group_by];
+  if (!workspace_id) {
+    return res.status(400).json({ error: 'Workspace ID is required' });
+  }
+  if (!grouping) {
+    return res.status(400).json({ error: 'group_by must be task, user or category' });
+  }
+  if ((from && !parseTimestamp(from)) || (to && !parseTimestamp(to))) {
+    return res.status(400).json({ error: 'from and to must be ISO 8601 timestamps' });
+  }
+
+  try {
+    if (!(await hasWorkspaceAccess(workspace_id, req.user.userId))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const params = [workspace_id];
+    let rangeCondition = '';
+    if (from) {
+      params.push(parseTimestamp(from).toISOString());
+      rangeCondition += ` AND te.started_at >= $${params.length}`;
+    }
+    if (to) {
+      params.push(parseTimestamp(to).toISOString());
+      rangeCondition += ` AND te.started_at < $${params.length}`;
+    }
+
+    const result = await pool.query(`
+      SELECT ${grouping.id} as id, ${grouping.name} as name, SUM(${DURATION_SECONDS_SQL('te')})::int as total_seconds
+      FROM time_entries te
+      JOIN tasks t ON te.task_id = t.id
+      LEFT JOIN users u ON te.user_id = u.id
+      LEFT JOIN categories c ON t.category_id = c.id
+      WHERE t.workspace_id = $1 AND t.deleted_at IS NULL${rangeCondition}
+      GROUP BY ${grouping.id}, ${grouping.name}
+      ORDER BY total_seconds DESC
+    `, params);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Error fetching time totals:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// The current user's time per day and task between two dates (inclusive), for the timesheet.
+// Days are taken in the given time zone (the user's own by default); an entry counts towards the day it started on.
+router.get('/time-entries/timesheet', authenticateToken, async (req, res) => {
+  const { from, to, tz, workspace_id } = req.query;
+
+  if (!moment(from, 'YYYY-MM-DD', true).isValid() || !moment(to, 'YYYY-MM-DD', true).isValid()) {
+    return res.status(400).json({ error: 'from and to must be dates (YYYY-MM-DD)' });
+  }
+
+  try {
+    const timeZone = isValidTimezone(tz) ? tz : await getUserTimezone(req.user.userId);
+    const params = [req.user.userId, from, to, timeZone];
+    let workspaceCondition = '';
+    if (workspace_id) {
+      params.push(workspace_id);
+      workspaceCondition = ` AND t.workspace_id = $${params.length}`;
+    }
+
+    const result = await pool.query(`
+      SELECT TO_CHAR((te.started_at AT TIME ZONE $4)::date, 'YYYY-MM-DD') as day,
+             t.id as task_id, t.title as task_title, t.workspace_id, c.name as category_name,
+             SUM(${DURATION_SECONDS_SQL('te')})::int as total_seconds
+      FROM time_entries te
+      JOIN tasks t ON te.task_id = t.id
+      JOIN workspace_permissions wp ON wp.workspace_id = t.workspace_id AND wp.user_id = $1
+      LEFT JOIN categories c ON t.category_id = c.id
+      WHERE te.user_id = $1 AND t.deleted_at IS NULL
+        AND (te.started_at AT TIME ZONE $4)::date BETWEEN $2 AND $3${workspaceCondition}
+      GROUP BY 1, t.id, t.title, t.workspace_id, c.name
+      ORDER BY t.title, day
+    `, params);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Error fetching timesheet:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,62 @@
+// Storage backends for task attachment files. A backend keeps file contents under opaque keys and
+// provides save(key, data), read(key) and remove(key); the database only stores the key.
+// ATTACHMENT_STORAGE picks the backend ('local' by default), registerStorageBackend adds others.
+const fs = require('fs/promises');
+const path = require('path');
+
+// Keys are generated by the server; anything else never reaches the file system
+const STORAGE_KEY_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+// Writes files to a local directory, ATTACHMENT_DIR or server/uploads
+function createLocalStorage(directory) {
+  const resolve = (key) => {
+    if (!STORAGE_KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(directory, key);
+  };
+
+  return {
+    async save(key, data) {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(resolve(key), data);
+    },
+    async read(key) {
+      return fs.readFile(resolve(key));
+    },
+    async remove(key) {
+      await fs.rm(resolve(key), { force: true });
+    }
+  };
+}
+
+const backendFactories = {
+  local: () => createLocalStorage(process.env.ATTACHMENT_DIR || path.join(__dirname, '..', 'uploads'))
+};
+
+let storage = null;
+
+// Make another backend available under a name, e.g. one that uploads to object storage
+function registerStorageBackend(name, factory) {
+  backendFactories[name] = factory;
+  storage = null;
+}
+
+// The configured backend, created on first use
+function getAttachmentStorage() {
+  if (!storage) {
+    const backendName = process.env.ATTACHMENT_STORAGE || 'local';
+    const factory = backendFactories[backendName];
+    if (!factory) {
+      throw new Error(`Unknown attachment storage backend: ${backendName}`);
+    }
+    storage = factory();
+  }
+  return storage;
+}
+
+module.exports = {
+  createLocalStorage,
+  registerStorageBackend,
+  getAttachmentStorage
+};
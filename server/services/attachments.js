@@ -0,0 +1,127 @@
+// Files attached to tasks: size limits, the task_attachments rows and the stored file contents
+const crypto = require('crypto');
+const path = require('path');
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+const { getAttachmentStorage } = require('./attachmentStorage');
+
+// Largest single file, and most bytes all files of one task may take together
+const MAX_ATTACHMENT_BYTES = parseInt(process.env.ATTACHMENT_MAX_BYTES, 10) || 10 * 1024 * 1024;
+const MAX_TASK_ATTACHMENT_BYTES = parseInt(process.env.TASK_ATTACHMENTS_MAX_BYTES, 10) || 50 * 1024 * 1024;
+const MAX_FILE_NAME_LENGTH = 255;
+
+const CONTENT_TYPE_PATTERN = /^[\w.+-]+\/[\w.+-]+$/;
+
+// Select-list column with the number of files attached to a task.
+// Expects the task table to be aliased as t.
+const TASK_ATTACHMENT_COUNT_COLUMN = `
+           (SELECT COUNT(*)::int FROM task_attachments tat WHERE tat.task_id = t.id) as attachment_count`;
+
+function formatBytes(bytes) {
+  if (bytes >= 1024 * 1024) return `${Math.round(bytes / 1024 / 1024 * 10) / 10} MB`;
+  return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+// Keep only the last path segment of an uploaded file name, without control characters
+function sanitizeFileName(fileName) {
+  const baseName = path.basename(String(fileName || '').replace(/\\/g, '/')).replace(/[\x00-\x1f\x7f]/g, '').trim();
+  return (baseName || 'file').slice(-MAX_FILE_NAME_LENGTH);
+}
+
+function sanitizeContentType(contentType) {
+  const type = String(contentType || '').split(';')[0].trim().toLowerCase();
+  return CONTENT_TYPE_PATTERN.test(type) ? type : 'application/octet-stream';
+}
+
+// Returns an error message when a file of this size cannot be attached to the task, or null if it can
+async function validateAttachmentSize(taskId, sizeBytes, db = pool) {
+  if (sizeBytes === 0) {
+    return 'The file is empty';
+  }
+  if (sizeBytes > MAX_ATTACHMENT_BYTES) {
+    return `Files can be at most ${formatBytes(MAX_ATTACHMENT_BYTES)}`;
+  }
+  const result = await db.query(
+    'SELECT COALESCE(SUM(size_bytes), 0)::bigint as total FROM task_attachments WHERE task_id = $1',
+    [taskId]
+  );
+  if (Number(result.rows[0].total) + sizeBytes > MAX_TASK_ATTACHMENT_BYTES) {
+    return `The files of a task can take at most ${formatBytes(MAX_TASK_ATTACHMENT_BYTES)} together`;
+  }
+  return null;
+}
+
+// Store a file and record it as attached to a task. Returns the new row.
+// createdAt is only passed when importing an exported attachment.
+async function createAttachment(taskId, { fileName, contentType, data, createdAt }, userId, db = pool) {
+  const storageKey = crypto.randomUUID();
+  const storage = getAttachmentStorage();
+  await storage.save(storageKey, data);
+  try {
+    const result = await db.query(`
+      INSERT INTO task_attachments (task_id, file_name, content_type, size_bytes, storage_key, uploaded_by, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `, [
+      taskId,
+      sanitizeFileName(fileName),
+      sanitizeContentType(contentType),
+      data.length,
+      storageKey,
+      userId,
+      createdAt || moment().utc().format('YYYY-MM-DD HH:mm:ss')
+    ]);
+    return result.rows[0];
+  } catch (error) {
+    await storage.remove(storageKey);
+    throw error;
+  }
+}
+
+// The contents of an attachment; null when its file is missing from storage
+async function readAttachment(attachment) {
+  try {
+    return await getAttachmentStorage().read(attachment.storage_key);
+  } catch (error) {
+    console.error(`Error reading attachment file ${attachment.storage_key}:`, error);
+    return null;
+  }
+}
+
+// Remove stored files whose rows were deleted. Failures are only logged: the rows are gone either way.
+async function removeStoredFiles(storageKeys) {
+  const storage = getAttachmentStorage();
+  for (const storageKey of storageKeys) {
+    try {
+      await storage.remove(storageKey);
+    } catch (error) {
+      console.error(`Error removing attachment file ${storageKey}:`, error);
+    }
+  }
+}
+
+// Storage keys of the files attached to tasks and their subtasks, which go with them when purged
+async function getSubtreeStorageKeys(taskIds, db = pool) {
+  if (taskIds.length === 0) return [];
+  const result = await db.query(`
+    WITH RECURSIVE subtree AS (
+      SELECT id FROM tasks WHERE id = ANY($1::int[])
+      UNION
+      SELECT t.id FROM tasks t INNER JOIN subtree s ON t.parent_task_id = s.id
+    )
+    SELECT storage_key FROM task_attachments WHERE task_id IN (SELECT id FROM subtree)
+  `, [taskIds]);
+  return result.rows.map(row => row.storage_key);
+}
+
+module.exports = {
+  MAX_ATTACHMENT_BYTES,
+  TASK_ATTACHMENT_COUNT_COLUMN,
+  formatBytes,
+  sanitizeFileName,
+  validateAttachmentSize,
+  createAttachment,
+  readAttachment,
+  removeStoredFiles,
+  getSubtreeStorageKeys
+};
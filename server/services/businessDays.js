@@ -0,0 +1,40 @@
+// Business day helpers shared by priority escalation and recurring tasks
+const moment = require('moment-timezone');
+
+// Weekends and the given holidays ('YYYY-MM-DD' dates) are not business days
+function isBusinessDay(date, holidays = []) {
+  const day = moment(date).day();
+  return day !== 0 && day !== 6 && !holidays.includes(moment(date).format('YYYY-MM-DD'));
+}
+
+// Move forward the given number of business days from a date (defaults to today)
+function addBusinessDays(fromDate, days, holidays = []) {
+  let nextDay = moment(fromDate || undefined).startOf('day');
+  let remaining = days;
+
+  while (remaining > 0) {
+    nextDay = nextDay.add(1, 'day');
+    if (isBusinessDay(nextDay, holidays)) {
+      remaining--;
+    }
+  }
+
+  return nextDay.format('YYYY-MM-DD');
+}
+
+// Helper function to get next business day
+function getNextBusinessDay(fromDate, holidays = []) {
+  return addBusinessDays(fromDate, 1, holidays);
+}
+
+// Today's date in a time zone, so business days follow the workspace's calendar rather than the server clock
+function getLocalToday(timezone) {
+  return moment.tz(timezone || 'UTC').format('YYYY-MM-DD');
+}
+
+module.exports = {
+  isBusinessDay,
+  addBusinessDays,
+  getNextBusinessDay,
+  getLocalToday
+};
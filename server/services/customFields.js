@@ -0,0 +1,318 @@
+// Workspace-defined custom fields and their values on tasks
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+const { recordTaskChange } = require('./taskChanges');
+
+const FIELD_TYPES = ['text', 'number', 'date', 'select', 'multi_select', 'url', 'checkbox'];
+const OPTION_FIELD_TYPES = ['select', 'multi_select'];
+const MAX_NAME_LENGTH = 40;
+const MAX_TEXT_LENGTH = 2000;
+const COMPARISON_OPERATORS = ['=', '!=', '<', '<=', '>', '>='];
+
+// Select-list column giving a task's custom field values as an object keyed by field id.
+// Expects the task table to be aliased as t.
+const TASK_CUSTOM_FIELD_COLUMN = `
+           COALESCE(
+             (SELECT JSON_OBJECT_AGG(cv.field_id, cv.value)
+              FROM task_custom_field_values cv
+              WHERE cv.task_id = t.id),
+             '{}'::json
+           ) as custom_fields`;
+
+// Trim the options of a select field and drop empty and repeated ones
+function normalizeOptions(options) {
+  const seen = new Set();
+  const normalized = [];
+  for (const option of options) {
+    const value = String(option).trim();
+    if (value && !seen.has(value)) {
+      seen.add(value);
+      normalized.push(value);
+    }
+  }
+  return normalized;
+}
+
+// Returns an error message when a field definition is not usable, or null if it is.
+// With partial set only the given properties are checked (for updates).
+function validateFieldDefinition({ name, field_type, options }, { partial = false } = {}) {
+  if (!partial || name !== undefined) {
+    if (typeof name !== 'string' || !name.trim()) {
+      return 'Field name is required';
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return `Field name must be at most ${MAX_NAME_LENGTH} characters`;
+    }
+  }
+  if (!partial && !FIELD_TYPES.includes(field_type)) {
+    return `field_type must be one of: ${FIELD_TYPES.join(', ')}`;
+  }
+  if (options !== undefined && !Array.isArray(options)) {
+    return 'options must be an array';
+  }
+  if (!partial && OPTION_FIELD_TYPES.includes(field_type) && normalizeOptions(options || []).length === 0) {
+    return 'Select fields need at least one option';
+  }
+  return null;
+}
+
+// Check a value against its field. Returns { value } ready to store (null clears the field) or { error }.
+function normalizeFieldValue(field, value) {
+  if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return { value: null };
+  }
+
+  switch (field.field_type) {
+    case 'text': {
+      const text = String(value).trim();
+      if (text.length > MAX_TEXT_LENGTH) {
+        return { error: `${field.name} must be at most ${MAX_TEXT_LENGTH} characters` };
+      }
+      return { value: text || null };
+    }
+    case 'url': {
+      const url = String(value).trim();
+      try {
+        const parsed = new URL(url);
+        if (!['http:', 'https:'].includes(parsed.protocol)) throw new Error('Unsupported protocol');
+      } catch (error) {
+        return { error: `${field.name} must be an http(s) URL` };
+      }
+      return { value: url };
+    }
+    case 'number': {
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        return { error: `${field.name} must be a number` };
+      }
+      return { value: number };
+    }
+    case 'date': {
+      if (!moment(String(value), 'YYYY-MM-DD', true).isValid()) {
+        return { error: `${field.name} must be a date (YYYY-MM-DD)` };
+      }
+      return { value: String(value) };
+    }
+    case 'select': {
+      if (!field.options.includes(String(value))) {
+        return { error: `${field.name} must be one of: ${field.options.join(', ')}` };
+      }
+      return { value: String(value) };
+    }
+    case 'multi_select': {
+      const values = Array.isArray(value) ? normalizeOptions(value) : [String(value)];
+      const unknown = values.filter(option => !field.options.includes(option));
+      if (unknown.length > 0) {
+        return { error: `${field.name} has unknown options: ${unknown.join(', ')}` };
+      }
+      return { value: values };
+    }
+    case 'checkbox':
+      // An unchecked box is stored as no value
+      return { value: value === true || value === 'true' ? true : null };
+    default:
+      return { error: `Unknown field type ${field.field_type}` };
+  }
+}
+
+// Text logged in the task's change trail for a stored value
+function toChangeLogValue(value) {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value;
+  return value === true ? 'yes' : String(value);
+}
+
+// Get a workspace's custom fields in display order
+async function getWorkspaceCustomFields(workspaceId, db = pool) {
+  const result = await db.query(
+    'SELECT * FROM custom_fields WHERE workspace_id = $1 ORDER BY position, id',
+    [workspaceId]
+  );
+  return result.rows;
+}
+
+// Get custom fields by id, as a Map keyed by id
+async function getCustomFieldsByIds(fieldIds, db = pool) {
+  if (fieldIds.length === 0) return new Map();
+  const result = await db.query('SELECT * FROM custom_fields WHERE id = ANY($1::int[])', [fieldIds.map(Number)]);
+  return new Map(result.rows.map(field => [field.id, field]));
+}
+
+// Set some of a task's custom field values; values maps field ids to the new values.
+// Returns { error } without changing anything when a field or value is not valid.
+async function setTaskCustomFieldValues(task, values, userId, db = pool) {
+  const fields = await getCustomFieldsByIds(Object.keys(values).filter(id => Number.isInteger(Number(id))), db);
+  const updates = [];
+  for (const [fieldId, rawValue] of Object.entries(values)) {
+    const field = fields.get(Number(fieldId));
+    if (!field || field.workspace_id !== task.workspace_id) {
+      return { error: `Custom field ${fieldId} does not belong to this workspace` };
+    }
+    const { value, error } = normalizeFieldValue(field, rawValue);
+    if (error) {
+      return { error };
+    }
+    updates.push({ field, value });
+  }
+
+  const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+  for (const { field, value } of updates) {
+    const previousResult = await db.query(
+      'SELECT value FROM task_custom_field_values WHERE task_id = $1 AND field_id = $2',
+      [task.id, field.id]
+    );
+    const previousValue = previousResult.rows[0] ? previousResult.rows[0].value : null;
+
+    if (value === null) {
+      await db.query('DELETE FROM task_custom_field_values WHERE task_id = $1 AND field_id = $2', [task.id, field.id]);
+    } else {
+      await db.query(`
+        INSERT INTO task_custom_field_values (task_id, field_id, value, updated_at)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (task_id, field_id) DO UPDATE SET value = EXCLUDED.value, updated_at = EXCLUDED.updated_at
+      `, [task.id, field.id, JSON.stringify(value), now]);
+    }
+
+    await recordTaskChange(task.id, `custom:${field.name}`, toChangeLogValue(previousValue), toChangeLogValue(value), userId, db);
+  }
+
+  return { error: null };
+}
+
+// The custom fields of a stale edit that someone else changed to a different value since its version,
+// as { field: 'custom_field:<id>', yours, theirs }. changes are the task's changes since that version;
+// task is the current row with custom_fields.
+async function getCustomFieldConflicts(task, values, changes, db = pool) {
+  const changedFields = new Set(changes.map(change => change.field));
+  const fields = await getCustomFieldsByIds(Object.keys(values).filter(id => Number.isInteger(Number(id))), db);
+  const conflicts = [];
+  for (const [fieldId, rawValue] of Object.entries(values)) {
+    const field = fields.get(Number(fieldId));
+    if (!field || !changedFields.has(`custom:${field.name}`)) continue;
+    const { value } = normalizeFieldValue(field, rawValue);
+    const theirs = task.custom_fields[field.id] === undefined ? null : task.custom_fields[field.id];
+    if (JSON.stringify(value === undefined ? null : value) === JSON.stringify(theirs)) continue;
+    conflicts.push({ field: `custom_field:${field.id}`, yours: value, theirs });
+  }
+  return conflicts;
+}
+
+// Drop option values that a select field no longer offers
+async function pruneRemovedOptions(field, db = pool) {
+  if (field.field_type === 'select') {
+    await db.query(
+      `DELETE FROM task_custom_field_values WHERE field_id = $1 AND NOT (value #>> '{}' = ANY($2::text[]))`,
+      [field.id, field.options]
+    );
+  } else if (field.field_type === 'multi_select') {
+    await db.query(`
+      UPDATE task_custom_field_values
+      SET value = (SELECT COALESCE(JSONB_AGG(opt), '[]'::jsonb) FROM JSONB_ARRAY_ELEMENTS_TEXT(value) opt WHERE opt = ANY($2::text[]))
+      WHERE field_id = $1
+    `, [field.id, field.options]);
+    await db.query(`DELETE FROM task_custom_field_values WHERE field_id = $1 AND value = '[]'::jsonb`, [field.id]);
+  }
+}
+
+// Give a task the custom field values of another task, matching fields of the target workspace
+// by name and type. Values of fields the target workspace does not have are dropped.
+async function copyCustomFieldValues(fromTaskId, toTaskId, targetWorkspaceId, db = pool) {
+  await db.query(`
+    INSERT INTO task_custom_field_values (task_id, field_id, value, updated_at)
+    SELECT $2, tf.id, cv.value, cv.updated_at
+    FROM task_custom_field_values cv
+    JOIN custom_fields sf ON cv.field_id = sf.id
+    JOIN custom_fields tf ON tf.workspace_id = $3 AND LOWER(tf.name) = LOWER(sf.name) AND tf.field_type = sf.field_type
+    WHERE cv.task_id = $1
+    ON CONFLICT (task_id, field_id) DO NOTHING
+  `, [fromTaskId, toTaskId, targetWorkspaceId]);
+
+  if (fromTaskId === toTaskId) {
+    await db.query(`
+      DELETE FROM task_custom_field_values cv
+      USING custom_fields f
+      WHERE cv.field_id = f.id AND cv.task_id = $1 AND f.workspace_id <> $2
+    `, [toTaskId, targetWorkspaceId]);
+  }
+}
+
+// Build the SQL condition of a custom_field filter condition, or null when it cannot be applied.
+// paramBuilder is the filter query's parameter builder; the task table is aliased as t.
+function buildCustomFieldCondition(field, operator, values, paramBuilder) {
+  if (!field) return null;
+  const hasValue = (valueCondition) =>
+    `EXISTS (SELECT 1 FROM task_custom_field_values cv WHERE cv.task_id = t.id AND cv.field_id = ${paramBuilder.add(field.id)}${valueCondition ? ` AND ${valueCondition}` : ''})`;
+  const firstValue = values && values.length > 0 ? values[0] : undefined;
+
+  if (operator === 'IS_NULL') return `NOT ${hasValue()}`;
+  if (operator === 'IS_NOT_NULL') return hasValue();
+
+  switch (field.field_type) {
+    case 'checkbox': {
+      if (operator !== '=') return null;
+      const checked = firstValue === true || firstValue === 'true';
+      return checked ? hasValue(`cv.value = 'true'::jsonb`) : `NOT ${hasValue(`cv.value = 'true'::jsonb`)}`;
+    }
+    case 'text':
+    case 'url': {
+      if (firstValue === undefined || firstValue === '') return null;
+      if (operator === '=') return hasValue(`LOWER(cv.value #>> '{}') = LOWER(${paramBuilder.add(String(firstValue))})`);
+      if (operator === '!=') return `NOT ${hasValue(`LOWER(cv.value #>> '{}') = LOWER(${paramBuilder.add(String(firstValue))})`)}`;
+      if (operator === 'CONTAINS') {
+        const pattern = `%${String(firstValue).replace(/[\\%_]/g, match => `\\${match}`)}%`;
+        return hasValue(`cv.value #>> '{}' ILIKE ${paramBuilder.add(pattern)}`);
+      }
+      return null;
+    }
+    case 'number':
+    case 'date': {
+      const cast = field.field_type === 'number' ? 'numeric' : 'date';
+      const isValid = (value) => field.field_type === 'number'
+        ? Number.isFinite(Number(value))
+        : moment(String(value), 'YYYY-MM-DD', true).isValid();
+      const toParam = (value) => (field.field_type === 'number' ? Number(value) : String(value));
+      if (COMPARISON_OPERATORS.includes(operator)) {
+        if (firstValue === undefined || !isValid(firstValue)) return null;
+        return hasValue(`(cv.value #>> '{}')::${cast} ${operator} ${paramBuilder.add(toParam(firstValue))}::${cast}`);
+      }
+      if (operator === 'BETWEEN') {
+        if (!values || values.length < 2 || !isValid(values[0]) || !isValid(values[1])) return null;
+        return hasValue(`(cv.value #>> '{}')::${cast} BETWEEN ${paramBuilder.add(toParam(values[0]))}::${cast} AND ${paramBuilder.add(toParam(values[1]))}::${cast}`);
+      }
+      return null;
+    }
+    case 'select': {
+      if (!values || values.length === 0) return null;
+      const options = values.map(String);
+      if (operator === 'IN' || operator === '=') return hasValue(`cv.value #>> '{}' = ANY(${paramBuilder.addArray(options)}::text[])`);
+      if (operator === 'NOT_IN' || operator === '!=') return `NOT ${hasValue(`cv.value #>> '{}' = ANY(${paramBuilder.addArray(options)}::text[])`)}`;
+      return null;
+    }
+    case 'multi_select': {
+      if (!values || values.length === 0) return null;
+      const options = values.map(String);
+      if (operator === 'HAS_ANY') return hasValue(`cv.value ?| ${paramBuilder.addArray(options)}::text[]`);
+      if (operator === 'HAS_ALL') return hasValue(`cv.value ?& ${paramBuilder.addArray(options)}::text[]`);
+      if (operator === 'HAS_NONE') return `NOT ${hasValue(`cv.value ?| ${paramBuilder.addArray(options)}::text[]`)}`;
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+module.exports = {
+  FIELD_TYPES,
+  OPTION_FIELD_TYPES,
+  TASK_CUSTOM_FIELD_COLUMN,
+  normalizeOptions,
+  validateFieldDefinition,
+  normalizeFieldValue,
+  getWorkspaceCustomFields,
+  getCustomFieldsByIds,
+  setTaskCustomFieldValues,
+  getCustomFieldConflicts,
+  pruneRemovedOptions,
+  copyCustomFieldValues,
+  buildCustomFieldCondition
+};
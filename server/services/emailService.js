@@ -17,6 +17,14 @@ const EMAIL_SENDER_NAME = process.env.EMAIL_SENDER_NAME || 'Tasket77';
 // Create transporter
 const transporter = nodemailer.createTransport(emailConfig);
 
+// Escape user-written text (names, titles, comments) for the HTML part of an email
+const escapeHtml = (text) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
 // Email templates
 const emailTemplates = {
   workspaceAccess: (workspaceName, accessLevel, appUrl) => ({
@@ -55,6 +63,39 @@ Go to Tasket77: ${appUrl}
 
 If you don't have an account yet, you can register at the same link.
 
+---
+This is an automated message from Tasket77. Please do not reply to this email.
+    `
+  }),
+
+  mention: ({ authorName, taskTitle, workspaceName, excerpt, inComment }, appUrl) => ({
+    subject: `${authorName} mentioned you in "${taskTitle}"`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #2563eb;">You were mentioned</h2>
+        <p><strong>${escapeHtml(authorName)}</strong> mentioned you in ${inComment ? 'a comment on' : 'the description of'} <strong>"${escapeHtml(taskTitle)}"</strong> in workspace "${escapeHtml(workspaceName)}".</p>
+        <blockquote style="margin: 20px 0; padding: 12px 16px; border-left: 4px solid #e5e7eb; color: #374151; white-space: pre-wrap;">${escapeHtml(excerpt)}</blockquote>
+        <div style="margin: 30px 0;">
+          <a href="${appUrl}" 
+             style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+            Go to Tasket77
+          </a>
+        </div>
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+        <p style="color: #6b7280; font-size: 12px;">
+          This is an automated message from Tasket77. Please do not reply to this email.
+        </p>
+      </div>
+    `,
+    text: `
+You were mentioned
+
+${authorName} mentioned you in ${inComment ? 'a comment on' : 'the description of'} "${taskTitle}" in workspace "${workspaceName}".
+
+${excerpt}
+
+Go to Tasket77: ${appUrl}
+
 ---
 This is an automated message from Tasket77. Please do not reply to this email.
     `
@@ -92,6 +133,33 @@ async function sendWorkspaceAccessEmail(email, workspaceName, accessLevel) {
   }
 }
 
+// Send an email about a mention in a task description or comment
+async function sendMentionEmail(email, mention) {
+  try {
+    if (!process.env.SMTP_USER || !process.env.SMTP_PASS) {
+      console.log(`📧 Email not configured. Would send to ${email}: ${mention.authorName} mentioned you in "${mention.taskTitle}"`);
+      return { success: false, reason: 'Email not configured' };
+    }
+
+    const appUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const template = emailTemplates.mention(mention, appUrl);
+
+    const info = await transporter.sendMail({
+      from: `"${EMAIL_SENDER_NAME}" <${process.env.SMTP_USER}>`,
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+    console.log(`📧 Mention email sent successfully to ${email}:`, info.messageId);
+    return { success: true, messageId: info.messageId };
+
+  } catch (error) {
+    console.error('📧 Error sending mention email:', error);
+    return { success: false, error: error.message };
+  }
+}
+
 // Test email configuration
 async function testEmailConfig() {
   try {
@@ -117,5 +185,6 @@ async function testEmailConfig() {
 
 module.exports = {
   sendWorkspaceAccessEmail,
+  sendMentionEmail,
   testEmailConfig
 }; 
\ No newline at end of file
@@ -0,0 +1,231 @@
+// Priority escalation policy: a scheduled job raises the priority of tasks whose due date is close,
+// following each workspace's policy and holiday calendar, and records why it changed a priority.
+// The policy lives on the workspaces row; holidays in workspace_holidays.
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+const { addBusinessDays, getLocalToday } = require('./businessDays');
+const { recordTaskChange, SYSTEM_ACTOR } = require('./taskChanges');
+const { STATUS_CATEGORY_SQL } = require('./statuses');
+const { publishTaskChanges } = require('./liveUpdates');
+
+// Levels a policy can escalate to; escalating to 'low' would never raise anything
+const ESCALATION_PRIORITIES = ['urgent', 'high', 'normal'];
+const MAX_ESCALATION_BUSINESS_DAYS = 30;
+const MAX_HOLIDAY_NAME_LENGTH = 100;
+
+// Lower rank is more pressing
+const PRIORITY_RANK = { urgent: 1, high: 2, normal: 3, low: 4 };
+
+// How often the scheduled job checks every workspace
+const ESCALATION_INTERVAL_MS = 60 * 60 * 1000;
+
+// Holiday dates of a workspace as 'YYYY-MM-DD' strings, for business-day math
+async function getHolidayDates(workspaceId, db = pool) {
+  const result = await db.query(
+    "SELECT to_char(holiday_date, 'YYYY-MM-DD') as date FROM workspace_holidays WHERE workspace_id = $1 ORDER BY holiday_date",
+    [workspaceId]
+  );
+  return result.rows.map(row => row.date);
+}
+
+// The escalation policy of a workspace, or null if the workspace does not exist
+async function getEscalationPolicy(workspaceId, db = pool) {
+  const workspaceResult = await db.query(`
+    SELECT escalation_enabled, escalation_business_days, escalation_priority, deescalation_enabled, timezone
+    FROM workspaces WHERE id = $1
+  `, [workspaceId]);
+  const workspace = workspaceResult.rows[0];
+  if (!workspace) return null;
+
+  const holidayResult = await db.query(
+    "SELECT to_char(holiday_date, 'YYYY-MM-DD') as date, name FROM workspace_holidays WHERE workspace_id = $1 ORDER BY holiday_date",
+    [workspaceId]
+  );
+
+  return {
+    enabled: workspace.escalation_enabled,
+    business_days: workspace.escalation_business_days,
+    priority: workspace.escalation_priority,
+    deescalate: workspace.deescalation_enabled,
+    timezone: workspace.timezone,
+    holidays: holidayResult.rows
+  };
+}
+
+// Returns an error message when a policy cannot be stored, or null if it can
+function validateEscalationPolicy(policy) {
+  if (!policy || typeof policy !== 'object') {
+    return 'Escalation policy is required';
+  }
+  if (typeof policy.enabled !== 'boolean' || typeof policy.deescalate !== 'boolean') {
+    return 'enabled and deescalate must be true or false';
+  }
+  if (!Number.isInteger(policy.business_days) || policy.business_days < 0 || policy.business_days > MAX_ESCALATION_BUSINESS_DAYS) {
+    return `business_days must be a whole number between 0 and ${MAX_ESCALATION_BUSINESS_DAYS}`;
+  }
+  if (!ESCALATION_PRIORITIES.includes(policy.priority)) {
+    return `priority must be one of: ${ESCALATION_PRIORITIES.join(', ')}`;
+  }
+  if (typeof policy.timezone !== 'string' || !moment.tz.zone(policy.timezone)) {
+    return 'Unknown time zone';
+  }
+  if (!Array.isArray(policy.holidays)) {
+    return 'holidays must be a list';
+  }
+  const dates = new Set();
+  for (const holiday of policy.holidays) {
+    if (!holiday || typeof holiday.date !== 'string' || !moment(holiday.date, 'YYYY-MM-DD', true).isValid()) {
+      return 'Holiday dates must look like YYYY-MM-DD';
+    }
+    if (dates.has(holiday.date)) {
+      return `Holiday ${holiday.date} is listed twice`;
+    }
+    dates.add(holiday.date);
+    if (holiday.name !== undefined && (typeof holiday.name !== 'string' || holiday.name.length > MAX_HOLIDAY_NAME_LENGTH)) {
+      return `Holiday names must be at most ${MAX_HOLIDAY_NAME_LENGTH} characters`;
+    }
+  }
+  return null;
+}
+
+// Store a validated policy, replacing the workspace's holiday calendar
+async function saveEscalationPolicy(workspaceId, policy, db = pool) {
+  await db.query(`
+    UPDATE workspaces
+    SET escalation_enabled = $1, escalation_business_days = $2, escalation_priority = $3,
+        deescalation_enabled = $4, timezone = $5, updated_at = $6
+    WHERE id = $7
+  `, [
+    policy.enabled,
+    policy.business_days,
+    policy.priority,
+    policy.deescalate,
+    policy.timezone,
+    moment().utc().format('YYYY-MM-DD HH:mm:ss'),
+    workspaceId
+  ]);
+  await db.query('DELETE FROM workspace_holidays WHERE workspace_id = $1', [workspaceId]);
+  for (const holiday of policy.holidays) {
+    await db.query(
+      'INSERT INTO workspace_holidays (workspace_id, holiday_date, name) VALUES ($1, $2, $3)',
+      [workspaceId, holiday.date, (holiday.name || '').trim()]
+    );
+  }
+}
+
+function describeWindow(businessDays) {
+  if (businessDays === 0) return 'due today or earlier';
+  return `due within ${businessDays} business day${businessDays === 1 ? '' : 's'}`;
+}
+
+// What the policy does to one task: { priority, escalated_from, reason }, or null to leave it alone.
+// cutoff is the last due date inside the escalation window.
+function getEscalationChange(task, policy, cutoff) {
+  const inWindow = Boolean(task.due_day) && task.due_day <= cutoff;
+
+  if (inWindow && PRIORITY_RANK[task.priority] > PRIORITY_RANK[policy.priority]) {
+    return {
+      priority: policy.priority,
+      escalated_from: task.escalated_from || task.priority,
+      reason: `Escalation policy: due ${task.due_day}, ${describeWindow(policy.business_days)}`
+    };
+  }
+  if (!inWindow && policy.deescalate && task.escalated_from) {
+    return {
+      priority: task.escalated_from,
+      escalated_from: null,
+      reason: task.due_day
+        ? `Escalation policy: due date moved out to ${task.due_day}, no longer ${describeWindow(policy.business_days)}`
+        : 'Escalation policy: due date was removed'
+    };
+  }
+  return null;
+}
+
+// Apply a workspace's policy to its open tasks, or only to taskIds when given.
+// Days are counted in the workspace time zone unless a request passes the user's timezone.
+// Returns the ids of the tasks whose priority changed.
+async function applyEscalationPolicy(workspaceId, { taskIds, timezone } = {}, db = pool) {
+  const policy = await getEscalationPolicy(workspaceId, db);
+  if (!policy || !policy.enabled) return [];
+
+  const holidayDates = policy.holidays.map(holiday => holiday.date);
+  const cutoff = addBusinessDays(getLocalToday(timezone || policy.timezone), policy.business_days, holidayDates);
+
+  const params = [workspaceId];
+  let query = `
+    SELECT t.id, t.priority, t.escalated_from, to_char(t.due_date, 'YYYY-MM-DD') as due_day
+    FROM tasks t
+    WHERE t.workspace_id = $1 AND t.deleted_at IS NULL
+      AND ${STATUS_CATEGORY_SQL('t')} IS DISTINCT FROM 'done'
+      AND (t.due_date IS NOT NULL OR t.escalated_from IS NOT NULL)
+  `;
+  if (taskIds) {
+    params.push(taskIds.map(Number));
+    query += ` AND t.id = ANY($${params.length}::int[])`;
+  }
+  const taskResult = await db.query(query, params);
+
+  const changedIds = [];
+  for (const task of taskResult.rows) {
+    const change = getEscalationChange(task, policy, cutoff);
+    if (!change) continue;
+
+    // Skip the task if its priority was changed in the meantime. The new last_modified makes edits of
+    // a copy from before the escalation conflict instead of silently restoring the old priority.
+    const updateResult = await db.query(
+      'UPDATE tasks SET priority = $1, escalated_from = $2, last_modified = $3 WHERE id = $4 AND priority = $5 RETURNING id',
+      [change.priority, change.escalated_from, moment().utc().format('YYYY-MM-DD HH:mm:ss'), task.id, task.priority]
+    );
+    if (updateResult.rowCount === 0) continue;
+
+    await recordTaskChange(task.id, 'priority', task.priority, change.priority, SYSTEM_ACTOR, db, change.reason);
+    changedIds.push(task.id);
+  }
+  await publishTaskChanges(changedIds, db);
+  return changedIds;
+}
+
+// Apply the policy to the given tasks right after they were written, grouped by workspace;
+// timezone is the time zone of the user who wrote them
+async function escalateTasks(taskIds, { timezone } = {}, db = pool) {
+  if (taskIds.length === 0) return [];
+  const result = await db.query(
+    'SELECT DISTINCT workspace_id FROM tasks WHERE id = ANY($1::int[])',
+    [taskIds.map(Number)]
+  );
+  const changedIds = [];
+  for (const row of result.rows) {
+    changedIds.push(...await applyEscalationPolicy(row.workspace_id, { taskIds, timezone }, db));
+  }
+  return changedIds;
+}
+
+// Scheduled job: apply every workspace's policy
+async function runEscalationJob() {
+  const result = await pool.query('SELECT id FROM workspaces WHERE escalation_enabled = true ORDER BY id');
+  let changedCount = 0;
+  for (const workspace of result.rows) {
+    try {
+      changedCount += (await applyEscalationPolicy(workspace.id)).length;
+    } catch (err) {
+      console.error(`Escalation failed for workspace ${workspace.id}:`, err);
+    }
+  }
+  if (changedCount > 0) {
+    console.log(`⏫ Escalation policy changed the priority of ${changedCount} task(s)`);
+  }
+  return changedCount;
+}
+
+module.exports = {
+  ESCALATION_PRIORITIES,
+  ESCALATION_INTERVAL_MS,
+  getHolidayDates,
+  getEscalationPolicy,
+  validateEscalationPolicy,
+  saveEscalationPolicy,
+  applyEscalationPolicy,
+  escalateTasks,
+  runEscalationJob
+};
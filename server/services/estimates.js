@@ -0,0 +1,116 @@
+// Effort estimates on tasks and the estimate-vs-actual report
+const { pool } = require('../database-pg');
+const { STATUS_CATEGORY_SQL } = require('./statuses');
+
+// Units a workspace can estimate in
+const ESTIMATE_UNITS = ['hours', 'points'];
+
+// Returns an error message when estimate is neither empty nor a non-negative number, or null if it is usable
+function validateEstimate(estimate) {
+  if (estimate === null || estimate === '') return null;
+  const value = Number(estimate);
+  if (!Number.isFinite(value) || value < 0 || value > 100000) {
+    return 'Estimate must be a number between 0 and 100000';
+  }
+  return null;
+}
+
+// Normalize an accepted estimate for storage
+function toEstimateValue(estimate) {
+  return estimate === null || estimate === '' ? null : Number(estimate);
+}
+
+// Add a task's numbers to a report group
+function addToGroup(groups, key, name, task) {
+  if (!groups.has(key)) {
+    groups.set(key, { id: key, name, task_count: 0, estimate: 0, actual_days: 0, tracked_hours: 0 });
+  }
+  const group = groups.get(key);
+  group.task_count++;
+  group.estimate += task.estimate;
+  group.actual_days += task.actual_days;
+  group.tracked_hours += task.tracked_hours;
+}
+
+// Round the sums and add the ratios used to calibrate estimates
+function finishGroup(group) {
+  return {
+    ...group,
+    estimate: Math.round(group.estimate * 100) / 100,
+    tracked_hours: Math.round(group.tracked_hours * 100) / 100,
+    days_per_unit: group.estimate > 0 ? Math.round((group.actual_days / group.estimate) * 100) / 100 : null,
+    tracked_hours_per_unit: group.estimate > 0 ? Math.round((group.tracked_hours / group.estimate) * 100) / 100 : null
+  };
+}
+
+// Compare estimates with what finished tasks actually took. The actual duration is the number of
+// calendar days from start_date to completion_date (both included); time tracked on the task is
+// reported alongside. Only done tasks with an estimate and both dates count.
+async function buildEstimateReport(workspaceId, { from, to } = {}, db = pool) {
+  const params = [workspaceId];
+  let rangeCondition = '';
+  if (from) {
+    params.push(from);
+    rangeCondition += ` AND t.completion_date::date >= $${params.length}`;
+  }
+  if (to) {
+    params.push(to);
+    rangeCondition += ` AND t.completion_date::date <= $${params.length}`;
+  }
+
+  const result = await db.query(`
+    SELECT t.id, t.title, t.estimate, t.category_id, c.name as category_name,
+           (t.completion_date::date - t.start_date::date + 1) as actual_days,
+           COALESCE((SELECT SUM(EXTRACT(EPOCH FROM (te.ended_at - te.started_at)))
+                     FROM time_entries te WHERE te.task_id = t.id AND te.ended_at IS NOT NULL), 0) / 3600.0 as tracked_hours,
+           COALESCE(
+             (SELECT JSON_AGG(JSON_BUILD_OBJECT('id', u.id, 'name', u.name) ORDER BY u.name)
+              FROM task_assignees ta JOIN users u ON ta.user_id = u.id
+              WHERE ta.task_id = t.id),
+             '[]'::json
+           ) as assignees
+    FROM tasks t
+    LEFT JOIN categories c ON t.category_id = c.id
+    WHERE t.workspace_id = $1 AND t.deleted_at IS NULL AND ${STATUS_CATEGORY_SQL('t')} = 'done'
+      AND t.estimate IS NOT NULL AND t.start_date IS NOT NULL AND t.completion_date IS NOT NULL
+      AND t.completion_date::date >= t.start_date::date${rangeCondition}
+    ORDER BY t.completion_date DESC, t.id DESC
+  `, params);
+
+  const tasks = result.rows.map(row => ({ ...row, tracked_hours: Number(row.tracked_hours) }));
+  const totals = new Map();
+  const byCategory = new Map();
+  const byAssignee = new Map();
+  for (const task of tasks) {
+    addToGroup(totals, null, null, task);
+    addToGroup(byCategory, task.category_id, task.category_name, task);
+    // A task with several assignees counts for each of them
+    if (task.assignees.length === 0) {
+      addToGroup(byAssignee, null, null, task);
+    }
+    for (const assignee of task.assignees) {
+      addToGroup(byAssignee, assignee.id, assignee.name, task);
+    }
+  }
+
+  return {
+    totals: finishGroup(totals.get(null) || { id: null, name: null, task_count: 0, estimate: 0, actual_days: 0, tracked_hours: 0 }),
+    by_category: Array.from(byCategory.values()).map(finishGroup),
+    by_assignee: Array.from(byAssignee.values()).map(finishGroup),
+    tasks: tasks.map(task => ({
+      id: task.id,
+      title: task.title,
+      category_name: task.category_name,
+      estimate: task.estimate,
+      actual_days: task.actual_days,
+      tracked_hours: Math.round(task.tracked_hours * 100) / 100
+    }))
+  };
+}
+
+module.exports = {
+  ESTIMATE_UNITS,
+  validateEstimate,
+  toEstimateValue,
+  buildEstimateReport
+};
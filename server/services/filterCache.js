@@ -0,0 +1,80 @@
+// Database Query Caching for Filter Definitions
+const filterCache = new Map();
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+// Cache utility functions
+function getCacheKey(filterIds) {
+  return filterIds.sort().join(',');
+}
+
+function getCachedFilters(filterIds) {
+  const cacheKey = getCacheKey(filterIds);
+  const cached = filterCache.get(cacheKey);
+  
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.data;
+  }
+  
+  return null;
+}
+
+function setCachedFilters(filterIds, data) {
+  const cacheKey = getCacheKey(filterIds);
+  filterCache.set(cacheKey, { 
+    data, 
+    timestamp: Date.now() 
+  });
+}
+
+function clearFilterCache() {
+  filterCache.clear();
+}
+
+// Cache statistics for monitoring
+function getCacheStats() {
+  const now = Date.now();
+  let hits = 0;
+  let misses = 0;
+  let expired = 0;
+  
+  for (const [key, value] of filterCache.entries()) {
+    if (now - value.timestamp < CACHE_TTL) {
+      hits++;
+    } else {
+      expired++;
+    }
+  }
+  
+  return {
+    totalEntries: filterCache.size,
+    hits,
+    misses,
+    expired,
+    hitRate: filterCache.size > 0 ? (hits / filterCache.size * 100).toFixed(2) + '%' : '0%'
+  };
+}
+
+// Periodic cache cleanup to remove expired entries
+function cleanupExpiredCache() {
+  const now = Date.now();
+  let removedCount = 0;
+  
+  for (const [key, value] of filterCache.entries()) {
+    if (now - value.timestamp >= CACHE_TTL) {
+      filterCache.delete(key);
+      removedCount++;
+    }
+  }
+  
+  // Cache cleanup runs silently
+}
+
+// Run cache cleanup every 10 minutes
+setInterval(cleanupExpiredCache, 10 * 60 * 1000);
+
+module.exports = {
+  getCachedFilters,
+  setCachedFilters,
+  clearFilterCache,
+  getCacheStats
+};
@@ -0,0 +1,144 @@
+// Live updates: changes to a workspace are pushed to everyone who has it open over Server-Sent Events.
+// Events are kept in memory for a while, so a client that reconnects can catch up on what it missed;
+// like the filter cache, this assumes a single server process.
+const { pool } = require('../database-pg');
+
+// How long events are kept for catching up, and at most how many per workspace
+const EVENT_RETENTION_MS = 10 * 60 * 1000;
+const MAX_EVENTS_PER_WORKSPACE = 500;
+
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Clients that connect with an older timestamp than this have missed events nobody kept
+const startedAt = Date.now();
+
+const subscribers = new Map(); // workspace id -> Set of { res, userId }
+const recentEvents = new Map(); // workspace id -> events, oldest first
+const droppedUntil = new Map(); // workspace id -> timestamp of the newest event no longer kept
+let lastEventAt = startedAt;
+
+function getWorkspaceKey(workspaceId) {
+  return String(workspaceId);
+}
+
+function writeEvent(res, event) {
+  res.write(`id: ${event.at}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+// Event timestamps double as event ids, so they are made unique and increasing
+function nextEventTime() {
+  lastEventAt = Math.max(Date.now(), lastEventAt + 1);
+  return lastEventAt;
+}
+
+function pruneEvents(key) {
+  const events = recentEvents.get(key) || [];
+  const cutoff = Date.now() - EVENT_RETENTION_MS;
+  while (events.length > 0 && (events[0].at < cutoff || events.length > MAX_EVENTS_PER_WORKSPACE)) {
+    droppedUntil.set(key, events.shift().at);
+  }
+}
+
+// Broadcast an event to everyone watching a workspace. type is one of
+// tasks, tasks_deleted (with task_ids), categories, tags or permissions.
+function publishWorkspaceEvent(workspaceId, type, data = {}) {
+  if (!workspaceId) return;
+  const key = getWorkspaceKey(workspaceId);
+  const event = { ...data, type, workspace_id: Number(workspaceId), at: nextEventTime() };
+
+  if (!recentEvents.has(key)) recentEvents.set(key, []);
+  recentEvents.get(key).push(event);
+  pruneEvents(key);
+
+  for (const subscriber of subscribers.get(key) || []) {
+    writeEvent(subscriber.res, event);
+  }
+}
+
+// Broadcast that tasks were created or changed, grouped by workspace. Their ancestors are included,
+// since a parent's status and progress are derived from its subtasks.
+async function publishTaskChanges(taskIds, db = pool) {
+  const ids = taskIds.filter(Boolean).map(Number);
+  if (ids.length === 0) return;
+  const result = await db.query(`
+    WITH RECURSIVE affected AS (
+      SELECT id, parent_task_id, workspace_id FROM tasks WHERE id = ANY($1::int[])
+      UNION
+      SELECT t.id, t.parent_task_id, t.workspace_id FROM tasks t INNER JOIN affected a ON t.id = a.parent_task_id
+    )
+    SELECT workspace_id, ARRAY_AGG(DISTINCT id) as task_ids FROM affected GROUP BY workspace_id
+  `, [ids]);
+  for (const row of result.rows) {
+    publishWorkspaceEvent(row.workspace_id, 'tasks', { task_ids: row.task_ids });
+  }
+}
+
+// Broadcast that tasks left a workspace (trashed or moved away)
+function publishTasksDeleted(workspaceId, taskIds) {
+  if (taskIds.length === 0) return;
+  publishWorkspaceEvent(workspaceId, 'tasks_deleted', { task_ids: taskIds.map(Number) });
+}
+
+// Stream a workspace's events to a client that has access to it. Events after since (an event
+// timestamp) are replayed first; when they are no longer kept the client is told to reload instead.
+function subscribe(req, res, workspaceId, since) {
+  const key = getWorkspaceKey(workspaceId);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write('retry: 3000\n\n');
+
+  if (since) {
+    pruneEvents(key);
+    if (since < startedAt || since < (droppedUntil.get(key) || 0)) {
+      writeEvent(res, { type: 'resync', workspace_id: Number(workspaceId), at: lastEventAt });
+    } else {
+      (recentEvents.get(key) || []).filter(event => event.at > since).forEach(event => writeEvent(res, event));
+    }
+  }
+  // Lets the client know it is connected, and from which point it would catch up
+  res.write(`event: ready\ndata: ${JSON.stringify({ at: lastEventAt })}\n\n`);
+
+  const subscriber = { res, userId: req.user.userId };
+  if (!subscribers.has(key)) subscribers.set(key, new Set());
+  subscribers.get(key).add(subscriber);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    const workspaceSubscribers = subscribers.get(key);
+    if (!workspaceSubscribers) return;
+    workspaceSubscribers.delete(subscriber);
+    if (workspaceSubscribers.size === 0) subscribers.delete(key);
+  });
+}
+
+// After a workspace's permissions changed, tell everyone watching it and close the streams of
+// users who no longer have access
+async function publishPermissionChange(workspaceId, db = pool) {
+  publishWorkspaceEvent(workspaceId, 'permissions');
+
+  const workspaceSubscribers = subscribers.get(getWorkspaceKey(workspaceId));
+  if (!workspaceSubscribers) return;
+  const result = await db.query('SELECT user_id FROM workspace_permissions WHERE workspace_id = $1', [workspaceId]);
+  const userIds = new Set(result.rows.map(row => row.user_id));
+  for (const subscriber of [...workspaceSubscribers]) {
+    if (userIds.has(subscriber.userId)) continue;
+    writeEvent(subscriber.res, { type: 'access_revoked', workspace_id: Number(workspaceId), at: nextEventTime() });
+    subscriber.res.end();
+    workspaceSubscribers.delete(subscriber);
+  }
+}
+
+module.exports = {
+  publishWorkspaceEvent,
+  publishTaskChanges,
+  publishTasksDeleted,
+  publishPermissionChange,
+  subscribe
+};
@@ -0,0 +1,105 @@
+// @mentions in task descriptions and comments. The text carries a @[Name](user:<id>) token per
+// mention; the task_mentions table records the mentioned user ids of each description and comment.
+const { pool } = require('../database-pg');
+const { sendMentionEmail } = require('./emailService');
+const { createNotifications } = require('./notifications');
+
+const MENTION_PATTERN = /@\[([^\]]*)\]\(user:(\d+)\)/g;
+const EXCERPT_LENGTH = 300;
+
+// Ids of the users mentioned in a text, each once
+function getMentionedUserIds(text) {
+  if (!text) return [];
+  return [...new Set([...text.matchAll(MENTION_PATTERN)].map(match => Number(match[2])))];
+}
+
+// Bring the recorded mentions of a task's description (commentId null) or of one of its comments in
+// line with its text. Only users who can see the task's workspace count as mentioned.
+// Returns the ids of the users who were not mentioned there before.
+async function syncMentions(taskId, commentId, text, userId, db = pool) {
+  const userIds = getMentionedUserIds(text);
+  const accessResult = userIds.length > 0
+    ? await db.query(`
+        SELECT wp.user_id
+        FROM tasks t
+        JOIN workspace_permissions wp ON wp.workspace_id = t.workspace_id
+        WHERE t.id = $1 AND wp.user_id = ANY($2::int[])
+      `, [taskId, userIds])
+    : { rows: [] };
+  const mentionedIds = accessResult.rows.map(row => row.user_id);
+
+  const existingResult = await db.query(
+    'SELECT user_id FROM task_mentions WHERE task_id = $1 AND comment_id IS NOT DISTINCT FROM $2',
+    [taskId, commentId]
+  );
+  const existingIds = new Set(existingResult.rows.map(row => row.user_id));
+
+  await db.query(
+    'DELETE FROM task_mentions WHERE task_id = $1 AND comment_id IS NOT DISTINCT FROM $2 AND NOT (user_id = ANY($3::int[]))',
+    [taskId, commentId, mentionedIds]
+  );
+
+  const newIds = mentionedIds.filter(id => !existingIds.has(id));
+  if (newIds.length > 0) {
+    await db.query(`
+      INSERT INTO task_mentions (task_id, comment_id, user_id, mentioned_by)
+      SELECT $1, $2, mentioned.user_id, $4
+      FROM UNNEST($3::int[]) AS mentioned(user_id)
+    `, [taskId, commentId, newIds, userId]);
+  }
+  return newIds;
+}
+
+// Plain text for emails: mention tokens become @ with the user's current name
+async function getMentionExcerpt(text) {
+  const userIds = getMentionedUserIds(text);
+  const namesResult = userIds.length > 0
+    ? await pool.query('SELECT id, name FROM users WHERE id = ANY($1::int[])', [userIds])
+    : { rows: [] };
+  const names = new Map(namesResult.rows.map(row => [row.id, row.name]));
+
+  const plainText = text.replace(MENTION_PATTERN, (token, label, id) => `@${names.get(Number(id)) || label}`).trim();
+  return plainText.length > EXCERPT_LENGTH ? `${plainText.slice(0, EXCERPT_LENGTH)}…` : plainText;
+}
+
+// Let newly mentioned users know, in the app and by email. Never throws: a failed notification must
+// not fail the change that caused it.
+async function notifyMentions(taskId, userIds, mentionedBy, { commentId = null } = {}) {
+  const recipientIds = userIds.filter(id => id !== mentionedBy);
+  if (recipientIds.length === 0) return;
+
+  try {
+    await createNotifications(recipientIds, 'task_mentioned', { actorId: mentionedBy, taskId, data: { in_comment: !!commentId } });
+
+    const taskResult = await pool.query(`
+      SELECT t.title, t.description, w.name as workspace_name, u.name as author_name, tc.body as comment_body
+      FROM tasks t
+      JOIN workspaces w ON t.workspace_id = w.id
+      LEFT JOIN users u ON u.id = $2
+      LEFT JOIN task_comments tc ON tc.id = $3
+      WHERE t.id = $1
+    `, [taskId, mentionedBy, commentId]);
+    const task = taskResult.rows[0];
+    if (!task) return;
+
+    const excerpt = await getMentionExcerpt((commentId ? task.comment_body : task.description) || '');
+    const recipientsResult = await pool.query('SELECT email FROM users WHERE id = ANY($1::int[])', [recipientIds]);
+    for (const recipient of recipientsResult.rows) {
+      await sendMentionEmail(recipient.email, {
+        authorName: task.author_name || 'Someone',
+        taskTitle: task.title,
+        workspaceName: task.workspace_name,
+        excerpt,
+        inComment: !!commentId
+      });
+    }
+  } catch (error) {
+    console.error('Error sending mention notifications:', error);
+  }
+}
+
+module.exports = {
+  getMentionedUserIds,
+  syncMentions,
+  notifyMentions
+};
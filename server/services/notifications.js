@@ -0,0 +1,40 @@
+// In-app notifications: what other users did to the tasks and workspaces a user is involved in
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+
+// Notify users of something the actor did; nobody is notified of their own actions. type is one of
+// task_assigned, task_status (data: from, to), task_mentioned (data: in_comment), workspace_access
+// (data: change, one of added, changed or removed, and access_level) or workspace_ownership.
+// Task notifications belong to the task's workspace unless workspaceId says otherwise.
+async function createNotifications(userIds, type, { actorId = null, workspaceId = null, taskId = null, data = {} } = {}, db = pool) {
+  const recipientIds = [...new Set(userIds.filter(Boolean).map(Number))]
+    .filter(userId => actorId === null || userId !== Number(actorId));
+  if (recipientIds.length === 0) return;
+
+  await db.query(`
+    INSERT INTO notifications (user_id, type, actor_id, workspace_id, task_id, data, created_at)
+    SELECT recipient.user_id, $2, $3, COALESCE($4, (SELECT workspace_id FROM tasks WHERE id = $5)), $5, $6, $7
+    FROM UNNEST($1::int[]) AS recipient(user_id)
+  `, [recipientIds, type, actorId, workspaceId, taskId, JSON.stringify(data), moment().utc().format('YYYY-MM-DD HH:mm:ss')]);
+}
+
+// Tell a task's assignees that it moved to another status, with the status names of the workflow
+async function notifyStatusChange(taskId, fromStatus, toStatus, statuses, actorId, db = pool) {
+  if (fromStatus === toStatus) return;
+
+  const getStatusName = (key) => {
+    const status = statuses.find(s => s.key === key);
+    return status ? status.name : key;
+  };
+  const assigneeResult = await db.query('SELECT user_id FROM task_assignees WHERE task_id = $1', [taskId]);
+  await createNotifications(assigneeResult.rows.map(row => row.user_id), 'task_status', {
+    actorId,
+    taskId,
+    data: { from: getStatusName(fromStatus), to: getStatusName(toStatus) }
+  }, db);
+}
+
+module.exports = {
+  createNotifications,
+  notifyStatusChange
+};
@@ -0,0 +1,165 @@
+// Recurring task rules and generation of the next occurrence
+const moment = require('moment-timezone');
+const { pool, addTaskHistory } = require('../database-pg');
+const { addBusinessDays, getLocalToday } = require('./businessDays');
+const { TASK_TAG_COLUMNS, copyTaskTags } = require('./taskTags');
+const { TASK_CUSTOM_FIELD_COLUMN, copyCustomFieldValues } = require('./customFields');
+const { getWorkspaceStatuses, getInitialStatus } = require('./statuses');
+const { getHolidayDates, escalateTasks } = require('./escalation');
+const { getUserTimezone } = require('./userTimezone');
+const { syncMentions } = require('./mentions');
+
+const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly', 'business_days'];
+
+// Returns an error message for an invalid rule, or null if the rule can be stored.
+// Rules look like:
+//   { frequency: 'daily', interval: 2 }              every 2 days
+//   { frequency: 'weekly', weekdays: [1, 3] }        every Monday and Wednesday (0 = Sunday)
+//   { frequency: 'monthly', day_of_month: 15 }       on the 15th of every month
+//   { frequency: 'business_days', interval: 3 }      every 3 business days
+function validateRecurrenceRule(rule) {
+  if (rule === null) return null;
+
+  if (typeof rule !== 'object' || !RECURRENCE_FREQUENCIES.includes(rule.frequency)) {
+    return 'Invalid recurrence frequency';
+  }
+  if (rule.interval !== undefined && (!Number.isInteger(rule.interval) || rule.interval < 1)) {
+    return 'Recurrence interval must be a positive whole number';
+  }
+  if (rule.frequency === 'weekly' &&
+      (!Array.isArray(rule.weekdays) || rule.weekdays.length === 0 ||
+       rule.weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6))) {
+    return 'Weekly recurrence needs at least one weekday';
+  }
+  if (rule.frequency === 'monthly' &&
+      (!Number.isInteger(rule.day_of_month) || rule.day_of_month < 1 || rule.day_of_month > 31)) {
+    return 'Monthly recurrence needs a day of month between 1 and 31';
+  }
+
+  return null;
+}
+
+// Get the first date matching the rule that comes strictly after fromDate;
+// business-day rules skip the given holidays
+function getNextOccurrence(rule, fromDate, holidays = []) {
+  const from = moment(fromDate).startOf('day');
+  const interval = rule.interval || 1;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return from.clone().add(interval, 'days').format('YYYY-MM-DD');
+    case 'business_days':
+      return addBusinessDays(from, interval, holidays);
+    case 'weekly': {
+      const next = from.clone().add(1, 'day');
+      while (!rule.weekdays.includes(next.day())) {
+        next.add(1, 'day');
+      }
+      return next.format('YYYY-MM-DD');
+    }
+    case 'monthly': {
+      // Days past the end of a shorter month fall on its last day (the 31st becomes Feb 28)
+      const month = from.clone().startOf('month');
+      let next = month.clone().date(Math.min(rule.day_of_month, month.daysInMonth()));
+      if (!next.isAfter(from)) {
+        month.add(1, 'month');
+        next = month.clone().date(Math.min(rule.day_of_month, month.daysInMonth()));
+      }
+      return next.format('YYYY-MM-DD');
+    }
+    default:
+      return null;
+  }
+}
+
+// Create the next instance of a recurring task that was just completed.
+// The new task links back to the completed one through recurring_from_task_id.
+async function createNextRecurrence(task, userId) {
+  if (!task.recurrence_rule) return null;
+
+  // Only one follow-up per occurrence, even if the task is reopened and completed again
+  const existing = await pool.query('SELECT id FROM tasks WHERE recurring_from_task_id = $1', [task.id]);
+  if (existing.rows.length > 0) return null;
+
+  // Occurrences are counted from today where the completing user is
+  const timezone = await getUserTimezone(userId);
+  const today = getLocalToday(timezone);
+  const holidays = await getHolidayDates(task.workspace_id);
+  let nextDueDate = getNextOccurrence(task.recurrence_rule, task.due_date || today, holidays);
+  // A task completed late skips the occurrences that are already in the past
+  while (nextDueDate && nextDueDate <= today) {
+    nextDueDate = getNextOccurrence(task.recurrence_rule, nextDueDate, holidays);
+  }
+  if (!nextDueDate) return null;
+
+  // The next occurrence starts from the priority set by hand; the escalation policy applies on top
+  const priority = task.escalated_from || task.priority;
+  const status = getInitialStatus(await getWorkspaceStatuses(task.workspace_id)).key;
+  const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+
+  const result = await pool.query(`
+    INSERT INTO tasks (user_id, workspace_id, title, description, category_id, priority, status, due_date,
+                       parent_task_id, recurrence_rule, recurring_from_task_id, estimate, created_at, last_modified)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $13)
+    RETURNING id
+  `, [
+    task.user_id,
+    task.workspace_id,
+    task.title,
+    task.description,
+    task.category_id,
+    priority,
+    status,
+    nextDueDate,
+    task.parent_task_id,
+    JSON.stringify(task.recurrence_rule),
+    task.id,
+    task.estimate,
+    now
+  ]);
+  const nextTaskId = result.rows[0].id;
+
+  await copyTaskTags(task.id, nextTaskId);
+  await copyCustomFieldValues(task.id, nextTaskId, task.workspace_id);
+  await syncMentions(nextTaskId, null, task.description, userId);
+
+  // The next occurrence goes to the same people
+  await pool.query(`
+    INSERT INTO task_assignees (task_id, user_id, assigned_by, assigned_at)
+    SELECT $1, user_id, $2, $3 FROM task_assignees WHERE task_id = $4
+  `, [nextTaskId, userId, now, task.id]);
+
+  await addTaskHistory(nextTaskId, status, `Created from recurring task #${task.id}`);
+  await escalateTasks([nextTaskId], { timezone });
+
+  const fullRowResult = await pool.query(`
+    SELECT t.*, c.name as category_name,${TASK_TAG_COLUMNS},${TASK_CUSTOM_FIELD_COLUMN},
+           COALESCE(
+             (SELECT ARRAY_AGG(DISTINCT u.name)
+              FROM task_assignees ta2
+              JOIN users u ON ta2.user_id = u.id
+              WHERE ta2.task_id = t.id),
+             ARRAY[]::text[]
+           ) as assignee_names,
+           COALESCE(
+             (SELECT ARRAY_AGG(DISTINCT u.email)
+              FROM task_assignees ta2
+              JOIN users u ON ta2.user_id = u.id
+              WHERE ta2.task_id = t.id),
+             ARRAY[]::text[]
+           ) as assignee_emails
+    FROM tasks t
+    LEFT JOIN categories c ON t.category_id = c.id
+    WHERE t.id = $1
+  `, [nextTaskId]);
+
+  console.log(`🔁 Created next occurrence #${nextTaskId} of recurring task #${task.id} due ${nextDueDate}`);
+  return fullRowResult.rows[0];
+}
+
+module.exports = {
+  RECURRENCE_FREQUENCIES,
+  validateRecurrenceRule,
+  getNextOccurrence,
+  createNextRecurrence
+};
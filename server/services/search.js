@@ -0,0 +1,69 @@
+// Full-text search over tasks and their comments
+const { pool } = require('../database-pg');
+
+// Matches the expressions indexed in migration 014
+const TASK_DOCUMENT = "task_search_document(t.title, t.description)";
+const COMMENT_DOCUMENT = "to_tsvector('english', tc.body)";
+
+const HIGHLIGHT_OPTIONS = 'StartSel=<mark>, StopSel=</mark>';
+const SNIPPET_OPTIONS = `${HIGHLIGHT_OPTIONS}, MaxFragments=2, MaxWords=20, MinWords=5, FragmentDelimiter=" … "`;
+
+const MAX_SEARCH_RESULTS = 50;
+
+// WHERE condition matching tasks whose title, description or any comment matches the
+// search text bound at paramRef (e.g. '$3')
+function buildTaskSearchCondition(paramRef) {
+  const query = `websearch_to_tsquery('english', ${paramRef})`;
+  return `(${TASK_DOCUMENT} @@ ${query} OR EXISTS (
+    SELECT 1 FROM task_comments tc WHERE tc.task_id = t.id AND ${COMMENT_DOCUMENT} @@ ${query}
+  ))`;
+}
+
+// Search every workspace the user has access to, best matches first.
+// Highlighted fragments are wrapped in <mark></mark>.
+async function searchTasks(userId, text, { workspaceId, limit } = {}) {
+  const params = [userId, text, Math.min(Number(limit) || 20, MAX_SEARCH_RESULTS)];
+  let workspaceCondition = '';
+  if (workspaceId) {
+    params.push(workspaceId);
+    workspaceCondition = `AND t.workspace_id = $${params.length}`;
+  }
+
+  const result = await pool.query(`
+    SELECT t.id, t.title, t.status, t.priority, t.due_date, t.parent_task_id,
+           t.workspace_id, w.name as workspace_name,
+           ts_rank(${TASK_DOCUMENT}, query) + COALESCE(mc.rank, 0) * 0.5 as rank,
+           ts_headline('english', t.title, query, 'HighlightAll=true, ${HIGHLIGHT_OPTIONS}') as title_highlight,
+           CASE
+             WHEN to_tsvector('english', COALESCE(t.description, '')) @@ query
+               THEN ts_headline('english', t.description, query, '${SNIPPET_OPTIONS}')
+             WHEN mc.body IS NOT NULL
+               THEN ts_headline('english', mc.body, query, '${SNIPPET_OPTIONS}')
+           END as snippet,
+           CASE
+             WHEN to_tsvector('english', COALESCE(t.description, '')) @@ query THEN 'description'
+             WHEN mc.body IS NOT NULL THEN 'comment'
+           END as snippet_source
+    FROM tasks t
+    INNER JOIN workspace_permissions wp ON wp.workspace_id = t.workspace_id AND wp.user_id = $1
+    INNER JOIN workspaces w ON w.id = t.workspace_id
+    CROSS JOIN websearch_to_tsquery('english', $2) query
+    LEFT JOIN LATERAL (
+      SELECT tc.body, ts_rank(${COMMENT_DOCUMENT}, query) as rank
+      FROM task_comments tc
+      WHERE tc.task_id = t.id AND ${COMMENT_DOCUMENT} @@ query
+      ORDER BY rank DESC
+      LIMIT 1
+    ) mc ON true
+    WHERE t.deleted_at IS NULL AND (${TASK_DOCUMENT} @@ query OR mc.body IS NOT NULL) ${workspaceCondition}
+    ORDER BY rank DESC, t.last_modified DESC
+    LIMIT $3
+  `, params);
+
+  return result.rows;
+}
+
+module.exports = {
+  buildTaskSearchCondition,
+  searchTasks
+};
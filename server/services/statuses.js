@@ -0,0 +1,209 @@
+// Status workflows (workspace_statuses table): each workspace defines its own statuses.
+// Tasks store the status key; the category of a status (not started / active / done)
+// drives dates, timers, dependency checks, roll-ups and sorting.
+const { pool } = require('../database-pg');
+
+const STATUS_CATEGORIES = ['not_started', 'active', 'done'];
+const MAX_NAME_LENGTH = 40;
+const MAX_KEY_LENGTH = 20;
+const KEY_PATTERN = /^[a-z0-9_]{1,20}$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// The workflow every new workspace starts with
+const DEFAULT_STATUSES = [
+  { key: 'todo', name: 'To Do', color: '#6b7280', category: 'not_started' },
+  { key: 'in_progress', name: 'In Progress', color: '#2563eb', category: 'active' },
+  { key: 'paused', name: 'Paused', color: '#d97706', category: 'active' },
+  { key: 'done', name: 'Done', color: '#16a34a', category: 'done' }
+];
+
+// Category of the status of the task aliased `alias`; NULL for a status missing from its workflow
+const STATUS_CATEGORY_SQL = (alias) =>
+  `(SELECT wst.category FROM workspace_statuses wst WHERE wst.workspace_id = ${alias}.workspace_id AND wst.key = ${alias}.status)`;
+
+// Statuses of a workspace in workflow order
+async function getWorkspaceStatuses(workspaceId, db = pool) {
+  const result = await db.query(
+    'SELECT * FROM workspace_statuses WHERE workspace_id = $1 ORDER BY position, id',
+    [workspaceId]
+  );
+  return result.rows;
+}
+
+// Statuses of several workspaces, as a Map of workspace id to its statuses in workflow order
+async function getStatusesByWorkspace(workspaceIds, db = pool) {
+  const result = await db.query(
+    'SELECT * FROM workspace_statuses WHERE workspace_id = ANY($1::int[]) ORDER BY position, id',
+    [workspaceIds.map(Number)]
+  );
+  const statusesByWorkspace = new Map(workspaceIds.map(workspaceId => [Number(workspaceId), []]));
+  for (const status of result.rows) {
+    statusesByWorkspace.get(status.workspace_id).push(status);
+  }
+  return statusesByWorkspace;
+}
+
+// Give a new workspace the default workflow
+async function createDefaultStatuses(workspaceId, db = pool) {
+  for (const [index, status] of DEFAULT_STATUSES.entries()) {
+    await db.query(`
+      INSERT INTO workspace_statuses (workspace_id, key, name, color, category, position)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (workspace_id, key) DO NOTHING
+    `, [workspaceId, status.key, status.name, status.color, status.category, index + 1]);
+  }
+}
+
+function findStatus(statuses, key) {
+  return statuses.find(status => status.key === key) || null;
+}
+
+function getStatusCategory(statuses, key) {
+  const status = findStatus(statuses, key);
+  return status ? status.category : null;
+}
+
+// First status of a category in workflow order
+function getFirstStatusOfCategory(statuses, category) {
+  return statuses.find(status => status.category === category) || null;
+}
+
+// New tasks start in the first not-started status
+function getInitialStatus(statuses) {
+  return getFirstStatusOfCategory(statuses, 'not_started');
+}
+
+// The first active status is where the work happens: entering it starts the user's timer
+function getWorkingStatus(statuses) {
+  return getFirstStatusOfCategory(statuses, 'active');
+}
+
+// Whether moving from one status to another counts as starting the task
+function isStartingTransition(statuses, fromKey, toKey) {
+  return getStatusCategory(statuses, toKey) === 'active' && getStatusCategory(statuses, fromKey) !== 'active';
+}
+
+// Whether moving from one status to another completes the task
+function isCompletingTransition(statuses, fromKey, toKey) {
+  return getStatusCategory(statuses, toKey) === 'done' && getStatusCategory(statuses, fromKey) !== 'done';
+}
+
+// Returns an error message when a task may not move between the two statuses, or null if it may.
+// A status outside the workflow (left over from a move) can move anywhere.
+function getTransitionError(statuses, fromKey, toKey) {
+  const target = findStatus(statuses, toKey);
+  if (!target) return 'Invalid status';
+  if (fromKey === toKey) return null;
+  const current = findStatus(statuses, fromKey);
+  if (current && Array.isArray(current.allowed_transitions) && !current.allowed_transitions.includes(toKey)) {
+    return `Cannot move from "${current.name}" to "${target.name}"`;
+  }
+  return null;
+}
+
+// Derive a parent's status from the statuses of its subtasks:
+// all done -> the first done status; any active -> the earliest active status among them;
+// some done and the rest not started -> the working status; otherwise the earliest not-started one
+function deriveStatusFromSubtasks(subtaskStatuses, statuses) {
+  const categories = subtaskStatuses.map(key => getStatusCategory(statuses, key));
+  const earliestOf = (category) => statuses.find(status => status.category === category && subtaskStatuses.includes(status.key));
+
+  if (categories.every(category => category === 'done')) {
+    return getFirstStatusOfCategory(statuses, 'done').key;
+  }
+  if (categories.includes('active')) {
+    return earliestOf('active').key;
+  }
+  if (categories.includes('done')) {
+    return getWorkingStatus(statuses).key;
+  }
+  const notStarted = earliestOf('not_started') || getInitialStatus(statuses);
+  return notStarted.key;
+}
+
+// The status a task gets when it moves to another workflow: the same key if the target has it,
+// otherwise the first target status of the same category
+function mapStatusToWorkflow(key, fromStatuses, toStatuses) {
+  if (findStatus(toStatuses, key)) return key;
+  const category = getStatusCategory(fromStatuses, key) || 'not_started';
+  return (getFirstStatusOfCategory(toStatuses, category) || getInitialStatus(toStatuses)).key;
+}
+
+// Build a key for a new status from its name, unique among takenKeys
+function buildStatusKey(name, takenKeys) {
+  const base = String(name).toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, MAX_KEY_LENGTH - 3) || 'status';
+  let key = base;
+  for (let suffix = 2; takenKeys.includes(key); suffix++) {
+    key = `${base}_${suffix}`;
+  }
+  return key;
+}
+
+// Returns an error message when a workflow is not usable, or null if it is.
+// Statuses are { key, name, color, category, allowed_transitions } with keys already assigned.
+function validateWorkflow(statuses) {
+  if (!Array.isArray(statuses) || statuses.length === 0) {
+    return 'statuses must be a non-empty list';
+  }
+  const names = new Set();
+  const keys = new Set();
+  for (const status of statuses) {
+    if (typeof status.key !== 'string' || !KEY_PATTERN.test(status.key)) {
+      return 'Status keys use lowercase letters, digits and underscores (at most 20)';
+    }
+    if (keys.has(status.key)) {
+      return `Status key "${status.key}" is used twice`;
+    }
+    keys.add(status.key);
+    if (typeof status.name !== 'string' || !status.name.trim()) {
+      return 'Status name is required';
+    }
+    if (status.name.trim().length > MAX_NAME_LENGTH) {
+      return `Status name must be at most ${MAX_NAME_LENGTH} characters`;
+    }
+    if (names.has(status.name.trim().toLowerCase())) {
+      return `Status "${status.name.trim()}" is listed twice`;
+    }
+    names.add(status.name.trim().toLowerCase());
+    if (!COLOR_PATTERN.test(status.color || '')) {
+      return 'color must be a hex color like #2563eb';
+    }
+    if (!STATUS_CATEGORIES.includes(status.category)) {
+      return `category must be one of: ${STATUS_CATEGORIES.join(', ')}`;
+    }
+  }
+  // New tasks, started tasks and finished tasks each need somewhere to go
+  for (const category of STATUS_CATEGORIES) {
+    if (!getFirstStatusOfCategory(statuses, category)) {
+      return `The workflow needs at least one ${category.replace('_', ' ')} status`;
+    }
+  }
+  for (const status of statuses) {
+    const transitions = status.allowed_transitions;
+    if (transitions === null || transitions === undefined) continue;
+    if (!Array.isArray(transitions) || !transitions.every(key => keys.has(key))) {
+      return `Transitions of "${status.name.trim()}" must list statuses of this workflow`;
+    }
+  }
+  return null;
+}
+
+module.exports = {
+  STATUS_CATEGORIES,
+  DEFAULT_STATUSES,
+  STATUS_CATEGORY_SQL,
+  getWorkspaceStatuses,
+  getStatusesByWorkspace,
+  createDefaultStatuses,
+  findStatus,
+  getStatusCategory,
+  getInitialStatus,
+  getWorkingStatus,
+  isStartingTransition,
+  isCompletingTransition,
+  getTransitionError,
+  deriveStatusFromSubtasks,
+  mapStatusToWorkflow,
+  buildStatusKey,
+  validateWorkflow
+};
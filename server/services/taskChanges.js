@@ -0,0 +1,98 @@
+// Field-level audit trail of task changes (task_changes table)
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+
+// Pass as the acting user for automatic changes (escalation, derived parent status, ...)
+const SYSTEM_ACTOR = null;
+
+// Task columns whose changes are logged, and the name they are logged under
+const TRACKED_FIELDS = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  start_date: 'start_date',
+  due_date: 'due_date',
+  completion_date: 'completion_date',
+  category_id: 'category',
+  parent_task_id: 'parent_task',
+  recurrence_rule: 'recurrence',
+  estimate: 'estimate'
+};
+
+// Store every value as text so old and new values compare the same way
+function toLoggedValue(value) {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return moment(value).format('YYYY-MM-DD');
+  if (Array.isArray(value)) return value.length > 0 ? [...value].sort().join(', ') : null;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Record a single field change; nothing is written when the value did not change.
+// reason explains automatic changes, e.g. which escalation rule raised a priority.
+async function recordTaskChange(taskId, field, oldValue, newValue, userId, db = pool, reason = null) {
+  const oldText = toLoggedValue(oldValue);
+  const newText = toLoggedValue(newValue);
+  if (oldText === newText) return;
+
+  const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+  await db.query(`
+    INSERT INTO task_changes (task_id, field, old_value, new_value, actor, changed_by, changed_at, reason)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+  `, [taskId, field, oldText, newText, userId ? 'user' : 'system', userId || null, now, reason]);
+}
+
+// Compare two versions of a tasks row and record every tracked field that differs.
+// fieldActors can override the actor of individual columns, e.g. { priority: SYSTEM_ACTOR }.
+async function recordTaskRowChanges(before, after, userId, fieldActors = {}, db = pool) {
+  for (const [column, field] of Object.entries(TRACKED_FIELDS)) {
+    let oldValue = before[column];
+    let newValue = after[column];
+    if (toLoggedValue(oldValue) === toLoggedValue(newValue)) continue;
+
+    // Categories are logged by name so the trail stays readable after a category is deleted
+    if (column === 'category_id') {
+      const categoryResult = await db.query(
+        'SELECT id, name FROM categories WHERE id = ANY($1::int[])',
+        [[oldValue, newValue].filter(Boolean)]
+      );
+      const categoryNames = new Map(categoryResult.rows.map(row => [row.id, row.name]));
+      oldValue = oldValue ? categoryNames.get(oldValue) || `#${oldValue}` : null;
+      newValue = newValue ? categoryNames.get(newValue) || `#${newValue}` : null;
+    }
+
+    const actor = Object.prototype.hasOwnProperty.call(fieldActors, column) ? fieldActors[column] : userId;
+    await recordTaskChange(after.id, field, oldValue, newValue, actor, db);
+  }
+}
+
+// Names of the users assigned to a task, for logging assignee changes
+async function getAssigneeNames(taskId, db = pool) {
+  const result = await db.query(`
+    SELECT u.name FROM task_assignees ta
+    JOIN users u ON ta.user_id = u.id
+    WHERE ta.task_id = $1
+    ORDER BY u.name
+  `, [taskId]);
+  return result.rows.map(row => row.name);
+}
+
+// Names of the tags on a task, for logging tag changes
+async function getTagNames(taskId, db = pool) {
+  const result = await db.query(`
+    SELECT tg.name FROM task_tags tt
+    JOIN tags tg ON tt.tag_id = tg.id
+    WHERE tt.task_id = $1
+    ORDER BY tg.name
+  `, [taskId]);
+  return result.rows.map(row => row.name);
+}
+
+module.exports = {
+  SYSTEM_ACTOR,
+  recordTaskChange,
+  recordTaskRowChanges,
+  getAssigneeNames,
+  getTagNames
+};
@@ -0,0 +1,209 @@
+// Sorting and cursor pagination of task lists. A sort is a comma-separated list of keys, each optionally
+// prefixed with - for descending order, e.g. "status,-due_date,custom_field:3". Pages are cut after the
+// sort values of the last task of the previous page (keyset pagination), so tasks added or changed
+// between requests do not make later pages skip or repeat tasks.
+const { pool } = require('../database-pg');
+const { getCustomFieldsByIds } = require('./customFields');
+
+const SORT_KEYS = ['status', 'priority', 'due_date', 'created_at', 'last_modified', 'title', 'category', 'position'];
+const CUSTOM_FIELD_SORT_PREFIX = 'custom_field:';
+const MAX_SORT_KEYS = 5;
+
+// How each view lists tasks unless a sort is given; the same order the views have always used
+const DEFAULT_SORTS = {
+  planner: 'status,priority,title',
+  tracker: 'category,status,title'
+};
+const DEFAULT_SORT = 'title';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+// Status categories in the order each view lists them; statuses of a category follow the workflow
+const STATUS_CATEGORY_ORDER = {
+  planner: ['active', 'not_started', 'done'],
+  tracker: ['done', 'active', 'not_started']
+};
+
+const PRIORITY_ORDER_SQL = "CASE t.priority WHEN 'urgent' THEN 1 WHEN 'high' THEN 2 WHEN 'normal' THEN 3 WHEN 'low' THEN 4 ELSE 5 END";
+
+// Dates and timestamps are compared as epoch seconds, which survive the round trip through a cursor exactly
+const epochSql = (sql) => `EXTRACT(EPOCH FROM ${sql})`;
+
+// Parse a sort parameter into [{ key, field_id, descending }]. Returns { keys } or { error }.
+function parseSort(sort, view) {
+  const value = sort === undefined || sort === '' ? (DEFAULT_SORTS[view] || DEFAULT_SORT) : sort;
+  if (typeof value !== 'string') {
+    return { error: 'sort must be a comma-separated list of sort keys' };
+  }
+
+  const keys = [];
+  for (const part of value.split(',').map(item => item.trim())) {
+    const descending = part.startsWith('-');
+    const key = descending ? part.slice(1) : part;
+    if (key.startsWith(CUSTOM_FIELD_SORT_PREFIX)) {
+      const fieldId = Number(key.slice(CUSTOM_FIELD_SORT_PREFIX.length));
+      if (!Number.isInteger(fieldId)) {
+        return { error: `Invalid sort key: ${part}` };
+      }
+      keys.push({ key: `${CUSTOM_FIELD_SORT_PREFIX}${fieldId}`, field_id: fieldId, descending });
+    } else if (SORT_KEYS.includes(key)) {
+      keys.push({ key, descending });
+    } else {
+      return { error: `Invalid sort key: ${part || '(empty)'}. Use ${SORT_KEYS.join(', ')} or ${CUSTOM_FIELD_SORT_PREFIX}<field id>` };
+    }
+  }
+  if (keys.length > MAX_SORT_KEYS) {
+    return { error: `At most ${MAX_SORT_KEYS} sort keys are allowed` };
+  }
+  if (new Set(keys.map(item => item.key)).size !== keys.length) {
+    return { error: 'Each sort key can be used only once' };
+  }
+  return { keys };
+}
+
+// SQL giving a task's value of a custom field in sortable form: { sql, type, nullable }.
+// Select fields sort in the order of their options, checked checkboxes before unchecked ones.
+function getCustomFieldSortValue(field, addParam) {
+  const value = (expression) =>
+    `(SELECT ${expression} FROM task_custom_field_values cv WHERE cv.task_id = t.id AND cv.field_id = ${addParam(field.id)})`;
+
+  switch (field.field_type) {
+    case 'number':
+      return { sql: value("(cv.value #>> '{}')::numeric"), type: 'numeric', nullable: true };
+    case 'date':
+      return { sql: value(epochSql("(cv.value #>> '{}')::date")), type: 'numeric', nullable: true };
+    case 'checkbox':
+      return { sql: `COALESCE(${value("CASE WHEN cv.value = 'true'::jsonb THEN 0 ELSE 1 END")}, 1)`, type: 'numeric', nullable: false };
+    case 'select':
+      return { sql: value(`array_position(${addParam(field.options || [])}::text[], cv.value #>> '{}')`), type: 'numeric', nullable: true };
+    case 'multi_select':
+      return { sql: value('LOWER(cv.value::text)'), type: 'text', nullable: true };
+    default:
+      return { sql: value("LOWER(cv.value #>> '{}')"), type: 'text', nullable: true };
+  }
+}
+
+// The sortable values of one sort key: { sql, type, nullable, nulls_first }
+function getSortValues(sortKey, view, field, addParam) {
+  switch (sortKey.key) {
+    case 'status': {
+      const categoryOrder = STATUS_CATEGORY_ORDER[view] || STATUS_CATEGORY_ORDER.planner;
+      const categoryCases = categoryOrder.map((category, index) => `WHEN '${category}' THEN ${index + 1}`).join(' ');
+      return [
+        { sql: `CASE ws.category ${categoryCases} ELSE ${categoryOrder.length + 1} END`, type: 'numeric' },
+        { sql: 'COALESCE(ws.position, 0)', type: 'numeric' }
+      ];
+    }
+    case 'priority':
+      return [{ sql: PRIORITY_ORDER_SQL, type: 'numeric' }];
+    case 'due_date':
+    case 'created_at':
+    case 'last_modified':
+      return [{ sql: epochSql(`t.${sortKey.key}`), type: 'numeric', nullable: true }];
+    case 'title':
+      return [{ sql: "COALESCE(t.title, '')", type: 'text' }];
+    // Tasks without a category come first, like the Unassigned group
+    case 'category':
+      return [{ sql: 'c.name', type: 'text', nullable: true, nulls_first: true }];
+    // The custom order set by hand; tasks never placed come last
+    case 'position':
+      return [{ sql: 't.position', type: 'numeric', nullable: true }];
+    default:
+      return [getCustomFieldSortValue(field, addParam)];
+  }
+}
+
+// Build the ORDER BY columns of a parsed sort, ending with the task id so the order is total.
+// addParam adds a query parameter and returns its placeholder. Custom fields must exist and,
+// when workspaceId is given, belong to that workspace. Returns { columns } or { error }.
+async function buildSortColumns(keys, { view, workspaceId, addParam }, db = pool) {
+  const fieldIds = keys.filter(sortKey => sortKey.field_id).map(sortKey => sortKey.field_id);
+  const fields = await getCustomFieldsByIds(fieldIds, db);
+
+  const columns = [];
+  for (const sortKey of keys) {
+    const field = sortKey.field_id ? fields.get(sortKey.field_id) : null;
+    if (sortKey.field_id && (!field || (workspaceId && String(field.workspace_id) !== String(workspaceId)))) {
+      return { error: `Custom field ${sortKey.field_id} does not belong to this workspace` };
+    }
+
+    for (const value of getSortValues(sortKey, view, field, addParam)) {
+      if (!value.nullable) {
+        columns.push({ sql: value.sql, type: value.type, descending: sortKey.descending });
+        continue;
+      }
+      // Missing values sort last (or first) whatever the direction, so they get a column of their own
+      columns.push({ sql: `CASE WHEN ${value.sql} IS NULL THEN ${value.nulls_first ? 0 : 1} ELSE ${value.nulls_first ? 1 : 0} END`, type: 'numeric', descending: false });
+      columns.push({
+        sql: `COALESCE(${value.sql}, ${value.type === 'numeric' ? '0' : "''"})`,
+        type: value.type,
+        descending: sortKey.descending
+      });
+    }
+  }
+  columns.push({ sql: 't.id', type: 'numeric', descending: false });
+  return { columns };
+}
+
+function buildOrderBy(columns) {
+  return columns.map(column => `${column.sql} ${column.descending ? 'DESC' : 'ASC'}`).join(', ');
+}
+
+// Select-list column with a task's sort values, from which the cursor of the next page is made.
+// Values are read as text so numbers keep their exact value.
+function buildCursorColumn(columns) {
+  return `json_build_array(${columns.map(column => `(${column.sql})::text`).join(', ')}) as sort_cursor`;
+}
+
+// Condition matching the tasks that come after the given sort values
+function buildCursorCondition(columns, values, addParam) {
+  const placeholders = columns.map((column, index) => `${addParam(values[index])}::${column.type}`);
+  const alternatives = columns.map((column, index) => {
+    const equalities = columns.slice(0, index).map((previous, previousIndex) => `${previous.sql} = ${placeholders[previousIndex]}`);
+    const after = `${column.sql} ${column.descending ? '<' : '>'} ${placeholders[index]}`;
+    return `(${[...equalities, after].join(' AND ')})`;
+  });
+  return `(${alternatives.join(' OR ')})`;
+}
+
+// Cursors are opaque to clients; they remember the sort they were made for
+function encodeCursor(keys, values) {
+  const sort = keys.map(sortKey => `${sortKey.descending ? '-' : ''}${sortKey.key}`).join(',');
+  return Buffer.from(JSON.stringify({ sort, values })).toString('base64');
+}
+
+// The sort values of a cursor, or null when it is unreadable or was made for another sort
+function decodeCursor(cursor, keys, columns) {
+  const sort = keys.map(sortKey => `${sortKey.descending ? '-' : ''}${sortKey.key}`).join(',');
+  try {
+    const decoded = JSON.parse(Buffer.from(String(cursor), 'base64').toString('utf8'));
+    if (!decoded || decoded.sort !== sort || !Array.isArray(decoded.values) || decoded.values.length !== columns.length) {
+      return null;
+    }
+    return decoded.values.map(value => (value === null ? null : String(value)));
+  } catch (e) {
+    return null;
+  }
+}
+
+// Returns an error message when a page size is not usable, or null if it is
+function validatePageSize(limit) {
+  const pageSize = Number(limit);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return `limit must be a whole number between 1 and ${MAX_PAGE_SIZE}`;
+  }
+  return null;
+}
+
+module.exports = {
+  DEFAULT_PAGE_SIZE,
+  parseSort,
+  buildSortColumns,
+  buildOrderBy,
+  buildCursorColumn,
+  buildCursorCondition,
+  encodeCursor,
+  decodeCursor,
+  validatePageSize
+};
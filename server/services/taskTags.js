@@ -0,0 +1,59 @@
+// Tags attached to tasks through the task_tags join table
+const { pool } = require('../database-pg');
+
+// Select-list columns giving a task's tags as parallel arrays, ordered by tag name.
+// Expects the task table to be aliased as t.
+const TASK_TAG_COLUMNS = `
+           COALESCE(
+             (SELECT ARRAY_AGG(tg.id ORDER BY tg.name)
+              FROM task_tags tt
+              JOIN tags tg ON tt.tag_id = tg.id
+              WHERE tt.task_id = t.id),
+             ARRAY[]::int[]
+           ) as tag_ids,
+           COALESCE(
+             (SELECT ARRAY_AGG(tg.name ORDER BY tg.name)
+              FROM task_tags tt
+              JOIN tags tg ON tt.tag_id = tg.id
+              WHERE tt.task_id = t.id),
+             ARRAY[]::text[]
+           ) as tag_names`;
+
+// Returns an error message when tag_ids is not a list of ids, or null if it is usable
+function validateTagIds(tagIds) {
+  if (!Array.isArray(tagIds) || tagIds.some(id => !Number.isInteger(Number(id)))) {
+    return 'tag_ids must be an array of tag ids';
+  }
+  return null;
+}
+
+// Replace a task's tags. Tags from other workspaces are ignored.
+async function setTaskTags(taskId, tagIds, db = pool) {
+  await db.query('DELETE FROM task_tags WHERE task_id = $1', [taskId]);
+  if (tagIds.length === 0) return;
+
+  await db.query(`
+    INSERT INTO task_tags (task_id, tag_id)
+    SELECT t.id, tg.id
+    FROM tasks t
+    JOIN tags tg ON tg.workspace_id = t.workspace_id
+    WHERE t.id = $1 AND tg.id = ANY($2::int[])
+    ON CONFLICT DO NOTHING
+  `, [taskId, tagIds.map(Number)]);
+}
+
+// Give a task the same tags as another task
+async function copyTaskTags(fromTaskId, toTaskId, db = pool) {
+  await db.query(`
+    INSERT INTO task_tags (task_id, tag_id)
+    SELECT $1, tag_id FROM task_tags WHERE task_id = $2
+    ON CONFLICT DO NOTHING
+  `, [toTaskId, fromTaskId]);
+}
+
+module.exports = {
+  TASK_TAG_COLUMNS,
+  validateTagIds,
+  setTaskTags,
+  copyTaskTags
+};
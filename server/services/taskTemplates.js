@@ -0,0 +1,163 @@
+// Task templates: the fields a new task of a workspace starts with, filled in when a task is created from one
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+
+const PRIORITIES = ['urgent', 'high', 'normal', 'low'];
+const MAX_NAME_LENGTH = 100;
+const MAX_TITLE_LENGTH = 255;
+const MAX_DUE_OFFSET_DAYS = 3650;
+
+// Values of the placeholders a title pattern or description may contain, for the day a task is created
+const PLACEHOLDERS = {
+  date: (day) => day.format('YYYY-MM-DD'),
+  weekday: (day) => day.format('dddd'),
+  week: (day) => String(day.isoWeek()),
+  month: (day) => day.format('MMMM'),
+  year: (day) => day.format('YYYY')
+};
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+// Template columns with its tags and the default assignees that can still access its workspace.
+// Expects the template table to be aliased as tt.
+const TEMPLATE_COLUMNS = `
+           tt.*, c.name as category_name,
+           COALESCE(
+             (SELECT ARRAY_AGG(tg.id ORDER BY tg.name)
+              FROM task_template_tags ttt
+              JOIN tags tg ON ttt.tag_id = tg.id
+              WHERE ttt.template_id = tt.id),
+             ARRAY[]::int[]
+           ) as tag_ids,
+           COALESCE(
+             (SELECT ARRAY_AGG(u.id ORDER BY u.name)
+              FROM task_template_assignees tta
+              JOIN users u ON tta.user_id = u.id
+              JOIN workspace_permissions wp ON wp.workspace_id = tt.workspace_id AND wp.user_id = u.id
+              WHERE tta.template_id = tt.id),
+             ARRAY[]::int[]
+           ) as assignee_ids`;
+
+const isIdList = (value) => Array.isArray(value) && value.every(id => Number.isInteger(Number(id)));
+
+// Returns an error message when a template is not usable, or null if it is.
+// With partial set only the given properties are checked (for updates).
+function validateTemplate({ name, title_pattern, priority, due_offset_days, tag_ids, assignee_ids }, { partial = false } = {}) {
+  if (!partial || name !== undefined) {
+    if (typeof name !== 'string' || !name.trim()) {
+      return 'Template name is required';
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return `Template name must be at most ${MAX_NAME_LENGTH} characters`;
+    }
+  }
+  if (!partial || title_pattern !== undefined) {
+    if (typeof title_pattern !== 'string' || !title_pattern.trim()) {
+      return 'Title pattern is required';
+    }
+    if (title_pattern.trim().length > MAX_TITLE_LENGTH) {
+      return `Title pattern must be at most ${MAX_TITLE_LENGTH} characters`;
+    }
+    const unknown = [...title_pattern.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]).find(key => !PLACEHOLDERS[key]);
+    if (unknown) {
+      return `Unknown placeholder {${unknown}}. Use ${Object.keys(PLACEHOLDERS).map(key => `{${key}}`).join(', ')}`;
+    }
+  }
+  if (priority !== undefined && !PRIORITIES.includes(priority)) {
+    return 'Invalid priority';
+  }
+  if (due_offset_days !== undefined && due_offset_days !== null) {
+    const offset = Number(due_offset_days);
+    if (!Number.isInteger(offset) || offset < 0 || offset > MAX_DUE_OFFSET_DAYS) {
+      return `due_offset_days must be a whole number of days between 0 and ${MAX_DUE_OFFSET_DAYS}`;
+    }
+  }
+  if (tag_ids !== undefined && !isIdList(tag_ids)) {
+    return 'tag_ids must be an array of tag ids';
+  }
+  if (assignee_ids !== undefined && !isIdList(assignee_ids)) {
+    return 'assignee_ids must be an array of user ids';
+  }
+  return null;
+}
+
+// Replace the placeholders in a text with their values for a day ('YYYY-MM-DD'); unknown ones are kept
+function fillPlaceholders(text, today) {
+  if (!text) return text;
+  const day = moment(today, 'YYYY-MM-DD');
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, key) => (PLACEHOLDERS[key] ? PLACEHOLDERS[key](day) : placeholder));
+}
+
+async function getWorkspaceTemplates(workspaceId, db = pool) {
+  const result = await db.query(`
+    SELECT ${TEMPLATE_COLUMNS}
+    FROM task_templates tt
+    LEFT JOIN categories c ON tt.category_id = c.id
+    WHERE tt.workspace_id = $1
+    ORDER BY LOWER(tt.name)
+  `, [workspaceId]);
+  return result.rows;
+}
+
+async function getTemplate(templateId, db = pool) {
+  const result = await db.query(`
+    SELECT ${TEMPLATE_COLUMNS}
+    FROM task_templates tt
+    LEFT JOIN categories c ON tt.category_id = c.id
+    WHERE tt.id = $1
+  `, [templateId]);
+  return result.rows[0] || null;
+}
+
+// Replace a template's tags. Tags from other workspaces are ignored.
+async function setTemplateTags(templateId, tagIds, db = pool) {
+  await db.query('DELETE FROM task_template_tags WHERE template_id = $1', [templateId]);
+  if (tagIds.length === 0) return;
+
+  await db.query(`
+    INSERT INTO task_template_tags (template_id, tag_id)
+    SELECT tt.id, tg.id
+    FROM task_templates tt
+    JOIN tags tg ON tg.workspace_id = tt.workspace_id
+    WHERE tt.id = $1 AND tg.id = ANY($2::int[])
+    ON CONFLICT DO NOTHING
+  `, [templateId, tagIds.map(Number)]);
+}
+
+// Replace a template's default assignees. Users without access to the workspace are ignored.
+async function setTemplateAssignees(templateId, userIds, db = pool) {
+  await db.query('DELETE FROM task_template_assignees WHERE template_id = $1', [templateId]);
+  if (userIds.length === 0) return;
+
+  await db.query(`
+    INSERT INTO task_template_assignees (template_id, user_id)
+    SELECT tt.id, wp.user_id
+    FROM task_templates tt
+    JOIN workspace_permissions wp ON wp.workspace_id = tt.workspace_id
+    WHERE tt.id = $1 AND wp.user_id = ANY($2::int[])
+    ON CONFLICT DO NOTHING
+  `, [templateId, userIds.map(Number)]);
+}
+
+// The fields of a task created from a template on the given day ('YYYY-MM-DD')
+function renderTemplate(template, today) {
+  return {
+    title: fillPlaceholders(template.title_pattern, today).slice(0, MAX_TITLE_LENGTH),
+    description: fillPlaceholders(template.description, today) || null,
+    category_id: template.category_id,
+    tag_ids: template.tag_ids,
+    priority: template.priority,
+    due_date: template.due_offset_days === null
+      ? null
+      : moment(today, 'YYYY-MM-DD').add(template.due_offset_days, 'days').format('YYYY-MM-DD'),
+    assignee_ids: template.assignee_ids
+  };
+}
+
+module.exports = {
+  validateTemplate,
+  getWorkspaceTemplates,
+  getTemplate,
+  setTemplateTags,
+  setTemplateAssignees,
+  renderTemplate
+};
@@ -0,0 +1,299 @@
+// Moving and copying tasks between workspaces, and duplicating tasks within one
+const moment = require('moment-timezone');
+const { recordTaskChange } = require('./taskChanges');
+const { copyCustomFieldValues } = require('./customFields');
+const { copyTaskTags } = require('./taskTags');
+const { createAttachment, readAttachment } = require('./attachments');
+const { syncMentions } = require('./mentions');
+const { getWorkspaceStatuses, getInitialStatus, mapStatusToWorkflow } = require('./statuses');
+
+const MAX_TITLE_LENGTH = 255;
+const DUPLICATE_TITLE_SUFFIX = ' (copy)';
+
+// Get a task and its subtasks, parents before children. Subtasks in the trash are left out
+// unless includeTrashed is set.
+async function getTaskSubtree(taskId, db, { includeTrashed = false } = {}) {
+  const result = await db.query(`
+    WITH RECURSIVE subtree AS (
+      SELECT t.*, 0 as depth FROM tasks t WHERE t.id = $1
+      UNION ALL
+      SELECT t.*, s.depth + 1 FROM tasks t
+      INNER JOIN subtree s ON t.parent_task_id = s.id
+      ${includeTrashed ? '' : 'WHERE t.deleted_at IS NULL'}
+    )
+    SELECT * FROM subtree ORDER BY depth, id
+  `, [taskId]);
+  return result.rows;
+}
+
+// Find a category or tag with the same name in the target workspace, creating it if missing.
+// Returns a function mapping source ids to target ids, memoized over the whole transfer.
+function createNameMapper(table, targetWorkspaceId, userId, db) {
+  const mapped = new Map();
+  return async (sourceId) => {
+    if (!sourceId) return null;
+    if (mapped.has(sourceId)) return mapped.get(sourceId);
+
+    const sourceResult = await db.query(`SELECT name FROM ${table} WHERE id = $1`, [sourceId]);
+    if (sourceResult.rowCount === 0) return null;
+    const { name } = sourceResult.rows[0];
+
+    const existingResult = await db.query(
+      `SELECT id FROM ${table} WHERE workspace_id = $1 AND LOWER(name) = LOWER($2) ORDER BY id LIMIT 1`,
+      [targetWorkspaceId, name]
+    );
+    let targetId;
+    if (existingResult.rowCount > 0) {
+      targetId = existingResult.rows[0].id;
+    } else {
+      const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+      const createdResult = await db.query(
+        `INSERT INTO ${table} (name, workspace_id, user_id, hidden, created_at, updated_at) VALUES ($1, $2, $3, false, $4, $4) RETURNING id`,
+        [name, targetWorkspaceId, userId, now]
+      );
+      targetId = createdResult.rows[0].id;
+    }
+    mapped.set(sourceId, targetId);
+    return targetId;
+  };
+}
+
+// Users of the task's assignees that can see the target workspace
+async function getKeptAssigneeIds(taskId, targetWorkspaceId, db) {
+  const result = await db.query(`
+    SELECT ta.user_id
+    FROM task_assignees ta
+    JOIN workspace_permissions wp ON wp.user_id = ta.user_id AND wp.workspace_id = $2
+    WHERE ta.task_id = $1
+  `, [taskId, targetWorkspaceId]);
+  return result.rows.map(row => row.user_id);
+}
+
+// Copy a task's comments to another task, oldest first so every reply finds its copied parent
+async function copyTaskComments(fromTaskId, toTaskId, db) {
+  const commentResult = await db.query('SELECT * FROM task_comments WHERE task_id = $1 ORDER BY id', [fromTaskId]);
+  const copiedCommentIds = new Map();
+  for (const comment of commentResult.rows) {
+    const commentCopyResult = await db.query(`
+      INSERT INTO task_comments (task_id, parent_comment_id, user_id, body, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+    `, [toTaskId, copiedCommentIds.get(comment.parent_comment_id) || null, comment.user_id, comment.body, comment.created_at, comment.updated_at]);
+    copiedCommentIds.set(comment.id, commentCopyResult.rows[0].id);
+    await syncMentions(toTaskId, commentCopyResult.rows[0].id, comment.body, comment.user_id, db);
+  }
+}
+
+async function getWorkspaceName(workspaceId, db) {
+  const result = await db.query('SELECT name FROM workspaces WHERE id = $1', [workspaceId]);
+  return result.rows[0] ? result.rows[0].name : null;
+}
+
+// Move a task with its subtasks to another workspace. The task keeps its id, history and comments;
+// links to tasks that stay behind (parent, dependencies) are dropped. Subtasks in the trash move
+// along, so that restoring one never links it to a parent in another workspace.
+async function moveTaskToWorkspace(task, targetWorkspaceId, userId, db) {
+  const subtree = await getTaskSubtree(task.id, db, { includeTrashed: true });
+  const subtreeIds = subtree.map(row => row.id);
+  const mapCategory = createNameMapper('categories', targetWorkspaceId, userId, db);
+  const mapTag = createNameMapper('tags', targetWorkspaceId, userId, db);
+  const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+  const sourceWorkspaceName = await getWorkspaceName(task.workspace_id, db);
+  const targetWorkspaceName = await getWorkspaceName(targetWorkspaceId, db);
+  const sourceStatuses = await getWorkspaceStatuses(task.workspace_id, db);
+  const targetStatuses = await getWorkspaceStatuses(targetWorkspaceId, db);
+
+  for (const row of subtree) {
+    // A status the target workflow lacks becomes its first status of the same category
+    const status = mapStatusToWorkflow(row.status, sourceStatuses, targetStatuses);
+    await db.query(
+      'UPDATE tasks SET workspace_id = $1, category_id = $2, parent_task_id = $3, status = $4, last_modified = $5 WHERE id = $6',
+      [targetWorkspaceId, await mapCategory(row.category_id), row.id === task.id ? null : row.parent_task_id, status, now, row.id]
+    );
+    if (status !== row.status) {
+      await recordTaskChange(row.id, 'status', row.status, status, userId, db);
+    }
+
+    const tagResult = await db.query('SELECT tag_id FROM task_tags WHERE task_id = $1', [row.id]);
+    await db.query('DELETE FROM task_tags WHERE task_id = $1', [row.id]);
+    for (const { tag_id } of tagResult.rows) {
+      await db.query(
+        'INSERT INTO task_tags (task_id, tag_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+        [row.id, await mapTag(tag_id)]
+      );
+    }
+
+    // Custom fields are kept where the target workspace has a field with the same name and type
+    await copyCustomFieldValues(row.id, row.id, targetWorkspaceId, db);
+
+    const keptAssigneeIds = await getKeptAssigneeIds(row.id, targetWorkspaceId, db);
+    await db.query(
+      'DELETE FROM task_assignees WHERE task_id = $1 AND NOT (user_id = ANY($2::int[]))',
+      [row.id, keptAssigneeIds]
+    );
+
+    await recordTaskChange(row.id, 'workspace', sourceWorkspaceName, targetWorkspaceName, userId, db);
+  }
+
+  // Dependencies may not cross workspaces
+  await db.query(`
+    DELETE FROM task_dependencies
+    WHERE (task_id = ANY($1::int[])) <> (depends_on_task_id = ANY($1::int[]))
+  `, [subtreeIds]);
+
+  return subtreeIds;
+}
+
+// Copy a task with its subtasks, tags, assignees, history and comments into another workspace.
+// Returns the id of the copy of the task itself.
+async function copyTaskToWorkspace(task, targetWorkspaceId, userId, db) {
+  const subtree = await getTaskSubtree(task.id, db);
+  const mapCategory = createNameMapper('categories', targetWorkspaceId, userId, db);
+  const mapTag = createNameMapper('tags', targetWorkspaceId, userId, db);
+  const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+  const sourceStatuses = await getWorkspaceStatuses(task.workspace_id, db);
+  const targetStatuses = await getWorkspaceStatuses(targetWorkspaceId, db);
+  const copiedIds = new Map();
+
+  for (const row of subtree) {
+    const insertResult = await db.query(`
+      INSERT INTO tasks (user_id, workspace_id, title, description, category_id, priority, status, due_date,
+                         start_date, completion_date, parent_task_id, recurrence_rule, estimate, created_at, last_modified)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $14)
+      RETURNING id
+    `, [
+      userId,
+      targetWorkspaceId,
+      row.title,
+      row.description,
+      await mapCategory(row.category_id),
+      row.priority,
+      mapStatusToWorkflow(row.status, sourceStatuses, targetStatuses),
+      row.due_date,
+      row.start_date,
+      row.completion_date,
+      row.id === task.id ? null : copiedIds.get(row.parent_task_id),
+      row.recurrence_rule ? JSON.stringify(row.recurrence_rule) : null,
+      row.estimate,
+      now
+    ]);
+    const copyId = insertResult.rows[0].id;
+    copiedIds.set(row.id, copyId);
+
+    const tagResult = await db.query('SELECT tag_id FROM task_tags WHERE task_id = $1', [row.id]);
+    for (const { tag_id } of tagResult.rows) {
+      await db.query(
+        'INSERT INTO task_tags (task_id, tag_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+        [copyId, await mapTag(tag_id)]
+      );
+    }
+
+    await copyCustomFieldValues(row.id, copyId, targetWorkspaceId, db);
+    // Mentions of people without access to the target workspace are dropped
+    await syncMentions(copyId, null, row.description, userId, db);
+
+    for (const assigneeId of await getKeptAssigneeIds(row.id, targetWorkspaceId, db)) {
+      await db.query(
+        'INSERT INTO task_assignees (task_id, user_id, assigned_by, assigned_at) VALUES ($1, $2, $3, CURRENT_TIMESTAMP)',
+        [copyId, assigneeId, userId]
+      );
+    }
+
+    await db.query(`
+      INSERT INTO task_history (task_id, status, notes, action_date)
+      SELECT $1, status, notes, action_date FROM task_history WHERE task_id = $2 ORDER BY id
+    `, [copyId, row.id]);
+
+    await copyTaskComments(row.id, copyId, db);
+
+    await recordTaskChange(copyId, 'copied_from', null, `#${row.id} ${row.title}`, userId, db);
+  }
+
+  return copiedIds.get(task.id);
+}
+
+// Duplicate a task next to itself, under the same parent. The copy keeps the title (with a suffix),
+// description, category, tags, priority, due date, estimate, custom fields and assignees, but starts
+// over in the first status of the workflow without start or completion dates. Subtasks, attachments
+// and comments are copied when asked for. Returns the id of the copy and the ids of every task created.
+// The storage keys of the copied files are added to storageKeys as they are written, so the caller can
+// remove them if the transaction is rolled back, also when copying fails halfway.
+async function duplicateTask(task, { subtasks = false, attachments = false, comments = false, storageKeys = [] }, userId, db) {
+  const rows = subtasks ? await getTaskSubtree(task.id, db) : [task];
+  const initialStatus = getInitialStatus(await getWorkspaceStatuses(task.workspace_id, db));
+  const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+  const copiedIds = new Map();
+
+  for (const row of rows) {
+    const isRoot = row.id === task.id;
+    const title = isRoot
+      ? `${row.title.slice(0, MAX_TITLE_LENGTH - DUPLICATE_TITLE_SUFFIX.length)}${DUPLICATE_TITLE_SUFFIX}`
+      : row.title;
+    const insertResult = await db.query(`
+      INSERT INTO tasks (user_id, workspace_id, title, description, category_id, priority, status, due_date,
+                         parent_task_id, estimate, created_at, last_modified)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $11)
+      RETURNING id
+    `, [
+      userId,
+      row.workspace_id,
+      title,
+      row.description,
+      row.category_id,
+      row.priority,
+      initialStatus.key,
+      row.due_date,
+      isRoot ? row.parent_task_id : copiedIds.get(row.parent_task_id),
+      row.estimate,
+      now
+    ]);
+    const copyId = insertResult.rows[0].id;
+    copiedIds.set(row.id, copyId);
+
+    await copyTaskTags(row.id, copyId, db);
+    await copyCustomFieldValues(row.id, copyId, row.workspace_id, db);
+    await syncMentions(copyId, null, row.description, userId, db);
+
+    for (const assigneeId of await getKeptAssigneeIds(row.id, row.workspace_id, db)) {
+      await db.query(
+        'INSERT INTO task_assignees (task_id, user_id, assigned_by, assigned_at) VALUES ($1, $2, $3, $4)',
+        [copyId, assigneeId, userId, now]
+      );
+    }
+
+    await db.query(
+      'INSERT INTO task_history (task_id, status, notes, action_date) VALUES ($1, $2, $3, $4)',
+      [copyId, initialStatus.key, `Duplicated from #${row.id}`, now]
+    );
+
+    if (comments) {
+      await copyTaskComments(row.id, copyId, db);
+    }
+
+    if (attachments) {
+      const attachmentResult = await db.query('SELECT * FROM task_attachments WHERE task_id = $1 ORDER BY id', [row.id]);
+      for (const attachment of attachmentResult.rows) {
+        // A file missing from storage cannot be copied; the original still shows it as missing
+        const data = await readAttachment(attachment);
+        if (!data) continue;
+        const copy = await createAttachment(copyId, {
+          fileName: attachment.file_name,
+          contentType: attachment.content_type,
+          data,
+          createdAt: attachment.created_at
+        }, attachment.uploaded_by, db);
+        storageKeys.push(copy.storage_key);
+      }
+    }
+
+    await recordTaskChange(copyId, 'copied_from', null, `#${row.id} ${row.title}`, userId, db);
+  }
+
+  return { taskId: copiedIds.get(task.id), taskIds: [...copiedIds.values()] };
+}
+
+module.exports = {
+  moveTaskToWorkspace,
+  copyTaskToWorkspace,
+  duplicateTask
+};
@@ -0,0 +1,82 @@
+// Optimistic concurrency for task edits: clients send the last_modified they last saw as the task's
+// version, and an edit made against an older version is rejected with the changes it would overwrite.
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+
+// Fields of PUT /api/tasks/:id and the name their changes are logged under in task_changes
+const EDITABLE_FIELDS = {
+  title: 'title',
+  description: 'description',
+  category_id: 'category',
+  tag_ids: 'tags',
+  priority: 'priority',
+  status: 'status',
+  start_date: 'start_date',
+  due_date: 'due_date',
+  completion_date: 'completion_date',
+  parent_task_id: 'parent_task',
+  recurrence_rule: 'recurrence',
+  estimate: 'estimate'
+};
+
+// The version a request was made against: an If-Match header or a version field in the body.
+// Returns null when the client did not send one, so older clients keep last-write-wins.
+function getRequestedVersion(req) {
+  const version = req.body.version !== undefined ? req.body.version : req.get('If-Match');
+  if (!version) return null;
+  // If-Match values may be quoted like ETags
+  return String(version).replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+}
+
+// Whether a task has been modified since the given version; unreadable versions count as stale
+function isStaleVersion(task, version) {
+  const versionTime = new Date(version).getTime();
+  if (Number.isNaN(versionTime)) return true;
+  return new Date(task.last_modified).getTime() !== versionTime;
+}
+
+// The version as the UTC wall-clock value last_modified holds, or null when it cannot be read.
+// node-pg reads timestamp columns as local time, so the version's local date and time are the stored ones.
+function toStoredTimestamp(version) {
+  const versionTime = moment(new Date(version));
+  return versionTime.isValid() ? versionTime.format('YYYY-MM-DD HH:mm:ss.SSS') : null;
+}
+
+// Compare values the way the client sends them, e.g. dates as 'YYYY-MM-DD' and empty values as null
+function toComparableValue(value) {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (Array.isArray(value)) return JSON.stringify(value.map(Number).sort((a, b) => a - b));
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// What a stale edit would overwrite: the changes made since the version it was based on, and the
+// requested fields someone else changed to a different value, as { field, yours, theirs }.
+// task is the current row with tag_ids, as returned by GET /api/tasks/:id.
+async function getTaskConflicts(task, version, requested, db = pool) {
+  // changed_at is written as UTC wall-clock time too, so both are compared as the values stored
+  const changesResult = await db.query(`
+    SELECT tc.*, u.name as actor_name
+    FROM task_changes tc
+    LEFT JOIN users u ON tc.changed_by = u.id
+    WHERE tc.task_id = $1 AND ($2::timestamp IS NULL OR tc.changed_at::timestamp > $2::timestamp)
+    ORDER BY tc.changed_at DESC, tc.id DESC
+  `, [task.id, toStoredTimestamp(version)]);
+  const changedFields = new Set(changesResult.rows.map(change => change.field));
+
+  const conflicts = [];
+  for (const [key, field] of Object.entries(EDITABLE_FIELDS)) {
+    if (requested[key] === undefined || !changedFields.has(field)) continue;
+    if (toComparableValue(requested[key]) === toComparableValue(task[key])) continue;
+    conflicts.push({ field: key, yours: requested[key], theirs: task[key] === undefined ? null : task[key] });
+  }
+
+  return { changes: changesResult.rows, conflicts };
+}
+
+module.exports = {
+  getRequestedVersion,
+  isStaleVersion,
+  getTaskConflicts
+};
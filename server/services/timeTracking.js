@@ -0,0 +1,48 @@
+// Time tracking (time_entries table): timers follow the task status, entries can also be added by hand
+const { pool } = require('../database-pg');
+const { getWorkingStatus } = require('./statuses');
+
+// Length of an entry in seconds; running entries count up to now
+const DURATION_SECONDS_SQL = (alias) =>
+  `EXTRACT(EPOCH FROM (COALESCE(${alias}.ended_at, CURRENT_TIMESTAMP) - ${alias}.started_at))::int`;
+
+// Start the user's timer on a task; does nothing when one is already running
+async function startTimer(taskId, userId, db = pool) {
+  await db.query(`
+    INSERT INTO time_entries (task_id, user_id, started_at, source)
+    VALUES ($1, $2, CURRENT_TIMESTAMP, 'timer')
+    ON CONFLICT (task_id, user_id) WHERE ended_at IS NULL DO NOTHING
+  `, [taskId, userId]);
+}
+
+// Stop all running timers on the given tasks
+async function stopTimers(taskIds, db = pool) {
+  await db.query(`
+    UPDATE time_entries SET ended_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+    WHERE task_id = ANY($1::int[]) AND ended_at IS NULL
+  `, [taskIds.map(Number)]);
+}
+
+// Whether moving a task to this status stops every running timer on it:
+// timers only run while the task is in the workflow's working status
+function stopsTimers(statuses, status) {
+  const workingStatus = getWorkingStatus(statuses);
+  return !workingStatus || status !== workingStatus.key;
+}
+
+// Start or stop timers after a task moved to a new status of its workflow
+async function syncTimersWithStatus(taskId, oldStatus, newStatus, userId, statuses, { autoStart = true } = {}, db = pool) {
+  if (stopsTimers(statuses, newStatus)) {
+    await stopTimers([taskId], db);
+  } else if (oldStatus !== newStatus && autoStart) {
+    await startTimer(taskId, userId, db);
+  }
+}
+
+module.exports = {
+  DURATION_SECONDS_SQL,
+  startTimer,
+  stopTimers,
+  stopsTimers,
+  syncTimersWithStatus
+};
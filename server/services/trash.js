@@ -0,0 +1,65 @@
+// Trash bin for soft-deleted tasks
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+const { getSubtreeStorageKeys, removeStoredFiles } = require('./attachments');
+
+// Days a task stays in the trash before it is purged for good
+const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS, 10) || 30;
+
+// A trashed subtask that was deleted together with its parent is listed under that parent,
+// so the trash only shows the tasks that were deleted directly
+const TRASH_ROOT_CONDITION = `NOT EXISTS (
+  SELECT 1 FROM tasks p WHERE p.id = t.parent_task_id AND p.deleted_at = t.deleted_at
+)`;
+
+// Get the ids of a trashed task and the subtasks that were trashed along with it
+async function getTrashedSubtreeIds(task, db = pool) {
+  const result = await db.query(`
+    WITH RECURSIVE subtree AS (
+      SELECT id FROM tasks WHERE id = $1
+      UNION ALL
+      SELECT t.id FROM tasks t
+      INNER JOIN subtree s ON t.parent_task_id = s.id
+      WHERE t.deleted_at = $2
+    )
+    SELECT id FROM subtree
+  `, [task.id, task.deleted_at]);
+  return result.rows.map(row => row.id);
+}
+
+// Permanently delete tasks; their subtasks, comments, tags and attachments go with them through the
+// foreign keys, and the attached files are removed from storage afterwards
+async function purgeTasks(taskIds, db = pool) {
+  if (taskIds.length === 0) return;
+  const storageKeys = await getSubtreeStorageKeys(taskIds, db);
+  await db.query(`
+    WITH RECURSIVE subtree AS (
+      SELECT id FROM tasks WHERE id = ANY($1::int[])
+      UNION
+      SELECT t.id FROM tasks t INNER JOIN subtree s ON t.parent_task_id = s.id
+    )
+    DELETE FROM task_history WHERE task_id IN (SELECT id FROM subtree)
+  `, [taskIds]);
+  await db.query('DELETE FROM tasks WHERE id = ANY($1::int[])', [taskIds]);
+  await removeStoredFiles(storageKeys);
+}
+
+// Purge every task that has been in the trash longer than the retention period
+async function purgeExpiredTrash() {
+  const cutoff = moment().utc().subtract(TRASH_RETENTION_DAYS, 'days').format('YYYY-MM-DD HH:mm:ss');
+  const result = await pool.query('SELECT id FROM tasks WHERE deleted_at IS NOT NULL AND deleted_at < $1', [cutoff]);
+  const taskIds = result.rows.map(row => row.id);
+  await purgeTasks(taskIds);
+  if (taskIds.length > 0) {
+    console.log(`🗑️ Purged ${taskIds.length} task(s) trashed more than ${TRASH_RETENTION_DAYS} days ago`);
+  }
+  return taskIds.length;
+}
+
+module.exports = {
+  TRASH_RETENTION_DAYS,
+  TRASH_ROOT_CONDITION,
+  getTrashedSubtreeIds,
+  purgeTasks,
+  purgeExpiredTrash
+};
@@ -0,0 +1,31 @@
+// Per-user time zones: every date-of-day computation made for a request (start and completion
+// dates, "today" in filters, escalation on edits) uses the time zone of the requesting user
+const moment = require('moment-timezone');
+const { pool } = require('../database-pg');
+const { getLocalToday } = require('./businessDays');
+
+// Used until the user's browser has reported a time zone
+const DEFAULT_TIMEZONE = 'UTC';
+
+function isValidTimezone(timezone) {
+  return typeof timezone === 'string' && Boolean(moment.tz.zone(timezone));
+}
+
+// The user's time zone, or the default if none is stored
+async function getUserTimezone(userId, db = pool) {
+  const result = await db.query('SELECT timezone FROM users WHERE id = $1', [userId]);
+  const timezone = result.rows[0] && result.rows[0].timezone;
+  return isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+// Today's date ('YYYY-MM-DD') where the user is
+async function getUserToday(userId, db = pool) {
+  return getLocalToday(await getUserTimezone(userId, db));
+}
+
+module.exports = {
+  DEFAULT_TIMEZONE,
+  isValidTimezone,
+  getUserTimezone,
+  getUserToday
+};
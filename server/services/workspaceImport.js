@@ -0,0 +1,338 @@
+// Importing workspaces from an export file (GET /api/export)
+const moment = require('moment-timezone');
+const { createDefaultStatuses } = require('./statuses');
+const { createAttachment } = require('./attachments');
+const { syncMentions } = require('./mentions');
+
+const byWorkspace = (rows, workspaceId) => (rows || []).filter(row => row.workspace_id === workspaceId);
+
+// Workspaces of the file that exist but are not owned by the user; the import may not replace them
+async function getUnownedWorkspaces(workspaceIds, userId, db) {
+  if (workspaceIds.length === 0) return [];
+  const result = await db.query(`
+    SELECT w.id, w.name
+    FROM workspaces w
+    WHERE w.id = ANY($1::int[])
+      AND NOT EXISTS (
+        SELECT 1 FROM workspace_permissions wp
+        WHERE wp.workspace_id = w.id AND wp.user_id = $2 AND wp.access_level = 'owner'
+      )
+  `, [workspaceIds, userId]);
+  return result.rows;
+}
+
+// Ids of the users of the file that exist here; people of another installation are left out
+async function getKnownUserIds(importData, db) {
+  const userIds = [
+    ...(importData.tasks || []).flatMap(task => [task.user_id, task.deleted_by]),
+    ...(importData.taskAssignees || []).flatMap(assignee => [assignee.user_id, assignee.assigned_by]),
+    ...(importData.taskComments || []).map(comment => comment.user_id),
+    ...(importData.taskAttachments || []).map(attachment => attachment.uploaded_by)
+  ].filter(Number.isInteger);
+  if (userIds.length === 0) return new Set();
+  const result = await db.query('SELECT id FROM users WHERE id = ANY($1::int[])', [[...new Set(userIds)]]);
+  return new Set(result.rows.map(row => row.id));
+}
+
+// Find a category or tag with the same name in the workspace, creating it if missing
+async function findOrCreateByName(table, workspaceId, row, userId, db) {
+  const existingResult = await db.query(
+    `SELECT id FROM ${table} WHERE workspace_id = $1 AND LOWER(name) = LOWER($2) ORDER BY id LIMIT 1`,
+    [workspaceId, row.name]
+  );
+  if (existingResult.rowCount > 0) return existingResult.rows[0].id;
+
+  const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+  const createdResult = await db.query(
+    `INSERT INTO ${table} (name, workspace_id, user_id, hidden, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+    [row.name, workspaceId, userId, row.hidden || false, row.created_at || now, row.updated_at || now]
+  );
+  return createdResult.rows[0].id;
+}
+
+// Bring a workspace of the file in: one the user owns already is updated and loses its tasks and
+// status workflow to the file's; any other is created with the user as its owner.
+// Returns the id of the workspace here and whether it was created.
+async function importWorkspace(workspace, userId, replacedStorageKeys, db) {
+  const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
+  const settings = [
+    workspace.name,
+    workspace.description || '',
+    workspace.estimate_unit || 'hours',
+    workspace.escalation_enabled !== undefined ? workspace.escalation_enabled : true,
+    workspace.escalation_business_days !== undefined ? workspace.escalation_business_days : 1,
+    workspace.escalation_priority || 'urgent',
+    workspace.deescalation_enabled !== undefined ? workspace.deescalation_enabled : false,
+    workspace.timezone || 'UTC'
+  ];
+
+  const updateResult = await db.query(`
+    UPDATE workspaces
+    SET name = $2, description = $3, estimate_unit = $4, escalation_enabled = $5, escalation_business_days = $6,
+        escalation_priority = $7, deescalation_enabled = $8, timezone = $9, updated_at = $10
+    WHERE id = $1
+  `, [workspace.id, ...settings, now]);
+  if (updateResult.rowCount > 0) {
+    const storageResult = await db.query(`
+      SELECT ta.storage_key FROM task_attachments ta
+      JOIN tasks t ON ta.task_id = t.id
+      WHERE t.workspace_id = $1
+    `, [workspace.id]);
+    replacedStorageKeys.push(...storageResult.rows.map(row => row.storage_key));
+    await db.query('DELETE FROM tasks WHERE workspace_id = $1', [workspace.id]);
+    await db.query('DELETE FROM workspace_statuses WHERE workspace_id = $1', [workspace.id]);
+    return { workspaceId: workspace.id, created: false };
+  }
+
+  const createdResult = await db.query(`
+    INSERT INTO workspaces (name, description, estimate_unit, escalation_enabled, escalation_business_days,
+                            escalation_priority, deescalation_enabled, timezone, user_id, created_at, updated_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING id
+  `, [...settings, userId, workspace.created_at || now, workspace.updated_at || now]);
+  const workspaceId = createdResult.rows[0].id;
+
+  const userResult = await db.query('SELECT email FROM users WHERE id = $1', [userId]);
+  if (userResult.rows.length === 0) {
+    throw new Error('User not found');
+  }
+  const existingWorkspacesResult = await db.query('SELECT COUNT(*) FROM workspace_permissions WHERE user_id = $1', [userId]);
+  await db.query(
+    'INSERT INTO workspace_permissions (workspace_id, user_id, email, access_level, is_default) VALUES ($1, $2, $3, $4, $5)',
+    [workspaceId, userId, userResult.rows[0].email, 'owner', parseInt(existingWorkspacesResult.rows[0].count) === 0]
+  );
+  return { workspaceId, created: true };
+}
+
+// Import the workspaces of an export file with everything in them. Ids are assigned anew, so the
+// file never overwrites rows of workspaces it does not contain; categories, tags and custom fields
+// are matched by name. Storage keys of the files written are added to storageKeys as they are
+// written, so the caller can remove them if the transaction is rolled back. Returns the counts of
+// imported rows, the workspaces created and the storage keys of the files of replaced tasks, which
+// the caller removes once the import is committed.
+async function importWorkspaces(importData, userId, { storageKeys = [] }, db) {
+  const knownUserIds = await getKnownUserIds(importData, db);
+  const knownUser = (id, fallback) => knownUserIds.has(id) ? id : fallback;
+  const workspaceIds = new Map();
+  const categoryIds = new Map();
+  const tagIds = new Map();
+  const fieldIds = new Map();
+  const taskIds = new Map();
+  const commentIds = new Map();
+  const createdWorkspaceIds = [];
+  const replacedStorageKeys = [];
+  const imported = {
+    workspaces: 0,
+    workspaceStatuses: 0,
+    workspaceHolidays: 0,
+    categories: 0,
+    tags: 0,
+    customFields: 0,
+    tasks: 0,
+    taskHistory: 0,
+    taskTags: 0,
+    taskAssignees: 0,
+    taskComments: 0,
+    taskCustomFieldValues: 0,
+    taskAttachments: 0
+  };
+
+  for (const workspace of importData.workspaces || []) {
+    const { workspaceId, created } = await importWorkspace(workspace, userId, replacedStorageKeys, db);
+    workspaceIds.set(workspace.id, workspaceId);
+    if (created) createdWorkspaceIds.push(workspaceId);
+    imported.workspaces++;
+
+    // Status workflow; workspaces exported without one get the default statuses
+    const statuses = byWorkspace(importData.workspaceStatuses, workspace.id);
+    for (const status of statuses) {
+      await db.query(`
+        INSERT INTO workspace_statuses (workspace_id, key, name, color, category, position, allowed_transitions, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `, [
+        workspaceId,
+        status.key,
+        status.name,
+        status.color,
+        status.category,
+        status.position,
+        status.allowed_transitions ? JSON.stringify(status.allowed_transitions) : null,
+        status.created_at,
+        status.updated_at
+      ]);
+      imported.workspaceStatuses++;
+    }
+    if (statuses.length === 0) {
+      await createDefaultStatuses(workspaceId, db);
+    }
+
+    for (const holiday of byWorkspace(importData.workspaceHolidays, workspace.id)) {
+      await db.query(`
+        INSERT INTO workspace_holidays (workspace_id, holiday_date, name)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (workspace_id, holiday_date) DO UPDATE SET name = EXCLUDED.name
+      `, [workspaceId, holiday.holiday_date, holiday.name || '']);
+      imported.workspaceHolidays++;
+    }
+
+    for (const category of byWorkspace(importData.categories, workspace.id)) {
+      categoryIds.set(category.id, await findOrCreateByName('categories', workspaceId, category, userId, db));
+      imported.categories++;
+    }
+    for (const tag of byWorkspace(importData.tags, workspace.id)) {
+      tagIds.set(tag.id, await findOrCreateByName('tags', workspaceId, tag, userId, db));
+      imported.tags++;
+    }
+
+    // A field already here under the same name keeps its type; values of a different type are left out
+    for (const field of byWorkspace(importData.customFields, workspace.id)) {
+      await db.query(`
+        INSERT INTO custom_fields (workspace_id, name, field_type, options, show_in_list, position, created_by, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT (workspace_id, name) DO NOTHING
+      `, [
+        workspaceId,
+        field.name,
+        field.field_type,
+        JSON.stringify(field.options || []),
+        field.show_in_list || false,
+        field.position || 0,
+        userId,
+        field.created_at,
+        field.updated_at
+      ]);
+      const fieldResult = await db.query(
+        'SELECT id FROM custom_fields WHERE workspace_id = $1 AND name = $2 AND field_type = $3',
+        [workspaceId, field.name, field.field_type]
+      );
+      if (fieldResult.rowCount > 0) {
+        fieldIds.set(field.id, fieldResult.rows[0].id);
+        imported.customFields++;
+      }
+    }
+  }
+
+  // Tasks of workspaces that are not in the file are left out
+  const tasks = (importData.tasks || []).filter(task => workspaceIds.has(task.workspace_id));
+  for (const task of tasks) {
+    const insertResult = await db.query(`
+      INSERT INTO tasks (user_id, workspace_id, title, description, category_id, priority, status, due_date, start_date,
+                         completion_date, recurrence_rule, estimate, position, escalated_from, last_modified, created_at,
+                         deleted_at, deleted_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+      RETURNING id
+    `, [
+      knownUser(task.user_id, userId),
+      workspaceIds.get(task.workspace_id),
+      task.title,
+      task.description,
+      categoryIds.get(task.category_id) || null,
+      task.priority,
+      task.status,
+      task.due_date,
+      task.start_date,
+      task.completion_date,
+      task.recurrence_rule ? JSON.stringify(task.recurrence_rule) : null,
+      task.estimate !== undefined ? task.estimate : null,
+      task.position !== undefined ? task.position : null,
+      task.escalated_from || null,
+      task.last_modified,
+      task.created_at,
+      task.deleted_at || null,
+      knownUser(task.deleted_by, null)
+    ]);
+    taskIds.set(task.id, insertResult.rows[0].id);
+    imported.tasks++;
+  }
+
+  // Link subtasks and recurrences once every task exists
+  for (const task of tasks) {
+    const parentTaskId = taskIds.get(task.parent_task_id) || null;
+    const recurringFromTaskId = taskIds.get(task.recurring_from_task_id) || null;
+    if (parentTaskId || recurringFromTaskId) {
+      await db.query(
+        'UPDATE tasks SET parent_task_id = $1, recurring_from_task_id = $2 WHERE id = $3',
+        [parentTaskId, recurringFromTaskId, taskIds.get(task.id)]
+      );
+    }
+    await syncMentions(taskIds.get(task.id), null, task.description, userId, db);
+  }
+
+  for (const history of importData.taskHistory || []) {
+    if (!taskIds.has(history.task_id)) continue;
+    await db.query(
+      'INSERT INTO task_history (task_id, status, action_date, notes) VALUES ($1, $2, $3, $4)',
+      [taskIds.get(history.task_id), history.status, history.action_date, history.notes]
+    );
+    imported.taskHistory++;
+  }
+
+  for (const taskTag of importData.taskTags || []) {
+    if (!taskIds.has(taskTag.task_id) || !tagIds.has(taskTag.tag_id)) continue;
+    await db.query(
+      'INSERT INTO task_tags (task_id, tag_id, created_at) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING',
+      [taskIds.get(taskTag.task_id), tagIds.get(taskTag.tag_id), taskTag.created_at]
+    );
+    imported.taskTags++;
+  }
+
+  for (const assignee of importData.taskAssignees || []) {
+    if (!taskIds.has(assignee.task_id) || !knownUserIds.has(assignee.user_id)) continue;
+    await db.query(
+      'INSERT INTO task_assignees (task_id, user_id, assigned_by, assigned_at) VALUES ($1, $2, $3, $4) ON CONFLICT DO NOTHING',
+      [taskIds.get(assignee.task_id), assignee.user_id, knownUser(assignee.assigned_by, userId), assignee.assigned_at]
+    );
+    imported.taskAssignees++;
+  }
+
+  // Oldest first, so every reply finds its imported parent
+  const comments = (importData.taskComments || [])
+    .filter(comment => taskIds.has(comment.task_id))
+    .sort((a, b) => a.id - b.id);
+  for (const comment of comments) {
+    const commentResult = await db.query(`
+      INSERT INTO task_comments (task_id, parent_comment_id, user_id, body, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+    `, [
+      taskIds.get(comment.task_id),
+      commentIds.get(comment.parent_comment_id) || null,
+      knownUser(comment.user_id, null),
+      comment.body,
+      comment.created_at,
+      comment.updated_at
+    ]);
+    commentIds.set(comment.id, commentResult.rows[0].id);
+    await syncMentions(taskIds.get(comment.task_id), commentResult.rows[0].id, comment.body, knownUser(comment.user_id, null), db);
+    imported.taskComments++;
+  }
+
+  for (const fieldValue of importData.taskCustomFieldValues || []) {
+    if (!taskIds.has(fieldValue.task_id) || !fieldIds.has(fieldValue.field_id)) continue;
+    await db.query(
+      'INSERT INTO task_custom_field_values (task_id, field_id, value, updated_at) VALUES ($1, $2, $3, $4) ON CONFLICT (task_id, field_id) DO NOTHING',
+      [taskIds.get(fieldValue.task_id), fieldIds.get(fieldValue.field_id), JSON.stringify(fieldValue.value), fieldValue.updated_at]
+    );
+    imported.taskCustomFieldValues++;
+  }
+
+  // Exported files without content are skipped
+  for (const attachment of importData.taskAttachments || []) {
+    if (!taskIds.has(attachment.task_id) || !attachment.content) continue;
+    const created = await createAttachment(taskIds.get(attachment.task_id), {
+      fileName: attachment.file_name,
+      contentType: attachment.content_type,
+      data: Buffer.from(attachment.content, 'base64'),
+      createdAt: attachment.created_at
+    }, knownUser(attachment.uploaded_by, null), db);
+    storageKeys.push(created.storage_key);
+    imported.taskAttachments++;
+  }
+
+  return { imported, createdWorkspaceIds, replacedStorageKeys };
+}
+
+module.exports = {
+  getUnownedWorkspaces,
+  importWorkspaces
+};
@@ -1,5 +1,6 @@
 // Utility functions for filter management
 const moment = require('moment-timezone');
+const { getUserToday } = require('./userTimezone');
 
 // Helper function to create default preset filters for a user in a workspace
 async function createDefaultPresetFilters(client, userId, workspaceId) {
@@ -21,7 +22,7 @@ async function createDefaultPresetFilters(client, userId, workspaceId) {
     // Define the conditions for each filter
     const filterConditions = {
       'Hide Completed': [
-        { condition_type: 'list', field: 'status', operator: '!=', values: '["done"]' }
+        { condition_type: 'list', field: 'status_category', operator: '!=', values: '["done"]' }
       ],
       'Assigned to Me': [
         { condition_type: 'list', field: 'assignee', operator: '=', values: '["current_user_id"]' }
@@ -31,17 +32,17 @@ async function createDefaultPresetFilters(client, userId, workspaceId) {
       ],
       'Overdue Tasks': [
         { condition_type: 'date_diff', date_from: 'today', date_to: 'due_date', operator: '<', values: '[0]', unit: 'days' },
-        { condition_type: 'list', field: 'status', operator: '!=', values: '["done"]' }
+        { condition_type: 'list', field: 'status_category', operator: '!=', values: '["done"]' }
       ],
       'High/Urgent Priority': [
         { condition_type: 'list', field: 'priority', operator: 'IN', values: '["high", "urgent"]' }
       ],
       'Active in Past 7 Days': [
-        { condition_type: 'list', field: 'status', operator: 'IN', values: '["in_progress", "paused"]' },
+        { condition_type: 'list', field: 'status_category', operator: 'IN', values: '["active"]' },
         { condition_type: 'date_diff', date_from: 'completion_date', date_to: 'today', operator: '<=', values: '[7]', unit: 'days' }
       ],
       'Unchanged in Past 14 Days': [
-        { condition_type: 'list', field: 'status', operator: '!=', values: '["done"]' },
+        { condition_type: 'list', field: 'status_category', operator: '!=', values: '["done"]' },
         { condition_type: 'date_diff', date_from: 'last_modified', date_to: 'today', operator: '>', values: '[14]', unit: 'days' }
       ],
       'Lasted More Than 1 Day': [
@@ -91,8 +92,9 @@ async function createExampleTasks(client, userId, workspaceId) {
     console.log(`📝 Creating example category, tags, and 7 tasks for user ${userId} in workspace ${workspaceId}`);
     
     const now = moment().utc().format('YYYY-MM-DD HH:mm:ss');
-    const today = moment().format('YYYY-MM-DD');
-    const tomorrow = moment().add(1, 'day').format('YYYY-MM-DD');
+    // Due dates are relative to today where the new user is
+    const today = await getUserToday(userId, client);
+    const tomorrow = moment(today).add(1, 'day').format('YYYY-MM-DD');
     
     // Create example category
     const categoryResult = await client.query(
@@ -179,12 +181,17 @@ async function createExampleTasks(client, userId, workspaceId) {
     // Insert each example task
     for (const task of exampleTasks) {
       const taskResult = await client.query(
-        'INSERT INTO tasks (user_id, workspace_id, title, description, priority, status, due_date, category_id, tag_id, created_at, last_modified) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $10) RETURNING id',
-        [userId, workspaceId, task.title, task.description, task.priority, task.status, task.due_date, task.category_id, task.tag_id, now]
+        'INSERT INTO tasks (user_id, workspace_id, title, description, priority, status, due_date, category_id, created_at, last_modified) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $9) RETURNING id',
+        [userId, workspaceId, task.title, task.description, task.priority, task.status, task.due_date, task.category_id, now]
       );
       
       const taskId = taskResult.rows[0].id;
       
+      await client.query(
+        'INSERT INTO task_tags (task_id, tag_id) VALUES ($1, $2)',
+        [taskId, task.tag_id]
+      );
+      
       // Assign the user as the assignee for this task
       await client.query(
         'INSERT INTO task_assignees (task_id, user_id, assigned_by, assigned_at) VALUES ($1, $2, $2, $3)',